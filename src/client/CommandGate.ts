@@ -0,0 +1,95 @@
+/**
+ * Isolation for transactions run by a SnapDB client
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+interface Scope {
+  exclusive: boolean;
+  /** Waits in progress that took the command out of the running count */
+  suspended: number;
+}
+
+/**
+ * Commands pass through the gate concurrently, except while a transaction
+ * holds it: commands arriving meanwhile wait, and the transaction first waits
+ * for the commands already running to finish. Commands issued from within a
+ * command or the transaction itself pass straight through, as they are part
+ * of it.
+ */
+export class CommandGate {
+  private running = 0;
+  private exclusive?: Promise<void>;
+  private onIdle?: () => void;
+  private scope = new AsyncLocalStorage<Scope>();
+
+  async run<T>(command: () => Promise<T>): Promise<T> {
+    if (this.scope.getStore()) {
+      return command();
+    }
+
+    while (this.exclusive) {
+      await this.exclusive;
+    }
+
+    this.running++;
+    try {
+      return await this.scope.run({ exclusive: false, suspended: 0 }, command);
+    } finally {
+      this.leave();
+    }
+  }
+
+  /**
+   * Wait from within a command without holding transactions up, as a
+   * blocked command does. The command counts as running again, after any
+   * transaction that started meanwhile, once the wait is over. Within a
+   * transaction the wait holds the gate like any other step.
+   */
+  async suspend<T>(wait: Promise<T>): Promise<T> {
+    const scope = this.scope.getStore();
+    if (!scope || scope.exclusive) {
+      return wait;
+    }
+
+    if (scope.suspended++ === 0) {
+      this.leave();
+    }
+    try {
+      return await wait;
+    } finally {
+      if (--scope.suspended === 0) {
+        while (this.exclusive) {
+          await this.exclusive;
+        }
+        this.running++;
+      }
+    }
+  }
+
+  async runExclusive<T>(transaction: () => Promise<T>): Promise<T> {
+    while (this.exclusive) {
+      await this.exclusive;
+    }
+
+    let release!: () => void;
+    this.exclusive = new Promise(resolve => (release = resolve));
+
+    try {
+      while (this.running > 0) {
+        await new Promise<void>(resolve => (this.onIdle = resolve));
+      }
+      this.onIdle = undefined;
+      return await this.scope.run({ exclusive: true, suspended: 0 }, transaction);
+    } finally {
+      this.exclusive = undefined;
+      release();
+    }
+  }
+
+  private leave(): void {
+    if (--this.running === 0) {
+      this.onIdle?.();
+    }
+  }
+}
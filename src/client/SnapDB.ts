@@ -9,102 +9,220 @@ import { fileURLToPath } from 'url';
 import {
   ISnapDB,
   SnapDBConfig,
+  ResolvedSnapDBConfig,
   SnapDBEvent,
   WorkerRequest,
   WorkerResponse,
+  CommandArgs,
   CommandContext,
   MiddlewareFn,
   Plugin,
-  StorageStats
+  ReadSnapshot,
+  ScanOptions,
+  ScanEntry,
+  CursorScanOptions,
+  CursorScanResult,
+  StorageStats,
+  WriteBatch,
+  BatchOperation,
+  Transaction,
+  ValueWithMeta,
+  ScriptInfo,
+  ValueType,
+  HashFields,
+  HashScanResult,
+  MemberScanOptions,
+  ListEnd,
+  ListPosition,
+  SetScanResult,
+  StreamConsumerInfo,
+  StreamEntry,
+  StreamGroupInfo,
+  StreamInfo,
+  StreamReadResult,
+  XAddOptions,
+  XAutoClaimResult,
+  XPendingEntry,
+  XPendingOptions,
+  XPendingSummary,
+  XReadGroupOptions,
+  XReadOptions,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZSetMembers,
+  ZSetScanResult,
+  ZStoreOptions
 } from '../types';
 import { 
   WorkerError, 
   TimeoutError, 
   ValidationError,
+  ClosedError,
   deserializeError
 } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { defaultSerializer } from '../utils/serializer';
 import { v4 as uuid } from '../utils/uuid';
+import {
+  checkBlockingTimeout,
+  checkIncrement,
+  checkInteger,
+  checkKeys,
+  checkMembers,
+  checkPopCount,
+  checkZAddOptions,
+  checkZRangeOptions,
+  checkZStoreOptions,
+  hashFieldsOf,
+  zsetMembersOf
+} from '../utils/datatypes';
+import {
+  checkIdleTime,
+  checkStreamCount,
+  checkStreamIds,
+  checkStreamName,
+  checkStreamReads,
+  checkXAddOptions,
+  parseStreamId
+} from '../utils/streams';
+import { createWriteBatch } from './WriteBatch';
+import { createTransaction } from './Transaction';
+import { CommandGate } from './CommandGate';
+import { StorageEngineConfig, WorkerEvent, WorkerMessage } from '../worker/types';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+/**
+ * Path of the worker's entry file, which sits next to the client once built.
+ * Threads cannot load TypeScript sources, so running from them takes a built
+ * entry file from SNAPDB_WORKER.
+ */
+function workerFile(): string {
+  return process.env.SNAPDB_WORKER ?? path.join(__dirname, '../worker/worker.js');
+}
+
+/** Entries a range scan fetches from the worker at a time */
+const SCAN_PAGE_SIZE = 100;
+
+const BLOCKING_COMMANDS = new Set(['BLPOP', 'BRPOP', 'BLMOVE', 'BZPOPMIN', 'XREAD', 'XREADGROUP']);
+
 export class SnapDB<K = string, V = any> extends EventEmitter implements ISnapDB<K, V> {
   private worker?: Worker;
-  private config: Required<SnapDBConfig>;
+  private config: ResolvedSnapDBConfig;
   private pendingRequests: Map<string, {
     resolve: (value: any) => void;
     reject: (error: Error) => void;
-    timeout: NodeJS.Timeout;
+    timeout?: NodeJS.Timeout;
+    command: string;
   }> = new Map();
   private middlewares: MiddlewareFn<K, V>[] = [];
   private plugins: Plugin<K, V>[] = [];
   private isReady = false;
   private readyPromise: Promise<void>;
+  private gate = new CommandGate();
 
   constructor(config: SnapDBConfig = {}) {
     super();
     
     this.config = {
+      engine: config.engine ?? 'lsm',
+      dataDir: config.dataDir,
+      walSyncPolicy: config.walSyncPolicy ?? 'everysec',
       maxMemtableSizeMB: config.maxMemtableSizeMB ?? 64,
+      maxImmutableMemtables: config.maxImmutableMemtables ?? 2,
       compactionIntervalMs: config.compactionIntervalMs ?? 60000,
+      compaction: config.compaction ?? {},
       enableBloomFilter: config.enableBloomFilter ?? true,
+      bloomFilter: config.bloomFilter ?? {},
+      prefixExtractor: config.prefixExtractor,
+      comparator: config.comparator ?? 'bytewise',
+      blockCacheSizeMB: config.blockCacheSizeMB ?? 8,
+      maxOpenFiles: config.maxOpenFiles ?? 1000,
+      compression: config.compression ?? 'none',
       maxWorkers: config.maxWorkers ?? 1,
       serialization: config.serialization ?? defaultSerializer,
+      scriptTimeoutMs: config.scriptTimeoutMs ?? 5000,
       logLevel: config.logLevel ?? 'info'
     };
 
     logger.setLevel(this.config.logLevel);
     
     this.readyPromise = this.initializeWorker();
+    this.readyPromise.catch((error: unknown) => {
+      logger.error('Failed to start worker', { error });
+    });
   }
 
-  private async initializeWorker(): Promise<void> {
-    const workerPath = path.join(__dirname, '../worker/worker.js');
-    
-    this.worker = new Worker(workerPath);
-    
-    this.worker.on('message', (message: any) => {
-      if (message.type === 'ready') {
-        this.isReady = true;
-        this.emit('workerReady', { workerId: message.workerId });
-        logger.info('Worker ready', { workerId: message.workerId });
-        return;
-      }
-
-      this.handleWorkerResponse(message);
-    });
+  private initializeWorker(): Promise<void> {
+    const { comparator } = this.config;
+    if (typeof comparator === 'object') {
+      return Promise.reject(new ValidationError('The worker client takes a comparator by name'));
+    }
 
-    this.worker.on('error', (error) => {
-      logger.error('Worker error', error);
-      this.emit('workerError', error);
-      
-      // Reject all pending requests
-      for (const [, request] of this.pendingRequests) {
-        clearTimeout(request.timeout);
-        request.reject(new WorkerError('Worker crashed', { error }));
-      }
-      this.pendingRequests.clear();
-    });
+    const worker = new Worker(workerFile());
+    this.worker = worker;
 
-    this.worker.on('exit', (code) => {
-      logger.warn('Worker exited', { code });
-      if (code !== 0) {
-        this.emit('error', new WorkerError(`Worker exited with code ${code}`));
-      }
-    });
+    return new Promise((resolve, reject) => {
+      worker.on('message', (message: WorkerMessage<K, V>) => {
+        if (message.type === 'response') {
+          this.handleWorkerResponse(message.data as WorkerResponse<V>);
+          return;
+        }
 
-    // Wait for worker to be ready
-    return new Promise((resolve) => {
-      const checkReady = () => {
-        if (this.isReady) {
+        const event = message.data as WorkerEvent;
+        if (event.type === 'workerReady') {
+          this.isReady = true;
+          this.emit('workerReady', event.payload);
+          logger.info('Worker ready');
           resolve();
-        } else {
-          setTimeout(checkReady, 10);
+        } else if (event.type === 'workerFailed') {
+          reject(deserializeError(event.payload as Parameters<typeof deserializeError>[0]));
+        }
+      });
+
+      worker.on('error', (error) => {
+        logger.error('Worker error', error);
+        this.emit('workerError', error);
+        reject(new WorkerError('Worker crashed', { error }));
+
+        // Reject all pending requests
+        for (const [, request] of this.pendingRequests) {
+          clearTimeout(request.timeout);
+          request.reject(new WorkerError('Worker crashed', { error }));
+        }
+        this.pendingRequests.clear();
+      });
+
+      worker.on('exit', (code) => {
+        // A worker ended by close() is expected to exit
+        if (this.worker !== worker) return;
+
+        logger.warn('Worker exited', { code });
+        reject(new WorkerError(`Worker exited with code ${code}`));
+        if (code !== 0) {
+          this.emit('workerError', new WorkerError(`Worker exited with code ${code}`));
         }
+      });
+
+      const engineConfig: Omit<StorageEngineConfig, 'serializer'> = {
+        maxMemtableSizeMB: this.config.maxMemtableSizeMB,
+        maxImmutableMemtables: this.config.maxImmutableMemtables,
+        compactionIntervalMs: this.config.compactionIntervalMs,
+        compaction: this.config.compaction,
+        enableBloomFilter: this.config.enableBloomFilter,
+        bloomFilter: this.config.bloomFilter,
+        prefixExtractor: this.config.prefixExtractor,
+        comparator,
+        blockCacheSizeMB: this.config.blockCacheSizeMB,
+        maxOpenFiles: this.config.maxOpenFiles,
+        compression: this.config.compression,
+        dataDir: this.config.dataDir,
+        walSyncPolicy: this.config.walSyncPolicy,
+        scriptTimeoutMs: this.config.scriptTimeoutMs
       };
-      checkReady();
+      worker.postMessage(engineConfig);
     });
   }
 
@@ -146,13 +264,17 @@ export class SnapDB<K = string, V = any> extends EventEmitter implements ISnapDB
     };
 
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new TimeoutError(command, timeoutMs));
-      }, timeoutMs);
+      // Blocking commands may wait without a limit
+      const timeout = Number.isFinite(timeoutMs)
+        ? setTimeout(() => {
+            this.pendingRequests.delete(id);
+            reject(new TimeoutError(command, timeoutMs));
+          }, timeoutMs)
+        : undefined;
 
-      this.pendingRequests.set(id, { resolve, reject, timeout });
-      this.worker!.postMessage(request);
+      this.pendingRequests.set(id, { resolve, reject, timeout, command });
+      const message: WorkerMessage<K, V> = { type: 'request', data: request };
+      this.worker!.postMessage(message);
     });
   }
 
@@ -172,7 +294,7 @@ export class SnapDB<K = string, V = any> extends EventEmitter implements ISnapDB
       return middleware!(context, next);
     };
 
-    return next();
+    return this.gate.run(next);
   }
 
   async set(key: K, value: V, ttl?: number): Promise<void> {
@@ -343,52 +465,1539 @@ export class SnapDB<K = string, V = any> extends EventEmitter implements ISnapDB
     };
 
     await this.executeWithMiddleware(context, async () => {
-      await this.sendCommand('MSET', {
-        keys: entries.map(e => e.key),
-        values: entries.map(e => e.value),
-        ttl: entries[0]?.ttl // For simplicity, use first entry's TTL
+      const operations: BatchOperation<K, V>[] = entries.map(entry => ({ type: 'set', ...entry }));
+      await this.sendCommand('BATCH', { operations });
+      entries.forEach(({ key, value, ttl }) => this.emit('set', { key, value, ttl }));
+    });
+  }
+
+  /**
+   * Queue writes that `write()` then applies atomically in the worker
+   */
+  batch(): WriteBatch<K, V> {
+    return createWriteBatch<K, V>(async operations => {
+      const context: CommandContext<K, V> = {
+        command: 'BATCH',
+        keys: operations.map(operation => operation.key),
+        operations,
+        timestamp: Date.now()
+      };
+
+      await this.executeWithMiddleware(context, async () => {
+        await this.sendCommand('BATCH', { operations });
+        operations.forEach(operation => this.emitBatchEvent(operation));
       });
     });
   }
 
-  use(middleware: MiddlewareFn<K, V>): void {
-    this.middlewares.push(middleware);
+  /**
+   * Queue commands that `exec()` runs in isolation from other commands,
+   * aborting if a key passed to `watch()` changed in the meantime
+   */
+  multi(): Transaction<K, V> {
+    return createTransaction<K, V>(this, {
+      getVersion: key => this.sendCommand<number>('VERSION', { key }),
+      runExclusive: transaction => this.gate.runExclusive(transaction)
+    });
   }
 
-  async register(plugin: Plugin<K, V>): Promise<void> {
-    await plugin.init(this);
-    this.plugins.push(plugin);
-    logger.info('Plugin registered', { name: plugin.name, version: plugin.version });
+  /**
+   * Read a value along with the version to pass to `setIfVersion()` or
+   * `delIfVersion()`
+   */
+  async getWithMeta(key: K): Promise<ValueWithMeta<V> | null> {
+    const context: CommandContext<K, V> = {
+      command: 'GETMETA',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const meta = await this.sendCommand<ValueWithMeta<V> | null>('GETMETA', { key });
+      this.emit('get', { key, value: meta?.value ?? null });
+      return meta;
+    });
   }
 
-  override on(event: SnapDBEvent, listener: (...args: any[]) => void): this {
-    return super.on(event, listener);
+  async setIfVersion(key: K, value: V, expectedVersion: number, ttl?: number): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'SETIFVERSION',
+      key,
+      value,
+      ttl,
+      version: expectedVersion,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const version = await this.sendCommand<number>('SETIFVERSION', {
+        key,
+        value,
+        ttl,
+        version: expectedVersion
+      });
+      this.emit('set', { key, value, ttl });
+      return version;
+    });
   }
 
-  override off(event: SnapDBEvent, listener: (...args: any[]) => void): this {
-    return super.off(event, listener);
+  async delIfVersion(key: K, expectedVersion: number): Promise<boolean> {
+    const context: CommandContext<K, V> = {
+      command: 'DELIFVERSION',
+      key,
+      version: expectedVersion,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const result = await this.sendCommand<boolean>('DELIFVERSION', { key, version: expectedVersion });
+      this.emit('del', { key, deleted: result });
+      return result;
+    });
   }
 
-  async close(): Promise<void> {
-    // Destroy plugins
-    for (const plugin of this.plugins) {
-      if (plugin.destroy) {
-        await plugin.destroy();
-      }
-    }
+  /**
+   * Run a script, the source of a function taking `(keys, args)` that calls
+   * commands with `redis.call()`. No other command runs until it finishes.
+   */
+  async eval(script: string, keys: K[] = [], args: unknown[] = []): Promise<unknown> {
+    const context: CommandContext<K, V> = {
+      command: 'EVAL',
+      keys,
+      script,
+      argv: args,
+      timestamp: Date.now()
+    };
 
-    // Clear pending requests
-    for (const [, request] of this.pendingRequests) {
-      clearTimeout(request.timeout);
-      request.reject(new WorkerError('SnapDB is closing'));
-    }
-    this.pendingRequests.clear();
+    // Scripts may run up to their time limit, on top of waiting on storage
+    return this.gate.runExclusive(() =>
+      this.executeWithMiddleware(context, () =>
+        this.sendCommand('EVAL', { keys, script, argv: args }, this.config.scriptTimeoutMs + 5000)
+      )
+    );
+  }
 
-    // Terminate worker
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = undefined;
-    }
+  /**
+   * Run a script cached by `scriptLoad()` or an earlier `eval()`, or throw a
+   * `ScriptNotFoundError`
+   */
+  async evalsha(sha: string, keys: K[] = [], args: unknown[] = []): Promise<unknown> {
+    const context: CommandContext<K, V> = {
+      command: 'EVALSHA',
+      keys,
+      sha,
+      argv: args,
+      timestamp: Date.now()
+    };
+
+    // Scripts may run up to their time limit, on top of waiting on storage
+    return this.gate.runExclusive(() =>
+      this.executeWithMiddleware(context, () =>
+        this.sendCommand('EVALSHA', { keys, sha, argv: args }, this.config.scriptTimeoutMs + 5000)
+      )
+    );
+  }
+
+  /**
+   * Cache a script without running it
+   * @returns The SHA1 of the script, for `evalsha()`
+   */
+  async scriptLoad(script: string): Promise<string> {
+    const context: CommandContext<K, V> = {
+      command: 'SCRIPTLOAD',
+      script,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string>('SCRIPTLOAD', { script }));
+  }
+
+  async scriptExists(...shas: string[]): Promise<boolean[]> {
+    const context: CommandContext<K, V> = {
+      command: 'SCRIPTEXISTS',
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<boolean[]>('SCRIPTEXISTS', { shas }));
+  }
+
+  async scriptList(): Promise<ScriptInfo[]> {
+    const context: CommandContext<K, V> = {
+      command: 'SCRIPTLIST',
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<ScriptInfo[]>('SCRIPTLIST', {}));
+  }
+
+  async scriptFlush(): Promise<void> {
+    const context: CommandContext<K, V> = {
+      command: 'SCRIPTFLUSH',
+      timestamp: Date.now()
+    };
+
+    await this.executeWithMiddleware(context, async () => {
+      await this.sendCommand('SCRIPTFLUSH', {});
+    });
+  }
+
+  /**
+   * The kind of value a key holds, or `'none'` when it does not exist
+   */
+  async type(key: K): Promise<ValueType | 'none'> {
+    const context: CommandContext<K, V> = {
+      command: 'TYPE',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<ValueType | 'none'>('TYPE', { key }));
+  }
+
+  /**
+   * Set hash fields, creating the hash if needed
+   * @returns The number of fields added, not counting updated ones
+   */
+  async hset(key: K, field: string, value: V): Promise<number>;
+  async hset(key: K, fields: HashFields<V>): Promise<number>;
+  async hset(key: K, fieldOrFields: string | HashFields<V>, value?: V): Promise<number> {
+    const fields = hashFieldsOf(fieldOrFields, value);
+    const context: CommandContext<K, V> = {
+      command: 'HSET',
+      key,
+      fields: Object.keys(fields),
+      values: Object.values(fields),
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('HSET', { key, hash: fields }));
+  }
+
+  async hget(key: K, field: string): Promise<V | null> {
+    const context: CommandContext<K, V> = {
+      command: 'HGET',
+      key,
+      fields: [field],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<V | null>('HGET', { key, field }));
+  }
+
+  async hmget(key: K, fields: string[]): Promise<(V | null)[]> {
+    const context: CommandContext<K, V> = {
+      command: 'HMGET',
+      key,
+      fields,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<(V | null)[]>('HMGET', { key, fields }));
+  }
+
+  async hgetall(key: K): Promise<HashFields<V>> {
+    const context: CommandContext<K, V> = {
+      command: 'HGETALL',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<HashFields<V>>('HGETALL', { key }));
+  }
+
+  /**
+   * Remove hash fields. Removing the last one deletes the key.
+   * @returns The number of fields removed
+   */
+  async hdel(key: K, ...fields: string[]): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'HDEL',
+      key,
+      fields,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('HDEL', { key, fields }));
+  }
+
+  async hexists(key: K, field: string): Promise<boolean> {
+    const context: CommandContext<K, V> = {
+      command: 'HEXISTS',
+      key,
+      fields: [field],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<boolean>('HEXISTS', { key, field }));
+  }
+
+  async hlen(key: K): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'HLEN',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('HLEN', { key }));
+  }
+
+  async hkeys(key: K): Promise<string[]> {
+    const context: CommandContext<K, V> = {
+      command: 'HKEYS',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string[]>('HKEYS', { key }));
+  }
+
+  async hvals(key: K): Promise<V[]> {
+    const context: CommandContext<K, V> = {
+      command: 'HVALS',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<V[]>('HVALS', { key }));
+  }
+
+  /**
+   * Add an integer to a hash field holding an integer, or to 0 when missing
+   */
+  async hincrby(key: K, field: string, increment: number): Promise<number> {
+    checkIncrement(increment, true);
+    const context: CommandContext<K, V> = {
+      command: 'HINCRBY',
+      key,
+      fields: [field],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('HINCRBY', { key, field, increment })
+    );
+  }
+
+  async hincrbyfloat(key: K, field: string, increment: number): Promise<number> {
+    checkIncrement(increment, false);
+    const context: CommandContext<K, V> = {
+      command: 'HINCRBYFLOAT',
+      key,
+      fields: [field],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('HINCRBYFLOAT', { key, field, increment })
+    );
+  }
+
+  /**
+   * Page through the fields of a hash, like `scan()` with a cursor
+   */
+  async hscan(key: K, cursor: string | number, options: MemberScanOptions = {}): Promise<HashScanResult<V>> {
+    const context: CommandContext<K, V> = {
+      command: 'HSCAN',
+      key,
+      pattern: options.match,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<HashScanResult<V>>('HSCAN', { key, cursor: String(cursor), options })
+    );
+  }
+
+  /**
+   * Push values onto the head of a list, creating it if needed. Values are
+   * pushed one by one, so the last one ends up first.
+   * @returns The length of the list after the push
+   */
+  async lpush(key: K, ...values: V[]): Promise<number> {
+    return this.push('LPUSH', key, values);
+  }
+
+  /**
+   * Push values onto the tail of a list, creating it if needed
+   * @returns The length of the list after the push
+   */
+  async rpush(key: K, ...values: V[]): Promise<number> {
+    return this.push('RPUSH', key, values);
+  }
+
+  /**
+   * Pop the head of a list, or up to `count` elements from it. Popping the
+   * last element deletes the key.
+   */
+  async lpop(key: K): Promise<V | null>;
+  async lpop(key: K, count: number): Promise<V[]>;
+  async lpop(key: K, count?: number): Promise<V | null | V[]> {
+    return this.pop('LPOP', key, count);
+  }
+
+  /**
+   * Pop the tail of a list, or up to `count` elements from it
+   */
+  async rpop(key: K): Promise<V | null>;
+  async rpop(key: K, count: number): Promise<V[]>;
+  async rpop(key: K, count?: number): Promise<V | null | V[]> {
+    return this.pop('RPOP', key, count);
+  }
+
+  /**
+   * Read the elements from `start` to `stop` inclusive. Negative indexes count
+   * from the tail, so `lrange(key, 0, -1)` reads the whole list.
+   */
+  async lrange(key: K, start: number, stop: number): Promise<V[]> {
+    checkInteger(start, 'start');
+    checkInteger(stop, 'stop');
+    const context: CommandContext<K, V> = {
+      command: 'LRANGE',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<V[]>('LRANGE', { key, start, stop }));
+  }
+
+  async llen(key: K): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'LLEN',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('LLEN', { key }));
+  }
+
+  async lindex(key: K, index: number): Promise<V | null> {
+    checkInteger(index, 'index');
+    const context: CommandContext<K, V> = {
+      command: 'LINDEX',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<V | null>('LINDEX', { key, index }));
+  }
+
+  /**
+   * Replace the element at an index, or throw when the key is missing or the
+   * index out of range
+   */
+  async lset(key: K, index: number, value: V): Promise<void> {
+    checkInteger(index, 'index');
+    const context: CommandContext<K, V> = {
+      command: 'LSET',
+      key,
+      value,
+      timestamp: Date.now()
+    };
+
+    await this.executeWithMiddleware(context, () => this.sendCommand('LSET', { key, index, value }));
+  }
+
+  /**
+   * Remove the first `count` elements equal to the value, the last ones when
+   * `count` is negative, or all of them for 0
+   * @returns The number of elements removed
+   */
+  async lrem(key: K, count: number, value: V): Promise<number> {
+    checkInteger(count, 'count');
+    const context: CommandContext<K, V> = {
+      command: 'LREM',
+      key,
+      value,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('LREM', { key, count, value }));
+  }
+
+  /**
+   * Keep only the elements from `start` to `stop` inclusive
+   */
+  async ltrim(key: K, start: number, stop: number): Promise<void> {
+    checkInteger(start, 'start');
+    checkInteger(stop, 'stop');
+    const context: CommandContext<K, V> = {
+      command: 'LTRIM',
+      key,
+      timestamp: Date.now()
+    };
+
+    await this.executeWithMiddleware(context, () => this.sendCommand('LTRIM', { key, start, stop }));
+  }
+
+  /**
+   * Insert a value before or after the first element equal to the pivot
+   * @returns The new length, -1 when the pivot is missing or 0 when the key is
+   */
+  async linsert(key: K, position: ListPosition, pivot: V, value: V): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'LINSERT',
+      key,
+      value,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('LINSERT', { key, position, pivot, value })
+    );
+  }
+
+  /**
+   * Pop an element from one end of the source list and push it onto an end of
+   * the destination, in one step
+   * @returns The element moved, or null when the source is empty
+   */
+  async lmove(source: K, destination: K, from: ListEnd, to: ListEnd): Promise<V | null> {
+    const context: CommandContext<K, V> = {
+      command: 'LMOVE',
+      key: source,
+      destination,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<V | null>('LMOVE', { key: source, destination, from, to })
+    );
+  }
+
+  /**
+   * Pop the head of the first non-empty list, waiting up to `timeoutMs` (0 for
+   * no limit) for a push when they are all empty. Callers blocked on the same
+   * list are served in the order they blocked.
+   * @returns The key and the element, or null when the timeout passes
+   */
+  async blpop(keys: K[], timeoutMs: number): Promise<[key: K, value: V] | null> {
+    checkBlockingTimeout(timeoutMs);
+    const context: CommandContext<K, V> = {
+      command: 'BLPOP',
+      keys,
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendBlockingCommand<[K, V] | null>('BLPOP', { keys, timeoutMs })
+    );
+  }
+
+  async brpop(keys: K[], timeoutMs: number): Promise<[key: K, value: V] | null> {
+    checkBlockingTimeout(timeoutMs);
+    const context: CommandContext<K, V> = {
+      command: 'BRPOP',
+      keys,
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendBlockingCommand<[K, V] | null>('BRPOP', { keys, timeoutMs })
+    );
+  }
+
+  /**
+   * `lmove()` that waits up to `timeoutMs` (0 for no limit) for the source to
+   * get an element
+   */
+  async blmove(source: K, destination: K, from: ListEnd, to: ListEnd, timeoutMs: number): Promise<V | null> {
+    checkBlockingTimeout(timeoutMs);
+    const context: CommandContext<K, V> = {
+      command: 'BLMOVE',
+      key: source,
+      destination,
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendBlockingCommand<V | null>('BLMOVE', { key: source, destination, from, to, timeoutMs })
+    );
+  }
+
+  /**
+   * Add members to a set, creating it if needed
+   * @returns The number of members added, not counting ones already there
+   */
+  async sadd(key: K, ...members: string[]): Promise<number> {
+    checkMembers(members);
+    const context: CommandContext<K, V> = {
+      command: 'SADD',
+      key,
+      members,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SADD', { key, members }));
+  }
+
+  /**
+   * Remove members from a set. Removing the last one deletes the key.
+   * @returns The number of members removed
+   */
+  async srem(key: K, ...members: string[]): Promise<number> {
+    checkMembers(members);
+    const context: CommandContext<K, V> = {
+      command: 'SREM',
+      key,
+      members,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SREM', { key, members }));
+  }
+
+  async smembers(key: K): Promise<string[]> {
+    const context: CommandContext<K, V> = {
+      command: 'SMEMBERS',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string[]>('SMEMBERS', { key }));
+  }
+
+  async sismember(key: K, member: string): Promise<boolean> {
+    const context: CommandContext<K, V> = {
+      command: 'SISMEMBER',
+      key,
+      members: [member],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<boolean>('SISMEMBER', { key, member }));
+  }
+
+  async smismember(key: K, members: string[]): Promise<boolean[]> {
+    const context: CommandContext<K, V> = {
+      command: 'SMISMEMBER',
+      key,
+      members,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<boolean[]>('SMISMEMBER', { key, members }));
+  }
+
+  async scard(key: K): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'SCARD',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SCARD', { key }));
+  }
+
+  /**
+   * Remove and return a random member, or up to `count` distinct ones.
+   * Removing the last one deletes the key.
+   */
+  async spop(key: K): Promise<string | null>;
+  async spop(key: K, count: number): Promise<string[]>;
+  async spop(key: K, count?: number): Promise<string | null | string[]> {
+    if (count !== undefined) {
+      checkPopCount(count);
+    }
+    const context: CommandContext<K, V> = {
+      command: 'SPOP',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const members = await this.sendCommand<string[]>('SPOP', { key, count: count ?? 1 });
+      return count === undefined ? members[0] ?? null : members;
+    });
+  }
+
+  /**
+   * Return a random member without removing it, or up to `count` distinct
+   * ones. A negative count returns exactly `-count` members that may repeat.
+   */
+  async srandmember(key: K): Promise<string | null>;
+  async srandmember(key: K, count: number): Promise<string[]>;
+  async srandmember(key: K, count?: number): Promise<string | null | string[]> {
+    if (count !== undefined) {
+      checkInteger(count, 'count');
+    }
+    const context: CommandContext<K, V> = {
+      command: 'SRANDMEMBER',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const members = await this.sendCommand<string[]>('SRANDMEMBER', { key, count: count ?? 1 });
+      return count === undefined ? members[0] ?? null : members;
+    });
+  }
+
+  /**
+   * Members of the first set that are in all the others
+   */
+  async sinter(keys: K[]): Promise<string[]> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SINTER',
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string[]>('SINTER', { keys }));
+  }
+
+  async sunion(keys: K[]): Promise<string[]> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SUNION',
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string[]>('SUNION', { keys }));
+  }
+
+  /**
+   * Members of the first set that are in none of the others
+   */
+  async sdiff(keys: K[]): Promise<string[]> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SDIFF',
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<string[]>('SDIFF', { keys }));
+  }
+
+  /**
+   * Store the intersection of the sets in the destination, replacing whatever
+   * it holds, expiry included. An empty result deletes it.
+   * @returns The size of the stored set
+   */
+  async sinterstore(destination: K, keys: K[]): Promise<number> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SINTERSTORE',
+      destination,
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SINTERSTORE', { destination, keys }));
+  }
+
+  async sunionstore(destination: K, keys: K[]): Promise<number> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SUNIONSTORE',
+      destination,
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SUNIONSTORE', { destination, keys }));
+  }
+
+  async sdiffstore(destination: K, keys: K[]): Promise<number> {
+    checkKeys(keys);
+    const context: CommandContext<K, V> = {
+      command: 'SDIFFSTORE',
+      destination,
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('SDIFFSTORE', { destination, keys }));
+  }
+
+  /**
+   * Page through the members of a set, like `scan()` with a cursor
+   */
+  async sscan(key: K, cursor: string | number, options: MemberScanOptions = {}): Promise<SetScanResult> {
+    const context: CommandContext<K, V> = {
+      command: 'SSCAN',
+      key,
+      pattern: options.match,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<SetScanResult>('SSCAN', { key, cursor: String(cursor), options })
+    );
+  }
+
+  /**
+   * Add members to a sorted set with their scores, or update the scores of
+   * ones already there, creating the set if needed. With `incr` the score is
+   * added to the member's current one instead.
+   * @returns The number of members added, counting changed ones too with
+   * `ch`, or with `incr` the new score, null when a condition prevented it
+   */
+  async zadd(key: K, score: number, member: string, options: ZAddOptions & { incr: true }): Promise<number | null>;
+  async zadd(key: K, members: ZSetMembers, options: ZAddOptions & { incr: true }): Promise<number | null>;
+  async zadd(key: K, score: number, member: string, options?: ZAddOptions): Promise<number>;
+  async zadd(key: K, members: ZSetMembers, options?: ZAddOptions): Promise<number>;
+  async zadd(
+    key: K,
+    scoreOrMembers: number | ZSetMembers,
+    memberOrOptions?: string | ZAddOptions,
+    options?: ZAddOptions
+  ): Promise<number | null> {
+    const members = zsetMembersOf(scoreOrMembers, memberOrOptions);
+    const addOptions = (typeof scoreOrMembers === 'number' ? options : (memberOrOptions as ZAddOptions)) ?? {};
+    checkZAddOptions(addOptions, members);
+    const context: CommandContext<K, V> = {
+      command: 'ZADD',
+      key,
+      members: Object.keys(members),
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number | null>('ZADD', { key, scores: members, addOptions })
+    );
+  }
+
+  /**
+   * Remove members from a sorted set. Removing the last one deletes the key.
+   * @returns The number of members removed
+   */
+  async zrem(key: K, ...members: string[]): Promise<number> {
+    checkMembers(members);
+    const context: CommandContext<K, V> = {
+      command: 'ZREM',
+      key,
+      members,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('ZREM', { key, members }));
+  }
+
+  async zscore(key: K, member: string): Promise<number | null> {
+    const context: CommandContext<K, V> = {
+      command: 'ZSCORE',
+      key,
+      members: [member],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number | null>('ZSCORE', { key, member }));
+  }
+
+  /**
+   * Add to a member's score, adding the member with the increment as its
+   * score when missing
+   * @returns The new score
+   */
+  async zincrby(key: K, increment: number, member: string): Promise<number> {
+    checkIncrement(increment, false);
+    const context: CommandContext<K, V> = {
+      command: 'ZINCRBY',
+      key,
+      members: [member],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('ZINCRBY', { key, increment, member })
+    );
+  }
+
+  async zcard(key: K): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'ZCARD',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('ZCARD', { key }));
+  }
+
+  /**
+   * Rank of a member counting from the lowest score, from 0
+   */
+  async zrank(key: K, member: string): Promise<number | null> {
+    const context: CommandContext<K, V> = {
+      command: 'ZRANK',
+      key,
+      members: [member],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number | null>('ZRANK', { key, member }));
+  }
+
+  /**
+   * Rank of a member counting from the highest score, from 0
+   */
+  async zrevrank(key: K, member: string): Promise<number | null> {
+    const context: CommandContext<K, V> = {
+      command: 'ZREVRANK',
+      key,
+      members: [member],
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number | null>('ZREVRANK', { key, member }));
+  }
+
+  /**
+   * Members in a range of ranks, which count from the end when negative, or
+   * of scores or members with `by`. Ranges are inclusive.
+   */
+  async zrange(
+    key: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions & { withScores: true }
+  ): Promise<Array<[member: string, score: number]>>;
+  async zrange(key: K, start: ZRangeBound, stop: ZRangeBound, options?: ZRangeOptions): Promise<string[]>;
+  async zrange(
+    key: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions = {}
+  ): Promise<string[] | Array<[string, number]>> {
+    checkZRangeOptions(start, stop, options);
+    const context: CommandContext<K, V> = {
+      command: 'ZRANGE',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const range = await this.sendCommand<Array<[string, number]>>('ZRANGE', {
+        key,
+        min: start,
+        max: stop,
+        rangeOptions: options
+      });
+      return options.withScores ? range : range.map(([member]) => member);
+    });
+  }
+
+  /**
+   * Store a range of the source, as `zrange()` takes it, in the destination,
+   * replacing whatever it holds, expiry included. An empty range deletes it.
+   * @returns The size of the stored set
+   */
+  async zrangestore(
+    destination: K,
+    source: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions = {}
+  ): Promise<number> {
+    checkZRangeOptions(start, stop, options);
+    const context: CommandContext<K, V> = {
+      command: 'ZRANGESTORE',
+      key: source,
+      destination,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('ZRANGESTORE', {
+        key: source,
+        destination,
+        min: start,
+        max: stop,
+        rangeOptions: options
+      })
+    );
+  }
+
+  /**
+   * Number of members with scores between `min` and `max`, given as for
+   * `zrange()` by score
+   */
+  async zcount(key: K, min: ZRangeBound, max: ZRangeBound): Promise<number> {
+    const context: CommandContext<K, V> = {
+      command: 'ZCOUNT',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('ZCOUNT', { key, min, max }));
+  }
+
+  /**
+   * Remove and return the member with the lowest score, or up to `count`
+   * members lowest first. Removing the last one deletes the key.
+   */
+  async zpopmin(key: K): Promise<[member: string, score: number] | null>;
+  async zpopmin(key: K, count: number): Promise<Array<[member: string, score: number]>>;
+  async zpopmin(key: K, count?: number): Promise<[string, number] | null | Array<[string, number]>> {
+    return this.popScores('ZPOPMIN', key, count);
+  }
+
+  /**
+   * Remove and return the member with the highest score, or up to `count`
+   * members highest first
+   */
+  async zpopmax(key: K): Promise<[member: string, score: number] | null>;
+  async zpopmax(key: K, count: number): Promise<Array<[member: string, score: number]>>;
+  async zpopmax(key: K, count?: number): Promise<[string, number] | null | Array<[string, number]>> {
+    return this.popScores('ZPOPMAX', key, count);
+  }
+
+  /**
+   * Pop the member with the lowest score from the first non-empty sorted set,
+   * waiting up to `timeoutMs` (0 for no limit) for one when they are all
+   * empty, like `blpop()`
+   * @returns The key, the member and its score, or null when the timeout passes
+   */
+  async bzpopmin(keys: K[], timeoutMs: number): Promise<[key: K, member: string, score: number] | null> {
+    checkBlockingTimeout(timeoutMs);
+    const context: CommandContext<K, V> = {
+      command: 'BZPOPMIN',
+      keys,
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendBlockingCommand<[K, string, number] | null>('BZPOPMIN', { keys, timeoutMs })
+    );
+  }
+
+  /**
+   * Store the union of the sorted sets in the destination, replacing whatever
+   * it holds, expiry included. A member's scores are multiplied by the
+   * weight of their set, then summed, or combined as `aggregate` says.
+   * @returns The size of the stored set
+   */
+  async zunionstore(destination: K, keys: K[], options: ZStoreOptions = {}): Promise<number> {
+    checkZStoreOptions(keys, options);
+    const context: CommandContext<K, V> = {
+      command: 'ZUNIONSTORE',
+      destination,
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('ZUNIONSTORE', { destination, keys, storeOptions: options })
+    );
+  }
+
+  /**
+   * Like `zunionstore()`, keeping only the members in every set
+   */
+  async zinterstore(destination: K, keys: K[], options: ZStoreOptions = {}): Promise<number> {
+    checkZStoreOptions(keys, options);
+    const context: CommandContext<K, V> = {
+      command: 'ZINTERSTORE',
+      destination,
+      keys,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<number>('ZINTERSTORE', { destination, keys, storeOptions: options })
+    );
+  }
+
+  /**
+   * Page through the members of a sorted set and their scores, in member
+   * order, like `scan()` with a cursor
+   */
+  async zscan(key: K, cursor: string | number, options: MemberScanOptions = {}): Promise<ZSetScanResult> {
+    const context: CommandContext<K, V> = {
+      command: 'ZSCAN',
+      key,
+      pattern: options.match,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<ZSetScanResult>('ZSCAN', { key, cursor: String(cursor), options })
+    );
+  }
+
+  /**
+   * Append an entry to a stream, creating it unless `noMkStream` is set, and
+   * trim the stream as `maxLen` or `minId` say
+   * @returns The ID of the entry, or null when the stream is missing and `noMkStream` is set
+   */
+  async xadd(key: K, fields: HashFields<V>, options: XAddOptions & { noMkStream: true }): Promise<string | null>;
+  async xadd(key: K, fields: HashFields<V>, options?: XAddOptions): Promise<string>;
+  async xadd(key: K, fields: HashFields<V>, options: XAddOptions = {}): Promise<string | null> {
+    hashFieldsOf(fields);
+    checkXAddOptions(options);
+    const context: CommandContext<K, V> = {
+      command: 'XADD',
+      key,
+      fields: Object.keys(fields),
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<string | null>('XADD', { key, hash: fields, xaddOptions: options })
+    );
+  }
+
+  /**
+   * Entries with IDs from `start` to `end`, inclusive. Bounds are `'-'`, `'+'`
+   * or IDs, where `'<ms>'` covers every entry of that millisecond and a
+   * leading `(` leaves the ID out.
+   */
+  async xrange(key: K, start: string = '-', end: string = '+', count?: number): Promise<StreamEntry<V>[]> {
+    if (count !== undefined) {
+      checkStreamCount(count);
+    }
+    const context: CommandContext<K, V> = {
+      command: 'XRANGE',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<StreamEntry<V>[]>('XRANGE', { key, min: start, max: end, count })
+    );
+  }
+
+  /**
+   * Like `xrange()`, from the highest ID down
+   */
+  async xrevrange(key: K, end: string = '+', start: string = '-', count?: number): Promise<StreamEntry<V>[]> {
+    if (count !== undefined) {
+      checkStreamCount(count);
+    }
+    const context: CommandContext<K, V> = {
+      command: 'XREVRANGE',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<StreamEntry<V>[]>('XREVRANGE', { key, min: start, max: end, count })
+    );
+  }
+
+  /**
+   * Read the entries after an ID from each stream, `'$'` standing for the
+   * last entry. With `timeoutMs` it waits, up to that long or with no limit
+   * for 0, for an entry to be added when there are none, without holding
+   * other commands up.
+   * @returns The streams with entries, or null when there are none
+   */
+  async xread(
+    streams: Array<[key: K, id: string]>,
+    options: XReadOptions = {}
+  ): Promise<StreamReadResult<K, V> | null> {
+    const { count, timeoutMs } = options;
+    checkStreamReads(streams, ['$'], options);
+    const context: CommandContext<K, V> = {
+      command: 'XREAD',
+      keys: streams.map(([key]) => key),
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      timeoutMs === undefined
+        ? this.sendCommand<StreamReadResult<K, V> | null>('XREAD', { streams, count })
+        : this.sendBlockingCommand<StreamReadResult<K, V> | null>('XREAD', { streams, count, timeoutMs })
+    );
+  }
+
+  /**
+   * Create a consumer group that delivers the entries after `id`, `'$'` for
+   * only those added from now on
+   * @throws BusyGroupError when the group exists, KeyNotFoundError when the
+   * stream is missing and `mkStream` is not set
+   */
+  async xgroupCreate(key: K, group: string, id: string = '$', options: { mkStream?: boolean } = {}): Promise<void> {
+    checkStreamName(group, 'group');
+    if (id !== '$') {
+      parseStreamId(id);
+    }
+    const context: CommandContext<K, V> = {
+      command: 'XGROUPCREATE',
+      key,
+      group,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<void>('XGROUPCREATE', { key, group, id, mkStream: options.mkStream ?? false })
+    );
+  }
+
+  /**
+   * Read for a consumer of a group. `'>'` delivers entries no consumer of
+   * the group got yet, which stay pending until acknowledged with `xack()`;
+   * any other ID returns the consumer's own pending entries after it. With
+   * `timeoutMs` it waits for new entries like `xread()`.
+   * @returns The streams with entries, or null when there is nothing new
+   */
+  async xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[key: K, id: string]>,
+    options: XReadGroupOptions = {}
+  ): Promise<StreamReadResult<K, V> | null> {
+    const { count, noAck, timeoutMs } = options;
+    checkStreamName(group, 'group');
+    checkStreamName(consumer, 'consumer');
+    checkStreamReads(streams, ['>'], options);
+    const context: CommandContext<K, V> = {
+      command: 'XREADGROUP',
+      keys: streams.map(([key]) => key),
+      group,
+      timeoutMs,
+      timestamp: Date.now()
+    };
+
+    const args = { group, consumer, streams, readOptions: { count, noAck } };
+    return this.executeWithMiddleware(context, () =>
+      timeoutMs === undefined
+        ? this.sendCommand<StreamReadResult<K, V> | null>('XREADGROUP', args)
+        : this.sendBlockingCommand<StreamReadResult<K, V> | null>('XREADGROUP', { ...args, timeoutMs })
+    );
+  }
+
+  /**
+   * Acknowledge entries, removing them from the group's pending list
+   * @returns The number of entries that were pending
+   */
+  async xack(key: K, group: string, ...ids: string[]): Promise<number> {
+    checkStreamIds(ids);
+    const context: CommandContext<K, V> = {
+      command: 'XACK',
+      key,
+      group,
+      ids,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>('XACK', { key, group, ids }));
+  }
+
+  /**
+   * Summarize the entries a group delivered that were not acknowledged yet,
+   * or with options, list them
+   */
+  async xpending(key: K, group: string): Promise<XPendingSummary>;
+  async xpending(key: K, group: string, options: XPendingOptions): Promise<XPendingEntry[]>;
+  async xpending(key: K, group: string, options?: XPendingOptions): Promise<XPendingSummary | XPendingEntry[]> {
+    if (options) {
+      checkStreamCount(options.count);
+      checkIdleTime(options.minIdleMs ?? 0);
+    }
+    const context: CommandContext<K, V> = {
+      command: 'XPENDING',
+      key,
+      group,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<XPendingSummary | XPendingEntry[]>('XPENDING', { key, group, pendingOptions: options })
+    );
+  }
+
+  /**
+   * Take over pending entries that have been idle for at least `minIdleMs`,
+   * such as those of a consumer that went away. IDs that are not pending, or
+   * not idle long enough, are skipped.
+   * @returns The claimed entries
+   */
+  async xclaim(key: K, group: string, consumer: string, minIdleMs: number, ids: string[]): Promise<StreamEntry<V>[]> {
+    checkStreamName(consumer, 'consumer');
+    checkIdleTime(minIdleMs);
+    checkStreamIds(ids);
+    const context: CommandContext<K, V> = {
+      command: 'XCLAIM',
+      key,
+      group,
+      ids,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<StreamEntry<V>[]>('XCLAIM', { key, group, consumer, minIdleMs, ids })
+    );
+  }
+
+  /**
+   * Claim like `xclaim()` whichever pending entries from `start` on have
+   * been idle long enough, up to `count` (100 by default) at a time
+   * @returns The ID to continue from, `'0-0'` when done, the claimed entries
+   * and the IDs of pending entries that were trimmed from the stream
+   */
+  async xautoclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    start: string = '0-0',
+    options: { count?: number } = {}
+  ): Promise<XAutoClaimResult<V>> {
+    const { count = 100 } = options;
+    checkStreamName(consumer, 'consumer');
+    checkIdleTime(minIdleMs);
+    checkStreamCount(count);
+    const context: CommandContext<K, V> = {
+      command: 'XAUTOCLAIM',
+      key,
+      group,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<XAutoClaimResult<V>>('XAUTOCLAIM', { key, group, consumer, minIdleMs, id: start, count })
+    );
+  }
+
+  /**
+   * @returns The length, IDs and first and last entries of a stream, or null when it is missing
+   */
+  async xinfoStream(key: K): Promise<StreamInfo<V> | null> {
+    const context: CommandContext<K, V> = {
+      command: 'XINFOSTREAM',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<StreamInfo<V> | null>('XINFOSTREAM', { key }));
+  }
+
+  async xinfoGroups(key: K): Promise<StreamGroupInfo[]> {
+    const context: CommandContext<K, V> = {
+      command: 'XINFOGROUPS',
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<StreamGroupInfo[]>('XINFOGROUPS', { key }));
+  }
+
+  async xinfoConsumers(key: K, group: string): Promise<StreamConsumerInfo[]> {
+    const context: CommandContext<K, V> = {
+      command: 'XINFOCONSUMERS',
+      key,
+      group,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () =>
+      this.sendCommand<StreamConsumerInfo[]>('XINFOCONSUMERS', { key, group })
+    );
+  }
+
+
+  private async push(command: 'LPUSH' | 'RPUSH', key: K, values: V[]): Promise<number> {
+    if (values.length === 0) {
+      throw new ValidationError('At least one value is required');
+    }
+    const context: CommandContext<K, V> = {
+      command,
+      key,
+      values,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, () => this.sendCommand<number>(command, { key, values }));
+  }
+
+  private async pop(command: 'LPOP' | 'RPOP', key: K, count?: number): Promise<V | null | V[]> {
+    if (count !== undefined) {
+      checkPopCount(count);
+    }
+    const context: CommandContext<K, V> = {
+      command,
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const popped = await this.sendCommand<V[]>(command, { key, count: count ?? 1 });
+      return count === undefined ? popped[0] ?? null : popped;
+    });
+  }
+
+  private async popScores(
+    command: 'ZPOPMIN' | 'ZPOPMAX',
+    key: K,
+    count?: number
+  ): Promise<[string, number] | null | Array<[string, number]>> {
+    if (count !== undefined) {
+      checkPopCount(count);
+    }
+    const context: CommandContext<K, V> = {
+      command,
+      key,
+      timestamp: Date.now()
+    };
+
+    return this.executeWithMiddleware(context, async () => {
+      const popped = await this.sendCommand<Array<[string, number]>>(command, { key, count: count ?? 1 });
+      return count === undefined ? popped[0] ?? null : popped;
+    });
+  }
+
+  /**
+   * Send a command that blocks in the worker. It does not count as running
+   * while it waits, so transactions and scripts are not held up by it.
+   */
+  private sendBlockingCommand<T>(command: string, args: CommandArgs<K, V> & { timeoutMs: number }): Promise<T> {
+    // Allow for the worker being busy when the wait ends
+    const timeoutMs = args.timeoutMs === 0 ? Infinity : args.timeoutMs + 5000;
+    return this.gate.suspend(this.sendCommand<T>(command, args, timeoutMs));
+  }
+
+  private emitBatchEvent(operation: BatchOperation<K, V>): void {
+    switch (operation.type) {
+      case 'set':
+        this.emit('set', { key: operation.key, value: operation.value, ttl: operation.ttl });
+        break;
+      case 'del':
+        this.emit('del', { key: operation.key });
+        break;
+      case 'expire':
+        this.emit('expire', { key: operation.key, ttl: operation.ttl });
+        break;
+    }
+  }
+
+  /**
+   * Iterate live entries in key order within the given bounds. The worker
+   * sends them a page at a time, so unlike a scan on one thread this is not a
+   * point-in-time view: writes made between pages may show up.
+   */
+  scan(options?: ScanOptions): AsyncIterable<ScanEntry<K, V>>;
+  /**
+   * Redis-style cursor scan: start with cursor `'0'` and pass the returned
+   * cursor back until it is `'0'` again. Every key present for the whole scan
+   * is returned, even while other keys are written or deleted.
+   */
+  scan(cursor: string | number, options?: CursorScanOptions): Promise<CursorScanResult<K>>;
+  scan(
+    cursorOrOptions: ScanOptions | string | number = {},
+    options: CursorScanOptions = {}
+  ): AsyncIterable<ScanEntry<K, V>> | Promise<CursorScanResult<K>> {
+    if (typeof cursorOrOptions === 'string' || typeof cursorOrOptions === 'number') {
+      const context: CommandContext<K, V> = {
+        command: 'SCAN',
+        pattern: options.match,
+        timestamp: Date.now()
+      };
+      const cursor = String(cursorOrOptions);
+      return this.executeWithMiddleware(context, () =>
+        this.sendCommand<CursorScanResult<K>>('SCAN', { cursor, options })
+      );
+    }
+
+    const { limit } = cursorOrOptions;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new ValidationError('Scan limit must be a non-negative integer');
+    }
+
+    return this.scanWithMiddleware(cursorOrOptions);
+  }
+
+  private async *scanWithMiddleware(options: ScanOptions): AsyncGenerator<ScanEntry<K, V>> {
+    const context: CommandContext<K, V> = {
+      command: 'SCAN',
+      pattern: options.prefix,
+      timestamp: Date.now()
+    };
+
+    const entries = await this.executeWithMiddleware(context, () => Promise.resolve(this.scanPages(options)));
+    yield* entries;
+  }
+
+  /**
+   * Ask the worker for a range scan a page at a time, each page resuming
+   * after the last key of the one before
+   */
+  private async *scanPages(options: ScanOptions): AsyncGenerator<ScanEntry<K, V>> {
+    let remaining = options.limit ?? Infinity;
+    let after: string | undefined;
+
+    while (remaining > 0) {
+      const size = Math.min(remaining, SCAN_PAGE_SIZE);
+      const resume = after === undefined ? {} : options.reverse ? { lt: after } : { gte: after };
+      // A forward page starts at the last key already returned, so ask for one more
+      const limit = after !== undefined && !options.reverse ? size + 1 : size;
+      const page = await this.sendCommand<ScanEntry<K, V>[]>('SCAN', {
+        scanOptions: { ...options, ...resume, limit }
+      });
+
+      const entries = page.filter(entry => String(entry.key) !== after).slice(0, size);
+      yield* entries;
+      remaining -= entries.length;
+      if (page.length < limit || entries.length === 0) {
+        return;
+      }
+      after = String(entries[entries.length - 1]!.key);
+    }
+  }
+
+  /**
+   * Snapshots pin state inside the worker's storage engine, which cannot be
+   * handed across the thread boundary
+   */
+  getSnapshot(): Promise<ReadSnapshot<K, V>> {
+    return Promise.reject(new WorkerError('Read snapshots are not supported by the worker client'));
+  }
+
+  use(middleware: MiddlewareFn<K, V>): void {
+    this.middlewares.push(middleware);
+  }
+
+  async register(plugin: Plugin<K, V>): Promise<void> {
+    await plugin.init(this);
+    this.plugins.push(plugin);
+    logger.info('Plugin registered', { name: plugin.name, version: plugin.version });
+  }
+
+  override on(event: SnapDBEvent, listener: (...args: any[]) => void): this {
+    return super.on(event, listener);
+  }
+
+  override off(event: SnapDBEvent, listener: (...args: any[]) => void): this {
+    return super.off(event, listener);
+  }
+
+  async close(): Promise<void> {
+    // Destroy plugins
+    for (const plugin of this.plugins) {
+      if (plugin.destroy) {
+        await plugin.destroy();
+      }
+    }
+
+    // Let the worker close its storage, so what was written reaches disk
+    if (this.isReady) {
+      await this.sendCommand('CLOSE', {}).catch((error: unknown) => {
+        logger.error('Worker failed to close storage', { error });
+      });
+    }
+
+    // Clear pending requests
+    for (const [, request] of this.pendingRequests) {
+      clearTimeout(request.timeout);
+      request.reject(
+        BLOCKING_COMMANDS.has(request.command)
+          ? new ClosedError(request.command)
+          : new WorkerError('SnapDB is closing')
+      );
+    }
+    this.pendingRequests.clear();
+
+    // Terminate worker
+    const worker = this.worker;
+    this.worker = undefined;
+    await worker?.terminate();
 
     this.isReady = false;
     this.removeAllListeners();
@@ -0,0 +1,86 @@
+/**
+ * MULTI/EXEC transactions shared by the SnapDB clients
+ */
+
+import { ISnapDB, Transaction } from '../types';
+import { ValidationError } from '../utils/errors';
+
+export interface TransactionHost<K = string> {
+  /** Version of the key's live value, 0 when it does not exist */
+  getVersion(key: K): Promise<number>;
+  /** Run the transaction while other commands on the database wait */
+  runExclusive<T>(transaction: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Queue commands against `db` until `exec()` runs them through its public
+ * methods, so each one goes through the middleware chain and emits its events
+ */
+export function createTransaction<K = string, V = any>(
+  db: ISnapDB<K, V>,
+  host: TransactionHost<K>
+): Transaction<K, V> {
+  let commands: Array<() => Promise<unknown>> = [];
+  let watched: Array<{ key: K; version: number }> = [];
+  let done = false;
+
+  const queue = (command: () => Promise<unknown>) => {
+    if (done) {
+      throw new ValidationError('Transaction has already been executed or discarded');
+    }
+    commands.push(command);
+    return transaction;
+  };
+
+  const transaction: Transaction<K, V> = {
+    get length() {
+      return commands.length;
+    },
+    watch: async (...keys) => {
+      if (done) {
+        throw new ValidationError('Transaction has already been executed or discarded');
+      }
+      for (const key of keys) {
+        watched.push({ key, version: await host.getVersion(key) });
+      }
+    },
+    set: (key, value, ttl) => queue(() => db.set(key, value, ttl)),
+    get: key => queue(() => db.get(key)),
+    del: key => queue(() => db.del(key)),
+    exists: key => queue(() => db.exists(key)),
+    expire: (key, ttl) => queue(() => db.expire(key, ttl)),
+    ttl: key => queue(() => db.ttl(key)),
+    incr: key => queue(() => db.incr(key)),
+    decr: key => queue(() => db.decr(key)),
+    mget: keys => queue(() => db.mget(keys)),
+    mset: entries => queue(() => db.mset(entries)),
+    exec: async () => {
+      if (done) {
+        throw new ValidationError('Transaction has already been executed or discarded');
+      }
+      done = true;
+
+      return host.runExclusive(async () => {
+        for (const { key, version } of watched) {
+          if ((await host.getVersion(key)) !== version) {
+            return null;
+          }
+        }
+
+        // Like Redis, a failing command does not stop the ones after it
+        const results: unknown[] = [];
+        for (const command of commands) {
+          results.push(await command().catch((error: unknown) => error));
+        }
+        return results;
+      });
+    },
+    discard: () => {
+      done = true;
+      commands = [];
+      watched = [];
+    }
+  };
+
+  return transaction;
+}
@@ -0,0 +1,49 @@
+/**
+ * Write batch builder shared by the SnapDB clients
+ */
+
+import { BatchOperation, WriteBatch } from '../types';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Collect operations until `write()` hands them to `commit` in one call
+ */
+export function createWriteBatch<K = string, V = any>(
+  commit: (operations: BatchOperation<K, V>[]) => Promise<void>
+): WriteBatch<K, V> {
+  const operations: BatchOperation<K, V>[] = [];
+  let written = false;
+
+  const queue = (operation: BatchOperation<K, V>) => {
+    if (written) {
+      throw new ValidationError('Batch has already been written');
+    }
+    operations.push(operation);
+    return batch;
+  };
+
+  const batch: WriteBatch<K, V> = {
+    get length() {
+      return operations.length;
+    },
+    set: (key, value, ttl) => queue({ type: 'set', key, value, ttl }),
+    del: key => queue({ type: 'del', key }),
+    expire: (key, ttl) => {
+      if (!(ttl > 0)) {
+        throw new ValidationError('TTL must be positive');
+      }
+      return queue({ type: 'expire', key, ttl });
+    },
+    write: async () => {
+      if (written) {
+        throw new ValidationError('Batch has already been written');
+      }
+      written = true;
+      if (operations.length > 0) {
+        await commit(operations);
+      }
+    }
+  };
+
+  return batch;
+}
@@ -12,6 +12,7 @@ export type {
   // Core interfaces
   ISnapDB,
   SnapDBConfig,
+  StorageEngineType,
   SnapDBEvent,
   EventPayload,
   
@@ -23,12 +24,64 @@ export type {
   CommandRegistry,
   
   // Storage types
+  StorageBackend,
   StorageEntry,
   StorageStats,
+  ReadSnapshot,
+  WriteBatch,
+  BatchOperation,
+  Transaction,
+  ValueWithMeta,
+  ScriptInfo,
+  ScanOptions,
+  ScanEntry,
+  ScanKey,
+  CursorScanOptions,
+  CursorScanResult,
+  MemberScanOptions,
+  ValueType,
+  HashFields,
+  HashScanResult,
+  ListEnd,
+  ListPosition,
+  SetScanResult,
+  ZSetMembers,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZStoreOptions,
+  ZSetScanResult,
+  StreamEntry,
+  XAddOptions,
+  XReadOptions,
+  XReadGroupOptions,
+  StreamReadResult,
+  XPendingOptions,
+  XPendingSummary,
+  XPendingEntry,
+  XAutoClaimResult,
+  StreamInfo,
+  StreamGroupInfo,
+  StreamConsumerInfo,
   MemtableStats,
   SSTableMetadata,
   CompactionStats,
+  CompactionTotals,
+  CompactionStyle,
+  CompactionConfig,
+  CompactionPick,
+  CompactionStrategy,
+  BackgroundStats,
+  BlockCacheStats,
+  TableCacheStats,
+  CompressionType,
   BloomFilterData,
+  BloomFilterFormat,
+  BloomFilterConfig,
+  BloomFilterStats,
+  PrefixExtractorConfig,
+  Comparator,
+  ComparatorName,
   
   // Middleware and Plugin types
   MiddlewareFn,
@@ -40,6 +93,7 @@ export type {
   
   // Worker types
   WorkerRequest,
+  WorkerCommand,
   WorkerResponse,
   WorkerError as WorkerErrorType,
   
@@ -59,6 +113,13 @@ export {
   MemoryLimitError,
   TimeoutError,
   SerializationError,
+  VersionConflictError,
+  ScriptError,
+  ScriptNotFoundError,
+  WrongTypeError,
+  ClosedError,
+  NoGroupError,
+  BusyGroupError,
   ErrorCodes,
   type ErrorCode,
   isSnapDBError
@@ -80,6 +141,12 @@ export {
   deserializeEntry
 } from './utils/serializer';
 
+export {
+  bytewiseComparator,
+  numericComparator,
+  reverseBytewiseComparator
+} from './utils/comparator';
+
 // Export middleware
 export { LoggingMiddleware } from './middleware/LoggingMiddleware';
 export { TTLMiddleware } from './middleware/TTLMiddleware';
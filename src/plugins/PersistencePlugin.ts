@@ -2,18 +2,32 @@
  * Persistence plugin for SnapDBJS - provides disk persistence
  */
 
-import { Plugin, ISnapDB } from '../types';
+import { Plugin, ISnapDB, CompressionType } from '../types';
 import { logger } from '../utils/logger';
+import { compress, decompress, validateCompression } from '../utils/compression';
 import fs from 'fs/promises';
 import path from 'path';
 
 export interface PersistenceOptions {
   dataDir?: string;
   saveInterval?: number; // Auto-save interval in ms
-  compression?: boolean;
+  /** Compress saved files with zlib; true selects gzip */
+  compression?: boolean | CompressionType;
   maxBackups?: number;
 }
 
+const FILE_EXTENSIONS: Record<CompressionType, string> = {
+  none: '',
+  deflate: '.deflate',
+  gzip: '.gz',
+  brotli: '.br'
+};
+
+/** Earlier versions saved to this name whatever the compression option */
+const LEGACY_FILE = 'snapdb.json';
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
 export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
   name = 'PersistencePlugin';
   version = '1.0.0';
@@ -30,6 +44,7 @@ export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
       compression: options.compression || false,
       maxBackups: options.maxBackups || 3
     };
+    validateCompression(this.getCompression());
   }
 
   async init(store: ISnapDB<K, V>): Promise<void> {
@@ -72,12 +87,18 @@ export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
     }
   }
 
+  private getCompression(): CompressionType {
+    const { compression } = this.options;
+    if (compression === true) return 'gzip';
+    return compression || 'none';
+  }
+
   private getDataPath(): string {
-    return path.join(this.options.dataDir, 'snapdb.json');
+    return path.join(this.options.dataDir, `snapdb.json${FILE_EXTENSIONS[this.getCompression()]}`);
   }
 
   private getBackupPath(index: number): string {
-    return path.join(this.options.dataDir, `snapdb.backup.${index}.json`);
+    return path.join(this.options.dataDir, `snapdb.backup.${index}.json${FILE_EXTENSIONS[this.getCompression()]}`);
   }
 
   async save(): Promise<void> {
@@ -112,13 +133,15 @@ export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
 
     // Save data
     const dataPath = this.getDataPath();
-    const content = JSON.stringify(saveData, null, this.options.compression ? 0 : 2);
-    await fs.writeFile(dataPath, content, 'utf-8');
+    const compression = this.getCompression();
+    const content = JSON.stringify(saveData, null, compression === 'none' ? 2 : 0);
+    const encoded = compress(Buffer.from(content, 'utf-8'), compression);
+    await fs.writeFile(dataPath, encoded);
     
     // Data saved successfully
     this.isDirty = false;
     
-    logger.info('Data saved', { entries: data.length, size: content.length });
+    logger.info('Data saved', { entries: data.length, size: encoded.length, compression });
   }
 
   async load(): Promise<void> {
@@ -126,9 +149,8 @@ export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
       throw new Error('Plugin not initialized');
     }
 
-    const dataPath = this.getDataPath();
-    const content = await fs.readFile(dataPath, 'utf-8');
-    const saveData = JSON.parse(content);
+    const content = this.decode(await this.readSaveFile());
+    const saveData = JSON.parse(content.toString('utf-8'));
 
     // Clear existing data
     await this.store.flushall();
@@ -157,6 +179,36 @@ export class PersistencePlugin<K = string, V = any> implements Plugin<K, V> {
     logger.info('Data loaded', { loaded, expired, total: saveData.entries.length });
   }
 
+  /**
+   * Read the save file, falling back to the name earlier versions used
+   */
+  private async readSaveFile(): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.getDataPath());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return fs.readFile(path.join(this.options.dataDir, LEGACY_FILE));
+    }
+  }
+
+  /**
+   * Decode a save file by its contents rather than its name: gzip is
+   * recognised by its magic bytes, and legacy files are plain JSON
+   */
+  private decode(data: Buffer): Buffer {
+    if (data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1]) {
+      return decompress(data, 'gzip');
+    }
+    try {
+      return decompress(data, this.getCompression());
+    } catch (error) {
+      if (data.toString('utf-8').trimStart().startsWith('{')) {
+        return data;
+      }
+      throw error;
+    }
+  }
+
   private async rotateBackups(): Promise<void> {
     if (this.options.maxBackups <= 0) return;
 
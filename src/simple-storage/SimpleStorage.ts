@@ -3,105 +3,319 @@
  * This is a working implementation that can be built successfully
  */
 
-import { StorageEntry, MemtableStats, SSTableMetadata, CompactionStats } from '../types';
+import {
+  StorageBackend,
+  ReadSnapshot,
+  ScanOptions,
+  ScanEntry,
+  ScanKey,
+  StorageEntry,
+  StorageStats,
+  MemtableStats,
+  SSTableMetadata,
+  CompactionStats,
+  Comparator,
+  BatchOperation,
+  ValueWithMeta,
+  ValueType,
+  HashFields,
+  HashScanResult,
+  MemberScanOptions,
+  ListEnd,
+  ListPosition,
+  SetScanResult,
+  StreamConsumerInfo,
+  StreamEntry,
+  StreamGroupInfo,
+  StreamInfo,
+  StreamReadResult,
+  XAddOptions,
+  XAutoClaimResult,
+  XPendingEntry,
+  XPendingOptions,
+  XPendingSummary,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZSetMembers,
+  ZSetScanResult,
+  ZStoreOptions
+} from '../types';
+import { KeyNotFoundError, StorageError, ValidationError, VersionConflictError } from '../utils/errors';
+import { bytewiseComparator, inKeyRange, resolveKeyRange } from '../utils/comparator';
+import { scanMembers } from '../utils/cursor';
+import { Deque } from '../worker/storage/Deque';
+import { SortedSet } from '../worker/storage/SortedSet';
+import { Stream } from '../worker/storage/Stream';
+import {
+  addScores,
+  applyScores,
+  checkType,
+  combineZSets,
+  countScores,
+  diffSets,
+  heldMembers,
+  incrementField,
+  incrementScore,
+  insertionIndex,
+  intersectSets,
+  isEmptyCollection,
+  listIndex,
+  listRange,
+  matchingIndexes,
+  plainCollection,
+  popScores,
+  randomMembers,
+  unionSets,
+  zsetRange
+} from '../utils/datatypes';
+import {
+  ackEntries,
+  addEntry,
+  autoClaimEntries,
+  claimEntries,
+  consumersInfo,
+  createGroup,
+  entriesAfter,
+  findGroup,
+  groupIndex,
+  groupsInfo,
+  pendingRange,
+  readGroup,
+  streamInfo,
+  streamPendingSummary,
+  streamRange
+} from '../utils/streams';
 
-export class SimpleStorage<K = string, V = any> {
+/**
+ * Run a command on the data in memory. What it throws rejects the returned
+ * promise, as it would for the LSM engine.
+ */
+function run<T>(command: () => T): Promise<T> {
+  return new Promise(resolve => resolve(command()));
+}
+
+/**
+ * Iterate what `project` makes of each item, each step running as a command
+ * does
+ */
+function iterate<T, U>(items: Iterable<T>, project: (item: T) => U): AsyncIterable<U> {
+  return {
+    [Symbol.asyncIterator]() {
+      const iterator = items[Symbol.iterator]();
+      return {
+        next: () =>
+          run((): IteratorResult<U> => {
+            const step = iterator.next();
+            return step.done ? { done: true, value: undefined } : { done: false, value: project(step.value) };
+          })
+      };
+    }
+  };
+}
+
+export class SimpleStorage<K = string, V = any> implements StorageBackend<K, V> {
   private data: Map<string, StorageEntry<K, V>> = new Map();
   private ttlData: Map<string, number> = new Map();
+  private cleanupTimer?: NodeJS.Timeout;
+  private sequence = 0;
+  /** Collections a snapshot also holds, which writes copy before changing */
+  private shared = new WeakSet<object>();
+
+  constructor(private readonly comparator: Comparator = bytewiseComparator) {}
+
+  async open(): Promise<void> {
+    // Nothing to recover, everything lives in memory
+  }
+
+  set(key: K, value: V, ttl?: number): Promise<void> {
+    return run(() => {
+      this.applySet(key, value, ttl);
+    });
+  }
 
-  async set(key: K, value: V, ttl?: number): Promise<void> {
+  private applySet(key: K, value: V, ttl?: number): void {
     const keyStr = String(key);
+    this.sequence++;
     const entry: StorageEntry<K, V> = {
       key,
       value,
       timestamp: Date.now(),
       ttl: ttl ? Date.now() + ttl : undefined,
-      version: (this.data.get(keyStr)?.version || 0) + 1
+      // Like the LSM engine, the version is the sequence of the write, so it
+      // never repeats even when the key is deleted and written again
+      version: this.sequence
     };
 
     this.data.set(keyStr, entry);
     
     if (ttl) {
       this.ttlData.set(keyStr, Date.now() + ttl);
+    } else {
+      // A write without a TTL makes the key persistent again
+      this.ttlData.delete(keyStr);
     }
   }
 
-  async get(key: K): Promise<V | null> {
-    const keyStr = String(key);
+  get(key: K): Promise<V | null> {
+    return run(() => {
+      const keyStr = String(key);
     
-    // Check TTL first
-    if (this.ttlData.has(keyStr)) {
-      const expiry = this.ttlData.get(keyStr)!;
-      if (Date.now() > expiry) {
-        this.data.delete(keyStr);
-        this.ttlData.delete(keyStr);
-        return null;
+      // Check TTL first
+      if (this.ttlData.has(keyStr)) {
+        const expiry = this.ttlData.get(keyStr)!;
+        if (Date.now() > expiry) {
+          this.data.delete(keyStr);
+          this.ttlData.delete(keyStr);
+          return null;
+        }
       }
-    }
 
-    const entry = this.data.get(keyStr);
-    return entry?.value ?? null;
+      const entry = this.data.get(keyStr);
+      checkType(key, entry, 'string');
+      return entry?.value ?? null;
+    });
+  }
+
+  del(key: K): Promise<boolean> {
+    return run(() => this.applyDel(key));
   }
 
-  async del(key: K): Promise<boolean> {
+  private applyDel(key: K): boolean {
     const keyStr = String(key);
+    this.sequence++;
     this.ttlData.delete(keyStr);
     return this.data.delete(keyStr);
   }
 
-  async exists(key: K): Promise<boolean> {
-    const keyStr = String(key);
+  exists(key: K): Promise<boolean> {
+    return run(() => {
+      const keyStr = String(key);
     
-    // Check TTL first
-    if (this.ttlData.has(keyStr)) {
-      const expiry = this.ttlData.get(keyStr)!;
-      if (Date.now() > expiry) {
-        this.data.delete(keyStr);
-        this.ttlData.delete(keyStr);
-        return false;
+      // Check TTL first
+      if (this.ttlData.has(keyStr)) {
+        const expiry = this.ttlData.get(keyStr)!;
+        if (Date.now() > expiry) {
+          this.data.delete(keyStr);
+          this.ttlData.delete(keyStr);
+          return false;
+        }
       }
-    }
 
-    return this.data.has(keyStr);
+      return this.data.has(keyStr);
+    });
   }
 
-  async expire(key: K, ttl: number): Promise<boolean> {
+  expire(key: K, ttl: number): Promise<boolean> {
+    return run(() => this.applyExpire(key, ttl));
+  }
+
+  private applyExpire(key: K, ttl: number): boolean {
     const keyStr = String(key);
-    if (!this.data.has(keyStr)) {
+    const entry = this.data.get(keyStr);
+    if (!entry) {
       return false;
     }
 
+    // Replace rather than update the entry, snapshots may share it
+    this.sequence++;
+    this.data.set(keyStr, { ...entry, ttl: Date.now() + ttl, version: this.sequence });
     this.ttlData.set(keyStr, Date.now() + ttl);
     return true;
   }
 
-  async ttl(key: K): Promise<number> {
+  async getVersion(key: K): Promise<number> {
+    if (!(await this.exists(key))) {
+      return 0;
+    }
+    return this.data.get(String(key))!.version ?? 0;
+  }
+
+  async getWithMeta(key: K): Promise<ValueWithMeta<V> | null> {
+    if (!(await this.exists(key))) {
+      return null;
+    }
+
+    const entry = this.data.get(String(key))!;
+    checkType(key, entry, 'string');
+    return {
+      value: entry.value as V,
+      version: entry.version ?? 0,
+      timestamp: entry.timestamp,
+      expiresAt: entry.ttl
+    };
+  }
+
+  setIfVersion(key: K, value: V, expectedVersion: number, ttl?: number): Promise<number> {
+    return run(() => {
+      this.checkVersion(key, expectedVersion);
+      this.applySet(key, value, ttl);
+      return this.sequence;
+    });
+  }
+
+  delIfVersion(key: K, expectedVersion: number): Promise<boolean> {
+    return run(() => {
+      this.checkVersion(key, expectedVersion);
+      return this.applyDel(key);
+    });
+  }
+
+  /**
+   * Synchronous, so nothing can write the key between the check and the write
+   */
+  private checkVersion(key: K, expectedVersion: number): void {
     const keyStr = String(key);
-    
-    // Check if key exists at all
-    if (!this.data.has(keyStr)) {
-      return -2; // Key does not exist
+    const expiry = this.ttlData.get(keyStr);
+    const entry = expiry !== undefined && Date.now() > expiry ? undefined : this.data.get(keyStr);
+    const actualVersion = entry?.version ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw new VersionConflictError(String(key), expectedVersion, actualVersion);
     }
+  }
+
+  ttl(key: K): Promise<number> {
+    return run(() => {
+      const keyStr = String(key);
     
-    // Check if key has TTL
-    if (!this.ttlData.has(keyStr)) {
-      return -1; // Key exists but has no TTL
-    }
+      // Check if key exists at all
+      if (!this.data.has(keyStr)) {
+        return -2; // Key does not exist
+      }
+    
+      // Check if key has TTL
+      if (!this.ttlData.has(keyStr)) {
+        return -1; // Key exists but has no TTL
+      }
 
-    const expiry = this.ttlData.get(keyStr)!;
-    const remaining = expiry - Date.now();
+      const expiry = this.ttlData.get(keyStr)!;
+      const remaining = expiry - Date.now();
     
-    if (remaining <= 0) {
-      this.data.delete(keyStr);
-      this.ttlData.delete(keyStr);
-      return -2; // Key expired (now non-existent)
-    }
+      if (remaining <= 0) {
+        this.data.delete(keyStr);
+        this.ttlData.delete(keyStr);
+        return -2; // Key expired (now non-existent)
+      }
 
-    return Math.ceil(remaining / 1000); // Return in seconds
+      return Math.ceil(remaining / 1000); // Return in seconds
+    });
   }
 
-  async incr(key: K): Promise<number> {
-    const currentValue = await this.get(key);
+  incr(key: K): Promise<number> {
+    return run(() => this.incrBy(key, 1));
+  }
+
+  decr(key: K): Promise<number> {
+    return run(() => this.incrBy(key, -1));
+  }
+
+  /**
+   * Like Redis, changing a counter keeps its expiry
+   */
+  private incrBy(key: K, delta: number): number {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'string');
+    const currentValue = entry?.value ?? null;
     let numValue = 0;
     
     if (typeof currentValue === 'number') {
@@ -111,112 +325,931 @@ export class SimpleStorage<K = string, V = any> {
       numValue = isNaN(parsed) ? 0 : parsed;
     }
     
-    const newValue = numValue + 1;
-    await this.set(key, newValue as V);
+    const newValue = numValue + delta;
+    const expiry = entry && this.ttlData.get(String(key));
+    this.applySet(key, newValue as V, expiry ? Math.max(1, expiry - Date.now()) : undefined);
     return newValue;
   }
 
-  async decr(key: K): Promise<number> {
-    const currentValue = await this.get(key);
-    let numValue = 0;
-    
-    if (typeof currentValue === 'number') {
-      numValue = currentValue;
-    } else if (currentValue !== null) {
-      const parsed = parseInt(String(currentValue));
-      numValue = isNaN(parsed) ? 0 : parsed;
+  keys(pattern?: string): Promise<K[]> {
+    return run(() => {
+      const result: K[] = [];
+      const regex = pattern ? new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.')) : null;
+
+      for (const [keyStr, entry] of this.data) {
+        // Check TTL
+        if (this.ttlData.has(keyStr)) {
+          const expiry = this.ttlData.get(keyStr)!;
+          if (Date.now() > expiry) {
+            this.data.delete(keyStr);
+            this.ttlData.delete(keyStr);
+            continue;
+          }
+        }
+
+        if (!regex || regex.test(keyStr)) {
+          result.push(entry.key);
+        }
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Iterate live entries in key order. The matching keys are sorted up front;
+   * keys deleted while the scan is running are skipped.
+   */
+  scan(options: ScanOptions = {}): AsyncIterable<ScanEntry<K, V>> {
+    return iterate(this.liveEntries(options), entry => ({
+      key: entry.key,
+      value: plainCollection(entry.value) as V,
+      ...(entry.type && { type: entry.type })
+    }));
+  }
+
+  /**
+   * Iterate the keys `scan()` would, with their types but not their values
+   */
+  scanTypes(options: ScanOptions = {}): AsyncIterable<ScanKey<K>> {
+    return iterate(this.liveEntries(options), entry => ({ key: entry.key, ...(entry.type && { type: entry.type }) }));
+  }
+
+  private *liveEntries(options: ScanOptions): Generator<StorageEntry<K, V>> {
+    const range = resolveKeyRange(options, this.comparator);
+    const { prefix } = options;
+    const keys = [...this.data.keys()]
+      .filter(key => inKeyRange(key, range, this.comparator) && (!prefix || key.startsWith(prefix)))
+      .sort((a, b) => this.comparator.compare(a, b));
+    if (options.reverse) {
+      keys.reverse();
     }
+
+    let remaining = options.limit ?? Infinity;
+    for (const keyStr of keys) {
+      if (remaining <= 0) {
+        return;
+      }
+
+      const entry = this.data.get(keyStr);
+      const expiry = this.ttlData.get(keyStr);
+      if (!entry || (expiry !== undefined && Date.now() > expiry)) {
+        continue;
+      }
+
+      yield entry;
+      remaining--;
+    }
+  }
+
+  flushall(): Promise<void> {
+    return run(() => {
+      this.sequence++;
+      this.data.clear();
+      this.ttlData.clear();
+    });
+  }
+
+  info(): Promise<StorageStats> {
+    return run(() => {
+      const now = Date.now();
+      let oldestEntry = now;
+      let newestEntry = 0;
     
-    const newValue = numValue - 1;
-    await this.set(key, newValue as V);
-    return newValue;
+      // Clean expired entries and find oldest/newest
+      for (const [keyStr, entry] of this.data) {
+        if (this.ttlData.has(keyStr)) {
+          const expiry = this.ttlData.get(keyStr)!;
+          if (now > expiry) {
+            this.data.delete(keyStr);
+            this.ttlData.delete(keyStr);
+            continue;
+          }
+        }
+      
+        if (entry.timestamp < oldestEntry) oldestEntry = entry.timestamp;
+        if (entry.timestamp > newestEntry) newestEntry = entry.timestamp;
+      }
+
+      const memtableStats: MemtableStats = {
+        size: this.getSizeInBytes(),
+        entries: this.data.size,
+        oldestEntry: this.data.size > 0 ? oldestEntry : now,
+        newestEntry: this.data.size > 0 ? newestEntry : now
+      };
+
+      const sstables: SSTableMetadata[] = []; // Simplified - no SSTables in this implementation
+      const compactionStats: CompactionStats[] = []; // Simplified - no compaction
+
+      // Return both new and legacy format for compatibility
+      return {
+        // New structured format
+        memtable: memtableStats,
+        sstables,
+        totalSize: this.getSizeInBytes(),
+        totalEntries: this.data.size,
+        compactionStats,
+        // Legacy flat format for backward compatibility
+        memtableSize: this.getSizeInBytes(),
+        sstableCount: 0,
+        totalKeys: this.data.size,
+        lastSequence: this.sequence
+      };
+    });
+  }
+
+  mget(keys: K[]): Promise<(V | null)[]> {
+    return run(() => {
+      // Keys holding another type read as missing
+      return keys.map(key => {
+        const entry = this.liveEntry(key);
+        return entry && !entry.type ? (entry.value as V) : null;
+      });
+    });
   }
 
-  async keys(pattern?: string): Promise<K[]> {
-    const result: K[] = [];
-    const regex = pattern ? new RegExp(pattern.replace(/\*/g, '.*').replace(/\?/g, '.')) : null;
+  type(key: K): Promise<ValueType | 'none'> {
+    return run(() => {
+      const entry = this.liveEntry(key);
+      return entry ? (entry.type ?? 'string') : 'none';
+    });
+  }
 
-    for (const [keyStr, entry] of this.data) {
-      // Check TTL
-      if (this.ttlData.has(keyStr)) {
-        const expiry = this.ttlData.get(keyStr)!;
-        if (Date.now() > expiry) {
-          this.data.delete(keyStr);
-          this.ttlData.delete(keyStr);
-          continue;
+  hset(key: K, fields: HashFields<V>): Promise<number> {
+    return run(() => {
+      const hash = this.mutableHash(key);
+      let added = 0;
+      for (const [field, value] of Object.entries(fields)) {
+        added += hash.has(field) ? 0 : 1;
+        hash.set(field, value);
+      }
+      this.applyCollection(key, 'hash', hash);
+      return added;
+    });
+  }
+
+  hget(key: K, field: string): Promise<V | null> {
+    return run(() => {
+      const hash = this.getHash(key);
+      return hash?.has(field) ? hash.get(field)! : null;
+    });
+  }
+
+  hmget(key: K, fields: string[]): Promise<(V | null)[]> {
+    return run(() => {
+      const hash = this.getHash(key);
+      return fields.map(field => (hash?.has(field) ? hash.get(field)! : null));
+    });
+  }
+
+  hgetall(key: K): Promise<HashFields<V>> {
+    return run(() => Object.fromEntries(this.getHash(key) ?? []));
+  }
+
+  hdel(key: K, fields: string[]): Promise<number> {
+    return run(() => {
+      const current = this.getHash(key);
+      if (!fields.some(field => current?.has(field))) {
+        return 0;
+      }
+
+      const hash = this.mutableHash(key);
+      const removed = fields.filter(field => hash.delete(field)).length;
+      this.applyCollection(key, 'hash', hash);
+      return removed;
+    });
+  }
+
+  hexists(key: K, field: string): Promise<boolean> {
+    return run(() => this.getHash(key)?.has(field) ?? false);
+  }
+
+  hlen(key: K): Promise<number> {
+    return run(() => this.getHash(key)?.size ?? 0);
+  }
+
+  hkeys(key: K): Promise<string[]> {
+    return run(() => [...(this.getHash(key)?.keys() ?? [])]);
+  }
+
+  hvals(key: K): Promise<V[]> {
+    return run(() => [...(this.getHash(key)?.values() ?? [])]);
+  }
+
+  hincrby(key: K, field: string, increment: number): Promise<number> {
+    return run(() => this.incrementHashField(key, field, increment, true));
+  }
+
+  hincrbyfloat(key: K, field: string, increment: number): Promise<number> {
+    return run(() => this.incrementHashField(key, field, increment, false));
+  }
+
+  hscan(key: K, cursor: string, options?: MemberScanOptions): Promise<HashScanResult<V>> {
+    return run(() => scanMembers([...(this.getHash(key)?.entries() ?? [])], cursor, options));
+  }
+
+  lpush(key: K, values: V[]): Promise<number> {
+    return run(() => this.push(key, values, 'left'));
+  }
+
+  rpush(key: K, values: V[]): Promise<number> {
+    return run(() => this.push(key, values, 'right'));
+  }
+
+  lpop(key: K, count: number): Promise<V[]> {
+    return run(() => this.pop(key, count, 'left'));
+  }
+
+  rpop(key: K, count: number): Promise<V[]> {
+    return run(() => this.pop(key, count, 'right'));
+  }
+
+  lrange(key: K, start: number, stop: number): Promise<V[]> {
+    return run(() => {
+      const list = this.getList(key);
+      return list ? list.slice(...listRange(list.length, start, stop)) : [];
+    });
+  }
+
+  llen(key: K): Promise<number> {
+    return run(() => this.getList(key)?.length ?? 0);
+  }
+
+  lindex(key: K, index: number): Promise<V | null> {
+    return run(() => {
+      const list = this.getList(key);
+      const at = list && listIndex(list.length, index);
+      return at === undefined ? null : list!.at(at)!;
+    });
+  }
+
+  lset(key: K, index: number, value: V): Promise<void> {
+    return run(() => {
+      const list = this.getList(key);
+      if (!list) {
+        throw new KeyNotFoundError(key);
+      }
+
+      const at = listIndex(list.length, index);
+      if (at === undefined) {
+        throw new ValidationError('List index out of range', { index });
+      }
+      const mutable = this.mutableList(key);
+      mutable.set(at, value);
+      this.applyCollection(key, 'list', mutable);
+    });
+  }
+
+  lrem(key: K, count: number, value: V): Promise<number> {
+    return run(() => {
+      const list = [...(this.getList(key) ?? [])];
+      const removed = new Set(matchingIndexes(list, count, value));
+      if (removed.size > 0) {
+        this.applyCollection(key, 'list', Deque.from(list.filter((_, i) => !removed.has(i))));
+      }
+      return removed.size;
+    });
+  }
+
+  ltrim(key: K, start: number, stop: number): Promise<void> {
+    return run(() => {
+      const length = this.getList(key)?.length;
+      if (length === undefined) {
+        return;
+      }
+
+      const [from, to] = listRange(length, start, stop);
+      const list = this.mutableList(key);
+      while (list.length > to - from) {
+        if (list.length > length - from) {
+          list.shift();
+        } else {
+          list.pop();
         }
       }
+      this.applyCollection(key, 'list', list);
+    });
+  }
+
+  linsert(key: K, position: ListPosition, pivot: V, value: V): Promise<number> {
+    return run(() => {
+      const list = this.getList(key);
+      if (!list) {
+        return 0;
+      }
 
-      if (!regex || regex.test(keyStr)) {
-        result.push(entry.key);
+      const values = [...list];
+      const at = insertionIndex(values, position, pivot);
+      if (at === undefined) {
+        return -1;
       }
-    }
+      values.splice(at, 0, value);
+      this.applyCollection(key, 'list', Deque.from(values));
+      return values.length;
+    });
+  }
 
-    return result;
+  lmove(source: K, destination: K, from: ListEnd, to: ListEnd): Promise<V | null> {
+    return run(() => {
+      // Check both types before changing either list
+      const length = this.getList(source)?.length ?? 0;
+      this.getList(destination);
+      if (length === 0) {
+        return null;
+      }
+
+      const list = this.mutableList(source);
+      const value = (from === 'left' ? list.shift() : list.pop())!;
+      this.applyCollection(source, 'list', list);
+      const target = this.mutableList(destination);
+      if (to === 'left') {
+        target.unshift(value);
+      } else {
+        target.push(value);
+      }
+      this.applyCollection(destination, 'list', target);
+      return value;
+    });
   }
 
-  async flushall(): Promise<void> {
-    this.data.clear();
-    this.ttlData.clear();
+  sadd(key: K, members: string[]): Promise<number> {
+    return run(() => {
+      const set = this.mutableSet(key);
+      const before = set.size;
+      members.forEach(member => set.add(member));
+      this.applyCollection(key, 'set', set);
+      return set.size - before;
+    });
   }
 
-  async info(): Promise<any> {
-    const now = Date.now();
-    let oldestEntry = now;
-    let newestEntry = 0;
-    
-    // Clean expired entries and find oldest/newest
-    for (const [keyStr, entry] of this.data) {
-      if (this.ttlData.has(keyStr)) {
-        const expiry = this.ttlData.get(keyStr)!;
-        if (now > expiry) {
-          this.data.delete(keyStr);
-          this.ttlData.delete(keyStr);
-          continue;
+  srem(key: K, members: string[]): Promise<number> {
+    return run(() => {
+      const current = this.getSet(key);
+      if (!members.some(member => current?.has(member))) {
+        return 0;
+      }
+
+      const set = this.mutableSet(key);
+      const removed = members.filter(member => set.delete(member)).length;
+      this.applyCollection(key, 'set', set);
+      return removed;
+    });
+  }
+
+  smembers(key: K): Promise<string[]> {
+    return run(() => [...(this.getSet(key) ?? [])]);
+  }
+
+  sismember(key: K, member: string): Promise<boolean> {
+    return run(() => this.getSet(key)?.has(member) ?? false);
+  }
+
+  smismember(key: K, members: string[]): Promise<boolean[]> {
+    return run(() => {
+      const set = this.getSet(key);
+      return members.map(member => set?.has(member) ?? false);
+    });
+  }
+
+  scard(key: K): Promise<number> {
+    return run(() => this.getSet(key)?.size ?? 0);
+  }
+
+  spop(key: K, count: number): Promise<string[]> {
+    return run(() => {
+      const popped = randomMembers([...(this.getSet(key) ?? [])], count);
+      if (popped.length > 0) {
+        const set = this.mutableSet(key);
+        popped.forEach(member => set.delete(member));
+        this.applyCollection(key, 'set', set);
+      }
+      return popped;
+    });
+  }
+
+  srandmember(key: K, count: number): Promise<string[]> {
+    return run(() => randomMembers([...(this.getSet(key) ?? [])], count));
+  }
+
+  sinter(keys: K[]): Promise<string[]> {
+    return run(() => intersectSets(keys.map(key => this.getSet(key))));
+  }
+
+  sunion(keys: K[]): Promise<string[]> {
+    return run(() => unionSets(keys.map(key => this.getSet(key))));
+  }
+
+  sdiff(keys: K[]): Promise<string[]> {
+    return run(() => diffSets(keys.map(key => this.getSet(key))));
+  }
+
+  sinterstore(destination: K, keys: K[]): Promise<number> {
+    return run(() => this.storeSet(destination, intersectSets(keys.map(key => this.getSet(key)))));
+  }
+
+  sunionstore(destination: K, keys: K[]): Promise<number> {
+    return run(() => this.storeSet(destination, unionSets(keys.map(key => this.getSet(key)))));
+  }
+
+  sdiffstore(destination: K, keys: K[]): Promise<number> {
+    return run(() => this.storeSet(destination, diffSets(keys.map(key => this.getSet(key)))));
+  }
+
+  sscan(key: K, cursor: string, options?: MemberScanOptions): Promise<SetScanResult> {
+    return run(() => {
+      const [next, entries] = scanMembers(
+        [...(this.getSet(key) ?? [])].map(member => [member, member] as [string, string]),
+        cursor,
+        options
+      );
+      return [next, entries.map(([member]) => member)];
+    });
+  }
+
+  zadd(key: K, members: ZSetMembers, options: ZAddOptions): Promise<number | null> {
+    return run(() => {
+      const { scores, result } = addScores(this.getZSet(key), members, options);
+      this.changeZSet(key, scores);
+      return result;
+    });
+  }
+
+  zrem(key: K, members: string[]): Promise<number> {
+    return run(() => {
+      const removed = heldMembers(this.getZSet(key), members);
+      this.changeZSet(key, removed.map(member => [member, undefined]));
+      return removed.length;
+    });
+  }
+
+  zscore(key: K, member: string): Promise<number | null> {
+    return run(() => this.getZSet(key)?.score(member) ?? null);
+  }
+
+  zincrby(key: K, increment: number, member: string): Promise<number> {
+    return run(() => {
+      const score = incrementScore(this.getZSet(key)?.score(member), increment);
+      this.changeZSet(key, [[member, score]]);
+      return score;
+    });
+  }
+
+  zcard(key: K): Promise<number> {
+    return run(() => this.getZSet(key)?.size ?? 0);
+  }
+
+  zrank(key: K, member: string): Promise<number | null> {
+    return run(() => this.getZSet(key)?.rank(member) ?? null);
+  }
+
+  zrevrank(key: K, member: string): Promise<number | null> {
+    return run(() => {
+      const zset = this.getZSet(key);
+      const rank = zset?.rank(member);
+      return rank === undefined ? null : zset!.size - 1 - rank;
+    });
+  }
+
+  zrange(
+    key: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions
+  ): Promise<Array<[string, number]>> {
+    return run(() => zsetRange(this.getZSet(key), start, stop, options));
+  }
+
+  zrangestore(
+    destination: K,
+    source: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions
+  ): Promise<number> {
+    return run(() => {
+      const range = zsetRange(this.getZSet(source), start, stop, options);
+      return this.storeZSet(destination, SortedSet.from(range));
+    });
+  }
+
+  zcount(key: K, min: ZRangeBound, max: ZRangeBound): Promise<number> {
+    return run(() => countScores(this.getZSet(key), min, max));
+  }
+
+  zpopmin(key: K, count: number): Promise<Array<[string, number]>> {
+    return run(() => this.popZSet(key, count, false));
+  }
+
+  zpopmax(key: K, count: number): Promise<Array<[string, number]>> {
+    return run(() => this.popZSet(key, count, true));
+  }
+
+  zunionstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number> {
+    return run(() => this.storeZSet(destination, combineZSets(keys.map(key => this.getZSet(key)), options, false)));
+  }
+
+  zinterstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number> {
+    return run(() => this.storeZSet(destination, combineZSets(keys.map(key => this.getZSet(key)), options, true)));
+  }
+
+  zscan(key: K, cursor: string, options?: MemberScanOptions): Promise<ZSetScanResult> {
+    return run(() => scanMembers(this.getZSet(key)?.entries() ?? [], cursor, options));
+  }
+
+  xadd(key: K, fields: HashFields<V>, options: XAddOptions): Promise<string | null> {
+    return run(() => {
+      if (!this.getStream(key) && options.noMkStream) {
+        return null;
+      }
+      const stream = this.mutableStream(key);
+      const id = addEntry(stream, fields, options, Date.now());
+      this.applyCollection(key, 'stream', stream);
+      return id;
+    });
+  }
+
+  xrange(key: K, start: string, end: string, count?: number): Promise<StreamEntry<V>[]> {
+    return run(() => streamRange(this.getStream(key), start, end, count, false));
+  }
+
+  xrevrange(key: K, end: string, start: string, count?: number): Promise<StreamEntry<V>[]> {
+    return run(() => streamRange(this.getStream(key), start, end, count, true));
+  }
+
+  xread(streams: Array<[K, string]>, count?: number): Promise<StreamReadResult<K, V> | null> {
+    return run(() => {
+      const result: StreamReadResult<K, V> = streams
+        .map(([key, id]): [K, StreamEntry<V>[]] => [key, entriesAfter(this.getStream(key), id, count)])
+        .filter(([, entries]) => entries.length > 0);
+      return result.length > 0 ? result : null;
+    });
+  }
+
+  xgroupCreate(key: K, group: string, id: string, mkStream: boolean): Promise<void> {
+    return run(() => {
+      if (!this.getStream(key) && !mkStream) {
+        throw new KeyNotFoundError(key);
+      }
+      const stream = this.mutableStream(key);
+      createGroup(stream, key, group, id);
+      this.applyCollection(key, 'stream', stream);
+    });
+  }
+
+  xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[K, string]>,
+    options: { count?: number; noAck?: boolean }
+  ): Promise<StreamReadResult<K, V> | null> {
+    return run(() => {
+      // Check every group before delivering from any stream
+      const indexes = streams.map(([key]) => groupIndex(this.getStream(key), key, group));
+
+      const result: StreamReadResult<K, V> = [];
+      streams.forEach(([key, id], i) => {
+        const stream = this.mutableStream(key);
+        const { changed, entries } = readGroup(stream, indexes[i]!, consumer, id, options, Date.now());
+        if (changed) {
+          this.applyCollection(key, 'stream', stream);
+        }
+        if (entries) {
+          result.push([key, entries]);
         }
+      });
+      return result.length > 0 ? result : null;
+    });
+  }
+
+  xack(key: K, group: string, ids: string[]): Promise<number> {
+    return run(() => {
+      const index = findGroup(this.getStream(key), group);
+      if (index < 0) {
+        return 0;
+      }
+      const stream = this.mutableStream(key);
+      const acked = ackEntries(stream, index, ids);
+      if (acked > 0) {
+        this.applyCollection(key, 'stream', stream);
+      }
+      return acked;
+    });
+  }
+
+  xpending(key: K, group: string): Promise<XPendingSummary> {
+    return run(() => {
+      const stream = this.getStream(key);
+      return streamPendingSummary(stream!, groupIndex(stream, key, group));
+    });
+  }
+
+  xpendingRange(key: K, group: string, options: XPendingOptions): Promise<XPendingEntry[]> {
+    return run(() => {
+      const stream = this.getStream(key);
+      return pendingRange(stream!, groupIndex(stream, key, group), options, Date.now());
+    });
+  }
+
+  xclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    ids: string[]
+  ): Promise<StreamEntry<V>[]> {
+    return run(() => {
+      const index = groupIndex(this.getStream(key), key, group);
+      const stream = this.mutableStream(key);
+      const entries = claimEntries(stream, index, consumer, minIdleMs, ids, Date.now());
+      this.applyCollection(key, 'stream', stream);
+      return entries;
+    });
+  }
+
+  xautoclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    start: string,
+    count: number
+  ): Promise<XAutoClaimResult<V>> {
+    return run(() => {
+      const index = groupIndex(this.getStream(key), key, group);
+      const stream = this.mutableStream(key);
+      const claimed = autoClaimEntries(stream, index, consumer, minIdleMs, start, count, Date.now());
+      this.applyCollection(key, 'stream', stream);
+      return claimed;
+    });
+  }
+
+  xinfoStream(key: K): Promise<StreamInfo<V> | null> {
+    return run(() => {
+      const stream = this.getStream(key);
+      if (!stream) {
+        return null;
+      }
+      const { entries } = stream;
+      return streamInfo(stream, entries.length, entries.at(0) ?? null, entries.at(entries.length - 1) ?? null);
+    });
+  }
+
+  xinfoGroups(key: K): Promise<StreamGroupInfo[]> {
+    return run(() => groupsInfo(this.getStream(key)));
+  }
+
+  xinfoConsumers(key: K, group: string): Promise<StreamConsumerInfo[]> {
+    return run(() => consumersInfo(this.getStream(key), key, group, Date.now()));
+  }
+
+  private push(key: K, values: V[], end: ListEnd): number {
+    const list = this.mutableList(key);
+    for (const value of values) {
+      if (end === 'left') {
+        list.unshift(value);
+      } else {
+        list.push(value);
       }
-      
-      if (entry.timestamp < oldestEntry) oldestEntry = entry.timestamp;
-      if (entry.timestamp > newestEntry) newestEntry = entry.timestamp;
     }
+    this.applyCollection(key, 'list', list);
+    return list.length;
+  }
 
-    const memtableStats: MemtableStats = {
-      size: this.getSizeInBytes(),
-      entries: this.data.size,
-      oldestEntry: this.data.size > 0 ? oldestEntry : now,
-      newestEntry: this.data.size > 0 ? newestEntry : now
-    };
+  private pop(key: K, count: number, end: ListEnd): V[] {
+    const length = this.getList(key)?.length ?? 0;
+    if (length === 0 || count === 0) {
+      return [];
+    }
 
-    const sstables: SSTableMetadata[] = []; // Simplified - no SSTables in this implementation
-    const compactionStats: CompactionStats[] = []; // Simplified - no compaction
+    const list = this.mutableList(key);
+    const popped: V[] = [];
+    while (popped.length < count && list.length > 0) {
+      popped.push((end === 'left' ? list.shift() : list.pop())!);
+    }
+    this.applyCollection(key, 'list', list);
+    return popped;
+  }
 
-    // Return both new and legacy format for compatibility
-    return {
-      // New structured format
-      memtable: memtableStats,
-      sstables,
-      totalSize: this.getSizeInBytes(),
-      totalEntries: this.data.size,
-      compactionStats,
-      // Legacy flat format for backward compatibility
-      memtableSize: this.getSizeInBytes(),
-      sstableCount: 0,
-      totalKeys: this.data.size
-    };
+  private popZSet(key: K, count: number, highest: boolean): Array<[string, number]> {
+    const popped = popScores(this.getZSet(key), count, highest);
+    this.changeZSet(key, popped.map(([member]) => [member, undefined]));
+    return popped;
+  }
+
+  /**
+   * Set or remove scores of a sorted set in place, copying it first when a
+   * snapshot holds it. Nothing changes, the version included, for no scores.
+   */
+  private changeZSet(key: K, scores: Array<[member: string, score: number | undefined]>): void {
+    if (scores.length === 0) {
+      return;
+    }
+
+    const current = this.getZSet(key);
+    const zset = !current ? new SortedSet() : this.shared.has(current) ? current.clone() : current;
+    applyScores(zset, scores);
+    this.applyCollection(key, 'zset', zset);
+  }
+
+  private incrementHashField(key: K, field: string, increment: number, integer: boolean): number {
+    const current = this.getHash(key);
+    const result = incrementField(current?.has(field) ? current.get(field) : null, field, increment, integer);
+    const hash = this.mutableHash(key);
+    hash.set(field, result as V);
+    this.applyCollection(key, 'hash', hash);
+    return result;
   }
 
-  async mget(keys: K[]): Promise<(V | null)[]> {
-    const results: (V | null)[] = [];
-    for (const key of keys) {
-      results.push(await this.get(key));
+  /**
+   * The live entry of a key, dropping it once expired
+   */
+  private liveEntry(key: K): StorageEntry<K, V> | undefined {
+    const keyStr = String(key);
+    const expiry = this.ttlData.get(keyStr);
+    if (expiry !== undefined && Date.now() > expiry) {
+      this.data.delete(keyStr);
+      this.ttlData.delete(keyStr);
+      return undefined;
     }
-    return results;
+    return this.data.get(keyStr);
+  }
+
+  private getHash(key: K): Map<string, V> | undefined {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'hash');
+    return entry?.value as Map<string, V> | undefined;
+  }
+
+  /**
+   * The hash to change in place, copied first when a snapshot holds it, or
+   * a new one for a missing key. `applyCollection()` stores the change.
+   */
+  private mutableHash(key: K): Map<string, V> {
+    const hash = this.getHash(key);
+    return !hash ? new Map<string, V>() : this.shared.has(hash) ? new Map(hash) : hash;
+  }
+
+  private getSet(key: K): Set<string> | undefined {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'set');
+    return entry?.value as Set<string> | undefined;
+  }
+
+  /**
+   * Like `mutableHash()`, for sets
+   */
+  private mutableSet(key: K): Set<string> {
+    const set = this.getSet(key);
+    return !set ? new Set<string>() : this.shared.has(set) ? new Set(set) : set;
+  }
+
+  /**
+   * Replace whatever the destination of a `*STORE` command holds, expiry
+   * included, with the resulting set
+   */
+  private storeSet(destination: K, members: string[]): number {
+    this.applyDel(destination);
+    this.applyCollection(destination, 'set', new Set(members));
+    return members.length;
+  }
+
+  private getZSet(key: K): SortedSet | undefined {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'zset');
+    return entry?.value as SortedSet | undefined;
+  }
+
+  /**
+   * Replace whatever the destination of a `*STORE` command holds, expiry
+   * included, with the resulting sorted set
+   */
+  private storeZSet(destination: K, zset: SortedSet): number {
+    this.applyDel(destination);
+    this.applyCollection(destination, 'zset', zset);
+    return zset.size;
+  }
+
+  private getStream(key: K): Stream<V> | undefined {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'stream');
+    return entry?.value as Stream<V> | undefined;
+  }
+
+  /**
+   * Like `mutableHash()`, for streams
+   */
+  private mutableStream(key: K): Stream<V> {
+    const stream = this.getStream(key);
+    return !stream ? new Stream<V>() : this.shared.has(stream) ? stream.clone() : stream;
+  }
+
+  private getList(key: K): Deque<V> | undefined {
+    const entry = this.liveEntry(key);
+    checkType(key, entry, 'list');
+    return entry?.value as Deque<V> | undefined;
+  }
+
+  /**
+   * Like `mutableHash()`, for lists
+   */
+  private mutableList(key: K): Deque<V> {
+    const list = this.getList(key);
+    return !list ? new Deque<V>() : this.shared.has(list) ? list.clone() : list;
+  }
+
+  /**
+   * Store the collection a key holds, changed or new, as a new version
+   * keeping its expiry. An empty one deletes the key.
+   */
+  private applyCollection(
+    key: K,
+    type: ValueType,
+    value: Map<string, V> | Deque<V> | Set<string> | SortedSet | Stream<V>
+  ): void {
+    if (isEmptyCollection(value)) {
+      this.applyDel(key);
+      return;
+    }
+
+    const keyStr = String(key);
+    this.sequence++;
+    this.data.set(keyStr, {
+      key,
+      value: value as V,
+      type,
+      timestamp: Date.now(),
+      ttl: this.ttlData.get(keyStr),
+      version: this.sequence
+    });
   }
 
   async mset(entries: Array<{ key: K; value: V; ttl?: number }>): Promise<void> {
-    for (const entry of entries) {
-      await this.set(entry.key, entry.value, entry.ttl);
+    await this.writeBatch(entries.map(entry => ({ type: 'set', ...entry })));
+  }
+
+  /**
+   * Apply every operation without yielding, so no reader sees part of the batch
+   */
+  writeBatch(operations: BatchOperation<K, V>[]): Promise<void> {
+    return run(() => {
+      for (const operation of operations) {
+        switch (operation.type) {
+          case 'set':
+            this.applySet(operation.key, operation.value, operation.ttl);
+            break;
+          case 'del':
+            this.applyDel(operation.key);
+            break;
+          case 'expire':
+            this.applyExpire(operation.key, operation.ttl);
+            break;
+        }
+      }
+    });
+  }
+
+  /**
+   * Everything lives in memory, so a snapshot is a copy of the maps read
+   * through a detached storage instance. The collections in it are shared
+   * until a write copies one to change it.
+   */
+  getSnapshot(): ReadSnapshot<K, V> {
+    const view = new SimpleStorage<K, V>(this.comparator);
+    view.data = new Map(this.data);
+    view.ttlData = new Map(this.ttlData);
+    for (const entry of this.data.values()) {
+      if (entry.type) {
+        this.shared.add(entry.value as object);
+      }
     }
+
+    let released = false;
+    const read = async <T>(fn: () => Promise<T>): Promise<T> => {
+      if (released) {
+        throw new StorageError('Snapshot has been released');
+      }
+      return fn();
+    };
+
+    return {
+      sequence: this.sequence,
+      get: key => read(() => view.get(key)),
+      exists: key => read(() => view.exists(key)),
+      ttl: key => read(() => view.ttl(key)),
+      keys: pattern => read(() => view.keys(pattern)),
+      mget: keys => read(() => view.mget(keys)),
+      scan: options => {
+        if (released) {
+          throw new StorageError('Snapshot has been released');
+        }
+        return view.scan(options);
+      },
+      release: () => {
+        released = true;
+        view.data.clear();
+        view.ttlData.clear();
+      }
+    };
   }
 
   size(): number {
@@ -227,7 +1260,7 @@ export class SimpleStorage<K = string, V = any> {
     let totalSize = 0;
     for (const [keyStr, entry] of this.data) {
       totalSize += keyStr.length * 2; // Approximate string size
-      totalSize += JSON.stringify(entry.value).length * 2; // Approximate value size
+      totalSize += JSON.stringify(plainCollection(entry.value)).length * 2; // Approximate value size
       totalSize += 32; // Metadata overhead
     }
     return totalSize;
@@ -235,11 +1268,20 @@ export class SimpleStorage<K = string, V = any> {
 
   // Cleanup expired entries periodically
   startPeriodicCleanup(intervalMs: number = 60000): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupExpiredEntries();
     }, intervalMs);
   }
 
+  close(): Promise<void> {
+    return run(() => {
+      if (this.cleanupTimer) {
+        clearInterval(this.cleanupTimer);
+        this.cleanupTimer = undefined;
+      }
+    });
+  }
+
   private cleanupExpiredEntries(): void {
     const now = Date.now();
     for (const [keyStr] of this.data) {
@@ -15,7 +15,91 @@ export type CommandType =
   | 'INFO'
   | 'EXISTS'
   | 'MGET'
-  | 'MSET';
+  | 'MSET'
+  | 'BATCH'
+  | 'VERSION'
+  | 'GETMETA'
+  | 'SETIFVERSION'
+  | 'DELIFVERSION'
+  | 'EVAL'
+  | 'EVALSHA'
+  | 'SCRIPTLOAD'
+  | 'SCRIPTEXISTS'
+  | 'SCRIPTLIST'
+  | 'SCRIPTFLUSH'
+  | 'TYPE'
+  | 'HSET'
+  | 'HGET'
+  | 'HMGET'
+  | 'HGETALL'
+  | 'HDEL'
+  | 'HEXISTS'
+  | 'HLEN'
+  | 'HKEYS'
+  | 'HVALS'
+  | 'HINCRBY'
+  | 'HINCRBYFLOAT'
+  | 'HSCAN'
+  | 'LPUSH'
+  | 'RPUSH'
+  | 'LPOP'
+  | 'RPOP'
+  | 'LRANGE'
+  | 'LLEN'
+  | 'LINDEX'
+  | 'LSET'
+  | 'LREM'
+  | 'LTRIM'
+  | 'LINSERT'
+  | 'LMOVE'
+  | 'BLPOP'
+  | 'BRPOP'
+  | 'BLMOVE'
+  | 'SADD'
+  | 'SREM'
+  | 'SMEMBERS'
+  | 'SISMEMBER'
+  | 'SMISMEMBER'
+  | 'SCARD'
+  | 'SPOP'
+  | 'SRANDMEMBER'
+  | 'SINTER'
+  | 'SUNION'
+  | 'SDIFF'
+  | 'SINTERSTORE'
+  | 'SUNIONSTORE'
+  | 'SDIFFSTORE'
+  | 'SSCAN'
+  | 'ZADD'
+  | 'ZREM'
+  | 'ZSCORE'
+  | 'ZINCRBY'
+  | 'ZCARD'
+  | 'ZRANK'
+  | 'ZREVRANK'
+  | 'ZRANGE'
+  | 'ZRANGESTORE'
+  | 'ZCOUNT'
+  | 'ZPOPMIN'
+  | 'ZPOPMAX'
+  | 'BZPOPMIN'
+  | 'ZUNIONSTORE'
+  | 'ZINTERSTORE'
+  | 'ZSCAN'
+  | 'XADD'
+  | 'XRANGE'
+  | 'XREVRANGE'
+  | 'XREAD'
+  | 'XGROUPCREATE'
+  | 'XREADGROUP'
+  | 'XACK'
+  | 'XPENDING'
+  | 'XCLAIM'
+  | 'XAUTOCLAIM'
+  | 'XINFOSTREAM'
+  | 'XINFOGROUPS'
+  | 'XINFOCONSUMERS'
+  | 'SCAN';
 
 export interface CommandContext<K = string, V = any> {
   command: CommandType;
@@ -25,6 +109,26 @@ export interface CommandContext<K = string, V = any> {
   values?: V[];
   ttl?: number;
   pattern?: string;
+  operations?: BatchOperation<K, V>[];
+  /** Version a conditional write expects the key to have */
+  version?: number;
+  /** Source of the script run by `EVAL` or loaded by `SCRIPTLOAD` */
+  script?: string;
+  sha?: string;
+  /** Arguments passed to a script besides its keys */
+  argv?: unknown[];
+  /** Fields of a hash command */
+  fields?: string[];
+  /** Members of a set or sorted set command */
+  members?: string[];
+  /** Key a list command moves an element to, or a sorted set command stores into */
+  destination?: K;
+  /** How long a blocking command waits, 0 for no limit */
+  timeoutMs?: number;
+  /** Consumer group of a stream command */
+  group?: string;
+  /** Stream entry IDs a command acknowledges or claims */
+  ids?: string[];
   timestamp?: number;
 }
 
@@ -36,13 +140,144 @@ export interface CommandArgs<K = string, V = any> {
   ttl?: number;
   pattern?: string;
   delta?: number;
+  operations?: BatchOperation<K, V>[];
+  version?: number;
+  script?: string;
+  sha?: string;
+  shas?: string[];
+  argv?: unknown[];
+  field?: string;
+  fields?: string[];
+  hash?: HashFields<V>;
+  increment?: number;
+  cursor?: string;
+  options?: CursorScanOptions;
+  /** Range of a page of `scan()` entries, which the worker client asks for in turn */
+  scanOptions?: ScanOptions;
+  count?: number;
+  index?: number;
+  start?: number;
+  stop?: number;
+  position?: ListPosition;
+  pivot?: V;
+  destination?: K;
+  from?: ListEnd;
+  to?: ListEnd;
+  timeoutMs?: number;
+  member?: string;
+  members?: string[];
+  scores?: ZSetMembers;
+  min?: ZRangeBound;
+  max?: ZRangeBound;
+  addOptions?: ZAddOptions;
+  rangeOptions?: ZRangeOptions;
+  storeOptions?: ZStoreOptions;
+  id?: string;
+  ids?: string[];
+  streams?: Array<[K, string]>;
+  group?: string;
+  consumer?: string;
+  minIdleMs?: number;
+  mkStream?: boolean;
+  xaddOptions?: XAddOptions;
+  readOptions?: XReadGroupOptions;
+  pendingOptions?: XPendingOptions;
 }
 
-export interface WorkerRequest<K = string, V = any> {
-  id: string;
-  command: CommandType;
-  args: CommandArgs<K, V>;
-}
+/**
+ * Arguments a command reads. They arrive from another thread, so each stays
+ * optional until the worker has checked it.
+ */
+type CommandPayload<K, V, F extends keyof CommandArgs<K, V>> = Pick<CommandArgs<K, V>, F>;
+
+/**
+ * A command the worker runs and the arguments it takes
+ */
+export type WorkerCommand<K = string, V = any> =
+  | { command: 'SET'; args: CommandPayload<K, V, 'key' | 'value' | 'ttl'> }
+  | {
+      command:
+        | 'GET'
+        | 'DEL'
+        | 'EXISTS'
+        | 'TTL'
+        | 'INCR'
+        | 'DECR'
+        | 'VERSION'
+        | 'GETMETA'
+        | 'TYPE'
+        | 'HGETALL'
+        | 'HLEN'
+        | 'HKEYS'
+        | 'HVALS'
+        | 'LLEN'
+        | 'SMEMBERS'
+        | 'SCARD'
+        | 'ZCARD'
+        | 'XINFOSTREAM'
+        | 'XINFOGROUPS';
+      args: CommandPayload<K, V, 'key'>;
+    }
+  | { command: 'EXPIRE'; args: CommandPayload<K, V, 'key' | 'ttl'> }
+  | { command: 'BATCH'; args: CommandPayload<K, V, 'operations'> }
+  | { command: 'SETIFVERSION'; args: CommandPayload<K, V, 'key' | 'value' | 'version' | 'ttl'> }
+  | { command: 'DELIFVERSION'; args: CommandPayload<K, V, 'key' | 'version'> }
+  | { command: 'EVAL'; args: CommandPayload<K, V, 'script' | 'keys' | 'argv'> }
+  | { command: 'EVALSHA'; args: CommandPayload<K, V, 'sha' | 'keys' | 'argv'> }
+  | { command: 'SCRIPTLOAD'; args: CommandPayload<K, V, 'script'> }
+  | { command: 'SCRIPTEXISTS'; args: CommandPayload<K, V, 'shas'> }
+  | { command: 'SCRIPTLIST' | 'SCRIPTFLUSH' | 'FLUSHALL' | 'INFO'; args: CommandPayload<K, V, never> }
+  /** Closes the worker's storage before the client ends the thread */
+  | { command: 'CLOSE'; args: CommandPayload<K, V, never> }
+  | { command: 'HSET'; args: CommandPayload<K, V, 'key' | 'hash'> }
+  | { command: 'HGET' | 'HEXISTS'; args: CommandPayload<K, V, 'key' | 'field'> }
+  | { command: 'HMGET' | 'HDEL'; args: CommandPayload<K, V, 'key' | 'fields'> }
+  | { command: 'HINCRBY' | 'HINCRBYFLOAT'; args: CommandPayload<K, V, 'key' | 'field' | 'increment'> }
+  | { command: 'HSCAN' | 'SSCAN' | 'ZSCAN'; args: CommandPayload<K, V, 'key' | 'cursor' | 'options'> }
+  | { command: 'LPUSH' | 'RPUSH'; args: CommandPayload<K, V, 'key' | 'values'> }
+  | {
+      command: 'LPOP' | 'RPOP' | 'SPOP' | 'SRANDMEMBER' | 'ZPOPMIN' | 'ZPOPMAX';
+      args: CommandPayload<K, V, 'key' | 'count'>;
+    }
+  | { command: 'LRANGE' | 'LTRIM'; args: CommandPayload<K, V, 'key' | 'start' | 'stop'> }
+  | { command: 'LINDEX'; args: CommandPayload<K, V, 'key' | 'index'> }
+  | { command: 'LSET'; args: CommandPayload<K, V, 'key' | 'index' | 'value'> }
+  | { command: 'LREM'; args: CommandPayload<K, V, 'key' | 'count' | 'value'> }
+  | { command: 'LINSERT'; args: CommandPayload<K, V, 'key' | 'position' | 'pivot' | 'value'> }
+  | { command: 'LMOVE'; args: CommandPayload<K, V, 'key' | 'destination' | 'from' | 'to'> }
+  | { command: 'BLMOVE'; args: CommandPayload<K, V, 'key' | 'destination' | 'from' | 'to' | 'timeoutMs'> }
+  | { command: 'BLPOP' | 'BRPOP' | 'BZPOPMIN'; args: CommandPayload<K, V, 'keys' | 'timeoutMs'> }
+  | { command: 'SADD' | 'SREM' | 'SMISMEMBER' | 'ZREM'; args: CommandPayload<K, V, 'key' | 'members'> }
+  | { command: 'SISMEMBER' | 'ZSCORE' | 'ZRANK' | 'ZREVRANK'; args: CommandPayload<K, V, 'key' | 'member'> }
+  | { command: 'SINTER' | 'SUNION' | 'SDIFF'; args: CommandPayload<K, V, 'keys'> }
+  | { command: 'SINTERSTORE' | 'SUNIONSTORE' | 'SDIFFSTORE'; args: CommandPayload<K, V, 'destination' | 'keys'> }
+  | { command: 'ZADD'; args: CommandPayload<K, V, 'key' | 'scores' | 'addOptions'> }
+  | { command: 'ZINCRBY'; args: CommandPayload<K, V, 'key' | 'member' | 'increment'> }
+  | { command: 'ZRANGE'; args: CommandPayload<K, V, 'key' | 'min' | 'max' | 'rangeOptions'> }
+  | { command: 'ZRANGESTORE'; args: CommandPayload<K, V, 'key' | 'destination' | 'min' | 'max' | 'rangeOptions'> }
+  | { command: 'ZCOUNT'; args: CommandPayload<K, V, 'key' | 'min' | 'max'> }
+  | { command: 'ZUNIONSTORE' | 'ZINTERSTORE'; args: CommandPayload<K, V, 'destination' | 'keys' | 'storeOptions'> }
+  | { command: 'XADD'; args: CommandPayload<K, V, 'key' | 'hash' | 'xaddOptions'> }
+  | { command: 'XRANGE' | 'XREVRANGE'; args: CommandPayload<K, V, 'key' | 'min' | 'max' | 'count'> }
+  | { command: 'XREAD'; args: CommandPayload<K, V, 'streams' | 'count' | 'timeoutMs'> }
+  | { command: 'XGROUPCREATE'; args: CommandPayload<K, V, 'key' | 'group' | 'id' | 'mkStream'> }
+  | {
+      command: 'XREADGROUP';
+      args: CommandPayload<K, V, 'group' | 'consumer' | 'streams' | 'readOptions' | 'timeoutMs'>;
+    }
+  | { command: 'XACK'; args: CommandPayload<K, V, 'key' | 'group' | 'ids'> }
+  | { command: 'XPENDING'; args: CommandPayload<K, V, 'key' | 'group' | 'pendingOptions'> }
+  | { command: 'XCLAIM'; args: CommandPayload<K, V, 'key' | 'group' | 'consumer' | 'minIdleMs' | 'ids'> }
+  | {
+      command: 'XAUTOCLAIM';
+      args: CommandPayload<K, V, 'key' | 'group' | 'consumer' | 'minIdleMs' | 'id' | 'count'>;
+    }
+  | { command: 'XINFOCONSUMERS'; args: CommandPayload<K, V, 'key' | 'group'> }
+  | { command: 'KEYS'; args: CommandPayload<K, V, 'pattern'> }
+  | { command: 'MGET'; args: CommandPayload<K, V, 'keys'> }
+  | { command: 'SCAN'; args: CommandPayload<K, V, 'cursor' | 'options' | 'scanOptions'> };
+
+export type WorkerRequest<K = string, V = any> = WorkerCommand<K, V> & { id: string };
 
 export interface WorkerResponse<V = any> {
   id: string;
@@ -54,14 +289,211 @@ export interface WorkerError {
   code: string;
   message: string;
   stack?: string;
+  details?: any;
+}
+
+/**
+ * Kind of value a key holds
+ */
+export type ValueType = 'string' | 'hash' | 'list' | 'set' | 'zset' | 'stream';
+
+/**
+ * End of a list: the head (`'left'`) or the tail (`'right'`)
+ */
+export type ListEnd = 'left' | 'right';
+
+/**
+ * Where `linsert()` puts the value relative to the pivot
+ */
+export type ListPosition = 'before' | 'after';
+
+/**
+ * Fields of a hash and their values
+ */
+export type HashFields<V = any> = Record<string, V>;
+
+/**
+ * Members of a sorted set and their scores
+ */
+export type ZSetMembers = Record<string, number>;
+
+/**
+ * Conditions and flags for `zadd()`
+ */
+export interface ZAddOptions {
+  /** Only add new members, never update existing ones */
+  nx?: boolean;
+  /** Only update existing members, never add new ones */
+  xx?: boolean;
+  /** Only update a member when its new score is greater; new members are still added */
+  gt?: boolean;
+  /** Only update a member when its new score is less; new members are still added */
+  lt?: boolean;
+  /** Count members whose score changed as well as ones added */
+  ch?: boolean;
+  /** Add the score to the member's current one, like `zincrby()`, and return the new score */
+  incr?: boolean;
+}
+
+/**
+ * A bound of a sorted set range: a rank, which counts from the end when
+ * negative; a score, as a number, `'-inf'` or `'+inf'`, or a string starting
+ * with `(` to leave the score itself out; or a member, as `'[member'`,
+ * `'(member'` to leave it out, `'-'` or `'+'`
+ */
+export type ZRangeBound = number | string;
+
+/**
+ * Options for `zrange()` and `zrangestore()`
+ */
+export interface ZRangeOptions {
+  /** What the bounds are, ranks by default */
+  by?: 'rank' | 'score' | 'lex';
+  /** Order from the highest score down. Score and member bounds are then given highest first */
+  rev?: boolean;
+  /** Skip `offset` members of a score or member range and return up to `count`, all when negative */
+  limit?: { offset: number; count: number };
+  /** Return `[member, score]` pairs instead of members */
+  withScores?: boolean;
+}
+
+/**
+ * Options for `zunionstore()` and `zinterstore()`
+ */
+export interface ZStoreOptions {
+  /** Factor for the scores of each source set, 1 by default */
+  weights?: number[];
+  /** How to combine a member's scores from several sets, `'sum'` by default */
+  aggregate?: 'sum' | 'min' | 'max';
+}
+
+/**
+ * An entry of a stream: its ID, `'<ms>-<seq>'`, and its fields
+ */
+export type StreamEntry<V = any> = [id: string, fields: HashFields<V>];
+
+/**
+ * Options for `xadd()`
+ */
+export interface XAddOptions {
+  /**
+   * ID of the new entry, greater than every ID in the stream. `'*'`, the
+   * default, takes the time from the clock and `'<ms>-*'` the next sequence
+   * number for the given time.
+   */
+  id?: string;
+  /** Leave a missing stream alone rather than create it, and return null */
+  noMkStream?: boolean;
+  /** Trim the oldest entries so that at most this many remain */
+  maxLen?: number;
+  /** Trim the entries with IDs below this one */
+  minId?: string;
+}
+
+/**
+ * Options for `xread()`
+ */
+export interface XReadOptions {
+  /** Most entries to return per stream */
+  count?: number;
+  /** Wait this long, 0 for no limit, when there is nothing to read. Without it the read returns at once */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for `xreadgroup()`
+ */
+export interface XReadGroupOptions extends XReadOptions {
+  /** Acknowledge the entries as they are delivered instead of adding them to the pending list */
+  noAck?: boolean;
+}
+
+/**
+ * The streams that had entries to read, with those entries
+ */
+export type StreamReadResult<K = string, V = any> = Array<[key: K, entries: StreamEntry<V>[]]>;
+
+/**
+ * Options for listing the pending entries of a consumer group with `xpending()`
+ */
+export interface XPendingOptions {
+  /** Lowest ID, `'-'` by default; starting with `(` leaves it out */
+  start?: string;
+  /** Highest ID, `'+'` by default; starting with `(` leaves it out */
+  end?: string;
+  /** Most entries to return */
+  count: number;
+  /** Only list entries delivered to this consumer */
+  consumer?: string;
+  /** Only list entries delivered at least this long ago */
+  minIdleMs?: number;
+}
+
+/**
+ * Pending entries of a consumer group, delivered but not acknowledged
+ */
+export interface XPendingSummary {
+  count: number;
+  /** Lowest and highest pending IDs, null when nothing is pending */
+  lowestId: string | null;
+  highestId: string | null;
+  /** Consumers with pending entries and how many each has */
+  consumers: Array<[consumer: string, count: number]>;
+}
+
+export interface XPendingEntry {
+  id: string;
+  consumer: string;
+  /** Time since the entry was last delivered */
+  idleMs: number;
+  /** Times the entry was delivered */
+  deliveries: number;
+}
+
+/**
+ * The ID to pass to the next `xautoclaim()`, `'0-0'` once it has gone through
+ * every pending entry, the claimed entries, and the IDs of pending entries
+ * that were trimmed from the stream, which it removed from the pending list
+ */
+export type XAutoClaimResult<V = any> = [next: string, entries: StreamEntry<V>[], deletedIds: string[]];
+
+export interface StreamInfo<V = any> {
+  length: number;
+  /** ID of the last entry ever added, `'0-0'` for none */
+  lastGeneratedId: string;
+  /** Entries ever added, trimmed ones included */
+  entriesAdded: number;
+  groups: number;
+  firstEntry: StreamEntry<V> | null;
+  lastEntry: StreamEntry<V> | null;
+}
+
+export interface StreamGroupInfo {
+  name: string;
+  consumers: number;
+  pending: number;
+  /** ID of the last entry delivered to the group */
+  lastDeliveredId: string;
+}
+
+export interface StreamConsumerInfo {
+  name: string;
+  pending: number;
+  /** Time since the consumer last read or claimed entries */
+  idleMs: number;
 }
 
 export interface StorageEntry<K = string, V = any> {
   key: K;
   value: V | null;
+  /** Kind of value, absent for strings */
+  type?: ValueType;
   timestamp: number;
   ttl?: number;
+  /** Changes with every write of the key: the sequence of the write that made it */
   version?: number;
+  /** Position of the write in the global write order */
+  sequence?: number;
 }
 
 export interface SerializationOptions {
@@ -69,15 +501,66 @@ export interface SerializationOptions {
   deserialize: <T>(data: Buffer | string) => T;
 }
 
+export type StorageEngineType = 'simple' | 'lsm';
+
+export type WALSyncPolicy = 'always' | 'everysec' | 'never';
+
+export type CompressionType = 'none' | 'deflate' | 'gzip' | 'brotli';
+
+/**
+ * Total order over keys, used by every storage component. The name is
+ * recorded with the data, which can then only be reopened with the same one.
+ */
+export interface Comparator {
+  readonly name: string;
+  compare(a: string, b: string): number;
+}
+
+/**
+ * - bytewise: UTF-8 byte order (default)
+ * - numeric: digit runs compare as numbers, so 'item:9' sorts before 'item:10'
+ * - reverse: descending UTF-8 byte order
+ */
+export type ComparatorName = 'bytewise' | 'numeric' | 'reverse';
+
 export interface SnapDBConfig {
+  engine?: StorageEngineType;
+  dataDir?: string;
+  walSyncPolicy?: WALSyncPolicy;
   maxMemtableSizeMB?: number;
+  /** Full memtables waiting to be flushed before writes stop, default 2 */
+  maxImmutableMemtables?: number;
   compactionIntervalMs?: number;
+  compaction?: CompactionConfig;
   enableBloomFilter?: boolean;
+  bloomFilter?: BloomFilterConfig;
+  /** Index key prefixes in bloom filters, so prefix scans can skip SSTables */
+  prefixExtractor?: PrefixExtractorConfig;
+  /** Key order, default 'bytewise'. A custom comparator keeps compaction on the main thread */
+  comparator?: ComparatorName | Comparator;
+  /** Memory for caching SSTable blocks read from disk, shared by all tables, default 8 */
+  blockCacheSizeMB?: number;
+  /** SSTable files kept open at once, default 1000 */
+  maxOpenFiles?: number;
+  /**
+   * Compression of SSTable blocks, default 'none'. A list sets it per level,
+   * its last entry covering every deeper level.
+   */
+  compression?: CompressionType | CompressionType[];
   maxWorkers?: number;
   serialization?: SerializationOptions;
+  /** CPU time a script may take per run before it is stopped, default 5000 */
+  scriptTimeoutMs?: number;
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
 }
 
+/**
+ * SnapDBConfig with defaults applied; dataDir stays optional because leaving
+ * it unset keeps the store purely in memory
+ */
+export type ResolvedSnapDBConfig = Required<Omit<SnapDBConfig, 'dataDir' | 'prefixExtractor'>> &
+  Pick<SnapDBConfig, 'dataDir' | 'prefixExtractor'>;
+
 export interface MemtableStats {
   size: number;
   entries: number;
@@ -94,15 +577,117 @@ export interface SSTableMetadata {
   entries: number;
   createdAt: number;
   bloomFilter?: BloomFilterData;
+  bloomFilterStats?: BloomFilterStats;
+  compression: CompressionType;
+  /** Uncompressed size of the data blocks over their size on disk */
+  compressionRatio: number;
+}
+
+export type BloomFilterFormat = 'standard' | 'blocked';
+
+/**
+ * How SSTable bloom filters are built
+ */
+export interface BloomFilterConfig {
+  /** Filter bits per key, which sets the false positive rate. Defaults to 10 (about 1%) */
+  bitsPerKey?: number;
+  /** 'blocked' keeps each key's probes within one cache line. Defaults to 'standard' */
+  format?: BloomFilterFormat;
 }
 
+/**
+ * Maps a key to the prefix indexed by SSTable bloom filters. Keys it does not
+ * apply to (too short, or with too few delimiters) are only indexed whole.
+ * - fixed: the first `length` characters
+ * - delimiter: everything up to and including the `count`-th delimiter
+ *   (default 1), so 'user:123:' for 'user:123:profile' with ':' and 2
+ */
+export type PrefixExtractorConfig =
+  | { type: 'fixed'; length: number }
+  | { type: 'delimiter'; delimiter: string; count?: number };
+
 export interface BloomFilterData {
   bits: Uint8Array;
   numHashes: number;
   size: number;
+  format: BloomFilterFormat;
+  /** Number of keys added to the filter */
+  keys: number;
+}
+
+/**
+ * Bloom filter probes made by point lookups on one SSTable
+ */
+export interface BloomFilterStats {
+  /** Lookups the filter ruled out, saving a block read */
+  useful: number;
+  /** Lookups the filter let through for keys the table does not hold */
+  useless: number;
+  /** Lookups the filter let through for keys the table holds */
+  truePositives: number;
+  /** Prefix scans the filter ruled out, skipping the whole table */
+  prefixUseful: number;
+  /** Measured share of absent keys the filter let through */
+  falsePositiveRate: number;
+  /** Rate expected from the filter's size, hash count and keys */
+  expectedFalsePositiveRate: number;
+}
+
+export type CompactionStyle = 'leveled' | 'universal' | 'fifo';
+
+/**
+ * Which compaction strategy the LSM engine runs and how it is tuned
+ */
+export interface CompactionConfig {
+  /** A built-in strategy, or a custom one. Defaults to 'leveled' */
+  strategy?: CompactionStyle | CompactionStrategy;
+  /** L0 tables (leveled) or sorted runs (universal) that trigger a compaction, default 4 */
+  level0FileNumCompactionTrigger?: number;
+  /** Leveled: target size of L1 in bytes, defaults to ten memtables */
+  maxBytesForLevelBase?: number;
+  /** Leveled: growth factor between the target sizes of adjacent levels, default 10 */
+  levelSizeMultiplier?: number;
+  /**
+   * Universal: percentage by which a run may exceed the combined size of the
+   * newer runs and still be merged with them, default 1
+   */
+  sizeRatio?: number;
+  /** Universal: fewest runs merged at once, default 2 */
+  minMergeWidth?: number;
+  /** FIFO: total table size in bytes above which the oldest tables are dropped, default 1GB */
+  maxTableFilesSizeBytes?: number;
+  /** FIFO: drop tables created longer ago than this */
+  ttlMs?: number;
+  /** L0 tables at which each write is delayed while compaction catches up, default 8 */
+  level0SlowdownWritesTrigger?: number;
+  /** L0 tables at which writes wait for compaction to finish, default 12 */
+  level0StopWritesTrigger?: number;
+  /** Merge tables on a dedicated worker thread, default true */
+  useWorkerThread?: boolean;
+}
+
+/**
+ * Tables chosen for one compaction, identified by their SSTable ids
+ */
+export interface CompactionPick {
+  inputs: string[];
+  outputLevel: number;
+  /** Drop the inputs without merging them into new tables */
+  deleteOnly?: boolean;
+}
+
+/**
+ * Decides which tables to compact next. `levels[n]` lists the tables at level
+ * n, oldest first; returning undefined means nothing needs compacting.
+ */
+export interface CompactionStrategy {
+  readonly name: string;
+  pick(levels: SSTableMetadata[][]): CompactionPick | undefined;
 }
 
 export interface CompactionStats {
+  /** Name of the strategy that picked the compaction */
+  strategy?: string;
   level: number;
   inputFiles: number;
   outputFiles: number;
@@ -113,6 +698,20 @@ export interface CompactionStats {
   duration: number;
   entriesCompacted: number;
   entriesDropped: number;
+  /** Whether the tables were merged on the compaction thread */
+  offThread?: boolean;
+}
+
+/**
+ * Sums over every compaction since the engine opened or was flushed
+ */
+export interface CompactionTotals {
+  compactions: number;
+  inputSize: number;
+  outputSize: number;
+  duration: number;
+  entriesCompacted: number;
+  entriesDropped: number;
 }
 
 export interface StorageStats {
@@ -120,7 +719,387 @@ export interface StorageStats {
   sstables: SSTableMetadata[];
   totalSize: number;
   totalEntries: number;
+  /** The most recent compactions, oldest first */
   compactionStats: CompactionStats[];
+  /** Totals over every compaction, including those no longer in `compactionStats` */
+  compactionTotals?: CompactionTotals;
+  // Legacy flat fields kept for backward compatibility
+  memtableSize?: number;
+  sstableCount?: number;
+  totalKeys?: number;
+  /** Sequence number of the most recent write */
+  lastSequence?: number;
+  /** Number of read snapshots not yet released */
+  activeSnapshots?: number;
+  /** Background flush and compaction activity */
+  background?: BackgroundStats;
+  blockCache?: BlockCacheStats;
+  tableCache?: TableCacheStats;
+}
+
+export interface BlockCacheStats {
+  hits: number;
+  misses: number;
+  /** Bytes of cached blocks */
+  usage: number;
+  /** Byte budget of the cache */
+  capacity: number;
+  blocks: number;
+}
+
+export interface TableCacheStats {
+  /** Reads that found the table file already open */
+  hits: number;
+  /** Table files opened or reopened */
+  misses: number;
+  openFiles: number;
+  capacity: number;
+}
+
+export interface BackgroundStats {
+  /** Full memtables waiting to be flushed */
+  immutableMemtables: number;
+  flushRunning: boolean;
+  compactionRunning: boolean;
+  /** Writes delayed because L0 passed the slowdown trigger */
+  writeSlowdowns: number;
+  /** Writes held until a flush or compaction caught up */
+  writeStops: number;
+  /** Total time writes spent delayed or held */
+  writeStallMs: number;
+}
+
+/**
+ * Bounds and direction for an ordered scan. Keys are compared by their UTF-8
+ * bytes, and all bounds combine.
+ */
+export interface ScanOptions {
+  /** Only keys greater than or equal to this */
+  gte?: string;
+  /** Only keys strictly less than this */
+  lt?: string;
+  /** Only keys starting with this prefix */
+  prefix?: string;
+  /** Iterate from the largest key down */
+  reverse?: boolean;
+  /** Stop after this many entries */
+  limit?: number;
+}
+
+export interface ScanEntry<K = string, V = any> {
+  key: K;
+  /** The value, or the collection the key holds, sorted sets as `[member, score]` pairs */
+  value: V;
+  /** Kind of value, absent for strings */
+  type?: ValueType;
+}
+
+/**
+ * A key as cursor scans examine it, without its value
+ */
+export type ScanKey<K = string> = Omit<ScanEntry<K>, 'value'>;
+
+/**
+ * Options for a Redis-style cursor scan
+ */
+export interface CursorScanOptions {
+  /** Glob pattern the returned keys must match, supporting `*` and `?` */
+  match?: string;
+  /** Number of keys to examine per call, defaults to 10 */
+  count?: number;
+  /** Only return keys holding this type of value */
+  type?: string;
+}
+
+/**
+ * The cursor to pass to the next call, `'0'` once the scan is complete, and
+ * the keys found by this call
+ */
+export type CursorScanResult<K = string> = [cursor: string, keys: K[]];
+
+/**
+ * Options for a cursor scan over the members of one key, such as `hscan()`,
+ * `sscan()` or `zscan()`
+ */
+export type MemberScanOptions = Omit<CursorScanOptions, 'type'>;
+
+/**
+ * The cursor to pass to the next call, `'0'` once the scan is complete, and
+ * the fields found by this call with their values
+ */
+export type HashScanResult<V = any> = [cursor: string, entries: Array<[field: string, value: V]>];
+
+/**
+ * The cursor to pass to the next call, `'0'` once the scan is complete, and
+ * the set members found by this call
+ */
+export type SetScanResult = [cursor: string, members: string[]];
+
+/**
+ * The cursor to pass to the next call, `'0'` once the scan is complete, and
+ * the sorted set members found by this call with their scores
+ */
+export type ZSetScanResult = [cursor: string, entries: Array<[member: string, score: number]>];
+
+/**
+ * Consistent point-in-time view of the database, returned by `getSnapshot()`.
+ * Writes made after the snapshot was taken are not visible through it.
+ */
+export interface ReadSnapshot<K = string, V = any> {
+  readonly sequence: number;
+  get(key: K): Promise<V | null>;
+  exists(key: K): Promise<boolean>;
+  ttl(key: K): Promise<number>;
+  keys(pattern?: string): Promise<K[]>;
+  mget(keys: K[]): Promise<(V | null)[]>;
+  scan(options?: ScanOptions): AsyncIterable<ScanEntry<K, V>>;
+  /** Let compaction discard the versions this snapshot was holding on to */
+  release(): void;
+}
+
+/**
+ * A live value with the version and times of the write that produced it,
+ * returned by `getWithMeta()`
+ */
+export interface ValueWithMeta<V = any> {
+  value: V;
+  /** Pass to `setIfVersion()` or `delIfVersion()` to write only if unchanged */
+  version: number;
+  /** When the value was written, in milliseconds since the epoch */
+  timestamp: number;
+  /** When the value expires, in milliseconds since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * A script held in the script cache, returned by `scriptList()`
+ */
+export interface ScriptInfo {
+  sha: string;
+  source: string;
+}
+
+/**
+ * A single write queued in a `WriteBatch`
+ */
+export type BatchOperation<K = string, V = any> =
+  | { type: 'set'; key: K; value: V; ttl?: number }
+  | { type: 'del'; key: K }
+  | { type: 'expire'; key: K; ttl: number };
+
+/**
+ * Group of writes applied atomically, returned by `batch()`. Readers and
+ * snapshots see either every operation or none of them, and after a crash
+ * the batch is recovered whole or not at all.
+ */
+export interface WriteBatch<K = string, V = any> {
+  /** Number of operations queued */
+  readonly length: number;
+  set(key: K, value: V, ttl?: number): WriteBatch<K, V>;
+  del(key: K): WriteBatch<K, V>;
+  /** Only applies when the key exists once the earlier operations have run */
+  expire(key: K, ttl: number): WriteBatch<K, V>;
+  /** Apply the queued operations. A batch can only be written once. */
+  write(): Promise<void>;
+}
+
+/**
+ * Commands queued by `multi()`. `exec()` runs them in order while other
+ * commands on the same database wait, each still passing through the
+ * middleware chain.
+ */
+export interface Transaction<K = string, V = any> {
+  /** Number of commands queued */
+  readonly length: number;
+  /**
+   * Record the current version of the keys, so `exec()` aborts if any of
+   * them is written, deleted or expires before it runs
+   */
+  watch(...keys: K[]): Promise<void>;
+  set(key: K, value: V, ttl?: number): Transaction<K, V>;
+  get(key: K): Transaction<K, V>;
+  del(key: K): Transaction<K, V>;
+  exists(key: K): Transaction<K, V>;
+  expire(key: K, ttl: number): Transaction<K, V>;
+  ttl(key: K): Transaction<K, V>;
+  incr(key: K): Transaction<K, V>;
+  decr(key: K): Transaction<K, V>;
+  mget(keys: K[]): Transaction<K, V>;
+  mset(entries: Array<{ key: K; value: V; ttl?: number }>): Transaction<K, V>;
+  /**
+   * Run the queued commands and return their results in order, a failed
+   * command's error taking its place. Returns null without running anything
+   * when a watched key has changed.
+   */
+  exec(): Promise<unknown[] | null>;
+  /** Drop the queued commands and watched keys */
+  discard(): void;
+}
+
+/**
+ * Contract shared by the storage backends a SnapDB client can run on
+ */
+export interface StorageBackend<K = string, V = any> {
+  set(key: K, value: V, ttl?: number): Promise<void>;
+  get(key: K): Promise<V | null>;
+  del(key: K): Promise<boolean>;
+  exists(key: K): Promise<boolean>;
+  expire(key: K, ttl: number): Promise<boolean>;
+  ttl(key: K): Promise<number>;
+  incr(key: K): Promise<number>;
+  decr(key: K): Promise<number>;
+  keys(pattern?: string): Promise<K[]>;
+  flushall(): Promise<void>;
+  info(): Promise<StorageStats>;
+  mget(keys: K[]): Promise<(V | null)[]>;
+  mset(entries: Array<{ key: K; value: V; ttl?: number }>): Promise<void>;
+  /** Apply the operations in order as one atomic write */
+  writeBatch(operations: BatchOperation<K, V>[]): Promise<void>;
+  /** Version of the key's live value, 0 when it does not exist */
+  getVersion(key: K): Promise<number>;
+  getWithMeta(key: K): Promise<ValueWithMeta<V> | null>;
+  /**
+   * Write only if the key is at the expected version (0 for a key that must
+   * not exist), or throw a `VersionConflictError`
+   * @returns The new version
+   */
+  setIfVersion(key: K, value: V, expectedVersion: number, ttl?: number): Promise<number>;
+  /**
+   * Delete only if the key is at the expected version, or throw a
+   * `VersionConflictError`
+   */
+  delIfVersion(key: K, expectedVersion: number): Promise<boolean>;
+  /** Kind of value the key holds, `'none'` when it does not exist */
+  type(key: K): Promise<ValueType | 'none'>;
+  /** @returns The number of fields added, not counting updated ones */
+  hset(key: K, fields: HashFields<V>): Promise<number>;
+  hget(key: K, field: string): Promise<V | null>;
+  hmget(key: K, fields: string[]): Promise<(V | null)[]>;
+  hgetall(key: K): Promise<HashFields<V>>;
+  /** Removing the last field deletes the key */
+  hdel(key: K, fields: string[]): Promise<number>;
+  hexists(key: K, field: string): Promise<boolean>;
+  hlen(key: K): Promise<number>;
+  hkeys(key: K): Promise<string[]>;
+  hvals(key: K): Promise<V[]>;
+  hincrby(key: K, field: string, increment: number): Promise<number>;
+  hincrbyfloat(key: K, field: string, increment: number): Promise<number>;
+  hscan(key: K, cursor: string, options?: MemberScanOptions): Promise<HashScanResult<V>>;
+  /** @returns The length of the list after the push */
+  lpush(key: K, values: V[]): Promise<number>;
+  rpush(key: K, values: V[]): Promise<number>;
+  /** @returns Up to `count` elements, none when the key does not exist */
+  lpop(key: K, count: number): Promise<V[]>;
+  rpop(key: K, count: number): Promise<V[]>;
+  /** Indexes are inclusive and count from the tail when negative */
+  lrange(key: K, start: number, stop: number): Promise<V[]>;
+  llen(key: K): Promise<number>;
+  lindex(key: K, index: number): Promise<V | null>;
+  lset(key: K, index: number, value: V): Promise<void>;
+  /** Remove `count` matches from the head, from the tail when negative, or all of them for 0 */
+  lrem(key: K, count: number, value: V): Promise<number>;
+  ltrim(key: K, start: number, stop: number): Promise<void>;
+  /** @returns The new length, -1 when the pivot is missing or 0 when the key is */
+  linsert(key: K, position: ListPosition, pivot: V, value: V): Promise<number>;
+  /** Pop from one list and push onto another in one step */
+  lmove(source: K, destination: K, from: ListEnd, to: ListEnd): Promise<V | null>;
+  /** @returns The number of members added, not counting ones already there */
+  sadd(key: K, members: string[]): Promise<number>;
+  /** Removing the last member deletes the key */
+  srem(key: K, members: string[]): Promise<number>;
+  smembers(key: K): Promise<string[]>;
+  sismember(key: K, member: string): Promise<boolean>;
+  smismember(key: K, members: string[]): Promise<boolean[]>;
+  scard(key: K): Promise<number>;
+  /** Remove and return up to `count` random members */
+  spop(key: K, count: number): Promise<string[]>;
+  /** Up to `count` distinct random members, or `-count` members that may repeat when negative */
+  srandmember(key: K, count: number): Promise<string[]>;
+  sinter(keys: K[]): Promise<string[]>;
+  sunion(keys: K[]): Promise<string[]>;
+  /** Members of the first set that are in none of the others */
+  sdiff(keys: K[]): Promise<string[]>;
+  /** Replace the destination, whatever it holds, with the result. @returns Its size */
+  sinterstore(destination: K, keys: K[]): Promise<number>;
+  sunionstore(destination: K, keys: K[]): Promise<number>;
+  sdiffstore(destination: K, keys: K[]): Promise<number>;
+  sscan(key: K, cursor: string, options?: MemberScanOptions): Promise<SetScanResult>;
+  /**
+   * @returns The number of members added, counting changed ones too with
+   * `ch`, or with `incr` the new score, null when a condition prevented it
+   */
+  zadd(key: K, members: ZSetMembers, options: ZAddOptions): Promise<number | null>;
+  /** Removing the last member deletes the key */
+  zrem(key: K, members: string[]): Promise<number>;
+  zscore(key: K, member: string): Promise<number | null>;
+  zincrby(key: K, increment: number, member: string): Promise<number>;
+  zcard(key: K): Promise<number>;
+  /** Rank of the member from the lowest score, from 0 */
+  zrank(key: K, member: string): Promise<number | null>;
+  zrevrank(key: K, member: string): Promise<number | null>;
+  /** Members in range with their scores, whether or not `withScores` is set */
+  zrange(key: K, start: ZRangeBound, stop: ZRangeBound, options: ZRangeOptions): Promise<Array<[string, number]>>;
+  /** Replace the destination, whatever it holds, with a range of the source. @returns Its size */
+  zrangestore(
+    destination: K,
+    source: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions
+  ): Promise<number>;
+  zcount(key: K, min: ZRangeBound, max: ZRangeBound): Promise<number>;
+  /** Remove and return up to `count` members with the lowest scores, lowest first */
+  zpopmin(key: K, count: number): Promise<Array<[string, number]>>;
+  zpopmax(key: K, count: number): Promise<Array<[string, number]>>;
+  /** Replace the destination, whatever it holds, with the result. @returns Its size */
+  zunionstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number>;
+  zinterstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number>;
+  zscan(key: K, cursor: string, options?: MemberScanOptions): Promise<ZSetScanResult>;
+  /** @returns The ID of the new entry, null when the stream is missing and `noMkStream` is set */
+  xadd(key: K, fields: HashFields<V>, options: XAddOptions): Promise<string | null>;
+  xrange(key: K, start: string, end: string, count?: number): Promise<StreamEntry<V>[]>;
+  /** Entries from the highest ID down, so `end` comes first */
+  xrevrange(key: K, end: string, start: string, count?: number): Promise<StreamEntry<V>[]>;
+  /** Entries after each ID, `'$'` meaning the last one. @returns null when there are none */
+  xread(streams: Array<[K, string]>, count?: number): Promise<StreamReadResult<K, V> | null>;
+  /** `'$'` as the ID starts the group after the last entry */
+  xgroupCreate(key: K, group: string, id: string, mkStream: boolean): Promise<void>;
+  /**
+   * Deliver the entries after the group's last delivered one for `'>'`, or
+   * the consumer's pending entries after the ID for any other ID
+   * @returns null when there is nothing to deliver
+   */
+  xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[K, string]>,
+    options: { count?: number; noAck?: boolean }
+  ): Promise<StreamReadResult<K, V> | null>;
+  /** @returns The number of entries removed from the pending list */
+  xack(key: K, group: string, ids: string[]): Promise<number>;
+  xpending(key: K, group: string): Promise<XPendingSummary>;
+  xpendingRange(key: K, group: string, options: XPendingOptions): Promise<XPendingEntry[]>;
+  /** Move pending entries idle for at least `minIdleMs` to the consumer */
+  xclaim(key: K, group: string, consumer: string, minIdleMs: number, ids: string[]): Promise<StreamEntry<V>[]>;
+  /** Claim up to `count` pending entries idle for at least `minIdleMs`, from `start` on */
+  xautoclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    start: string,
+    count: number
+  ): Promise<XAutoClaimResult<V>>;
+  /** @returns null when the key does not exist */
+  xinfoStream(key: K): Promise<StreamInfo<V> | null>;
+  xinfoGroups(key: K): Promise<StreamGroupInfo[]>;
+  xinfoConsumers(key: K, group: string): Promise<StreamConsumerInfo[]>;
+  getSnapshot(): ReadSnapshot<K, V>;
+  scan(options?: ScanOptions): AsyncIterable<ScanEntry<K, V>>;
+  /** Iterate the keys `scan()` would, with their types but not their values */
+  scanTypes(options?: ScanOptions): AsyncIterable<ScanKey<K>>;
+  open(): Promise<void>;
+  close(): Promise<void>;
 }
 
 export type NextFunction = () => Promise<any>;
@@ -152,6 +1131,128 @@ export interface ISnapDB<K = string, V = any> {
   info(): Promise<StorageStats>;
   mget(keys: K[]): Promise<(V | null)[]>;
   mset(entries: Array<{ key: K; value: V; ttl?: number }>): Promise<void>;
+  batch(): WriteBatch<K, V>;
+  multi(): Transaction<K, V>;
+  getWithMeta(key: K): Promise<ValueWithMeta<V> | null>;
+  setIfVersion(key: K, value: V, expectedVersion: number, ttl?: number): Promise<number>;
+  delIfVersion(key: K, expectedVersion: number): Promise<boolean>;
+  eval(script: string, keys?: K[], args?: unknown[]): Promise<unknown>;
+  evalsha(sha: string, keys?: K[], args?: unknown[]): Promise<unknown>;
+  scriptLoad(script: string): Promise<string>;
+  scriptExists(...shas: string[]): Promise<boolean[]>;
+  scriptList(): Promise<ScriptInfo[]>;
+  scriptFlush(): Promise<void>;
+  type(key: K): Promise<ValueType | 'none'>;
+  hset(key: K, field: string, value: V): Promise<number>;
+  hset(key: K, fields: HashFields<V>): Promise<number>;
+  hget(key: K, field: string): Promise<V | null>;
+  hmget(key: K, fields: string[]): Promise<(V | null)[]>;
+  hgetall(key: K): Promise<HashFields<V>>;
+  hdel(key: K, ...fields: string[]): Promise<number>;
+  hexists(key: K, field: string): Promise<boolean>;
+  hlen(key: K): Promise<number>;
+  hkeys(key: K): Promise<string[]>;
+  hvals(key: K): Promise<V[]>;
+  hincrby(key: K, field: string, increment: number): Promise<number>;
+  hincrbyfloat(key: K, field: string, increment: number): Promise<number>;
+  hscan(key: K, cursor: string | number, options?: MemberScanOptions): Promise<HashScanResult<V>>;
+  lpush(key: K, ...values: V[]): Promise<number>;
+  rpush(key: K, ...values: V[]): Promise<number>;
+  lpop(key: K): Promise<V | null>;
+  lpop(key: K, count: number): Promise<V[]>;
+  rpop(key: K): Promise<V | null>;
+  rpop(key: K, count: number): Promise<V[]>;
+  lrange(key: K, start: number, stop: number): Promise<V[]>;
+  llen(key: K): Promise<number>;
+  lindex(key: K, index: number): Promise<V | null>;
+  lset(key: K, index: number, value: V): Promise<void>;
+  lrem(key: K, count: number, value: V): Promise<number>;
+  ltrim(key: K, start: number, stop: number): Promise<void>;
+  linsert(key: K, position: ListPosition, pivot: V, value: V): Promise<number>;
+  lmove(source: K, destination: K, from: ListEnd, to: ListEnd): Promise<V | null>;
+  blpop(keys: K[], timeoutMs: number): Promise<[key: K, value: V] | null>;
+  brpop(keys: K[], timeoutMs: number): Promise<[key: K, value: V] | null>;
+  blmove(source: K, destination: K, from: ListEnd, to: ListEnd, timeoutMs: number): Promise<V | null>;
+  sadd(key: K, ...members: string[]): Promise<number>;
+  srem(key: K, ...members: string[]): Promise<number>;
+  smembers(key: K): Promise<string[]>;
+  sismember(key: K, member: string): Promise<boolean>;
+  smismember(key: K, members: string[]): Promise<boolean[]>;
+  scard(key: K): Promise<number>;
+  spop(key: K): Promise<string | null>;
+  spop(key: K, count: number): Promise<string[]>;
+  srandmember(key: K): Promise<string | null>;
+  srandmember(key: K, count: number): Promise<string[]>;
+  sinter(keys: K[]): Promise<string[]>;
+  sunion(keys: K[]): Promise<string[]>;
+  sdiff(keys: K[]): Promise<string[]>;
+  sinterstore(destination: K, keys: K[]): Promise<number>;
+  sunionstore(destination: K, keys: K[]): Promise<number>;
+  sdiffstore(destination: K, keys: K[]): Promise<number>;
+  sscan(key: K, cursor: string | number, options?: MemberScanOptions): Promise<SetScanResult>;
+  zadd(key: K, score: number, member: string, options: ZAddOptions & { incr: true }): Promise<number | null>;
+  zadd(key: K, members: ZSetMembers, options: ZAddOptions & { incr: true }): Promise<number | null>;
+  zadd(key: K, score: number, member: string, options?: ZAddOptions): Promise<number>;
+  zadd(key: K, members: ZSetMembers, options?: ZAddOptions): Promise<number>;
+  zrem(key: K, ...members: string[]): Promise<number>;
+  zscore(key: K, member: string): Promise<number | null>;
+  zincrby(key: K, increment: number, member: string): Promise<number>;
+  zcard(key: K): Promise<number>;
+  zrank(key: K, member: string): Promise<number | null>;
+  zrevrank(key: K, member: string): Promise<number | null>;
+  zrange(
+    key: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions & { withScores: true }
+  ): Promise<Array<[member: string, score: number]>>;
+  zrange(key: K, start: ZRangeBound, stop: ZRangeBound, options?: ZRangeOptions): Promise<string[]>;
+  zrangestore(
+    destination: K,
+    source: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options?: ZRangeOptions
+  ): Promise<number>;
+  zcount(key: K, min: ZRangeBound, max: ZRangeBound): Promise<number>;
+  zpopmin(key: K): Promise<[member: string, score: number] | null>;
+  zpopmin(key: K, count: number): Promise<Array<[member: string, score: number]>>;
+  zpopmax(key: K): Promise<[member: string, score: number] | null>;
+  zpopmax(key: K, count: number): Promise<Array<[member: string, score: number]>>;
+  bzpopmin(keys: K[], timeoutMs: number): Promise<[key: K, member: string, score: number] | null>;
+  zunionstore(destination: K, keys: K[], options?: ZStoreOptions): Promise<number>;
+  zinterstore(destination: K, keys: K[], options?: ZStoreOptions): Promise<number>;
+  zscan(key: K, cursor: string | number, options?: MemberScanOptions): Promise<ZSetScanResult>;
+  xadd(key: K, fields: HashFields<V>, options: XAddOptions & { noMkStream: true }): Promise<string | null>;
+  xadd(key: K, fields: HashFields<V>, options?: XAddOptions): Promise<string>;
+  xrange(key: K, start?: string, end?: string, count?: number): Promise<StreamEntry<V>[]>;
+  xrevrange(key: K, end?: string, start?: string, count?: number): Promise<StreamEntry<V>[]>;
+  xread(streams: Array<[key: K, id: string]>, options?: XReadOptions): Promise<StreamReadResult<K, V> | null>;
+  xgroupCreate(key: K, group: string, id?: string, options?: { mkStream?: boolean }): Promise<void>;
+  xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[key: K, id: string]>,
+    options?: XReadGroupOptions
+  ): Promise<StreamReadResult<K, V> | null>;
+  xack(key: K, group: string, ...ids: string[]): Promise<number>;
+  xpending(key: K, group: string): Promise<XPendingSummary>;
+  xpending(key: K, group: string, options: XPendingOptions): Promise<XPendingEntry[]>;
+  xclaim(key: K, group: string, consumer: string, minIdleMs: number, ids: string[]): Promise<StreamEntry<V>[]>;
+  xautoclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    start?: string,
+    options?: { count?: number }
+  ): Promise<XAutoClaimResult<V>>;
+  xinfoStream(key: K): Promise<StreamInfo<V> | null>;
+  xinfoGroups(key: K): Promise<StreamGroupInfo[]>;
+  xinfoConsumers(key: K, group: string): Promise<StreamConsumerInfo[]>;
+  getSnapshot(): Promise<ReadSnapshot<K, V>>;
+  scan(options?: ScanOptions): AsyncIterable<ScanEntry<K, V>>;
+  scan(cursor: string | number, options?: CursorScanOptions): Promise<CursorScanResult<K>>;
   
   use(middleware: MiddlewareFn<K, V>): void;
   register(plugin: Plugin<K, V>): Promise<void>;
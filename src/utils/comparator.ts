@@ -0,0 +1,225 @@
+/**
+ * Key ordering utilities for SnapDBJS
+ */
+
+import { Comparator, ComparatorName } from '../types';
+import { ValidationError } from './errors';
+
+/**
+ * Compare two strings in the order of their UTF-8 encoded bytes (equivalently,
+ * by Unicode code point), without allocating buffers
+ */
+export function bytewiseCompare(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    const ca = a.charCodeAt(i);
+    const cb = b.charCodeAt(i);
+
+    if (ca !== cb) {
+      return codeUnitRank(ca) - codeUnitRank(cb);
+    }
+  }
+
+  return a.length - b.length;
+}
+
+// Surrogates encode code points above U+FFFF, so they must sort after U+E000-U+FFFF
+function codeUnitRank(code: number): number {
+  if (code >= 0xd800 && code <= 0xdfff) {
+    return code + 0x2000;
+  }
+  if (code >= 0xe000) {
+    return code - 0x800;
+  }
+  return code;
+}
+
+/**
+ * Like `bytewiseCompare`, but runs of digits compare by numeric value. Keys
+ * that only differ in leading zeros fall back to bytewise order, so distinct
+ * keys never compare equal.
+ */
+export function numericCompare(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (isDigit(a.charCodeAt(i)) && isDigit(b.charCodeAt(j))) {
+      const endA = digitRunEnd(a, i);
+      const endB = digitRunEnd(b, j);
+      const startA = skipZeros(a, i, endA);
+      const startB = skipZeros(b, j, endB);
+
+      // More significant digits means a larger number
+      const byLength = endA - startA - (endB - startB);
+      if (byLength !== 0) {
+        return byLength;
+      }
+      for (let k = 0; k < endA - startA; k++) {
+        const diff = a.charCodeAt(startA + k) - b.charCodeAt(startB + k);
+        if (diff !== 0) {
+          return diff;
+        }
+      }
+
+      i = endA;
+      j = endB;
+      continue;
+    }
+
+    if (a.charCodeAt(i) !== b.charCodeAt(j)) {
+      return bytewiseCompare(a.charAt(i), b.charAt(j));
+    }
+    i++;
+    j++;
+  }
+
+  return a.length - i - (b.length - j) || bytewiseCompare(a, b);
+}
+
+function isDigit(code: number): boolean {
+  return code >= 48 && code <= 57;
+}
+
+function digitRunEnd(s: string, start: number): number {
+  let end = start;
+  while (end < s.length && isDigit(s.charCodeAt(end))) {
+    end++;
+  }
+  return end;
+}
+
+// Keep the last digit so zero itself still has one
+function skipZeros(s: string, start: number, end: number): number {
+  while (start < end - 1 && s.charCodeAt(start) === 48) {
+    start++;
+  }
+  return start;
+}
+
+export const bytewiseComparator: Comparator = {
+  name: 'snapdb.BytewiseComparator',
+  compare: bytewiseCompare
+};
+
+export const numericComparator: Comparator = {
+  name: 'snapdb.NumericComparator',
+  compare: numericCompare
+};
+
+export const reverseBytewiseComparator: Comparator = {
+  name: 'snapdb.ReverseBytewiseComparator',
+  compare: (a, b) => bytewiseCompare(b, a)
+};
+
+const BUILT_IN_COMPARATORS: Record<ComparatorName, Comparator> = {
+  bytewise: bytewiseComparator,
+  numeric: numericComparator,
+  reverse: reverseBytewiseComparator
+};
+
+/**
+ * Keys the storage engine keeps for itself, such as collection elements,
+ * start with the highest code point, which user keys may not start with
+ */
+export const INTERNAL_KEY_PREFIX = '\u{10FFFF}';
+
+export function isInternalKey(key: string): boolean {
+  return key.startsWith(INTERNAL_KEY_PREFIX);
+}
+
+const internalOrder = new WeakMap<Comparator, Comparator>();
+
+/**
+ * The comparator selected in a config, bytewise when none is. Internal keys
+ * sort after every user key and bytewise among themselves under any order,
+ * which bytewise order already gives them.
+ */
+export function resolveComparator(option?: ComparatorName | Comparator): Comparator {
+  if (option === undefined) {
+    return bytewiseComparator;
+  }
+
+  const comparator = typeof option === 'object' ? option : BUILT_IN_COMPARATORS[option];
+  if (!comparator) {
+    throw new ValidationError(`Unknown comparator: ${String(option)}`);
+  }
+  if (comparator === bytewiseComparator) {
+    return comparator;
+  }
+
+  let wrapped = internalOrder.get(comparator);
+  if (!wrapped) {
+    wrapped = {
+      name: comparator.name,
+      compare: (a, b) => {
+        const internalA = isInternalKey(a);
+        const internalB = isInternalKey(b);
+        if (internalA || internalB) {
+          return internalA && internalB ? bytewiseCompare(a, b) : internalA ? 1 : -1;
+        }
+        return comparator.compare(a, b);
+      }
+    };
+    internalOrder.set(comparator, wrapped);
+  }
+  return wrapped;
+}
+
+export interface KeyRange {
+  /** Inclusive lower bound */
+  lower?: string;
+  /** Exclusive upper bound */
+  upper?: string;
+}
+
+/**
+ * The smallest string greater than every string starting with the prefix, or
+ * undefined when there is none
+ */
+export function prefixSuccessor(prefix: string): string | undefined {
+  const codePoints = Array.from(prefix);
+
+  while (codePoints.length > 0) {
+    const last = codePoints.pop()!.codePointAt(0)!;
+    if (last < 0x10ffff) {
+      // Skip the surrogate range, which is not made of valid code points
+      const next = last + 1 === 0xd800 ? 0xe000 : last + 1;
+      return codePoints.join('') + String.fromCodePoint(next);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Combine `gte`, `lt` and `prefix` bounds into a single key range. Keys
+ * sharing a prefix are only contiguous in bytewise order, so under other
+ * orders the prefix does not narrow the range and callers filter by it.
+ */
+export function resolveKeyRange(
+  options: { gte?: string; lt?: string; prefix?: string },
+  comparator: Comparator = bytewiseComparator
+): KeyRange {
+  let { gte: lower, lt: upper } = options;
+
+  if (options.prefix && comparator === bytewiseComparator) {
+    const end = prefixSuccessor(options.prefix);
+    if (lower === undefined || bytewiseCompare(options.prefix, lower) > 0) {
+      lower = options.prefix;
+    }
+    if (end !== undefined && (upper === undefined || bytewiseCompare(end, upper) < 0)) {
+      upper = end;
+    }
+  }
+
+  return { lower, upper };
+}
+
+export function inKeyRange(key: string, range: KeyRange, comparator: Comparator = bytewiseComparator): boolean {
+  return (
+    (range.lower === undefined || comparator.compare(key, range.lower) >= 0) &&
+    (range.upper === undefined || comparator.compare(key, range.upper) < 0)
+  );
+}
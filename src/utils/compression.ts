@@ -0,0 +1,70 @@
+/**
+ * Compression codecs backed by Node's built-in zlib
+ */
+
+import zlib from 'zlib';
+import { CompressionType } from '../types';
+import { ValidationError } from './errors';
+
+export const COMPRESSION_TYPES: readonly CompressionType[] = ['none', 'deflate', 'gzip', 'brotli'];
+
+export function compress(data: Buffer, type: CompressionType): Buffer {
+  switch (type) {
+    case 'none':
+      return data;
+    case 'deflate':
+      return zlib.deflateSync(data);
+    case 'gzip':
+      return zlib.gzipSync(data);
+    case 'brotli':
+      return zlib.brotliCompressSync(data, {
+        params: { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length }
+      });
+    default:
+      throw new ValidationError(`Unknown compression type: ${String(type)}`);
+  }
+}
+
+export function decompress(data: Buffer, type: CompressionType): Buffer {
+  switch (type) {
+    case 'none':
+      return data;
+    case 'deflate':
+      return zlib.inflateSync(data);
+    case 'gzip':
+      return zlib.gunzipSync(data);
+    case 'brotli':
+      return zlib.brotliDecompressSync(data);
+    default:
+      throw new ValidationError(`Unknown compression type: ${String(type)}`);
+  }
+}
+
+/**
+ * Compression for tables written to a level. A list names the type of each
+ * level in turn, its last entry covering every deeper level.
+ */
+export function compressionForLevel(
+  compression: CompressionType | CompressionType[] | undefined,
+  level: number
+): CompressionType {
+  if (compression === undefined) {
+    return 'none';
+  }
+  if (typeof compression === 'string') {
+    return compression;
+  }
+  return compression[Math.min(level, compression.length - 1)] ?? 'none';
+}
+
+/**
+ * Reject unknown types up front rather than when the first table is written
+ */
+export function validateCompression(compression: CompressionType | CompressionType[] | undefined): void {
+  const types = compression === undefined ? [] : typeof compression === 'string' ? [compression] : compression;
+  for (const type of types) {
+    if (!COMPRESSION_TYPES.includes(type)) {
+      throw new ValidationError(`Unknown compression type: ${String(type)}`);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Scan cursor utilities for SnapDBJS
+ *
+ * A cursor is the last key or member a scan examined, written as a decimal
+ * integer like a Redis cursor: the UTF-8 bytes of the key behind a leading
+ * 0x01 byte, read as one big-endian number. Resuming after that key in order
+ * cannot skip or repeat keys however the key space changes between calls,
+ * and `'0'` both starts and ends a scan.
+ */
+
+import { CursorScanOptions, CursorScanResult, MemberScanOptions, ScanKey, ScanOptions } from '../types';
+import { ValidationError } from './errors';
+import { bytewiseCompare } from './comparator';
+
+/**
+ * Encode the last key or member a scan examined as the cursor to resume from
+ */
+export function encodeCursor(last: string): string {
+  return BigInt(`0x01${Buffer.from(last, 'utf-8').toString('hex')}`).toString();
+}
+
+/**
+ * Decode a cursor from `encodeCursor()`
+ * @returns The key or member to resume after, or undefined to start over
+ */
+export function decodeCursor(cursor: string): string | undefined {
+  if (cursor === '0') {
+    return undefined;
+  }
+
+  const hex = /^[1-9][0-9]*$/.test(cursor) ? BigInt(cursor).toString(16) : '';
+  if (hex.length % 2 === 0 || !hex.startsWith('1')) {
+    throw new ValidationError('Invalid scan cursor', { cursor });
+  }
+  return Buffer.from(hex.slice(1), 'hex').toString('utf-8');
+}
+
+/**
+ * Check the count option of a cursor scan
+ * @returns The number of keys or members to examine per call
+ */
+export function scanCount(count: number | undefined): number {
+  const resolved = count ?? 10;
+  if (!Number.isInteger(resolved) || resolved <= 0) {
+    throw new ValidationError('Scan count must be a positive integer');
+  }
+  return resolved;
+}
+
+/**
+ * Page through the members of one key in bytewise order. As with key scans,
+ * the cursor is the last member examined, so members present for the whole
+ * scan are returned exactly once however the key changes between calls.
+ */
+export function scanMembers<T>(
+  members: Iterable<[string, T]>,
+  cursor: string,
+  options: MemberScanOptions = {}
+): [cursor: string, entries: Array<[string, T]>] {
+  const count = scanCount(options.count);
+  const after = decodeCursor(cursor);
+  const regex = options.match ? patternToRegex(options.match) : null;
+
+  const remaining = [...members]
+    .filter(([member]) => after === undefined || bytewiseCompare(member, after) > 0)
+    .sort(([a], [b]) => bytewiseCompare(a, b));
+
+  const page = remaining.slice(0, count);
+  const entries = page.filter(([member]) => !regex || regex.test(member));
+  const next = remaining.length > count ? encodeCursor(page[page.length - 1]![0]) : '0';
+  return [next, entries];
+}
+
+/**
+ * One call of a Redis-style key scan over the keys `scan` yields in key
+ * order, examining up to `count` keys after the cursor
+ */
+export async function scanKeys<K>(
+  scan: (options: ScanOptions) => AsyncIterable<ScanKey<K>>,
+  cursor: string,
+  options: CursorScanOptions
+): Promise<CursorScanResult<K>> {
+  const count = scanCount(options.count);
+  const after = decodeCursor(cursor);
+  const regex = options.match ? patternToRegex(options.match) : null;
+  // Keys matching the pattern all start with its literal part
+  const prefix = options.match?.split(/[*?]/, 1)[0] || undefined;
+  const keys: K[] = [];
+  let examined = 0;
+
+  for await (const { key, type = 'string' } of scan({ gte: after, prefix })) {
+    const keyStr = String(key);
+    if (keyStr === after) {
+      continue;
+    }
+
+    const typeMatches = !options.type || type === options.type;
+    if (typeMatches && (!regex || regex.test(keyStr))) {
+      keys.push(key);
+    }
+
+    if (++examined >= count) {
+      return [encodeCursor(keyStr), keys];
+    }
+  }
+
+  return ['0', keys];
+}
+
+function patternToRegex(pattern: string): RegExp {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+
+  return new RegExp(`^${regexPattern}$`);
+}
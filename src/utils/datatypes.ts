@@ -0,0 +1,569 @@
+/**
+ * Data type utilities for SnapDBJS
+ *
+ * Keys hold a string (any single value) or a collection type. Collections
+ * are changed an element at a time: the simple backend keeps them in a
+ * `Map`, `Deque`, `Set`, `SortedSet` or `Stream` it updates in place, and the
+ * LSM engine stores each element under its own key.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import {
+  HashFields,
+  ListPosition,
+  ValueType,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZSetMembers,
+  ZStoreOptions
+} from '../types';
+import { Deque } from '../worker/storage/Deque';
+import { SortedSet } from '../worker/storage/SortedSet';
+import { Stream } from '../worker/storage/Stream';
+import { bytewiseCompare } from './comparator';
+import { ValidationError, WrongTypeError } from './errors';
+
+/**
+ * Throw a WrongTypeError when a live entry holds another kind of value.
+ * Missing keys pass, every command treats them as empty.
+ */
+export function checkType(key: unknown, entry: { type?: ValueType } | undefined, expected: ValueType): void {
+  const actual = entry?.type ?? 'string';
+  if (entry && actual !== expected) {
+    throw new WrongTypeError(key, expected, actual);
+  }
+}
+
+/**
+ * Add an increment to a hash field holding a number or a numeric string.
+ * Missing fields count as 0.
+ * @param current What the field holds, null when missing
+ * @param integer Whether the field must hold, and keep, a safe integer
+ */
+export function incrementField(current: unknown, field: string, increment: number, integer: boolean): number {
+  const kind = integer ? 'an integer' : 'a number';
+  const numeric =
+    current === null ||
+    typeof current === 'number' ||
+    (typeof current === 'string' && current.trim() !== '');
+  const base = current === null ? 0 : Number(current);
+
+  if (!numeric || !Number.isFinite(base) || (integer && !Number.isSafeInteger(base))) {
+    throw new ValidationError(`Hash field value is not ${kind}`, { field });
+  }
+
+  const result = base + increment;
+  if (!Number.isFinite(result) || (integer && !Number.isSafeInteger(result))) {
+    throw new ValidationError('Hash field increment would overflow', { field });
+  }
+  return result;
+}
+
+/**
+ * The fields given to `hset()` as a field and value or an object
+ */
+export function hashFieldsOf<V>(fieldOrFields: string | HashFields<V>, value?: V): HashFields<V> {
+  const fields = typeof fieldOrFields === 'string' ? { [fieldOrFields]: value as V } : fieldOrFields;
+  if (fields === null || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+    throw new ValidationError('At least one hash field is required');
+  }
+  return fields;
+}
+
+export function checkIncrement(increment: number, integer: boolean): void {
+  if (integer ? !Number.isSafeInteger(increment) : !Number.isFinite(increment)) {
+    throw new ValidationError(`Increment must be ${integer ? 'an integer' : 'a finite number'}`, { increment });
+  }
+}
+
+/**
+ * Whether a collection holds nothing, so the key holding it goes away
+ */
+export function isEmptyCollection(value: unknown): boolean {
+  if (value instanceof SortedSet || value instanceof Map || value instanceof Set) {
+    return value.size === 0;
+  }
+  if (value instanceof Deque) {
+    return value.length === 0;
+  }
+  if (value instanceof Stream) {
+    // A stream stays once empty, keeping its groups and last ID
+    return false;
+  }
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+}
+
+export function checkInteger(value: number, name: string): void {
+  if (!Number.isSafeInteger(value)) {
+    throw new ValidationError(`${name} must be an integer`, { [name]: value });
+  }
+}
+
+/**
+ * List elements and the values they are searched for compare structurally
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return isDeepStrictEqual(a, b);
+}
+
+/**
+ * Resolve an index that counts from the tail when negative
+ * @returns The index from the head, or undefined when out of range
+ */
+export function listIndex(length: number, index: number): number | undefined {
+  const resolved = index < 0 ? length + index : index;
+  return resolved >= 0 && resolved < length ? resolved : undefined;
+}
+
+/**
+ * Resolve an inclusive range of indexes that count from the tail when
+ * negative, clamped to the list
+ * @returns Bounds for `slice()`
+ */
+export function listRange(length: number, start: number, stop: number): [from: number, to: number] {
+  const from = Math.max(0, start < 0 ? length + start : start);
+  const to = Math.min(length, (stop < 0 ? length + stop : stop) + 1);
+  return from < to ? [from, to] : [0, 0];
+}
+
+/**
+ * Indexes of the first `count` elements equal to the value, the last ones
+ * when negative or all of them for 0, in order
+ */
+export function matchingIndexes<V>(list: V[], count: number, value: V): number[] {
+  const limit = count === 0 ? Infinity : Math.abs(count);
+  const indexes: number[] = [];
+
+  for (let n = 0; n < list.length && indexes.length < limit; n++) {
+    const i = count < 0 ? list.length - 1 - n : n;
+    if (valuesEqual(list[i], value)) {
+      indexes.push(i);
+    }
+  }
+  return count < 0 ? indexes.reverse() : indexes;
+}
+
+/**
+ * Where a value goes to land next to the first element equal to the pivot
+ * @returns The index it is inserted at, or undefined when there is no pivot
+ */
+export function insertionIndex<V>(list: V[], position: ListPosition, pivot: V): number | undefined {
+  const index = list.findIndex(element => valuesEqual(element, pivot));
+  if (index === -1) {
+    return undefined;
+  }
+  return position === 'before' ? index : index + 1;
+}
+
+export function checkPopCount(count: number): void {
+  checkInteger(count, 'count');
+  if (count < 0) {
+    throw new ValidationError('count must not be negative', { count });
+  }
+}
+
+/**
+ * Check how long a blocking command may wait, in milliseconds, 0 for no limit
+ */
+export function checkBlockingTimeout(timeoutMs: number): void {
+  if (!Number.isFinite(timeoutMs) || timeoutMs < 0) {
+    throw new ValidationError('Timeout must be a non-negative number of milliseconds', { timeoutMs });
+  }
+}
+
+/**
+ * Members of the first set that are in every other one. Missing keys count
+ * as empty sets, so any of them empties the result. Only the members of the
+ * smallest set are looked up in the others.
+ */
+export function intersectSets(sets: Array<ReadonlySet<string> | undefined>): string[] {
+  if (sets.some(set => !set)) {
+    return [];
+  }
+  const [smallest, ...others] = (sets as Array<ReadonlySet<string>>).slice().sort((a, b) => a.size - b.size);
+  return [...smallest!].filter(member => others.every(other => other.has(member)));
+}
+
+export function unionSets(sets: Array<ReadonlySet<string> | undefined>): string[] {
+  const union = new Set<string>();
+  for (const set of sets) {
+    set?.forEach(member => union.add(member));
+  }
+  return [...union];
+}
+
+/**
+ * Members of the first set that are in none of the others
+ */
+export function diffSets(sets: Array<ReadonlySet<string> | undefined>): string[] {
+  const [first, ...others] = sets;
+  return [...(first ?? [])].filter(member => !others.some(other => other?.has(member)));
+}
+
+/**
+ * Pick random members: up to `count` distinct ones, or exactly `-count` that
+ * may repeat when `count` is negative
+ */
+export function randomMembers(set: string[] | undefined, count: number): string[] {
+  const members = set ?? [];
+  if (count < 0) {
+    return members.length === 0
+      ? []
+      : Array.from({ length: -count }, () => members[Math.floor(Math.random() * members.length)]!);
+  }
+
+  // Partial Fisher-Yates shuffle of a copy
+  const picked = [...members];
+  const size = Math.min(count, picked.length);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (picked.length - i));
+    [picked[i], picked[j]] = [picked[j]!, picked[i]!];
+  }
+  return picked.slice(0, size);
+}
+
+/**
+ * The members given to a set command, of which there must be at least one
+ */
+export function checkMembers(members: string[]): void {
+  if (members.length === 0) {
+    throw new ValidationError('At least one member is required');
+  }
+}
+
+export function checkKeys(keys: unknown[]): void {
+  if (keys.length === 0) {
+    throw new ValidationError('At least one key is required');
+  }
+}
+
+/**
+ * A collection as callers outside the engine see it, such as scan entries:
+ * hashes become objects and sorted sets their `[member, score]` pairs
+ */
+export function plainCollection(value: unknown): unknown {
+  if (value instanceof Map) {
+    return Object.fromEntries(value);
+  }
+  if (value instanceof Set) {
+    return [...value];
+  }
+  return value instanceof SortedSet || value instanceof Deque || value instanceof Stream ? value.toJSON() : value;
+}
+
+/**
+ * The members given to `zadd()` as a score and member or an object
+ */
+export function zsetMembersOf(scoreOrMembers: number | ZSetMembers, member?: unknown): ZSetMembers {
+  if (typeof scoreOrMembers === 'number' && typeof member !== 'string') {
+    throw new ValidationError('Member must be a string', { member });
+  }
+  const members = typeof scoreOrMembers === 'number' ? { [member as string]: scoreOrMembers } : scoreOrMembers;
+  if (members === null || typeof members !== 'object' || Object.keys(members).length === 0) {
+    throw new ValidationError('At least one member is required');
+  }
+  Object.values(members).forEach(checkScore);
+  return members;
+}
+
+/**
+ * Scores are stored as JSON, so they must be finite
+ */
+export function checkScore(score: number): void {
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    throw new ValidationError('Score must be a finite number', { score });
+  }
+}
+
+export function checkZAddOptions(options: ZAddOptions, members: ZSetMembers): void {
+  if (options.nx && options.xx) {
+    throw new ValidationError('nx and xx cannot be combined');
+  }
+  if ([options.nx, options.gt, options.lt].filter(Boolean).length > 1) {
+    throw new ValidationError('Only one of nx, gt and lt can be set');
+  }
+  if (options.incr && Object.keys(members).length !== 1) {
+    throw new ValidationError('incr takes exactly one member');
+  }
+}
+
+/**
+ * The scores `zadd()` sets as the options allow, and what it returns for
+ * them, leaving the sorted set as it is
+ * @returns Each member whose score changes, with its new score
+ */
+export function addScores(
+  zset: SortedSet | undefined,
+  members: ZSetMembers,
+  options: ZAddOptions
+): { scores: Array<[string, number]>; result: number | null } {
+  const scores: Array<[string, number]> = [];
+  let added = 0;
+  let updated = 0;
+  let score: number | null = null;
+
+  for (const [member, given] of Object.entries(members)) {
+    const current = zset?.score(member);
+    if (current === undefined ? options.xx : options.nx) {
+      continue;
+    }
+
+    const target = options.incr ? incrementScore(current, given) : given;
+    if (current !== undefined && ((options.gt && target <= current) || (options.lt && target >= current))) {
+      continue;
+    }
+
+    if (current === undefined) {
+      added++;
+    } else if (target !== current) {
+      updated++;
+    }
+    if (target !== current) {
+      scores.push([member, target]);
+    }
+    score = target;
+  }
+
+  const result = options.incr ? score : added + (options.ch ? updated : 0);
+  return { scores, result };
+}
+
+/**
+ * The distinct members, of those given, that the sorted set holds
+ */
+export function heldMembers(zset: SortedSet | undefined, members: string[]): string[] {
+  return [...new Set(members)].filter(member => zset?.score(member) !== undefined);
+}
+
+/**
+ * Change a sorted set in place, setting each member's score or removing the
+ * member for an undefined one
+ */
+export function applyScores(zset: SortedSet, scores: Array<[member: string, score: number | undefined]>): void {
+  for (const [member, score] of scores) {
+    if (score === undefined) {
+      zset.remove(member);
+    } else {
+      zset.add(member, score);
+    }
+  }
+}
+
+/**
+ * Add an increment to a member's score, which counts as 0 when missing
+ */
+export function incrementScore(current: number | undefined, increment: number): number {
+  const result = (current ?? 0) + increment;
+  if (!Number.isFinite(result)) {
+    throw new ValidationError('Score increment would overflow', { increment });
+  }
+  return result;
+}
+
+export function checkZRangeOptions(start: ZRangeBound, stop: ZRangeBound, options: ZRangeOptions): void {
+  const by = options.by ?? 'rank';
+  if (!['rank', 'score', 'lex'].includes(by)) {
+    throw new ValidationError('by must be rank, score or lex', { by });
+  }
+  if (by === 'rank') {
+    checkInteger(start as number, 'start');
+    checkInteger(stop as number, 'stop');
+    if (options.limit) {
+      throw new ValidationError('limit needs a score or lex range');
+    }
+  }
+  if (options.limit) {
+    checkInteger(options.limit.offset, 'offset');
+    checkInteger(options.limit.count, 'count');
+  }
+}
+
+/**
+ * Members in a range of ranks, scores or members, in the order asked for
+ */
+export function zsetRange(
+  zset: SortedSet | undefined,
+  start: ZRangeBound,
+  stop: ZRangeBound,
+  options: ZRangeOptions
+): Array<[string, number]> {
+  const set = zset ?? new SortedSet();
+  const [from, to] = rangeRanks(set, start, stop, options);
+  const range: Array<[string, number]> = [];
+  if (from >= to) {
+    return range;
+  }
+
+  for (const entry of options.rev ? set.fromRank(to - 1, true) : set.fromRank(from)) {
+    range.push(entry);
+    if (range.length === to - from) {
+      break;
+    }
+  }
+  return range;
+}
+
+/**
+ * Number of members with scores between the bounds
+ */
+export function countScores(zset: SortedSet | undefined, min: ZRangeBound, max: ZRangeBound): number {
+  const [from, to] = rangeRanks(zset ?? new SortedSet(), min, max, { by: 'score' });
+  return Math.max(0, to - from);
+}
+
+/**
+ * @returns The members with the lowest scores, or highest, in the order popped
+ */
+export function popScores(zset: SortedSet | undefined, count: number, highest: boolean): Array<[string, number]> {
+  return count === 0 ? [] : zsetRange(zset, 0, count - 1, { rev: highest });
+}
+
+export function checkZStoreOptions(keys: unknown[], options: ZStoreOptions): void {
+  checkKeys(keys);
+  const { weights, aggregate = 'sum' } = options;
+  if (weights && (weights.length !== keys.length || !weights.every(weight => Number.isFinite(weight)))) {
+    throw new ValidationError('weights must hold one finite number per key', { weights });
+  }
+  if (!['sum', 'min', 'max'].includes(aggregate)) {
+    throw new ValidationError('aggregate must be sum, min or max', { aggregate });
+  }
+}
+
+/**
+ * Combine sorted sets for `zunionstore()` and `zinterstore()`, weighing each
+ * set's scores and aggregating a member's scores across sets. Missing keys
+ * count as empty sets.
+ * @param intersect Keep only the members in every set
+ */
+export function combineZSets(
+  zsets: Array<SortedSet | undefined>,
+  options: ZStoreOptions,
+  intersect: boolean
+): SortedSet {
+  const aggregate = options.aggregate ?? 'sum';
+  const scores = new Map<string, { score: number; sets: number }>();
+
+  zsets.forEach((zset, i) => {
+    const weight = options.weights?.[i] ?? 1;
+    for (const [member, score] of zset?.entries() ?? []) {
+      const weighted = score * weight;
+      const current = scores.get(member);
+      if (!current) {
+        scores.set(member, { score: weighted, sets: 1 });
+        continue;
+      }
+      current.sets++;
+      current.score = aggregate === 'sum' ? current.score + weighted : Math[aggregate](current.score, weighted);
+    }
+  });
+
+  const combined = new SortedSet();
+  for (const [member, { score, sets }] of scores) {
+    if (intersect && sets < zsets.length) {
+      continue;
+    }
+    if (!Number.isFinite(score)) {
+      throw new ValidationError('Combined score would overflow', { member });
+    }
+    combined.add(member, score);
+  }
+  return combined;
+}
+
+/**
+ * The interval of ascending ranks a range covers, after `limit`
+ * @returns Bounds for `slice()`
+ */
+function rangeRanks(
+  zset: SortedSet,
+  start: ZRangeBound,
+  stop: ZRangeBound,
+  options: ZRangeOptions
+): [from: number, to: number] {
+  const { by = 'rank', rev = false, limit } = options;
+  if (by === 'rank') {
+    const [from, to] = listRange(zset.size, start as number, stop as number);
+    return rev ? [zset.size - to, zset.size - from] : [from, to];
+  }
+
+  // Reversed score and member ranges take the upper bound first
+  const [min, max] = rev ? [stop, start] : [start, stop];
+  const [belowMin, aboveMax] = by === 'score' ? scoreBounds(min, max) : lexBounds(min, max);
+  let from = zset.rankWhere(belowMin);
+  let to = zset.rankWhere((member, score) => !aboveMax(member, score));
+
+  if (limit) {
+    const { offset, count } = limit;
+    if (offset < 0) {
+      return [0, 0];
+    }
+    if (rev) {
+      to -= offset;
+      from = count < 0 ? from : Math.max(from, to - count);
+    } else {
+      from += offset;
+      to = count < 0 ? to : Math.min(to, from + count);
+    }
+  }
+  return from < to ? [from, to] : [0, 0];
+}
+
+type Bound = (member: string, score: number) => boolean;
+
+/**
+ * @returns Whether a member falls below the minimum, and whether it falls
+ * above the maximum
+ */
+function scoreBounds(min: ZRangeBound, max: ZRangeBound): [belowMin: Bound, aboveMax: Bound] {
+  const lower = parseScoreBound(min);
+  const upper = parseScoreBound(max);
+  return [
+    (_, score) => (lower.exclusive ? score <= lower.score : score < lower.score),
+    (_, score) => (upper.exclusive ? score >= upper.score : score > upper.score)
+  ];
+}
+
+function parseScoreBound(bound: ZRangeBound): { score: number; exclusive: boolean } {
+  if (typeof bound === 'number' && !Number.isNaN(bound)) {
+    return { score: bound, exclusive: false };
+  }
+
+  const text = String(bound);
+  const exclusive = text.startsWith('(');
+  const value = exclusive ? text.slice(1) : text;
+  const score = ['+inf', 'inf'].includes(value) ? Infinity : value === '-inf' ? -Infinity : Number(value);
+  if (typeof bound !== 'string' || value.trim() === '' || Number.isNaN(score)) {
+    throw new ValidationError('Score bound must be a number, -inf or +inf, optionally after ( to exclude it', {
+      bound
+    });
+  }
+  return { score, exclusive };
+}
+
+function lexBounds(min: ZRangeBound, max: ZRangeBound): [belowMin: Bound, aboveMax: Bound] {
+  const lower = parseLexBound(min);
+  const upper = parseLexBound(max);
+  return [
+    member => (lower === '-' ? false : lower === '+' ? true : beyond(member, lower, -1)),
+    member => (upper === '+' ? false : upper === '-' ? true : beyond(member, upper, 1))
+  ];
+}
+
+/**
+ * Whether a member is on the given side of a member bound
+ */
+function beyond(member: string, bound: { member: string; exclusive: boolean }, side: 1 | -1): boolean {
+  const order = bytewiseCompare(member, bound.member) * side;
+  return bound.exclusive ? order >= 0 : order > 0;
+}
+
+function parseLexBound(bound: ZRangeBound): '-' | '+' | { member: string; exclusive: boolean } {
+  if (bound === '-' || bound === '+') {
+    return bound;
+  }
+  if (typeof bound !== 'string' || !(bound.startsWith('[') || bound.startsWith('('))) {
+    throw new ValidationError('Member bound must be -, + or a member after [, or after ( to exclude it', { bound });
+  }
+  return { member: bound.slice(1), exclusive: bound.startsWith('(') };
+}
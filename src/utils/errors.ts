@@ -10,7 +10,8 @@ export class SnapDBError extends Error {
   ) {
     super(message);
     this.name = 'SnapDBError';
-    Object.setPrototypeOf(this, SnapDBError.prototype);
+    // Keep the subclass prototype so `instanceof` works for every error class
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 }
 
@@ -85,6 +86,65 @@ export class SerializationError extends SnapDBError {
   }
 }
 
+export class VersionConflictError extends SnapDBError {
+  constructor(key: any, expectedVersion: number, actualVersion: number) {
+    super(
+      `Version conflict on key ${String(key)}: expected ${expectedVersion}, found ${actualVersion}`,
+      'VERSION_CONFLICT',
+      { key, expectedVersion, actualVersion }
+    );
+    this.name = 'VersionConflictError';
+  }
+}
+
+export class WrongTypeError extends SnapDBError {
+  constructor(key: any, expected: string, actual: string) {
+    super(
+      `WRONGTYPE Operation against a key holding the wrong kind of value: ${String(key)} holds a ${actual}, not a ${expected}`,
+      'WRONGTYPE',
+      { key, expected, actual }
+    );
+    this.name = 'WrongTypeError';
+  }
+}
+
+export class ClosedError extends SnapDBError {
+  constructor(operation: string) {
+    super(`${operation} was cancelled because SnapDB is closing`, 'CLOSED', { operation });
+    this.name = 'ClosedError';
+  }
+}
+
+export class NoGroupError extends SnapDBError {
+  constructor(key: any, group: string) {
+    super(`NOGROUP No such key '${String(key)}' or consumer group '${group}'`, 'NOGROUP', { key, group });
+    this.name = 'NoGroupError';
+  }
+}
+
+export class BusyGroupError extends SnapDBError {
+  constructor(key: any, group: string) {
+    super(`BUSYGROUP Consumer group '${group}' already exists on '${String(key)}'`, 'BUSYGROUP', { key, group });
+    this.name = 'BusyGroupError';
+  }
+}
+
+export class ScriptError extends SnapDBError {
+  constructor(message: string, details?: any) {
+    super(message, 'SCRIPT_ERROR', details);
+    this.name = 'ScriptError';
+  }
+}
+
+export class ScriptNotFoundError extends SnapDBError {
+  constructor(sha: string) {
+    super(`No script with SHA1 ${sha}, load it with scriptLoad() or run it with eval()`, 'SCRIPT_NOT_FOUND', {
+      sha
+    });
+    this.name = 'ScriptNotFoundError';
+  }
+}
+
 export const ErrorCodes = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   WORKER_ERROR: 'WORKER_ERROR',
@@ -95,6 +155,13 @@ export const ErrorCodes = {
   MEMORY_LIMIT_EXCEEDED: 'MEMORY_LIMIT_EXCEEDED',
   TIMEOUT: 'TIMEOUT',
   SERIALIZATION_ERROR: 'SERIALIZATION_ERROR',
+  VERSION_CONFLICT: 'VERSION_CONFLICT',
+  WRONGTYPE: 'WRONGTYPE',
+  CLOSED: 'CLOSED',
+  NOGROUP: 'NOGROUP',
+  BUSYGROUP: 'BUSYGROUP',
+  SCRIPT_ERROR: 'SCRIPT_ERROR',
+  SCRIPT_NOT_FOUND: 'SCRIPT_NOT_FOUND',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR'
 } as const;
 
@@ -132,7 +199,27 @@ export function deserializeError(serialized: {
   stack?: string;
   details?: any;
 }): SnapDBError {
-  const error = new SnapDBError(serialized.message, serialized.code, serialized.details);
+  // Conflicts, type mismatches, unknown scripts and consumer group errors are
+  // expected and handled by callers, so they keep their class
+  let error: SnapDBError;
+  if (serialized.code === ErrorCodes.SCRIPT_NOT_FOUND) {
+    error = new ScriptNotFoundError((serialized.details as { sha: string }).sha);
+  } else if (serialized.code === ErrorCodes.VERSION_CONFLICT) {
+    const { key, expectedVersion, actualVersion } = serialized.details as {
+      key: string;
+      expectedVersion: number;
+      actualVersion: number;
+    };
+    error = new VersionConflictError(key, expectedVersion, actualVersion);
+  } else if (serialized.code === ErrorCodes.WRONGTYPE) {
+    const { key, expected, actual } = serialized.details as { key: unknown; expected: string; actual: string };
+    error = new WrongTypeError(key, expected, actual);
+  } else if (serialized.code === ErrorCodes.NOGROUP || serialized.code === ErrorCodes.BUSYGROUP) {
+    const { key, group } = serialized.details as { key: unknown; group: string };
+    error = serialized.code === ErrorCodes.NOGROUP ? new NoGroupError(key, group) : new BusyGroupError(key, group);
+  } else {
+    error = new SnapDBError(serialized.message, serialized.code, serialized.details);
+  }
   if (serialized.stack) {
     error.stack = serialized.stack;
   }
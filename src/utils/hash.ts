@@ -0,0 +1,48 @@
+/**
+ * Non-cryptographic hashing (MurmurHash3, x86 32-bit variant)
+ */
+
+const C1 = 0xcc9e2d51;
+const C2 = 0x1b873593;
+
+/**
+ * Hash a string's UTF-8 bytes, or a buffer, to an unsigned 32-bit integer
+ */
+export function murmur3(input: string | Buffer, seed: number = 0): number {
+  const data = typeof input === 'string' ? Buffer.from(input, 'utf-8') : input;
+  const blocks = data.length >>> 2;
+  let h = seed >>> 0;
+
+  for (let i = 0; i < blocks; i++) {
+    let k = data.readUInt32LE(i * 4);
+    k = Math.imul(k, C1);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, C2);
+
+    h ^= k;
+    h = (h << 13) | (h >>> 19);
+    h = (Math.imul(h, 5) + 0xe6546b64) | 0;
+  }
+
+  const tail = blocks * 4;
+  const remaining = data.length & 3;
+  if (remaining > 0) {
+    let k = 0;
+    for (let i = remaining - 1; i >= 0; i--) {
+      k = (k << 8) | data[tail + i]!;
+    }
+    k = Math.imul(k, C1);
+    k = (k << 15) | (k >>> 17);
+    k = Math.imul(k, C2);
+    h ^= k;
+  }
+
+  h ^= data.length;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+
+  return h >>> 0;
+}
@@ -0,0 +1,602 @@
+/**
+ * Stream utilities for SnapDBJS
+ *
+ * What both backends share about streams: IDs, argument checks and the
+ * bookkeeping of consumer groups in a stream's `StreamMeta`. The functions
+ * taking a `Stream` run commands on the simple backend's streams, changing
+ * them in place; the LSM engine runs them on entries and pending entries
+ * stored under their own keys.
+ */
+
+import {
+  HashFields,
+  StreamConsumerInfo,
+  StreamEntry,
+  StreamGroupInfo,
+  StreamInfo,
+  XAddOptions,
+  XPendingEntry,
+  XPendingOptions,
+  XPendingSummary
+} from '../types';
+import { PendingEntry, Stream, StreamConsumer, StreamGroup, StreamMeta } from '../worker/storage/Stream';
+import { bytewiseCompare } from './comparator';
+import { checkBlockingTimeout, checkKeys } from './datatypes';
+import { BusyGroupError, NoGroupError, ValidationError } from './errors';
+
+const MAX_PART = Number.MAX_SAFE_INTEGER;
+
+export type StreamId = [ms: number, seq: number];
+
+/**
+ * Parse an ID given as `'<ms>-<seq>'`, or as `'<ms>'` with a default sequence
+ */
+export function parseStreamId(id: string, defaultSeq: number = 0): StreamId {
+  const match = typeof id === 'string' ? /^(\d+)(?:-(\d+))?$/.exec(id) : null;
+  const ms = match ? Number(match[1]) : NaN;
+  const seq = match?.[2] !== undefined ? Number(match[2]) : defaultSeq;
+  if (!Number.isSafeInteger(ms) || !Number.isSafeInteger(seq)) {
+    throw new ValidationError('Stream ID must be <ms>-<seq> or <ms>', { id });
+  }
+  return [ms, seq];
+}
+
+/**
+ * An ID in the `'<ms>-<seq>'` form streams store
+ */
+export function streamIdOf(id: string): string {
+  return formatStreamId(parseStreamId(id));
+}
+
+export function formatStreamId([ms, seq]: StreamId): string {
+  return `${ms}-${seq}`;
+}
+
+export function compareStreamIds(a: StreamId, b: StreamId): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+/**
+ * The ID for a new entry, which must be greater than the last one
+ * @param requested `'*'`, `'<ms>-*'` or an ID
+ */
+export function nextStreamId(lastId: string, requested: string, now: number): string {
+  const last = parseStreamId(lastId);
+  let id: StreamId;
+  if (requested === '*') {
+    id = now > last[0] ? [now, 0] : [last[0], last[1] + 1];
+  } else if (typeof requested === 'string' && requested.endsWith('-*')) {
+    const [ms] = parseStreamId(requested.slice(0, -2));
+    id = ms === last[0] ? [ms, last[1] + 1] : [ms, 0];
+  } else {
+    id = parseStreamId(requested);
+  }
+
+  if (compareStreamIds(id, last) <= 0) {
+    throw new ValidationError(`Stream ID must be greater than ${lastId}`, { id: requested, lastId });
+  }
+  return formatStreamId(id);
+}
+
+/**
+ * The IDs between two bounds: `'-'`, `'+'`, or an ID, where `'<ms>'` covers
+ * every sequence number and a leading `(` leaves the ID out
+ * @returns The first and last ID in range, undefined when there are none
+ */
+export function streamIdRange(start: string, end: string): [from: StreamId, to: StreamId] | undefined {
+  const from = boundId(start, 'start');
+  const to = boundId(end, 'end');
+  return from && to && compareStreamIds(from, to) <= 0 ? [from, to] : undefined;
+}
+
+export function checkXAddOptions(options: XAddOptions): void {
+  const { maxLen, minId } = options;
+  if (maxLen !== undefined && minId !== undefined) {
+    throw new ValidationError('maxLen and minId cannot be combined');
+  }
+  if (maxLen !== undefined && (!Number.isSafeInteger(maxLen) || maxLen < 0)) {
+    throw new ValidationError('maxLen must be a non-negative integer', { maxLen });
+  }
+  if (minId !== undefined) {
+    parseStreamId(minId);
+  }
+}
+
+/**
+ * Counts of stream reads and claims must be positive, a read of nothing
+ * could never end
+ */
+export function checkStreamCount(count: number): void {
+  if (!Number.isSafeInteger(count) || count <= 0) {
+    throw new ValidationError('count must be a positive integer', { count });
+  }
+}
+
+/**
+ * Check the streams and IDs given to a read, where `special` lists the IDs
+ * with a meaning of their own, such as `'$'`, and its options
+ */
+export function checkStreamReads(
+  streams: Array<[unknown, string]>,
+  special: string[],
+  options: { count?: number; timeoutMs?: number }
+): void {
+  checkKeys(streams);
+  for (const [, id] of streams) {
+    if (!special.includes(id)) {
+      parseStreamId(id);
+    }
+  }
+  if (options.count !== undefined) {
+    checkStreamCount(options.count);
+  }
+  if (options.timeoutMs !== undefined) {
+    checkBlockingTimeout(options.timeoutMs);
+  }
+}
+
+export function checkStreamIds(ids: string[]): void {
+  if (ids.length === 0) {
+    throw new ValidationError('At least one ID is required');
+  }
+  ids.forEach(id => parseStreamId(id));
+}
+
+export function checkStreamName(name: string, kind: 'group' | 'consumer'): void {
+  if (typeof name !== 'string' || name === '') {
+    throw new ValidationError(`The ${kind} name must be a non-empty string`, { [kind]: name });
+  }
+}
+
+export function checkIdleTime(minIdleMs: number): void {
+  if (!Number.isFinite(minIdleMs) || minIdleMs < 0) {
+    throw new ValidationError('minIdleMs must be a non-negative number of milliseconds', { minIdleMs });
+  }
+}
+
+/**
+ * Index of a group among the groups of a stream, -1 when it has none by that name
+ */
+export function findGroup(stream: StreamMeta | undefined, name: string): number {
+  return stream?.groups.findIndex(group => group.name === name) ?? -1;
+}
+
+/**
+ * Like `findGroup()`, for commands that need the group
+ */
+export function groupIndex(stream: StreamMeta | undefined, key: unknown, name: string): number {
+  const index = findGroup(stream, name);
+  if (index < 0) {
+    throw new NoGroupError(key, name);
+  }
+  return index;
+}
+
+/**
+ * @param id Last delivered ID the group starts from, `'$'` for the last entry
+ */
+export function addGroup(stream: StreamMeta, key: unknown, name: string, id: string): void {
+  if (findGroup(stream, name) >= 0) {
+    throw new BusyGroupError(key, name);
+  }
+  const lastDeliveredId = id === '$' ? stream.lastId : streamIdOf(id);
+  stream.groups.push({ name, lastDeliveredId, consumers: [], pending: 0 });
+}
+
+/**
+ * Mark a consumer as seen, adding it to the group when new
+ * @returns Whether it was new
+ */
+export function touchConsumer(group: StreamGroup, name: string, now: number): boolean {
+  const consumer = findConsumer(group, name);
+  if (consumer) {
+    consumer.seenAt = now;
+    return false;
+  }
+  group.consumers.push({ name, seenAt: now, pending: 0 });
+  return true;
+}
+
+/**
+ * Count an entry as delivered to a consumer and not yet acknowledged
+ */
+export function deliverEntry(group: StreamGroup, id: string, consumer: string, now: number): PendingEntry {
+  countPending(group, consumer, 1);
+  return { id, consumer, deliveredAt: now, deliveries: 1 };
+}
+
+/**
+ * Hand a pending entry to a consumer, counting a delivery
+ * @returns The entry as it is pending now
+ */
+export function claimEntry(group: StreamGroup, pending: PendingEntry, consumer: string, now: number): PendingEntry {
+  countPending(group, pending.consumer, -1);
+  countPending(group, consumer, 1);
+  return { ...pending, consumer, deliveredAt: now, deliveries: pending.deliveries + 1 };
+}
+
+/**
+ * Stop counting a pending entry, acknowledged or trimmed from the stream
+ */
+export function dropPending(group: StreamGroup, pending: PendingEntry): void {
+  countPending(group, pending.consumer, -1);
+}
+
+export function pendingSummary(group: StreamGroup, lowestId: string | null, highestId: string | null): XPendingSummary {
+  return {
+    count: group.pending,
+    lowestId,
+    highestId,
+    consumers: group.consumers
+      .filter(consumer => consumer.pending > 0)
+      .map((consumer): [string, number] => [consumer.name, consumer.pending])
+      .sort(([a], [b]) => bytewiseCompare(a, b))
+  };
+}
+
+/**
+ * Whether a pending entry is one `xpendingRange()` lists, its ID aside
+ */
+export function pendingMatches(pending: PendingEntry, options: XPendingOptions, now: number): boolean {
+  const { consumer, minIdleMs = 0 } = options;
+  return (consumer === undefined || pending.consumer === consumer) && now - pending.deliveredAt >= minIdleMs;
+}
+
+export function pendingInfo(pending: PendingEntry, now: number): XPendingEntry {
+  return {
+    id: pending.id,
+    consumer: pending.consumer,
+    idleMs: now - pending.deliveredAt,
+    deliveries: pending.deliveries
+  };
+}
+
+export function streamInfo<V>(
+  stream: StreamMeta,
+  length: number,
+  firstEntry: StreamEntry<V> | null,
+  lastEntry: StreamEntry<V> | null
+): StreamInfo<V> {
+  return {
+    length,
+    lastGeneratedId: stream.lastId,
+    entriesAdded: stream.entriesAdded,
+    groups: stream.groups.length,
+    firstEntry,
+    lastEntry
+  };
+}
+
+export function groupsInfo(stream: StreamMeta | undefined): StreamGroupInfo[] {
+  return (stream?.groups ?? []).map(group => ({
+    name: group.name,
+    consumers: group.consumers.length,
+    pending: group.pending,
+    lastDeliveredId: group.lastDeliveredId
+  }));
+}
+
+export function consumersInfo(
+  stream: StreamMeta | undefined,
+  key: unknown,
+  groupName: string,
+  now: number
+): StreamConsumerInfo[] {
+  const group = stream!.groups[groupIndex(stream, key, groupName)]!;
+  return group.consumers.map(consumer => ({
+    name: consumer.name,
+    pending: consumer.pending,
+    idleMs: now - consumer.seenAt
+  }));
+}
+
+/**
+ * Add an entry to a stream, then trim it
+ * @returns The entry's ID
+ */
+export function addEntry<V>(stream: Stream<V>, fields: HashFields<V>, options: XAddOptions, now: number): string {
+  const id = nextStreamId(stream.lastId, options.id ?? '*', now);
+  const { entries } = stream;
+  entries.push([id, fields]);
+  stream.lastId = id;
+  stream.entriesAdded++;
+
+  const { maxLen, minId } = options;
+  if (maxLen !== undefined) {
+    while (entries.length > maxLen) {
+      entries.shift();
+    }
+  }
+  if (minId !== undefined) {
+    const min = parseStreamId(minId);
+    while (entries.length > 0 && compareStreamIds(parseStreamId(entries.at(0)![0]), min) < 0) {
+      entries.shift();
+    }
+  }
+  return id;
+}
+
+export function streamRange<V>(
+  stream: Stream<V> | undefined,
+  start: string,
+  end: string,
+  count: number | undefined,
+  reverse: boolean
+): StreamEntry<V>[] {
+  const range = stream && streamIdRange(start, end);
+  if (!range) {
+    return [];
+  }
+  const from = firstIndex(stream, range[0], false);
+  const to = firstIndex(stream, range[1], true);
+  if (!reverse) {
+    return stream.entries.slice(from, count === undefined ? to : Math.min(to, from + count));
+  }
+  return stream.entries.slice(count === undefined ? from : Math.max(from, to - count), to).reverse();
+}
+
+/**
+ * Entries after an ID, none for `'$'`, which stands for the last one
+ */
+export function entriesAfter<V>(
+  stream: Stream<V> | undefined,
+  id: string,
+  count: number | undefined
+): StreamEntry<V>[] {
+  return id === '$' ? [] : streamRange(stream, `(${id}`, '+', count, false);
+}
+
+export function createGroup(stream: Stream, key: unknown, name: string, id: string): void {
+  addGroup(stream, key, name, id);
+  stream.pending.push(new Map());
+}
+
+/**
+ * Read for a consumer of a group: new entries for `'>'`, which the group
+ * then counts as delivered, or the consumer's pending entries after any
+ * other ID. Pending entries that were trimmed from the stream are skipped.
+ * @returns The entries, null when there were no new ones, and whether the
+ * stream changed
+ */
+export function readGroup<V>(
+  stream: Stream<V>,
+  index: number,
+  consumer: string,
+  id: string,
+  options: { count?: number; noAck?: boolean },
+  now: number
+): { changed: boolean; entries: StreamEntry<V>[] | null } {
+  const group = stream.groups[index]!;
+  const pending = stream.pending[index]!;
+
+  if (id === '>') {
+    const entries = entriesAfter(stream, group.lastDeliveredId, options.count);
+    if (entries.length === 0) {
+      // Waiting for entries only changes the group for a new consumer
+      const created = findConsumer(group, consumer) === undefined;
+      if (created) {
+        touchConsumer(group, consumer, now);
+      }
+      return { changed: created, entries: null };
+    }
+    touchConsumer(group, consumer, now);
+    group.lastDeliveredId = entries[entries.length - 1]![0];
+    if (!options.noAck) {
+      entries.forEach(([entryId]) => pending.set(entryId, deliverEntry(group, entryId, consumer, now)));
+    }
+    return { changed: true, entries };
+  }
+
+  touchConsumer(group, consumer, now);
+  const after = parseStreamId(id);
+  const entries: StreamEntry<V>[] = [];
+  let read = 0;
+  for (const entry of pending.values()) {
+    if (options.count !== undefined && read >= options.count) {
+      break;
+    }
+    if (entry.consumer === consumer && compareStreamIds(parseStreamId(entry.id), after) > 0) {
+      read++;
+      const found = findEntry(stream, entry.id);
+      if (found) {
+        entries.push(found);
+      }
+    }
+  }
+  return { changed: true, entries };
+}
+
+/**
+ * Remove entries from a group's pending entries
+ * @returns How many of them were pending
+ */
+export function ackEntries(stream: Stream, index: number, ids: string[]): number {
+  const group = stream.groups[index]!;
+  const pending = stream.pending[index]!;
+  let acked = 0;
+  for (const id of new Set(ids.map(streamIdOf))) {
+    const entry = pending.get(id);
+    if (entry) {
+      pending.delete(id);
+      dropPending(group, entry);
+      acked++;
+    }
+  }
+  return acked;
+}
+
+export function streamPendingSummary(stream: Stream, index: number): XPendingSummary {
+  let lowestId: string | null = null;
+  let highestId: string | null = null;
+  for (const id of stream.pending[index]!.keys()) {
+    lowestId ??= id;
+    highestId = id;
+  }
+  return pendingSummary(stream.groups[index]!, lowestId, highestId);
+}
+
+export function pendingRange(stream: Stream, index: number, options: XPendingOptions, now: number): XPendingEntry[] {
+  const range = streamIdRange(options.start ?? '-', options.end ?? '+');
+  if (!range) {
+    return [];
+  }
+
+  const entries: XPendingEntry[] = [];
+  for (const pending of stream.pending[index]!.values()) {
+    const id = parseStreamId(pending.id);
+    if (entries.length >= options.count || compareStreamIds(id, range[1]) > 0) {
+      break;
+    }
+    if (compareStreamIds(id, range[0]) >= 0 && pendingMatches(pending, options, now)) {
+      entries.push(pendingInfo(pending, now));
+    }
+  }
+  return entries;
+}
+
+/**
+ * Hand pending entries idle for at least `minIdleMs` to a consumer, counting
+ * a delivery. IDs that are not pending are ignored, and pending entries that
+ * were trimmed from the stream are removed from the pending entries.
+ */
+export function claimEntries<V>(
+  stream: Stream<V>,
+  index: number,
+  consumer: string,
+  minIdleMs: number,
+  ids: string[],
+  now: number
+): StreamEntry<V>[] {
+  const group = stream.groups[index]!;
+  const pending = stream.pending[index]!;
+  touchConsumer(group, consumer, now);
+
+  const entries: StreamEntry<V>[] = [];
+  for (const id of new Set(ids.map(streamIdOf))) {
+    const current = pending.get(id);
+    if (current && now - current.deliveredAt >= minIdleMs) {
+      claimPending(stream, index, current, consumer, now, entries);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Claim like `claimEntries()`, going through the pending entries from
+ * `start` until `count` entries were claimed or found trimmed
+ */
+export function autoClaimEntries<V>(
+  stream: Stream<V>,
+  index: number,
+  consumer: string,
+  minIdleMs: number,
+  start: string,
+  count: number,
+  now: number
+): [next: string, entries: StreamEntry<V>[], deletedIds: string[]] {
+  touchConsumer(stream.groups[index]!, consumer, now);
+
+  const range = streamIdRange(start, '+');
+  const entries: StreamEntry<V>[] = [];
+  const deleted: string[] = [];
+  if (!range) {
+    return ['0-0', entries, deleted];
+  }
+
+  // Deleting the entry a map iteration is at leaves the iteration going
+  for (const pending of stream.pending[index]!.values()) {
+    if (compareStreamIds(parseStreamId(pending.id), range[0]) < 0) {
+      continue;
+    }
+    if (entries.length + deleted.length >= count) {
+      return [pending.id, entries, deleted];
+    }
+    if (now - pending.deliveredAt >= minIdleMs && !claimPending(stream, index, pending, consumer, now, entries)) {
+      deleted.push(pending.id);
+    }
+  }
+  return ['0-0', entries, deleted];
+}
+
+/**
+ * Claim a pending entry for a consumer, adding it to `entries`, or drop it
+ * when it was trimmed from the stream
+ * @returns Whether it was still in the stream
+ */
+function claimPending<V>(
+  stream: Stream<V>,
+  index: number,
+  pending: PendingEntry,
+  consumer: string,
+  now: number,
+  entries: StreamEntry<V>[]
+): boolean {
+  const group = stream.groups[index]!;
+  const entry = findEntry(stream, pending.id);
+  if (entry) {
+    stream.pending[index]!.set(pending.id, claimEntry(group, pending, consumer, now));
+    entries.push(entry);
+    return true;
+  }
+  stream.pending[index]!.delete(pending.id);
+  dropPending(group, pending);
+  return false;
+}
+
+export function findConsumer(group: StreamGroup, name: string): StreamConsumer | undefined {
+  return group.consumers.find(candidate => candidate.name === name);
+}
+
+function countPending(group: StreamGroup, name: string, delta: number): void {
+  group.pending += delta;
+  const consumer = findConsumer(group, name);
+  if (consumer) {
+    consumer.pending += delta;
+  }
+}
+
+/**
+ * The first or last ID a bound of a range covers, undefined when it
+ * covers none
+ */
+function boundId(bound: string, side: 'start' | 'end'): StreamId | undefined {
+  if (bound === '-') {
+    return side === 'start' ? [0, 0] : undefined;
+  }
+  if (bound === '+') {
+    return side === 'end' ? [MAX_PART, MAX_PART] : undefined;
+  }
+  const exclusive = typeof bound === 'string' && bound.startsWith('(');
+  const [ms, seq] = parseStreamId(exclusive ? bound.slice(1) : bound, side === 'start' ? 0 : MAX_PART);
+  if (!exclusive) {
+    return [ms, seq];
+  }
+  if (side === 'start') {
+    return seq < MAX_PART ? [ms, seq + 1] : ms < MAX_PART ? [ms + 1, 0] : undefined;
+  }
+  return seq > 0 ? [ms, seq - 1] : ms > 0 ? [ms - 1, MAX_PART] : undefined;
+}
+
+/**
+ * Index of the first entry with an ID above the given one, or at it unless
+ * `exclusive`
+ */
+function firstIndex(stream: Stream, id: StreamId, exclusive: boolean): number {
+  let low = 0;
+  let high = stream.entries.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    const order = compareStreamIds(parseStreamId(stream.entries.at(middle)![0]), id);
+    if (order < 0 || (exclusive && order === 0)) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+function findEntry<V>(stream: Stream<V>, id: string): StreamEntry<V> | undefined {
+  const entry = stream.entries.at(firstIndex(stream, parseStreamId(id), false));
+  return entry?.[0] === id ? entry : undefined;
+}
@@ -0,0 +1,302 @@
+/**
+ * Blocking pops, the counterpart of Redis BLPOP, BRPOP, BLMOVE and BZPOPMIN,
+ * and blocking stream reads, the counterpart of XREAD and XREADGROUP with BLOCK
+ *
+ * A blocking pop that finds its keys empty waits for a write to one of them.
+ * Whoever pushes to a list, adds to a sorted set or adds a stream entry calls
+ * `notify()`, which lets the waiters on those keys retry in the order they
+ * blocked, so the longest waiting caller gets the first element. Attempts,
+ * registering a waiter and serving waiters after a write run one at a time,
+ * so a write cannot slip in between an attempt that found nothing and its
+ * waiter being registered.
+ *
+ * Waiting happens outside that queue, and `wait` lets the caller step out of
+ * its own locks meanwhile, so a blocked pop never holds other commands up.
+ */
+
+import { StorageBackend, ListEnd, StreamReadResult } from '../../types';
+import { ClosedError } from '../../utils/errors';
+
+interface Waiter {
+  /** The operation blocked, for the error it gets on close */
+  operation: string;
+  keys: Set<string>;
+  /** Pop for the waiter, resolving to null when its keys are still empty */
+  attempt: () => Promise<unknown>;
+  settle: (error: Error | undefined, result: unknown) => void;
+  timer?: NodeJS.Timeout;
+  /** Set while an attempt runs, so the timeout cannot drop a popped element */
+  serving: boolean;
+  timedOut: boolean;
+  /** List the waiter pushes onto when it gets an element */
+  destination?: string;
+  /** Whether the waiter reads without taking, so finding nothing says nothing of other waiters */
+  reads: boolean;
+}
+
+export class BlockingPops<K = string, V = any> {
+  private waiters: Waiter[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+
+  constructor(private readonly storage: StorageBackend<K, V>) {}
+
+  /**
+   * Pop the head of the first of the lists holding an element, waiting up to
+   * `timeoutMs` (0 for no limit) for a push when they are all empty
+   * @returns The key popped from and the element, or null on timeout
+   */
+  blpop(
+    keys: K[],
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<[K, V] | null> {
+    return this.block('BLPOP', keys, () => this.popFirst(keys, 'left'), timeoutMs, wait);
+  }
+
+  brpop(
+    keys: K[],
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<[K, V] | null> {
+    return this.block('BRPOP', keys, () => this.popFirst(keys, 'right'), timeoutMs, wait);
+  }
+
+  /**
+   * Move an element like `lmove()`, waiting for one to arrive on the source
+   * when it is empty
+   */
+  blmove(
+    source: K,
+    destination: K,
+    from: ListEnd,
+    to: ListEnd,
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<V | null> {
+    const attempt = (): Promise<V | null> => this.storage.lmove(source, destination, from, to);
+    return this.block('BLMOVE', [source], attempt, timeoutMs, wait, { destination });
+  }
+
+  /**
+   * Pop the member with the lowest score from the first of the sorted sets
+   * holding one, waiting like `blpop()` when they are all empty
+   * @returns The key popped from, the member and its score, or null on timeout
+   */
+  bzpopmin(
+    keys: K[],
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<[K, string, number] | null> {
+    return this.block('BZPOPMIN', keys, () => this.popLowest(keys), timeoutMs, wait);
+  }
+
+  /**
+   * Read the entries after the given IDs like `xread()`, waiting for one to
+   * be added when there are none. `'$'` stands for the last entry when the
+   * read starts, so only entries added while waiting count.
+   */
+  xread(
+    streams: Array<[K, string]>,
+    count: number | undefined,
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<StreamReadResult<K, V> | null> {
+    let resolved: Array<[K, string]> | undefined;
+    const attempt = async (): Promise<StreamReadResult<K, V> | null> => {
+      resolved ??= await this.lastIds(streams);
+      return this.storage.xread(resolved, count);
+    };
+    return this.block('XREAD', streams.map(([key]) => key), attempt, timeoutMs, wait, { reads: true });
+  }
+
+  /**
+   * Read for a consumer of a group like `xreadgroup()`, waiting for new
+   * entries when there are none to deliver
+   */
+  xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[K, string]>,
+    options: { count?: number; noAck?: boolean },
+    timeoutMs: number,
+    wait?: <T>(pending: Promise<T>) => Promise<T>
+  ): Promise<StreamReadResult<K, V> | null> {
+    const attempt = (): Promise<StreamReadResult<K, V> | null> =>
+      this.storage.xreadgroup(group, consumer, streams, options);
+    return this.block('XREADGROUP', streams.map(([key]) => key), attempt, timeoutMs, wait, { reads: true });
+  }
+
+  /**
+   * Serve the waiters on keys that may have been written to
+   */
+  notify(keys: K[]): Promise<void> {
+    const pushed = new Set(keys.map(String));
+    return this.enqueue(() => this.serve(pushed));
+  }
+
+  /**
+   * Serve every waiter, after writes whose keys are not known, such as a script's
+   */
+  notifyAll(): Promise<void> {
+    return this.enqueue(() => this.serve());
+  }
+
+  /**
+   * Cancel every blocked pop with a ClosedError, once waiters being served
+   * have their elements
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.queue;
+
+    for (const waiter of [...this.waiters]) {
+      waiter.settle(new ClosedError(waiter.operation), null);
+    }
+  }
+
+  private async block<T>(
+    operation: string,
+    keys: K[],
+    attempt: () => Promise<T | null>,
+    timeoutMs: number,
+    wait: <R>(pending: Promise<R>) => Promise<R> = pending => pending,
+    { destination, reads = false }: { destination?: K; reads?: boolean } = {}
+  ): Promise<T | null> {
+    if (this.closed) {
+      throw new ClosedError(operation);
+    }
+
+    const pushesTo = destination === undefined ? undefined : String(destination);
+    const outcome = await this.enqueue(async (): Promise<{ result: T } | { blocked: Promise<T | null> }> => {
+      const result = await attempt();
+      if (result === null) {
+        return { blocked: this.register(operation, keys, attempt, timeoutMs, pushesTo, reads) };
+      }
+      if (pushesTo !== undefined) {
+        await this.serve(new Set([pushesTo]));
+      }
+      return { result };
+    });
+    return 'result' in outcome ? outcome.result : wait(outcome.blocked);
+  }
+
+  private register<T>(
+    operation: string,
+    keys: K[],
+    attempt: () => Promise<T | null>,
+    timeoutMs: number,
+    destination: string | undefined,
+    reads: boolean
+  ): Promise<T | null> {
+    return new Promise<T | null>((resolve, reject) => {
+      const waiter: Waiter = {
+        operation,
+        keys: new Set(keys.map(String)),
+        attempt,
+        serving: false,
+        timedOut: false,
+        destination,
+        reads,
+        settle: (error, result) => {
+          clearTimeout(waiter.timer);
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          if (error) {
+            reject(error);
+          } else {
+            resolve(result as T | null);
+          }
+        }
+      };
+
+      if (timeoutMs > 0) {
+        waiter.timer = setTimeout(() => {
+          waiter.timedOut = true;
+          if (!waiter.serving) {
+            waiter.settle(undefined, null);
+          }
+        }, timeoutMs);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Let waiters retry in the order they blocked. A pop that finds nothing
+   * means its keys are empty again, so later waiters on only those keys are
+   * skipped.
+   */
+  private async serve(pushed?: Set<string>): Promise<void> {
+    const emptied = new Set<string>();
+
+    for (const waiter of [...this.waiters]) {
+      const keys = [...waiter.keys].filter(key => (!pushed || pushed.has(key)) && !emptied.has(key));
+      if (keys.length === 0 || !this.waiters.includes(waiter)) {
+        continue;
+      }
+
+      waiter.serving = true;
+      try {
+        const result = await waiter.attempt();
+        if (result !== null) {
+          waiter.settle(undefined, result);
+          // A moved element may unblock waiters on its destination in turn
+          if (waiter.destination !== undefined) {
+            await this.serve(new Set([waiter.destination]));
+          }
+        } else {
+          if (!waiter.reads) {
+            keys.forEach(key => emptied.add(key));
+          }
+          if (waiter.timedOut) {
+            waiter.settle(undefined, null);
+          }
+        }
+      } catch (error) {
+        waiter.settle(error as Error, null);
+      } finally {
+        waiter.serving = false;
+      }
+    }
+  }
+
+  private async popFirst(keys: K[], end: ListEnd): Promise<[K, V] | null> {
+    for (const key of keys) {
+      const [value] = end === 'left' ? await this.storage.lpop(key, 1) : await this.storage.rpop(key, 1);
+      if (value !== undefined) {
+        return [key, value];
+      }
+    }
+    return null;
+  }
+
+  private async popLowest(keys: K[]): Promise<[K, string, number] | null> {
+    for (const key of keys) {
+      const [popped] = await this.storage.zpopmin(key, 1);
+      if (popped) {
+        return [key, ...popped];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The IDs to read after, with `'$'` replaced by the last ID of its stream
+   */
+  private lastIds(streams: Array<[K, string]>): Promise<Array<[K, string]>> {
+    return Promise.all(
+      streams.map(async ([key, id]): Promise<[K, string]> => {
+        if (id !== '$') {
+          return [key, id];
+        }
+        return [key, (await this.storage.xinfoStream(key))?.lastGeneratedId ?? '0-0'];
+      })
+    );
+  }
+
+  private enqueue<T>(step: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(step);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -2,267 +2,119 @@
  * Compaction engine for LSM-tree optimization
  */
 
-import { CompactionStats, StorageEntry } from '../../types';
+import { CompactionStats } from '../../types';
 import { SSTable } from '../storage/SSTable';
 import { StorageEngineConfig } from '../types';
-import { createLogger } from '../../utils/logger';
-
-const logger = createLogger();
+import { mergeTables, MergeOptions, MergeResult } from './merge';
+import { CompactionWorker } from './CompactionWorker';
+import { logger } from '../../utils/logger';
 
 export interface CompactionResult {
   sstables: SSTable[];
   stats: CompactionStats;
 }
 
+export interface CompactionOptions extends MergeOptions {
+  /** Strategy that picked the inputs, recorded in the stats */
+  strategy: string;
+}
+
 export class CompactionEngine {
   private config: StorageEngineConfig;
-  private compactionStats: CompactionStats[] = [];
+  private allocateTableNumber: () => number;
+  private worker?: CompactionWorker;
 
-  constructor(config: StorageEngineConfig) {
+  constructor(config: StorageEngineConfig, allocateTableNumber: () => number) {
     this.config = config;
+    this.allocateTableNumber = allocateTableNumber;
+    this.worker = CompactionWorker.create(config);
   }
 
-  async compact(sstables: SSTable[]): Promise<CompactionResult> {
+  /**
+   * Merge the given SSTables, ordered oldest first, into a single table at
+   * the target level. The merge runs on the compaction thread when there is
+   * one, so requests keep being served meanwhile.
+   */
+  async compactInto(
+    sstables: SSTable[],
+    targetLevel: number,
+    options: CompactionOptions
+  ): Promise<CompactionResult> {
     const startTime = Date.now();
-    logger.info('Starting compaction', { sstables: sstables.length });
-
-    // Group SSTables by level
-    const levels = this.groupByLevel(sstables);
-    const newSSTables: SSTable[] = [];
-
-    // Process each level
-    for (const [level, tables] of levels) {
-      if (tables.length <= 1) {
-        newSSTables.push(...tables);
-        continue;
-      }
-
-      // Compact tables at this level
-      const compacted = await this.compactLevel(level, tables);
-      newSSTables.push(...compacted.sstables);
-      
-      // Update stats
-      this.compactionStats.push(compacted.stats);
-    }
+    const number = this.allocateTableNumber();
+    const { offThread, ...merged } = await this.merge(sstables, number, targetLevel, options);
+    const newSSTables = merged.sstable ? [merged.sstable] : [];
+    const entriesCompacted = sstables.reduce((sum, s) => sum + s.getMetadata().entries, 0);
 
-    const duration = Date.now() - startTime;
-    const overallStats: CompactionStats = {
-      level: -1, // Overall compaction
+    const stats: CompactionStats = {
+      strategy: options.strategy,
+      level: Math.min(...sstables.map(s => s.getLevel())),
       inputFiles: sstables.length,
       outputFiles: newSSTables.length,
       inputSize: sstables.reduce((sum, s) => sum + s.getMetadata().size, 0),
       outputSize: newSSTables.reduce((sum, s) => sum + s.getMetadata().size, 0),
-      duration,
-      entriesCompacted: sstables.reduce((sum, s) => sum + s.getMetadata().entries, 0),
-      entriesDropped: 0 // Will be calculated during merge
+      duration: Date.now() - startTime,
+      entriesCompacted,
+      entriesDropped: entriesCompacted - merged.entriesWritten,
+      offThread
     };
 
-    logger.info('Compaction completed', overallStats);
-
     return {
       sstables: newSSTables,
-      stats: overallStats
+      stats
     };
   }
 
-  private groupByLevel(sstables: SSTable[]): Map<number, SSTable[]> {
-    const levels = new Map<number, SSTable[]>();
-    
-    for (const sstable of sstables) {
-      const level = sstable.getLevel();
-      if (!levels.has(level)) {
-        levels.set(level, []);
-      }
-      levels.get(level)!.push(sstable);
-    }
-
-    return levels;
-  }
+  /**
+   * Record a compaction that drops whole tables without reading them
+   */
+  dropTables(sstables: SSTable[], strategy: string): CompactionResult {
+    const entries = sstables.reduce((sum, s) => sum + s.getMetadata().entries, 0);
 
-  private async compactLevel(level: number, sstables: SSTable[]): Promise<CompactionResult> {
-    
-    // Sort SSTables by creation time
-    sstables.sort((a, b) => a.getMetadata().createdAt - b.getMetadata().createdAt);
-
-    // For level 0, we need to handle overlapping key ranges
-    if (level === 0) {
-      return this.compactLevel0(sstables);
-    }
-
-    // For higher levels, merge non-overlapping SSTables
-    return this.compactHigherLevel(level, sstables);
-  }
-
-  private async compactLevel0(sstables: SSTable[]): Promise<CompactionResult> {
-    // Merge all overlapping SSTables from level 0
-    const mergedEntries = await this.mergeSSTablesWithOverlap(sstables);
-    
-    // Create new SSTable at level 1
-    const newSSTable = new SSTable(0, 1, mergedEntries, this.config);
-    
     const stats: CompactionStats = {
-      level: 0,
+      strategy,
+      level: Math.min(...sstables.map(s => s.getLevel())),
       inputFiles: sstables.length,
-      outputFiles: 1,
+      outputFiles: 0,
       inputSize: sstables.reduce((sum, s) => sum + s.getMetadata().size, 0),
-      outputSize: newSSTable.getMetadata().size,
-      duration: 0, // Will be set by caller
-      entriesCompacted: sstables.reduce((sum, s) => sum + s.getMetadata().entries, 0),
-      entriesDropped: sstables.reduce((sum, s) => sum + s.getMetadata().entries, 0) - mergedEntries.length
-    };
-
-    return {
-      sstables: [newSSTable],
-      stats
-    };
-  }
-
-  private async compactHigherLevel(level: number, sstables: SSTable[]): Promise<CompactionResult> {
-    const compactedSSTables: SSTable[] = [];
-    const toCompact: SSTable[] = [];
-
-    // Group SSTables that need compaction
-    for (const sstable of sstables) {
-      if (toCompact.length < 4) { // Compact up to 4 SSTables at a time
-        toCompact.push(sstable);
-      } else {
-        compactedSSTables.push(sstable);
-      }
-    }
-
-    if (toCompact.length <= 1) {
-      return {
-        sstables,
-        stats: {
-          level,
-          inputFiles: 0,
-          outputFiles: 0,
-          inputSize: 0,
-          outputSize: 0,
-          duration: 0,
-          entriesCompacted: 0,
-          entriesDropped: 0
-        }
-      };
-    }
-
-    // Merge the selected SSTables
-    const mergedEntries = await this.mergeSSTables(toCompact);
-    const newSSTable = new SSTable(0, level, mergedEntries, this.config);
-    compactedSSTables.push(newSSTable);
-
-    const stats: CompactionStats = {
-      level,
-      inputFiles: toCompact.length,
-      outputFiles: 1,
-      inputSize: toCompact.reduce((sum, s) => sum + s.getMetadata().size, 0),
-      outputSize: newSSTable.getMetadata().size,
+      outputSize: 0,
       duration: 0,
-      entriesCompacted: toCompact.reduce((sum, s) => sum + s.getMetadata().entries, 0),
-      entriesDropped: toCompact.reduce((sum, s) => sum + s.getMetadata().entries, 0) - mergedEntries.length
+      entriesCompacted: entries,
+      entriesDropped: entries
     };
 
+    logger.debug('Dropped SSTables', { tables: sstables.map(s => s.getId()) });
+
     return {
-      sstables: compactedSSTables,
+      sstables: [],
       stats
     };
   }
 
-  private async mergeSSTablesWithOverlap(sstables: SSTable[]): Promise<StorageEntry[]> {
-    // Map to track latest version of each key
-    const keyMap = new Map<string, StorageEntry>();
-    
-    // Process SSTables in chronological order
-    for (const sstable of sstables) {
-      const entries = sstable.getEntries();
-      for (const entry of entries) {
-        const keyStr = String(entry.key);
-        
-        // Keep the latest version
-        const existing = keyMap.get(keyStr);
-        if (!existing || entry.timestamp > existing.timestamp) {
-          keyMap.set(keyStr, entry);
-        }
-      }
-    }
-
-    // Filter out tombstones and expired entries
-    const now = Date.now();
-    const validEntries: StorageEntry[] = [];
-    
-    for (const entry of keyMap.values()) {
-      // Skip tombstones
-      if (entry.value === null) {
-        continue;
-      }
-      
-      // Skip expired entries
-      if (entry.ttl && entry.ttl < now) {
-        continue;
-      }
-      
-      validEntries.push(entry);
-    }
-
-    // Sort by key
-    return validEntries.sort((a, b) => {
-      const keyA = String(a.key);
-      const keyB = String(b.key);
-      return keyA.localeCompare(keyB);
-    });
+  async close(): Promise<void> {
+    await this.worker?.close();
+    this.worker = undefined;
   }
 
-  private async mergeSSTables(sstables: SSTable[]): Promise<StorageEntry[]> {
-    // For non-overlapping SSTables, we can do a simple k-way merge
-    const iterators = sstables.map(s => s.getEntries());
-    const indices = new Array(sstables.length).fill(0);
-    const merged: StorageEntry[] = [];
-    const now = Date.now();
-
-    while (true) {
-      let minKey: string | null = null;
-      let minIndex = -1;
-      let minEntry: StorageEntry | null = null;
-
-      // Find the minimum key among all iterators
-      for (let i = 0; i < iterators.length; i++) {
-        if (indices[i] >= (iterators[i]?.length || 0)) {
-          continue;
-        }
-
-        const entry = iterators[i]?.[indices[i]];
-        if (!entry) continue;
-        
-        const key = String(entry.key);
-
-        if (minKey === null || key < minKey) {
-          minKey = key;
-          minIndex = i;
-          minEntry = entry;
-        }
-      }
-
-      if (minIndex === -1) {
-        break; // All iterators exhausted
-      }
-
-      // Move the chosen iterator forward
-      indices[minIndex]++;
-
-      // Skip tombstones and expired entries
-      if (minEntry?.value === null || (minEntry?.ttl && minEntry.ttl < now)) {
-        continue;
-      }
-
-      if (minEntry) {
-        merged.push(minEntry);
+  private async merge(
+    sstables: SSTable[],
+    number: number,
+    targetLevel: number,
+    options: CompactionOptions
+  ): Promise<MergeResult & { offThread: boolean }> {
+    if (this.worker) {
+      try {
+        const result = await this.worker.merge(sstables, number, targetLevel, options);
+        return { ...result, offThread: true };
+      } catch (error) {
+        // Keep compacting on this thread rather than letting L0 grow unbounded
+        logger.warn('Compaction thread failed, merging on the main thread', { error });
+        await this.worker.close();
+        this.worker = undefined;
       }
     }
 
-    return merged;
+    const result = await mergeTables(sstables, number, targetLevel, options, this.config);
+    return { ...result, offThread: false };
   }
-
-  getStats(): CompactionStats[] {
-    return [...this.compactionStats];
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+/**
+ * Builds the compaction strategy selected in the engine config
+ */
+
+import { CompactionStrategy } from '../../types';
+import { StorageEngineConfig } from '../types';
+import { ValidationError } from '../../utils/errors';
+import { resolveComparator } from '../../utils/comparator';
+import { LeveledCompactionStrategy } from './LeveledCompactionStrategy';
+import { UniversalCompactionStrategy } from './UniversalCompactionStrategy';
+import { FIFOCompactionStrategy } from './FIFOCompactionStrategy';
+
+export function createCompactionStrategy(config: StorageEngineConfig): CompactionStrategy {
+  const options = config.compaction ?? {};
+  const strategy = options.strategy ?? 'leveled';
+
+  if (typeof strategy === 'object') {
+    return strategy;
+  }
+
+  const level0FileNumCompactionTrigger = options.level0FileNumCompactionTrigger ?? 4;
+
+  switch (strategy) {
+    case 'leveled':
+      return new LeveledCompactionStrategy({
+        level0FileNumCompactionTrigger,
+        maxBytesForLevelBase: options.maxBytesForLevelBase ?? config.maxMemtableSizeMB * 1024 * 1024 * 10,
+        levelSizeMultiplier: options.levelSizeMultiplier ?? 10,
+        comparator: resolveComparator(config.comparator)
+      });
+    case 'universal':
+      return new UniversalCompactionStrategy({
+        level0FileNumCompactionTrigger,
+        sizeRatio: options.sizeRatio ?? 1,
+        minMergeWidth: options.minMergeWidth ?? 2
+      });
+    case 'fifo':
+      return new FIFOCompactionStrategy({
+        maxTableFilesSizeBytes: options.maxTableFilesSizeBytes ?? 1024 * 1024 * 1024,
+        ttlMs: options.ttlMs
+      });
+    default:
+      throw new ValidationError(`Unknown compaction strategy: ${String(strategy)}`);
+  }
+}
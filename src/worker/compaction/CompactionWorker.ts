@@ -0,0 +1,248 @@
+/**
+ * Runs SSTable merges on a dedicated worker thread, so compaction does not
+ * block the thread serving requests
+ *
+ * The thread opens the input tables itself, from the data directory or from
+ * copies of their bytes when tables are kept in memory, and hands back the
+ * merged table the same way. Values are decoded on the thread, which is only
+ * possible with the default serializer: a custom one holds functions that
+ * cannot be sent to another thread, so the engine merges in-thread instead.
+ * The same goes for a custom comparator.
+ */
+
+import path from 'path';
+import { existsSync } from 'fs';
+import { Worker, parentPort, workerData } from 'worker_threads';
+import { SSTable } from '../storage/SSTable';
+import { StorageEngineConfig } from '../types';
+import { ComparatorName } from '../../types';
+import { mergeTables, MergeOptions, MergeResult } from './merge';
+import { defaultSerializer } from '../../utils/serializer';
+import { WorkerError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+type ThreadConfig = Omit<StorageEngineConfig, 'serializer' | 'compaction'>;
+
+interface MergeRequest {
+  id: number;
+  /** Table bytes are only sent when there is no data directory */
+  inputs: Array<{ number: number; level: number; data?: Uint8Array }>;
+  number: number;
+  level: number;
+  options: MergeOptions;
+}
+
+interface MergeResponse {
+  id: number;
+  error?: string;
+  entriesWritten?: number;
+  /** Whether an output table was written */
+  built?: boolean;
+  /** The encoded output table, when there is no data directory */
+  data?: Uint8Array;
+}
+
+export class CompactionWorker {
+  private worker?: Worker;
+  private nextRequestId = 1;
+  private pending = new Map<number, { resolve: (response: MergeResponse) => void; reject: (error: Error) => void }>();
+
+  private constructor(
+    private readonly config: StorageEngineConfig,
+    private readonly file: string
+  ) {}
+
+  /**
+   * Returns undefined when merges cannot run on another thread
+   */
+  static create(config: StorageEngineConfig): CompactionWorker | undefined {
+    if (
+      config.compaction?.useWorkerThread === false ||
+      config.serializer !== defaultSerializer ||
+      typeof config.comparator === 'object'
+    ) {
+      return undefined;
+    }
+
+    const file = threadFile();
+    if (!file) {
+      logger.warn('Cannot start the compaction thread, merging on the main thread');
+    }
+    return file ? new CompactionWorker(config, file) : undefined;
+  }
+
+  async merge(
+    sstables: SSTable[],
+    number: number,
+    level: number,
+    options: MergeOptions
+  ): Promise<MergeResult> {
+    const inputs = await Promise.all(
+      sstables.map(async table => ({
+        number: table.getNumber(),
+        level: table.getLevel(),
+        data: this.config.dataDir ? undefined : await table.contents()
+      }))
+    );
+
+    const response = await this.request({
+      id: this.nextRequestId++,
+      inputs,
+      number,
+      level,
+      options: { bottommost: options.bottommost, snapshots: [...options.snapshots] }
+    });
+
+    if (!response.built) {
+      return { entriesWritten: response.entriesWritten ?? 0 };
+    }
+
+    const sstable = response.data
+      ? await SSTable.fromBuffer(number, level, toBuffer(response.data), this.config)
+      : await SSTable.open(number, level, this.config);
+    return { sstable, entriesWritten: response.entriesWritten ?? 0 };
+  }
+
+  async close(): Promise<void> {
+    const worker = this.worker;
+    this.worker = undefined;
+    this.failPending(new WorkerError('Compaction thread closed'));
+    await worker?.terminate();
+  }
+
+  private request(request: MergeRequest): Promise<MergeResponse> {
+    const worker = this.worker ?? this.start();
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      // Keep the process alive only while a merge is in flight
+      worker.ref();
+      worker.postMessage(request);
+    });
+  }
+
+  private start(): Worker {
+    const threadConfig: ThreadConfig = {
+      maxMemtableSizeMB: this.config.maxMemtableSizeMB,
+      compactionIntervalMs: this.config.compactionIntervalMs,
+      enableBloomFilter: this.config.enableBloomFilter,
+      bloomFilter: this.config.bloomFilter,
+      prefixExtractor: this.config.prefixExtractor,
+      comparator: this.config.comparator as ComparatorName | undefined,
+      compression: this.config.compression,
+      dataDir: this.config.dataDir,
+      walSyncPolicy: this.config.walSyncPolicy
+    };
+    const worker = new Worker(this.file, { workerData: threadConfig });
+
+    worker.on('message', (response: MergeResponse) => {
+      const request = this.pending.get(response.id);
+      if (!request) return;
+
+      this.pending.delete(response.id);
+      if (this.pending.size === 0) {
+        worker.unref();
+      }
+
+      if (response.error) {
+        request.reject(new WorkerError(`Compaction thread failed: ${response.error}`));
+      } else {
+        request.resolve(response);
+      }
+    });
+
+    worker.on('error', (error) => {
+      logger.error('Compaction thread crashed', { error });
+      this.failPending(new WorkerError(`Compaction thread crashed: ${error.message}`));
+    });
+
+    worker.on('exit', (code) => {
+      if (this.worker === worker) {
+        this.worker = undefined;
+        this.failPending(new WorkerError(`Compaction thread exited with code ${code}`));
+      }
+    });
+
+    worker.unref();
+    this.worker = worker;
+    return worker;
+  }
+
+  private failPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Serve merge requests, run by the thread's entry file
+ */
+export function runCompactionThread(): void {
+  const port = parentPort;
+  if (!port) {
+    throw new WorkerError('The compaction thread must run in a worker thread');
+  }
+
+  const config: StorageEngineConfig = { ...(workerData as ThreadConfig), serializer: defaultSerializer };
+
+  port.on('message', (request: MergeRequest) => {
+    void mergeOnThread(request, config)
+      .catch((error): MergeResponse => ({ id: request.id, error: String(error) }))
+      .then(response => port.postMessage(response));
+  });
+}
+
+async function mergeOnThread(request: MergeRequest, config: StorageEngineConfig): Promise<MergeResponse> {
+  const inputs = await Promise.all(
+    request.inputs.map(input =>
+      input.data
+        ? SSTable.fromBuffer(input.number, input.level, toBuffer(input.data), config)
+        : SSTable.open(input.number, input.level, config)
+    )
+  );
+
+  try {
+    const { sstable, entriesWritten } = await mergeTables(
+      inputs,
+      request.number,
+      request.level,
+      request.options,
+      config
+    );
+    if (!sstable) {
+      return { id: request.id, entriesWritten };
+    }
+
+    const data = config.dataDir ? undefined : await sstable.contents();
+    await sstable.close();
+    return { id: request.id, entriesWritten, built: true, data };
+  } finally {
+    await Promise.all(inputs.map(table => table.close()));
+  }
+}
+
+/**
+ * Path of the thread's entry file, which the build emits next to this module.
+ * Worker threads cannot load TypeScript sources, so running from them takes a
+ * built entry file from SNAPDB_COMPACTION_THREAD. ES modules have no
+ * `__dirname`; without that variable merges stay on the main thread there.
+ */
+function threadFile(): string | undefined {
+  const built = process.env.SNAPDB_COMPACTION_THREAD;
+  if (built) {
+    return built;
+  }
+  if (typeof __dirname === 'undefined') {
+    return undefined;
+  }
+
+  const file = path.join(__dirname, 'thread.js');
+  return existsSync(file) ? file : undefined;
+}
+
+/** Buffers arrive as plain Uint8Arrays after crossing threads */
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
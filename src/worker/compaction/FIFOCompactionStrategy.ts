@@ -0,0 +1,43 @@
+/**
+ * FIFO compaction for pure caches: tables are never merged, the oldest are
+ * dropped once the total size passes a limit or they outlive a TTL
+ */
+
+import { CompactionPick, CompactionStrategy, SSTableMetadata } from '../../types';
+
+export interface FIFOCompactionOptions {
+  maxTableFilesSizeBytes: number;
+  ttlMs?: number;
+}
+
+export class FIFOCompactionStrategy implements CompactionStrategy {
+  readonly name = 'fifo';
+
+  constructor(private readonly options: FIFOCompactionOptions) {}
+
+  pick(levels: SSTableMetadata[][]): CompactionPick | undefined {
+    // Deeper levels hold older data
+    const oldestFirst = [...levels].reverse().flat();
+    let totalSize = oldestFirst.reduce((sum, t) => sum + t.size, 0);
+    const expiredBefore = this.options.ttlMs !== undefined ? Date.now() - this.options.ttlMs : -Infinity;
+
+    const dropped: SSTableMetadata[] = [];
+    for (const table of oldestFirst) {
+      if (totalSize <= this.options.maxTableFilesSizeBytes && table.createdAt >= expiredBefore) {
+        break;
+      }
+      dropped.push(table);
+      totalSize -= table.size;
+    }
+
+    if (dropped.length === 0) {
+      return undefined;
+    }
+
+    return {
+      inputs: dropped.map(t => t.id),
+      outputLevel: 0,
+      deleteOnly: true
+    };
+  }
+}
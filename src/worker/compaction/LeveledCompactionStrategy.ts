@@ -0,0 +1,78 @@
+/**
+ * Leveled compaction: every level past L0 holds non-overlapping tables and is
+ * allowed a target size that grows by a fixed ratio per level
+ */
+
+import { CompactionPick, CompactionStrategy, SSTableMetadata, Comparator } from '../../types';
+import { bytewiseComparator } from '../../utils/comparator';
+
+export interface LeveledCompactionOptions {
+  level0FileNumCompactionTrigger: number;
+  maxBytesForLevelBase: number;
+  levelSizeMultiplier: number;
+  /** Key order used to find overlapping tables, bytewise by default */
+  comparator?: Comparator;
+}
+
+export class LeveledCompactionStrategy implements CompactionStrategy {
+  readonly name = 'leveled';
+
+  constructor(private readonly options: LeveledCompactionOptions) {}
+
+  /**
+   * Compact the level furthest over its target, scoring L0 by table count
+   * and deeper levels by total size
+   */
+  pick(levels: SSTableMetadata[][]): CompactionPick | undefined {
+    let bestLevel = -1;
+    let bestScore = 1;
+
+    // The last level has nowhere to compact into
+    for (let level = 0; level < levels.length - 1; level++) {
+      const tables = levels[level] ?? [];
+      const score =
+        level === 0
+          ? tables.length / this.options.level0FileNumCompactionTrigger
+          : tables.reduce((sum, t) => sum + t.size, 0) / this.targetSize(level);
+
+      if (score >= bestScore) {
+        bestLevel = level;
+        bestScore = score;
+      }
+    }
+
+    if (bestLevel === -1) {
+      return undefined;
+    }
+
+    // L0 tables overlap each other, so they all go together. Elsewhere the
+    // oldest table moves down one at a time.
+    const tables = levels[bestLevel]!;
+    const inputs =
+      bestLevel === 0
+        ? tables
+        : [tables.reduce((oldest, t) => (t.createdAt < oldest.createdAt ? t : oldest))];
+
+    const comparator = this.options.comparator ?? bytewiseComparator;
+    const minKey = inputs.reduce(
+      (min, t) => (comparator.compare(t.minKey, min) < 0 ? t.minKey : min),
+      inputs[0]!.minKey
+    );
+    const maxKey = inputs.reduce(
+      (max, t) => (comparator.compare(t.maxKey, max) > 0 ? t.maxKey : max),
+      inputs[0]!.maxKey
+    );
+    const overlapping = (levels[bestLevel + 1] ?? []).filter(
+      t => !(comparator.compare(t.maxKey, minKey) < 0 || comparator.compare(t.minKey, maxKey) > 0)
+    );
+
+    return {
+      inputs: [...overlapping, ...inputs].map(t => t.id),
+      outputLevel: bestLevel + 1
+    };
+  }
+
+  private targetSize(level: number): number {
+    return this.options.maxBytesForLevelBase * Math.pow(this.options.levelSizeMultiplier, level - 1);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Universal (tiered) compaction: every flushed table is a sorted run kept in
+ * L0, and runs of similar size are merged. Data is rewritten far less often
+ * than with leveled compaction, at the cost of more runs to check on reads.
+ */
+
+import { CompactionPick, CompactionStrategy, SSTableMetadata } from '../../types';
+
+export interface UniversalCompactionOptions {
+  level0FileNumCompactionTrigger: number;
+  sizeRatio: number;
+  minMergeWidth: number;
+}
+
+export class UniversalCompactionStrategy implements CompactionStrategy {
+  readonly name = 'universal';
+
+  constructor(private readonly options: UniversalCompactionOptions) {}
+
+  pick(levels: SSTableMetadata[][]): CompactionPick | undefined {
+    const runs = levels[0] ?? [];
+    if (runs.length < this.options.level0FileNumCompactionTrigger) {
+      return undefined;
+    }
+
+    // Starting from the newest run, take older runs while each is no larger
+    // than everything taken so far (plus the allowed ratio)
+    let candidates = 1;
+    let accumulated = runs[runs.length - 1]!.size;
+    for (let i = runs.length - 2; i >= 0; i--) {
+      const run = runs[i]!;
+      if (run.size > accumulated * (1 + this.options.sizeRatio / 100)) {
+        break;
+      }
+      accumulated += run.size;
+      candidates++;
+    }
+
+    // Too many runs of very different sizes: fold the newest ones together so
+    // the run count still goes down
+    const width = Math.max(candidates, this.options.minMergeWidth);
+
+    return {
+      inputs: runs.slice(-width).map(run => run.id),
+      outputLevel: 0
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Merging of SSTables, shared by the engine and the compaction thread
+ */
+
+import { StorageEntry } from '../../types';
+import { SSTable } from '../storage/SSTable';
+import { StorageEngineConfig } from '../types';
+import { compareInternal, collapseVersions } from '../storage/Snapshot';
+import { resolveComparator } from '../../utils/comparator';
+
+export interface MergeOptions {
+  /** Nothing older than the inputs exists below the target level */
+  bottommost: boolean;
+  /** Sequences pinned by open snapshots, in ascending order */
+  snapshots: readonly number[];
+}
+
+export interface MergeResult {
+  /** Missing when every entry was dropped */
+  sstable?: SSTable;
+  entriesWritten: number;
+}
+
+/**
+ * Merge SSTables, ordered oldest first, into one table with the given number.
+ * Versions still visible to a snapshot are kept. Tombstones and expired
+ * entries are only dropped at the bottommost level, otherwise they are kept
+ * to shadow older versions.
+ */
+export async function mergeTables(
+  sstables: SSTable[],
+  number: number,
+  targetLevel: number,
+  options: MergeOptions,
+  config: StorageEngineConfig
+): Promise<MergeResult> {
+  const tagged: Array<{ entry: StorageEntry; table: number }> = [];
+
+  for (let table = 0; table < sstables.length; table++) {
+    for (const entry of await sstables[table]!.getEntries()) {
+      tagged.push({ entry, table });
+    }
+  }
+
+  // Later tables win ties, which only happen for entries written before
+  // sequence numbers existed
+  const compareEntries = compareInternal(resolveComparator(config.comparator));
+  tagged.sort((a, b) => compareEntries(a.entry, b.entry) || b.table - a.table);
+
+  const merged = collapseVersions(
+    tagged.map(({ entry }) => entry),
+    options.snapshots,
+    options.bottommost
+  );
+
+  return {
+    sstable: merged.length > 0 ? await SSTable.build(number, targetLevel, merged, config) : undefined,
+    entriesWritten: merged.length
+  };
+}
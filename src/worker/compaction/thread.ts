@@ -0,0 +1,7 @@
+/**
+ * Entry file of the compaction thread, which `CompactionWorker` starts by path
+ */
+
+import { runCompactionThread } from './CompactionWorker';
+
+runCompactionThread();
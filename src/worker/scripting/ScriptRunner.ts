@@ -0,0 +1,813 @@
+/**
+ * Server-side scripts, the counterpart of Redis EVAL
+ *
+ * A script is the source of a JavaScript function taking `(keys, args)`. It
+ * runs on a dedicated thread, in a fresh `node:vm` context without Node's
+ * globals, where `redis.call(command, ...args)` runs a command against the
+ * storage backend and returns its result. The call blocks the script thread
+ * while the thread owning the storage serves it, so scripts are plain
+ * synchronous functions, as in Redis.
+ *
+ * Commands, their results and the script's own result cross between threads
+ * as JSON, so a script never holds a reference to a stored value. A script
+ * that runs longer than the time limit, not counting the time spent waiting
+ * on storage, has its thread terminated; the next script starts a new one.
+ *
+ * Scripts are cached by the SHA1 of their source. Runs are queued, but the
+ * runner does not keep other commands out while a script runs; its callers
+ * do.
+ */
+
+import { createHash } from 'crypto';
+import { performance } from 'perf_hooks';
+import vm from 'vm';
+import { MessageChannel, MessagePort, Worker } from 'worker_threads';
+import {
+  StorageBackend,
+  ScriptInfo,
+  HashFields,
+  ListEnd,
+  XAddOptions,
+  XPendingOptions,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZSetMembers,
+  ZStoreOptions
+} from '../../types';
+import {
+  checkIncrement,
+  checkInteger,
+  checkPopCount,
+  checkZAddOptions,
+  checkZRangeOptions,
+  checkZStoreOptions,
+  hashFieldsOf,
+  zsetMembersOf
+} from '../../utils/datatypes';
+import {
+  checkIdleTime,
+  checkStreamCount,
+  checkStreamIds,
+  checkStreamName,
+  checkStreamReads,
+  checkXAddOptions
+} from '../../utils/streams';
+import { ScriptError, ScriptNotFoundError, TimeoutError, WorkerError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+/**
+ * Source of the script thread. It is self-contained, so the thread starts the
+ * same way from TypeScript sources and from either build.
+ */
+const THREAD_SOURCE = `
+const { parentPort, workerData, receiveMessageOnPort } = require('worker_threads');
+const vm = require('vm');
+
+const { signal, replies } = workerData;
+const compiled = new Map();
+
+// Sets up redis.call in a context; only strings cross into or out of it
+const bridge = new vm.Script(\`(function (hostCall) {
+  const send = (command, args) => {
+    const reply = JSON.parse(hostCall(String(command), JSON.stringify(args)));
+    if ('error' in reply) {
+      throw new Error(reply.error);
+    }
+    return reply.result;
+  };
+  globalThis.redis = Object.freeze({
+    call: (command, ...args) => send(command, args),
+    pcall: (command, ...args) => {
+      try {
+        return send(command, args);
+      } catch (error) {
+        return { err: error.message };
+      }
+    }
+  });
+  return (fn, keysJson, argsJson) =>
+    Promise.resolve(fn(JSON.parse(keysJson), JSON.parse(argsJson))).then(result =>
+      JSON.stringify(result === undefined ? null : result)
+    );
+})\`);
+
+const hostCall = (command, argsJson) => {
+  parentPort.postMessage({ type: 'call', command, argsJson });
+  Atomics.wait(signal, 0, 0);
+  Atomics.store(signal, 0, 0);
+  return receiveMessageOnPort(replies).message;
+};
+
+const messageOf = error =>
+  error !== null && typeof error === 'object' && typeof error.message === 'string'
+    ? error.message
+    : String(error);
+
+parentPort.on('message', ({ sha, source, keysJson, argsJson }) => {
+  parentPort.postMessage({ type: 'start' });
+  Promise.resolve()
+    .then(() => {
+      let script = compiled.get(sha);
+      if (!script) {
+        script = new vm.Script('(' + source + ')', { filename: 'script:' + sha });
+        compiled.set(sha, script);
+      }
+
+      const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+      const run = bridge.runInContext(context)(hostCall);
+      const fn = script.runInContext(context);
+      if (typeof fn !== 'function') {
+        throw new Error('Script must be the source of a function');
+      }
+      return run(fn, keysJson, argsJson);
+    })
+    .then(
+      resultJson => parentPort.postMessage({ type: 'done', resultJson }),
+      error => parentPort.postMessage({ type: 'done', error: messageOf(error) })
+    );
+});
+`;
+
+function integerArg(value: unknown, name: string): number {
+  const integer = Number(value);
+  checkInteger(integer, name);
+  return integer;
+}
+
+/** Scripts name list ends as in Redis, `LEFT` or `RIGHT` */
+function listEndArg(value: unknown): ListEnd {
+  const end = String(value).toLowerCase();
+  if (end !== 'left' && end !== 'right') {
+    throw new ScriptError(`List end must be LEFT or RIGHT, got '${String(value)}'`);
+  }
+  return end;
+}
+
+/**
+ * `ZADD` arguments as in Redis: flags such as `NX` or `INCR`, then score and
+ * member pairs
+ */
+function zaddArgs(args: unknown[]): { members: ZSetMembers; options: ZAddOptions } {
+  const options: ZAddOptions = {};
+  let i = 0;
+  for (; i < args.length; i++) {
+    const flag = String(args[i]).toLowerCase();
+    if (!['nx', 'xx', 'gt', 'lt', 'ch', 'incr'].includes(flag)) {
+      break;
+    }
+    options[flag as keyof ZAddOptions] = true;
+  }
+
+  const members: ZSetMembers = {};
+  for (; i + 1 < args.length; i += 2) {
+    members[String(args[i + 1])] = Number(args[i]);
+  }
+  zsetMembersOf(members);
+  checkZAddOptions(options, members);
+  return { members, options };
+}
+
+/**
+ * `ZRANGE` arguments as in Redis: the bounds, then `BYSCORE` or `BYLEX`,
+ * `REV`, `LIMIT offset count` and `WITHSCORES`
+ */
+function zrangeArgs(args: unknown[]): { start: ZRangeBound; stop: ZRangeBound; options: ZRangeOptions } {
+  const options: ZRangeOptions = {};
+  for (let i = 2; i < args.length; i++) {
+    const flag = String(args[i]).toUpperCase();
+    if (flag === 'BYSCORE' || flag === 'BYLEX') {
+      options.by = flag === 'BYSCORE' ? 'score' : 'lex';
+    } else if (flag === 'REV') {
+      options.rev = true;
+    } else if (flag === 'WITHSCORES') {
+      options.withScores = true;
+    } else if (flag === 'LIMIT') {
+      options.limit = { offset: integerArg(args[i + 1], 'offset'), count: integerArg(args[i + 2], 'count') };
+      i += 2;
+    } else {
+      throw new ScriptError(`Unknown ZRANGE option '${String(args[i])}'`);
+    }
+  }
+
+  // Ranks may arrive as numeric strings
+  const [start, stop] = (options.by ? args : args.map(Number)) as ZRangeBound[];
+  checkZRangeOptions(start!, stop!, options);
+  return { start: start!, stop: stop!, options };
+}
+
+/**
+ * `ZUNIONSTORE` and `ZINTERSTORE` arguments after the destination, as in
+ * Redis: the number of keys, the keys, then `WEIGHTS` and `AGGREGATE`
+ */
+function zstoreArgs<K>(args: unknown[]): { keys: K[]; options: ZStoreOptions } {
+  const count = integerArg(args[0], 'numkeys');
+  const keys = args.slice(1, 1 + count) as K[];
+  const options: ZStoreOptions = {};
+  for (let i = 1 + count; i < args.length; i++) {
+    const flag = String(args[i]).toUpperCase();
+    if (flag === 'WEIGHTS') {
+      options.weights = args.slice(i + 1, i + 1 + count).map(Number);
+      i += count;
+    } else if (flag === 'AGGREGATE') {
+      options.aggregate = String(args[++i]).toLowerCase() as ZStoreOptions['aggregate'];
+    } else {
+      throw new ScriptError(`Unknown option '${String(args[i])}'`);
+    }
+  }
+  checkZStoreOptions(keys, options);
+  return { keys, options };
+}
+
+/**
+ * `XADD` arguments after the key, as in Redis: `NOMKSTREAM`, `MAXLEN n` or
+ * `MINID id`, the ID, then field and value pairs. Trimming is always exact,
+ * so `=` and `~` are accepted and ignored.
+ */
+function xaddArgs<V>(args: unknown[]): { fields: HashFields<V>; options: XAddOptions } {
+  const options: XAddOptions = {};
+  let i = 0;
+  for (; i < args.length; i++) {
+    const flag = String(args[i]).toUpperCase();
+    if (flag === 'NOMKSTREAM') {
+      options.noMkStream = true;
+      continue;
+    }
+    if (flag !== 'MAXLEN' && flag !== 'MINID') {
+      break;
+    }
+    if (args[i + 1] === '=' || args[i + 1] === '~') {
+      i++;
+    }
+    if (flag === 'MAXLEN') {
+      options.maxLen = integerArg(args[++i], 'maxLen');
+    } else {
+      options.minId = String(args[++i]);
+    }
+  }
+
+  options.id = String(args[i]);
+  const fields: HashFields<V> = {};
+  for (i++; i + 1 < args.length; i += 2) {
+    fields[String(args[i])] = args[i + 1] as V;
+  }
+  hashFieldsOf(fields);
+  checkXAddOptions(options);
+  return { fields, options };
+}
+
+/**
+ * `XREAD` and `XREADGROUP` arguments as in Redis: `COUNT n`, `NOACK` for a
+ * group, then `STREAMS` with the keys followed by as many IDs. Scripts cannot
+ * block, so `BLOCK` is refused.
+ */
+function xreadArgs<K>(
+  args: unknown[],
+  special: string
+): { streams: Array<[K, string]>; count?: number; noAck?: boolean } {
+  let count: number | undefined;
+  let noAck: boolean | undefined;
+  let i = 0;
+  for (; i < args.length; i++) {
+    const flag = String(args[i]).toUpperCase();
+    if (flag === 'STREAMS') {
+      break;
+    } else if (flag === 'COUNT') {
+      count = integerArg(args[++i], 'count');
+    } else if (flag === 'NOACK' && special === '>') {
+      noAck = true;
+    } else if (flag === 'BLOCK') {
+      throw new ScriptError('BLOCK cannot be used in scripts');
+    } else {
+      throw new ScriptError(`Unknown option '${String(args[i])}'`);
+    }
+  }
+
+  const rest = args.slice(i + 1);
+  if (rest.length % 2 !== 0) {
+    throw new ScriptError('STREAMS needs an ID for each key');
+  }
+  const keys = rest.slice(0, rest.length / 2) as K[];
+  const streams = keys.map((key, j): [K, string] => [key, String(rest[keys.length + j])]);
+  checkStreamReads(streams, [special], { count });
+  return { streams, count, noAck };
+}
+
+/**
+ * `XPENDING` arguments after the key and group, as in Redis: nothing for a
+ * summary, or `IDLE min-idle`, the start and end IDs, the count and a consumer
+ */
+function xpendingArgs(args: unknown[]): XPendingOptions | undefined {
+  if (args.length === 0) {
+    return undefined;
+  }
+  let i = 0;
+  let minIdleMs: number | undefined;
+  if (String(args[0]).toUpperCase() === 'IDLE') {
+    minIdleMs = Number(args[1]);
+    checkIdleTime(minIdleMs);
+    i = 2;
+  }
+  const count = integerArg(args[i + 2], 'count');
+  checkStreamCount(count);
+  const consumer = args[i + 3] === undefined ? undefined : String(args[i + 3]);
+  return { start: String(args[i]), end: String(args[i + 1]), count, consumer, minIdleMs };
+}
+
+type ThreadMessage =
+  | { type: 'start' }
+  | { type: 'call'; command: string; argsJson: string }
+  | { type: 'done'; resultJson?: string; error?: string };
+
+interface ScriptThread {
+  worker: Worker;
+  /** Set to 1 once a reply to a call is waiting on `replies` */
+  signal: Int32Array;
+  replies: MessagePort;
+}
+
+export class ScriptRunner<K = string, V = any> {
+  private scripts = new Map<string, string>();
+  private thread?: ScriptThread;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageBackend<K, V>,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Check and cache a script
+   * @returns The SHA1 of its source, for `evalsha()`
+   */
+  load(source: string): string {
+    const sha = createHash('sha1').update(source).digest('hex');
+    if (this.scripts.has(sha)) {
+      return sha;
+    }
+
+    try {
+      new vm.Script(`(${source})`, { filename: `script:${sha}` });
+    } catch (error) {
+      throw new ScriptError(`Script failed to compile: ${(error as Error).message}`, { sha });
+    }
+    this.scripts.set(sha, source);
+    return sha;
+  }
+
+  exists(shas: string[]): boolean[] {
+    return shas.map(sha => this.scripts.has(sha));
+  }
+
+  list(): ScriptInfo[] {
+    return [...this.scripts].map(([sha, source]) => ({ sha, source }));
+  }
+
+  flush(): void {
+    this.scripts.clear();
+  }
+
+  eval(source: string, keys: K[], args: unknown[]): Promise<unknown> {
+    return this.evalsha(this.load(source), keys, args);
+  }
+
+  evalsha(sha: string, keys: K[], args: unknown[]): Promise<unknown> {
+    const source = this.scripts.get(sha);
+    if (source === undefined) {
+      return Promise.reject(new ScriptNotFoundError(sha));
+    }
+
+    const run = this.queue.then(() => this.run(sha, source, keys, args));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async close(): Promise<void> {
+    const thread = this.thread;
+    this.thread = undefined;
+    await thread?.worker.terminate();
+  }
+
+  private run(sha: string, source: string, keys: K[], args: unknown[]): Promise<unknown> {
+    const thread = this.thread ?? this.start();
+
+    return new Promise((resolve, reject) => {
+      let remainingMs = this.timeoutMs;
+      let runningSince = 0;
+      let timer: NodeJS.Timeout | undefined;
+      let settled = false;
+
+      // The clock only runs while the script does, not while the thread starts
+      // up or storage serves a call
+      const startClock = (): void => {
+        runningSince = performance.now();
+        timer = setTimeout(onTimeout, Math.max(0, remainingMs));
+      };
+      const stopClock = (): void => {
+        clearTimeout(timer);
+        remainingMs -= performance.now() - runningSince;
+      };
+
+      const settle = (error?: Error, result?: unknown): void => {
+        if (settled) return;
+        settled = true;
+        stopClock();
+        thread.worker.off('message', onMessage);
+        thread.worker.off('exit', onExit);
+        thread.worker.unref();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      };
+
+      const onTimeout = (): void => {
+        settle(new TimeoutError(`script ${sha}`, this.timeoutMs));
+        void this.stop(thread);
+      };
+
+      const onExit = (code: number): void => {
+        settle(new WorkerError(`Script thread exited with code ${code}`));
+      };
+
+      const onMessage = (message: ThreadMessage): void => {
+        if (message.type === 'start') {
+          startClock();
+          return;
+        }
+        if (message.type === 'done') {
+          if (message.error !== undefined) {
+            settle(new ScriptError(`Script ${sha} failed: ${message.error}`, { sha }));
+          } else {
+            settle(undefined, JSON.parse(message.resultJson!));
+          }
+          return;
+        }
+
+        stopClock();
+        // Argument checks may throw before a command runs, so start from a promise
+        void Promise.resolve()
+          .then(() => this.execute(message.command, JSON.parse(message.argsJson) as unknown[]))
+          .then(
+            result => ({ result: result === undefined ? null : result }),
+            (error: Error) => ({ error: error.message })
+          )
+          .then(reply => {
+            if (settled) return;
+            thread.replies.postMessage(JSON.stringify(reply));
+            Atomics.store(thread.signal, 0, 1);
+            Atomics.notify(thread.signal, 0);
+            startClock();
+          });
+      };
+
+      thread.worker.on('message', onMessage);
+      thread.worker.on('exit', onExit);
+      // Keep the process alive only while a script is running
+      thread.worker.ref();
+      thread.worker.postMessage({
+        sha,
+        source,
+        keysJson: JSON.stringify(keys),
+        argsJson: JSON.stringify(args)
+      });
+    });
+  }
+
+  private start(): ScriptThread {
+    const signal = new Int32Array(new SharedArrayBuffer(4));
+    const { port1, port2 } = new MessageChannel();
+    const worker = new Worker(THREAD_SOURCE, {
+      eval: true,
+      workerData: { signal, replies: port2 },
+      transferList: [port2]
+    });
+
+    worker.on('error', (error) => {
+      logger.error('Script thread crashed', { error });
+    });
+    worker.on('exit', () => {
+      if (this.thread?.worker === worker) {
+        this.thread = undefined;
+      }
+    });
+
+    worker.unref();
+    this.thread = { worker, signal, replies: port1 };
+    return this.thread;
+  }
+
+  private async stop(thread: ScriptThread): Promise<void> {
+    if (this.thread === thread) {
+      this.thread = undefined;
+    }
+    thread.replies.close();
+    await thread.worker.terminate();
+  }
+
+  /**
+   * Run a stream command whose keys come after options or a subcommand
+   */
+  private executeStreamCommand(name: string, args: unknown[]): Promise<unknown> {
+    switch (name) {
+      case 'XREAD': {
+        const { streams, count } = xreadArgs<K>(args, '$');
+        return this.storage.xread(streams, count);
+      }
+      case 'XREADGROUP': {
+        if (String(args[0]).toUpperCase() !== 'GROUP') {
+          return Promise.reject(new ScriptError('XREADGROUP must start with GROUP group consumer'));
+        }
+        const [group, consumer] = [String(args[1]), String(args[2])];
+        checkStreamName(group, 'group');
+        checkStreamName(consumer, 'consumer');
+        const { streams, count, noAck } = xreadArgs<K>(args.slice(3), '>');
+        return this.storage.xreadgroup(group, consumer, streams, { count, noAck });
+      }
+      case 'XGROUP': {
+        const [subcommand, key, group, id = '$', flag] = args as [string, K, string, string?, string?];
+        if (String(subcommand).toUpperCase() !== 'CREATE') {
+          return Promise.reject(new ScriptError(`Unknown XGROUP subcommand '${String(subcommand)}'`));
+        }
+        checkStreamName(String(group), 'group');
+        return this.storage.xgroupCreate(key, String(group), String(id), String(flag).toUpperCase() === 'MKSTREAM');
+      }
+      default: {
+        const [subcommand, key, group] = args as [string, K, string?];
+        switch (String(subcommand).toUpperCase()) {
+          case 'STREAM':
+            return this.storage.xinfoStream(key);
+          case 'GROUPS':
+            return this.storage.xinfoGroups(key);
+          case 'CONSUMERS':
+            return this.storage.xinfoConsumers(key, String(group));
+          default:
+            return Promise.reject(new ScriptError(`Unknown XINFO subcommand '${String(subcommand)}'`));
+        }
+      }
+    }
+  }
+
+  /**
+   * Run a command called from a script against the storage backend
+   */
+  private execute(command: string, args: unknown[]): Promise<unknown> {
+    const name = command.toUpperCase();
+    const [key, ...rest] = args as [K, ...unknown[]];
+
+    if (args.length === 0 && name !== 'KEYS') {
+      return Promise.reject(new ScriptError(`${name} called from a script without a key`));
+    }
+    // These take options or a subcommand before their keys
+    if (name === 'XREAD' || name === 'XREADGROUP' || name === 'XGROUP' || name === 'XINFO') {
+      return this.executeStreamCommand(name, args);
+    }
+
+    switch (name) {
+      case 'GET':
+        return this.storage.get(key);
+      case 'SET':
+        return this.storage.set(key, rest[0] as V, rest[1] as number | undefined);
+      case 'DEL':
+        return this.storage.del(key);
+      case 'EXISTS':
+        return this.storage.exists(key);
+      case 'EXPIRE':
+        return this.storage.expire(key, rest[0] as number);
+      case 'TTL':
+        return this.storage.ttl(key);
+      case 'INCR':
+        return this.storage.incr(key);
+      case 'DECR':
+        return this.storage.decr(key);
+      case 'MGET':
+        return this.storage.mget(args as K[]);
+      case 'MSET': {
+        const entries: Array<{ key: K; value: V }> = [];
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          entries.push({ key: args[i] as K, value: args[i + 1] as V });
+        }
+        return this.storage.mset(entries);
+      }
+      case 'KEYS':
+        return this.storage.keys(key as string | undefined);
+      case 'TYPE':
+        return this.storage.type(key);
+      case 'HSET': {
+        const fields: HashFields<V> = {};
+        for (let i = 0; i + 1 < rest.length; i += 2) {
+          fields[String(rest[i])] = rest[i + 1] as V;
+        }
+        return this.storage.hset(key, hashFieldsOf(fields));
+      }
+      case 'HGET':
+        return this.storage.hget(key, String(rest[0]));
+      case 'HMGET':
+        return this.storage.hmget(key, rest.map(String));
+      case 'HGETALL':
+        return this.storage.hgetall(key);
+      case 'HDEL':
+        return this.storage.hdel(key, rest.map(String));
+      case 'HEXISTS':
+        return this.storage.hexists(key, String(rest[0]));
+      case 'HLEN':
+        return this.storage.hlen(key);
+      case 'HKEYS':
+        return this.storage.hkeys(key);
+      case 'HVALS':
+        return this.storage.hvals(key);
+      case 'HINCRBY':
+      case 'HINCRBYFLOAT': {
+        const integer = name === 'HINCRBY';
+        const increment = Number(rest[1]);
+        checkIncrement(increment, integer);
+        return integer
+          ? this.storage.hincrby(key, String(rest[0]), increment)
+          : this.storage.hincrbyfloat(key, String(rest[0]), increment);
+      }
+      case 'LPUSH':
+      case 'RPUSH': {
+        if (rest.length === 0) {
+          return Promise.reject(new ScriptError(`${name} called from a script without values`));
+        }
+        return name === 'LPUSH' ? this.storage.lpush(key, rest as V[]) : this.storage.rpush(key, rest as V[]);
+      }
+      case 'LPOP':
+      case 'RPOP': {
+        // Without a count, pop one element and return it rather than a list
+        const count = rest[0] === undefined ? undefined : Number(rest[0]);
+        if (count !== undefined) {
+          checkPopCount(count);
+        }
+        const popped = name === 'LPOP' ? this.storage.lpop(key, count ?? 1) : this.storage.rpop(key, count ?? 1);
+        return count === undefined ? popped.then(([value]) => value ?? null) : popped;
+      }
+      case 'LRANGE':
+        return this.storage.lrange(key, integerArg(rest[0], 'start'), integerArg(rest[1], 'stop'));
+      case 'LLEN':
+        return this.storage.llen(key);
+      case 'LINDEX':
+        return this.storage.lindex(key, integerArg(rest[0], 'index'));
+      case 'LSET':
+        return this.storage.lset(key, integerArg(rest[0], 'index'), rest[1] as V);
+      case 'LREM':
+        return this.storage.lrem(key, integerArg(rest[0], 'count'), rest[1] as V);
+      case 'LTRIM':
+        return this.storage.ltrim(key, integerArg(rest[0], 'start'), integerArg(rest[1], 'stop'));
+      case 'LINSERT': {
+        const position = String(rest[0]).toLowerCase();
+        if (position !== 'before' && position !== 'after') {
+          return Promise.reject(new ScriptError('LINSERT position must be BEFORE or AFTER'));
+        }
+        return this.storage.linsert(key, position, rest[1] as V, rest[2] as V);
+      }
+      case 'LMOVE': {
+        const [destination, from, to] = [rest[0] as K, listEndArg(rest[1]), listEndArg(rest[2])];
+        return this.storage.lmove(key, destination, from, to);
+      }
+      case 'SADD':
+      case 'SREM': {
+        if (rest.length === 0) {
+          return Promise.reject(new ScriptError(`${name} called from a script without members`));
+        }
+        const members = rest.map(String);
+        return name === 'SADD' ? this.storage.sadd(key, members) : this.storage.srem(key, members);
+      }
+      case 'SMEMBERS':
+        return this.storage.smembers(key);
+      case 'SISMEMBER':
+        return this.storage.sismember(key, String(rest[0]));
+      case 'SMISMEMBER':
+        return this.storage.smismember(key, rest.map(String));
+      case 'SCARD':
+        return this.storage.scard(key);
+      case 'SPOP':
+      case 'SRANDMEMBER': {
+        // Without a count, return one member rather than a list
+        const count = rest[0] === undefined ? undefined : integerArg(rest[0], 'count');
+        if (name === 'SPOP' && count !== undefined) {
+          checkPopCount(count);
+        }
+        const members =
+          name === 'SPOP' ? this.storage.spop(key, count ?? 1) : this.storage.srandmember(key, count ?? 1);
+        return count === undefined ? members.then(([member]) => member ?? null) : members;
+      }
+      case 'SINTER':
+        return this.storage.sinter(args as K[]);
+      case 'SUNION':
+        return this.storage.sunion(args as K[]);
+      case 'SDIFF':
+        return this.storage.sdiff(args as K[]);
+      case 'SINTERSTORE':
+      case 'SUNIONSTORE':
+      case 'SDIFFSTORE': {
+        if (rest.length === 0) {
+          return Promise.reject(new ScriptError(`${name} called from a script without source keys`));
+        }
+        const sources = rest as K[];
+        if (name === 'SINTERSTORE') {
+          return this.storage.sinterstore(key, sources);
+        }
+        return name === 'SUNIONSTORE'
+          ? this.storage.sunionstore(key, sources)
+          : this.storage.sdiffstore(key, sources);
+      }
+      case 'ZADD': {
+        const { members, options } = zaddArgs(rest);
+        return this.storage.zadd(key, members, options);
+      }
+      case 'ZREM':
+        if (rest.length === 0) {
+          return Promise.reject(new ScriptError('ZREM called from a script without members'));
+        }
+        return this.storage.zrem(key, rest.map(String));
+      case 'ZSCORE':
+        return this.storage.zscore(key, String(rest[0]));
+      case 'ZINCRBY': {
+        const increment = Number(rest[0]);
+        checkIncrement(increment, false);
+        return this.storage.zincrby(key, increment, String(rest[1]));
+      }
+      case 'ZCARD':
+        return this.storage.zcard(key);
+      case 'ZRANK':
+        return this.storage.zrank(key, String(rest[0]));
+      case 'ZREVRANK':
+        return this.storage.zrevrank(key, String(rest[0]));
+      case 'ZRANGE': {
+        const { start, stop, options } = zrangeArgs(rest);
+        const range = this.storage.zrange(key, start, stop, options);
+        return options.withScores ? range : range.then(pairs => pairs.map(([member]) => member));
+      }
+      case 'ZRANGESTORE': {
+        const { start, stop, options } = zrangeArgs(rest.slice(1));
+        return this.storage.zrangestore(key, rest[0] as K, start, stop, options);
+      }
+      case 'ZCOUNT':
+        return this.storage.zcount(key, rest[0] as ZRangeBound, rest[1] as ZRangeBound);
+      case 'ZPOPMIN':
+      case 'ZPOPMAX': {
+        // Without a count, pop one member and return it rather than a list
+        const count = rest[0] === undefined ? undefined : integerArg(rest[0], 'count');
+        if (count !== undefined) {
+          checkPopCount(count);
+        }
+        const popped =
+          name === 'ZPOPMIN' ? this.storage.zpopmin(key, count ?? 1) : this.storage.zpopmax(key, count ?? 1);
+        return count === undefined ? popped.then(([entry]) => entry ?? null) : popped;
+      }
+      case 'ZUNIONSTORE':
+      case 'ZINTERSTORE': {
+        const { keys, options } = zstoreArgs<K>(rest);
+        return name === 'ZUNIONSTORE'
+          ? this.storage.zunionstore(key, keys, options)
+          : this.storage.zinterstore(key, keys, options);
+      }
+      case 'XADD': {
+        const { fields, options } = xaddArgs<V>(rest);
+        return this.storage.xadd(key, fields, options);
+      }
+      case 'XRANGE':
+      case 'XREVRANGE': {
+        const count = String(rest[2]).toUpperCase() === 'COUNT' ? integerArg(rest[3], 'count') : undefined;
+        if (count !== undefined) {
+          checkStreamCount(count);
+        }
+        return name === 'XRANGE'
+          ? this.storage.xrange(key, String(rest[0]), String(rest[1]), count)
+          : this.storage.xrevrange(key, String(rest[0]), String(rest[1]), count);
+      }
+      case 'XACK': {
+        const ids = rest.slice(1).map(String);
+        checkStreamIds(ids);
+        return this.storage.xack(key, String(rest[0]), ids);
+      }
+      case 'XPENDING': {
+        const options = xpendingArgs(rest.slice(1));
+        return options
+          ? this.storage.xpendingRange(key, String(rest[0]), options)
+          : this.storage.xpending(key, String(rest[0]));
+      }
+      case 'XCLAIM': {
+        const [group, consumer, minIdle, ...ids] = rest.map(String);
+        const minIdleMs = Number(minIdle);
+        checkStreamName(consumer!, 'consumer');
+        checkIdleTime(minIdleMs);
+        checkStreamIds(ids);
+        return this.storage.xclaim(key, group!, consumer!, minIdleMs, ids);
+      }
+      case 'XAUTOCLAIM': {
+        const [group, consumer, minIdle, start] = rest.map(String);
+        const minIdleMs = Number(minIdle);
+        const count = String(rest[4]).toUpperCase() === 'COUNT' ? integerArg(rest[5], 'count') : 100;
+        checkStreamName(consumer!, 'consumer');
+        checkIdleTime(minIdleMs);
+        checkStreamCount(count);
+        return this.storage.xautoclaim(key, group!, consumer!, minIdleMs, start ?? '0-0', count);
+      }
+      default:
+        return Promise.reject(new ScriptError(`Unknown command '${command}' called from a script`));
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Sorted key/value block encoding used by SSTable data and index blocks
+ *
+ * Keys are prefix-compressed against the previous key. Every
+ * `restartInterval` entries the full key is stored instead, and the offsets of
+ * these restart points are appended to the block so a reader can binary
+ * search them before scanning linearly:
+ *
+ *   entry:   [shared: varint][unshared: varint][value length: varint][key suffix][value]
+ *   trailer: [restart offset: u32 LE]...[restart count: u32 LE]
+ */
+
+import { bytewiseCompare } from '../../utils/comparator';
+import { StorageError } from '../../utils/errors';
+
+export interface BlockEntry {
+  key: string;
+  value: Buffer;
+}
+
+export class BlockBuilder {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private restarts: number[] = [];
+  private counter = 0;
+  private lastKey: Buffer = Buffer.alloc(0);
+  private entryCount = 0;
+
+  constructor(private readonly restartInterval: number = 16) {}
+
+  add(key: string, value: Buffer): void {
+    const keyBytes = Buffer.from(key, 'utf-8');
+    let shared = 0;
+
+    if (this.counter < this.restartInterval && this.entryCount > 0) {
+      const max = Math.min(keyBytes.length, this.lastKey.length);
+      while (shared < max && keyBytes[shared] === this.lastKey[shared]) {
+        shared++;
+      }
+    } else {
+      this.restarts.push(this.size);
+      this.counter = 0;
+    }
+
+    const header = Buffer.concat([
+      encodeVarint(shared),
+      encodeVarint(keyBytes.length - shared),
+      encodeVarint(value.length)
+    ]);
+    const suffix = keyBytes.subarray(shared);
+
+    this.chunks.push(header, suffix, value);
+    this.size += header.length + suffix.length + value.length;
+    this.lastKey = keyBytes;
+    this.counter++;
+    this.entryCount++;
+  }
+
+  isEmpty(): boolean {
+    return this.entryCount === 0;
+  }
+
+  /**
+   * Approximate size of the finished block in bytes
+   */
+  estimatedSize(): number {
+    return this.size + (this.restarts.length + 1) * 4;
+  }
+
+  finish(): Buffer {
+    const trailer = Buffer.alloc((this.restarts.length + 1) * 4);
+    this.restarts.forEach((offset, i) => trailer.writeUInt32LE(offset, i * 4));
+    trailer.writeUInt32LE(this.restarts.length, this.restarts.length * 4);
+    return Buffer.concat([...this.chunks, trailer]);
+  }
+
+  reset(): void {
+    this.chunks = [];
+    this.size = 0;
+    this.restarts = [];
+    this.counter = 0;
+    this.lastKey = Buffer.alloc(0);
+    this.entryCount = 0;
+  }
+}
+
+export class Block {
+  private readonly restarts: number[] = [];
+  private readonly dataEnd: number;
+
+  constructor(private readonly data: Buffer) {
+    if (data.length < 4) {
+      throw new StorageError('Block is too small');
+    }
+
+    const count = data.readUInt32LE(data.length - 4);
+    this.dataEnd = data.length - 4 - count * 4;
+    if (this.dataEnd < 0) {
+      throw new StorageError('Block restart array is corrupt');
+    }
+
+    for (let i = 0; i < count; i++) {
+      this.restarts.push(data.readUInt32LE(this.dataEnd + i * 4));
+    }
+  }
+
+  /**
+   * Find the first entry whose key is greater than or equal to the target
+   */
+  seek(target: string, compare: (a: string, b: string) => number = bytewiseCompare): BlockEntry | undefined {
+    for (const entry of this.entriesFromKey(target, compare)) {
+      return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * Iterate entries in order, starting at the first key greater than or equal
+   * to the target
+   */
+  *entriesFromKey(
+    target: string,
+    compare: (a: string, b: string) => number = bytewiseCompare
+  ): IterableIterator<BlockEntry> {
+    // Binary search for the last restart point whose key is < target
+    let left = 0;
+    let right = this.restarts.length - 1;
+    let start = 0;
+
+    while (left <= right) {
+      const mid = (left + right) >>> 1;
+      const { key } = this.decodeAt(this.restarts[mid]!, Buffer.alloc(0));
+
+      if (compare(key.toString('utf-8'), target) < 0) {
+        start = mid;
+        left = mid + 1;
+      } else {
+        right = mid - 1;
+      }
+    }
+
+    for (const entry of this.entriesFrom(this.restarts[start] ?? 0)) {
+      if (compare(entry.key, target) >= 0) {
+        yield entry;
+      }
+    }
+  }
+
+  *entries(): IterableIterator<BlockEntry> {
+    yield* this.entriesFrom(0);
+  }
+
+  private *entriesFrom(offset: number): IterableIterator<BlockEntry> {
+    let lastKey: Buffer = Buffer.alloc(0);
+
+    while (offset < this.dataEnd) {
+      const decoded = this.decodeAt(offset, lastKey);
+      lastKey = decoded.key;
+      offset = decoded.next;
+      yield { key: decoded.key.toString('utf-8'), value: decoded.value };
+    }
+  }
+
+  private decodeAt(offset: number, lastKey: Buffer): { key: Buffer; value: Buffer; next: number } {
+    const shared = decodeVarint(this.data, offset);
+    const unshared = decodeVarint(this.data, shared.next);
+    const valueLength = decodeVarint(this.data, unshared.next);
+    const keyStart = valueLength.next;
+    const valueStart = keyStart + unshared.value;
+    const next = valueStart + valueLength.value;
+
+    if (shared.value > lastKey.length || next > this.dataEnd) {
+      throw new StorageError('Block entry is corrupt', { offset });
+    }
+
+    const key = Buffer.concat([
+      lastKey.subarray(0, shared.value),
+      this.data.subarray(keyStart, valueStart)
+    ]);
+
+    return { key, value: this.data.subarray(valueStart, next), next };
+  }
+}
+
+export function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+export function decodeVarint(data: Buffer, offset: number): { value: number; next: number } {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let i = offset; i < data.length; i++) {
+    const byte = data[i]!;
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return { value, next: i + 1 };
+    }
+    multiplier *= 128;
+  }
+
+  throw new StorageError('Truncated varint', { offset });
+}
@@ -0,0 +1,74 @@
+/**
+ * LRU cache of SSTable data blocks, shared by every table of an engine and
+ * bounded by the total size of the cached blocks
+ */
+
+import { BlockCacheStats } from '../../types';
+
+export class BlockCache {
+  // Map iteration follows insertion order, so the first key is the least
+  // recently used one
+  private blocks = new Map<string, Buffer>();
+  private usage = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  static keyFor(tableNumber: number, offset: number): string {
+    return `${tableNumber}:${offset}`;
+  }
+
+  get(key: string): Buffer | undefined {
+    const block = this.blocks.get(key);
+    if (!block) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.blocks.delete(key);
+    this.blocks.set(key, block);
+    return block;
+  }
+
+  insert(key: string, block: Buffer): void {
+    // A block larger than the whole cache would only evict everything else
+    if (block.length > this.capacity) {
+      return;
+    }
+
+    this.erase(key);
+    this.blocks.set(key, block);
+    this.usage += block.length;
+
+    for (const [oldestKey, oldest] of this.blocks) {
+      if (this.usage <= this.capacity) break;
+      this.blocks.delete(oldestKey);
+      this.usage -= oldest.length;
+    }
+  }
+
+  erase(key: string): void {
+    const block = this.blocks.get(key);
+    if (block) {
+      this.blocks.delete(key);
+      this.usage -= block.length;
+    }
+  }
+
+  clear(): void {
+    this.blocks.clear();
+    this.usage = 0;
+  }
+
+  getStats(): BlockCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      usage: this.usage,
+      capacity: this.capacity,
+      blocks: this.blocks.size
+    };
+  }
+}
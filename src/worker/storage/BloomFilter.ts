@@ -1,35 +1,59 @@
 /**
  * Bloom Filter implementation for probabilistic key existence checking
+ *
+ * Keys are hashed with MurmurHash3 and probed by double hashing. The
+ * 'standard' format spreads a key's probes over the whole bit array, while the
+ * 'blocked' format keeps them within one 64 byte cache line, trading a
+ * slightly higher false positive rate for a single memory access per lookup.
  */
 
+import { BloomFilterData, BloomFilterFormat } from '../../types';
+import { murmur3 } from '../../utils/hash';
+
+const CACHE_LINE_BITS = 512;
+const LINE_SEED = 0x9747b28c;
+
 export class BloomFilter {
   private bits: Uint8Array;
   private size: number;
   private numHashes: number;
+  private format: BloomFilterFormat;
+  private keys = 0;
 
-  constructor(size: number, numHashes: number = 3) {
-    this.size = size;
+  constructor(size: number, numHashes: number = 3, format: BloomFilterFormat = 'standard') {
+    // Blocked filters are made of whole cache lines
+    this.size = format === 'blocked' ? Math.ceil(size / CACHE_LINE_BITS) * CACHE_LINE_BITS : size;
     this.numHashes = numHashes;
-    this.bits = new Uint8Array(Math.ceil(size / 8));
+    this.format = format;
+    this.bits = new Uint8Array(Math.ceil(this.size / 8));
+  }
+
+  /**
+   * Size a filter for the given number of keys, with the number of hashes
+   * that minimizes false positives at that many bits per key
+   */
+  static forKeys(numKeys: number, bitsPerKey: number, format: BloomFilterFormat = 'standard'): BloomFilter {
+    const size = Math.max(64, Math.ceil(numKeys * bitsPerKey));
+    return new BloomFilter(size, BloomFilter.optimalNumHashes(bitsPerKey), format);
+  }
+
+  /**
+   * k = bitsPerKey * ln 2, kept within [1, 30]
+   */
+  static optimalNumHashes(bitsPerKey: number): number {
+    return Math.min(30, Math.max(1, Math.round(bitsPerKey * Math.LN2)));
   }
 
   add(key: string): void {
-    const hashes = this.getHashes(key);
-    for (const hash of hashes) {
-      const index = hash % this.size;
-      const byteIndex = Math.floor(index / 8);
-      const bitIndex = index % 8;
-      this.bits[byteIndex] |= (1 << bitIndex);
+    for (const index of this.probes(key)) {
+      this.bits[index >>> 3] = (this.bits[index >>> 3] ?? 0) | (1 << (index & 7));
     }
+    this.keys++;
   }
 
   contains(key: string): boolean {
-    const hashes = this.getHashes(key);
-    for (const hash of hashes) {
-      const index = hash % this.size;
-      const byteIndex = Math.floor(index / 8);
-      const bitIndex = index % 8;
-      if ((this.bits[byteIndex] & (1 << bitIndex)) === 0) {
+    for (const index of this.probes(key)) {
+      if (((this.bits[index >>> 3] ?? 0) & (1 << (index & 7))) === 0) {
         return false;
       }
     }
@@ -48,53 +72,64 @@ export class BloomFilter {
     return this.numHashes;
   }
 
+  getFormat(): BloomFilterFormat {
+    return this.format;
+  }
+
+  getKeyCount(): number {
+    return this.keys;
+  }
+
+  /**
+   * Expected false positive rate for the keys added so far,
+   * (1 - e^(-k*n/m))^k. Blocked filters run slightly above it, as keys are not
+   * spread evenly over cache lines.
+   */
   getFalsePositiveRate(): number {
-    const setBits = this.countSetBits();
-    const n = setBits; // Approximate number of items
+    const n = this.keys;
     const m = this.size;
     const k = this.numHashes;
-    
-    // Formula: (1 - e^(-k*n/m))^k
+
     return Math.pow(1 - Math.exp(-k * n / m), k);
   }
 
-  private getHashes(key: string): number[] {
-    const hashes: number[] = [];
-    let hash1 = this.hash(key);
-    let hash2 = this.hash(key + 'salt');
-
-    for (let i = 0; i < this.numHashes; i++) {
-      hashes.push(Math.abs(hash1 + i * hash2));
-    }
-
-    return hashes;
+  toData(): BloomFilterData {
+    return {
+      bits: this.getBits(),
+      numHashes: this.numHashes,
+      size: this.size,
+      format: this.format,
+      keys: this.keys
+    };
   }
 
-  private hash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  /**
+   * Bit positions probed for a key, derived from one hash and a rotated copy
+   * of it as the stride
+   */
+  private *probes(key: string): Generator<number> {
+    const hash = murmur3(key);
+    let base = 0;
+    let range = this.size;
+    let h = hash;
+
+    if (this.format === 'blocked') {
+      const lines = this.size / CACHE_LINE_BITS;
+      base = (murmur3(key, LINE_SEED) % lines) * CACHE_LINE_BITS;
+      range = CACHE_LINE_BITS;
     }
-    return Math.abs(hash);
-  }
 
-  private countSetBits(): number {
-    let count = 0;
-    for (const byte of this.bits) {
-      let b = byte;
-      while (b) {
-        count += b & 1;
-        b >>= 1;
-      }
+    const delta = ((hash >>> 17) | (hash << 15)) >>> 0;
+    for (let i = 0; i < this.numHashes; i++) {
+      yield base + (h % range);
+      h = (h + delta) >>> 0;
     }
-    return count;
   }
 
-  static fromData(data: { bits: Uint8Array; numHashes: number; size: number }): BloomFilter {
-    const filter = new BloomFilter(data.size, data.numHashes);
+  static fromData(data: BloomFilterData): BloomFilter {
+    const filter = new BloomFilter(data.size, data.numHashes, data.format);
     filter.bits = new Uint8Array(data.bits);
+    filter.keys = data.keys;
     return filter;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+/**
+ * Elements in order, the value of a list key in the simple backend
+ *
+ * A ring buffer that doubles when full and halves once a quarter full, so
+ * pushing and popping at either end and reading an element by index take
+ * O(1). Lists are changed in place; the deque serializes as an array of its
+ * elements, which `from()` reads back.
+ */
+
+const MIN_CAPACITY = 8;
+
+export class Deque<T> {
+  private buffer: Array<T | undefined> = new Array<T | undefined>(MIN_CAPACITY);
+  private head = 0;
+  private count = 0;
+
+  static from<T>(values: Iterable<T>): Deque<T> {
+    const deque = new Deque<T>();
+    for (const value of values) {
+      deque.push(value);
+    }
+    return deque;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * The element at an index from the head, or undefined when out of range
+   */
+  at(index: number): T | undefined {
+    return index >= 0 && index < this.count ? this.buffer[this.slot(index)] : undefined;
+  }
+
+  /**
+   * Replace the element at an index, which must be in range
+   */
+  set(index: number, value: T): void {
+    this.buffer[this.slot(index)] = value;
+  }
+
+  push(value: T): void {
+    if (this.count === this.buffer.length) {
+      this.resize(this.buffer.length * 2);
+    }
+    this.buffer[this.slot(this.count)] = value;
+    this.count++;
+  }
+
+  unshift(value: T): void {
+    if (this.count === this.buffer.length) {
+      this.resize(this.buffer.length * 2);
+    }
+    this.head = this.slot(this.buffer.length - 1);
+    this.buffer[this.head] = value;
+    this.count++;
+  }
+
+  pop(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+    const slot = this.slot(this.count - 1);
+    const value = this.buffer[slot];
+    this.buffer[slot] = undefined;
+    this.count--;
+    this.shrink();
+    return value;
+  }
+
+  shift(): T | undefined {
+    if (this.count === 0) {
+      return undefined;
+    }
+    const value = this.buffer[this.head];
+    this.buffer[this.head] = undefined;
+    this.head = this.slot(1);
+    this.count--;
+    this.shrink();
+    return value;
+  }
+
+  /**
+   * The elements from `from` up to, not including, `to`
+   */
+  slice(from: number, to: number): T[] {
+    const values: T[] = [];
+    for (let i = Math.max(0, from); i < Math.min(to, this.count); i++) {
+      values.push(this.buffer[this.slot(i)]!);
+    }
+    return values;
+  }
+
+  *[Symbol.iterator](): Generator<T> {
+    for (let i = 0; i < this.count; i++) {
+      yield this.buffer[this.slot(i)]!;
+    }
+  }
+
+  clone(): Deque<T> {
+    return Deque.from(this);
+  }
+
+  toJSON(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Position in the buffer of an index from the head; capacities are powers
+   * of two, so masking wraps it around
+   */
+  private slot(index: number): number {
+    return (this.head + index) & (this.buffer.length - 1);
+  }
+
+  private shrink(): void {
+    if (this.buffer.length > MIN_CAPACITY && this.count <= this.buffer.length / 4) {
+      this.resize(this.buffer.length / 2);
+    }
+  }
+
+  private resize(capacity: number): void {
+    const buffer = new Array<T | undefined>(capacity);
+    for (let i = 0; i < this.count; i++) {
+      buffer[i] = this.buffer[this.slot(i)];
+    }
+    this.buffer = buffer;
+    this.head = 0;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Record framing shared by the write-ahead log and the manifest
+ *
+ * Each record is written as:
+ *
+ *   [payload length: u32 LE][crc32 of payload: u32 LE][payload]
+ *
+ * A record whose frame is incomplete or whose checksum does not match is
+ * treated as a torn write and ends the readable part of the log.
+ */
+
+import { crc32 } from '../../utils/crc32';
+
+const RECORD_HEADER_SIZE = 8;
+
+export interface DecodedRecords {
+  records: Buffer[];
+  /** Byte offset of the first unreadable record, if any */
+  tornAt?: number;
+}
+
+export function encodeRecord(payload: Buffer): Buffer {
+  const record = Buffer.allocUnsafe(RECORD_HEADER_SIZE + payload.length);
+
+  record.writeUInt32LE(payload.length, 0);
+  record.writeUInt32LE(crc32(payload), 4);
+  payload.copy(record, RECORD_HEADER_SIZE);
+  return record;
+}
+
+export function decodeRecords(data: Buffer): DecodedRecords {
+  const records: Buffer[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    if (offset + RECORD_HEADER_SIZE > data.length) {
+      return { records, tornAt: offset };
+    }
+
+    const length = data.readUInt32LE(offset);
+    const checksum = data.readUInt32LE(offset + 4);
+    const start = offset + RECORD_HEADER_SIZE;
+
+    if (start + length > data.length) {
+      return { records, tornAt: offset };
+    }
+
+    const payload = data.subarray(start, start + length);
+    if (crc32(payload) !== checksum) {
+      return { records, tornAt: offset };
+    }
+
+    records.push(payload);
+    offset = start + length;
+  }
+
+  return { records };
+}
@@ -0,0 +1,292 @@
+/**
+ * MANIFEST log tracking which SSTables make up the LSM tree
+ *
+ * Every flush and compaction is recorded as a version edit appended to the
+ * active `MANIFEST-NNNNNN` file, framed like WAL records. The `CURRENT` file
+ * names the active manifest and is only ever replaced by an atomic rename.
+ * At open time the edits are replayed into a version (live tables per level
+ * plus counters), a fresh manifest holding a single snapshot of that version
+ * is written, and files no longer referenced are garbage-collected.
+ *
+ * The snapshot also records the name of the key comparator, so a database
+ * cannot be reopened under an order its tables were not sorted by.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { encodeRecord, decodeRecords } from './LogRecord';
+import { StorageError } from '../../utils/errors';
+import { bytewiseComparator } from '../../utils/comparator';
+import { logger } from '../../utils/logger';
+
+const CURRENT_FILE = 'CURRENT';
+const MANIFEST_PATTERN = /^MANIFEST-(\d+)$/;
+const TABLE_PATTERN = /^(\d+)\.sst$/;
+
+/**
+ * Make the entries of a directory durable, such as a file just renamed into
+ * it. Windows cannot open directories, and needs no such sync.
+ */
+async function syncDirectory(dir: string): Promise<void> {
+  if (process.platform === 'win32') {
+    return;
+  }
+
+  const handle = await fs.open(dir, 'r');
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+}
+
+export interface TableRef {
+  level: number;
+  number: number;
+}
+
+export interface VersionEdit {
+  addedTables?: TableRef[];
+  removedTables?: TableRef[];
+  nextFileNumber?: number;
+  lastSequence?: number;
+  logNumber?: number;
+  comparator?: string;
+}
+
+export interface Version {
+  levels: Map<number, number[]>;
+  nextFileNumber: number;
+  lastSequence: number;
+  /** Oldest WAL segment still needed to rebuild the memtable */
+  logNumber: number;
+  /** Absent from manifests written before comparators were configurable */
+  comparator?: string;
+}
+
+export class Manifest {
+  private handle?: fs.FileHandle;
+  private manifestNumber = 0;
+  private version: Version = {
+    levels: new Map(),
+    nextFileNumber: 1,
+    lastSequence: 0,
+    logNumber: 0
+  };
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly dataDir?: string,
+    private readonly comparator: string = bytewiseComparator.name
+  ) {}
+
+  /**
+   * Rebuild the version from the manifest named by CURRENT and start a new
+   * manifest containing a snapshot of it
+   */
+  async recover(): Promise<Version> {
+    if (!this.dataDir) {
+      return this.cloneVersion();
+    }
+
+    await fs.mkdir(this.dataDir, { recursive: true });
+
+    const current = await this.readCurrent();
+    if (current) {
+      const data = await fs.readFile(path.join(this.dataDir, current));
+      const { records, tornAt } = decodeRecords(data);
+
+      if (tornAt !== undefined) {
+        logger.warn('Skipping torn manifest record', { manifest: current, offset: tornAt });
+      }
+
+      for (const record of records) {
+        Manifest.applyEdit(this.version, JSON.parse(record.toString('utf-8')) as VersionEdit);
+      }
+
+      const recorded = this.version.comparator ?? bytewiseComparator.name;
+      if (recorded !== this.comparator) {
+        throw new StorageError(
+          `Database was created with comparator ${recorded}, not ${this.comparator}`,
+          { dataDir: this.dataDir }
+        );
+      }
+    }
+    this.version.comparator = this.comparator;
+
+    this.manifestNumber = this.version.nextFileNumber++;
+    const manifestName = Manifest.manifestName(this.manifestNumber);
+    this.handle = await fs.open(path.join(this.dataDir, manifestName), 'w');
+    await this.append(this.snapshotEdit());
+
+    // CURRENT must never name a manifest that a crash could lose, nor be lost itself
+    const tempPath = path.join(this.dataDir, `${CURRENT_FILE}.tmp`);
+    const temp = await fs.open(tempPath, 'w');
+    try {
+      await temp.writeFile(`${manifestName}\n`);
+      await temp.sync();
+    } finally {
+      await temp.close();
+    }
+    await fs.rename(tempPath, path.join(this.dataDir, CURRENT_FILE));
+    await syncDirectory(this.dataDir);
+
+    logger.debug('Manifest recovered', {
+      manifest: manifestName,
+      tables: this.liveTableNumbers().size,
+      nextFileNumber: this.version.nextFileNumber
+    });
+
+    return this.cloneVersion();
+  }
+
+  /**
+   * Durably record an edit. The edit only takes effect in memory once it has
+   * been written, so a failed write leaves the version untouched.
+   */
+  async logEdit(edit: VersionEdit): Promise<void> {
+    const write = this.queue.then(async () => {
+      if (this.handle) {
+        await this.append(edit);
+      }
+      Manifest.applyEdit(this.version, edit);
+    });
+
+    this.queue = write.then(
+      () => undefined,
+      () => undefined
+    );
+    await write;
+  }
+
+  liveTableNumbers(): Set<number> {
+    const numbers = new Set<number>();
+    for (const tables of this.version.levels.values()) {
+      tables.forEach(number => numbers.add(number));
+    }
+    return numbers;
+  }
+
+  /**
+   * Remove tables that no version references, leftover temporary files and
+   * manifests other than the active one
+   * @returns The names of the removed files
+   */
+  async collectGarbage(): Promise<string[]> {
+    if (!this.dataDir) {
+      return [];
+    }
+
+    const live = this.liveTableNumbers();
+    const removed: string[] = [];
+
+    for (const file of await fs.readdir(this.dataDir)) {
+      const table = TABLE_PATTERN.exec(file);
+      const manifest = MANIFEST_PATTERN.exec(file);
+
+      const orphaned =
+        (table !== null && !live.has(Number(table[1]))) ||
+        (manifest !== null && Number(manifest[1]) !== this.manifestNumber) ||
+        file.endsWith('.tmp');
+
+      if (orphaned) {
+        await fs.rm(path.join(this.dataDir, file), { force: true });
+        removed.push(file);
+      }
+    }
+
+    if (removed.length > 0) {
+      logger.info('Removed orphaned files', { files: removed });
+    }
+
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = undefined;
+    }
+  }
+
+  static manifestName(number: number): string {
+    return `MANIFEST-${String(number).padStart(6, '0')}`;
+  }
+
+  private static applyEdit(version: Version, edit: VersionEdit): void {
+    for (const { level, number } of edit.removedTables ?? []) {
+      const tables = version.levels.get(level) ?? [];
+      version.levels.set(
+        level,
+        tables.filter(n => n !== number)
+      );
+    }
+
+    for (const { level, number } of edit.addedTables ?? []) {
+      const tables = version.levels.get(level) ?? [];
+      tables.push(number);
+      version.levels.set(level, tables);
+    }
+
+    if (edit.nextFileNumber !== undefined) {
+      version.nextFileNumber = Math.max(version.nextFileNumber, edit.nextFileNumber);
+    }
+    if (edit.lastSequence !== undefined) {
+      version.lastSequence = Math.max(version.lastSequence, edit.lastSequence);
+    }
+    if (edit.logNumber !== undefined) {
+      version.logNumber = Math.max(version.logNumber, edit.logNumber);
+    }
+    if (edit.comparator !== undefined) {
+      version.comparator = edit.comparator;
+    }
+  }
+
+  private async append(edit: VersionEdit): Promise<void> {
+    if (!this.handle) {
+      throw new StorageError('Manifest is closed');
+    }
+
+    await this.handle.appendFile(encodeRecord(Buffer.from(JSON.stringify(edit), 'utf-8')));
+    await this.handle.sync();
+  }
+
+  private async readCurrent(): Promise<string | undefined> {
+    try {
+      const name = (await fs.readFile(path.join(this.dataDir!, CURRENT_FILE), 'utf-8')).trim();
+      if (!MANIFEST_PATTERN.test(name)) {
+        throw new StorageError('CURRENT does not name a manifest', { name });
+      }
+      return name;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private snapshotEdit(): VersionEdit {
+    const addedTables: TableRef[] = [];
+    for (const [level, tables] of this.version.levels) {
+      tables.forEach(number => addedTables.push({ level, number }));
+    }
+
+    return {
+      addedTables,
+      nextFileNumber: this.version.nextFileNumber,
+      lastSequence: this.version.lastSequence,
+      logNumber: this.version.logNumber,
+      comparator: this.comparator
+    };
+  }
+
+  private cloneVersion(): Version {
+    return {
+      ...this.version,
+      levels: new Map([...this.version.levels].map(([level, tables]) => [level, [...tables]]))
+    };
+  }
+}
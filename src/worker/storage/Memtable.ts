@@ -1,52 +1,77 @@
 /**
  * In-memory write buffer implementing memtable for LSM-tree
+ *
+ * A skiplist ordered by the configured comparator maps each key to its
+ * versions, newest first, so flushes and range scans walk it in order without
+ * sorting. Older versions are only kept while an open snapshot can still see
+ * them.
  */
 
-import { StorageEntry, MemtableStats } from '../../types';
+import { StorageEntry, MemtableStats, Comparator } from '../../types';
 import { calculateSize } from '../../utils/serializer';
+import { retainVisibleVersions } from './Snapshot';
+import { SkipList } from './SkipList';
+import { KeyRange, bytewiseComparator } from '../../utils/comparator';
 
 export class Memtable<K = string, V = any> {
-  private data: Map<string, StorageEntry<K, V>>;
-  private sizeBytes: number = 0;
+  private data: SkipList<StorageEntry<K, V>[]>;
+  /** Bytes of the versions held, on top of the skiplist's own usage */
+  private versionBytes: number = 0;
   private maxSizeBytes: number;
 
-  constructor(maxSizeMB: number) {
-    this.data = new Map();
+  constructor(
+    maxSizeMB: number,
+    private readonly comparator: Comparator = bytewiseComparator
+  ) {
+    this.data = new SkipList((a, b) => comparator.compare(a, b));
     this.maxSizeBytes = maxSizeMB * 1024 * 1024;
   }
 
   set(key: K, value: V, ttl?: number): void {
-    const serializedKey = String(key);
-    const existingEntry = this.data.get(serializedKey);
-    
-    if (existingEntry) {
-      this.sizeBytes -= this.calculateEntrySize(existingEntry);
-    }
+    const timestamp = Date.now();
+    this.put({ key, value, timestamp, ttl: ttl ? timestamp + ttl : undefined });
+  }
 
-    const entry: StorageEntry<K, V> = {
-      key,
-      value,
-      timestamp: Date.now(),
-      ttl: ttl ? Date.now() + ttl : undefined,
-      version: (existingEntry?.version || 0) + 1
+  /**
+   * Insert an entry as a new version, keeping its timestamp, absolute expiry
+   * and sequence number. The sequence doubles as the version, so versions keep
+   * increasing across flushes and deletes.
+   * @param snapshots Sequences pinned by open snapshots, in ascending order
+   */
+  put(entry: StorageEntry<K, V>, snapshots: readonly number[] = []): void {
+    const serializedKey = String(entry.key);
+    const existing = this.data.get(serializedKey) ?? [];
+
+    const stored: StorageEntry<K, V> = {
+      ...entry,
+      version: entry.sequence ?? (existing[0]?.version || 0) + 1
     };
 
-    this.data.set(serializedKey, entry);
-    this.sizeBytes += this.calculateEntrySize(entry);
+    const versions = retainVisibleVersions([stored, ...existing], snapshots);
+
+    // Retained versions keep their order, so one pass finds the dropped ones
+    let retained = 1;
+    for (const version of existing) {
+      if (versions[retained] === version) {
+        retained++;
+      } else {
+        this.versionBytes -= this.calculateEntrySize(version);
+      }
+    }
+    this.versionBytes += this.calculateEntrySize(stored);
+
+    this.data.set(serializedKey, versions);
   }
 
   get(key: K): V | null {
-    const serializedKey = String(key);
-    const entry = this.data.get(serializedKey);
+    const entry = this.data.get(String(key))?.[0];
     
     if (!entry) {
       return null;
     }
 
-    // Check TTL
+    // Expired entries stay in place so they keep shadowing older versions
     if (entry.ttl && entry.ttl < Date.now()) {
-      this.data.delete(serializedKey);
-      this.sizeBytes -= this.calculateEntrySize(entry);
       return null;
     }
 
@@ -54,33 +79,43 @@ export class Memtable<K = string, V = any> {
   }
 
   getEntry(key: K): StorageEntry<K, V> | undefined {
-    const serializedKey = String(key);
-    const entry = this.data.get(serializedKey);
+    const entry = this.data.get(String(key))?.[0];
     
     if (!entry) {
       return undefined;
     }
 
-    // Check TTL
-    if (entry.ttl && entry.ttl < Date.now()) {
-      this.data.delete(serializedKey);
-      this.sizeBytes -= this.calculateEntrySize(entry);
+    // Skip expired entries and tombstones
+    if ((entry.ttl && entry.ttl < Date.now()) || entry.value === null) {
       return undefined;
     }
 
     return entry;
   }
 
-  delete(key: K): boolean {
-    const serializedKey = String(key);
-    const entry = this.data.get(serializedKey);
-    
-    if (entry) {
-      this.sizeBytes -= this.calculateEntrySize(entry);
-      return this.data.delete(serializedKey);
-    }
-    
-    return false;
+  /**
+   * Look up the newest version of a key visible at the given sequence, without
+   * TTL filtering, so the storage engine can tell an expired version apart
+   * from a missing one
+   */
+  findEntry(key: K, sequence: number = Number.MAX_SAFE_INTEGER): StorageEntry<K, V> | undefined {
+    return this.data.get(String(key))?.find(entry => (entry.sequence ?? 0) <= sequence);
+  }
+
+  /**
+   * Replace the key with a tombstone, which is flushed like any other entry so
+   * the delete also hides versions already written to SSTables
+   * @returns Whether the memtable held a live value for the key
+   */
+  delete(key: K, timestamp: number = Date.now()): boolean {
+    const existingEntry = this.data.get(String(key))?.[0];
+    const existed =
+      existingEntry !== undefined &&
+      existingEntry.value !== null &&
+      !(existingEntry.ttl && existingEntry.ttl < Date.now());
+
+    this.put({ key, value: null, timestamp });
+    return existed;
   }
 
   keys(pattern?: string): K[] {
@@ -88,7 +123,11 @@ export class Memtable<K = string, V = any> {
     const now = Date.now();
     const regex = pattern ? this.patternToRegex(pattern) : null;
 
-    for (const [, entry] of this.data) {
+    for (const [, [entry]] of this.data.entries()) {
+      if (!entry) {
+        continue;
+      }
+
       // Skip expired entries
       if (entry.ttl && entry.ttl < now) {
         continue;
@@ -109,43 +148,49 @@ export class Memtable<K = string, V = any> {
   }
 
   clear(): void {
-    this.data.clear();
-    this.sizeBytes = 0;
+    this.data = new SkipList((a, b) => this.comparator.compare(a, b));
+    this.versionBytes = 0;
   }
 
   shouldFlush(): boolean {
-    return this.sizeBytes >= this.maxSizeBytes;
+    return this.getSize() >= this.maxSizeBytes;
   }
 
   isEmpty(): boolean {
     return this.data.size === 0;
   }
 
-  getAllEntries(): StorageEntry[] {
-    const entries: StorageEntry[] = [];
-    const now = Date.now();
-
-    for (const entry of this.data.values()) {
-      // Skip expired entries
-      if (entry.ttl && entry.ttl < now) {
-        continue;
-      }
-      entries.push(entry);
+  /**
+   * Every stored version sorted by key and then newest first, including
+   * tombstones and expired entries since they must shadow older versions once
+   * flushed
+   */
+  getAllEntries(): StorageEntry<K, V>[] {
+    const entries: StorageEntry<K, V>[] = [];
+    for (const [, versions] of this.data.entries()) {
+      entries.push(...versions);
     }
+    return entries;
+  }
 
-    // Sort by key for efficient SSTable creation
-    return entries.sort((a, b) => {
-      const keyA = String(a.key);
-      const keyB = String(b.key);
-      return keyA.localeCompare(keyB);
-    });
+  /**
+   * Every stored version of the keys within the range, in scan order
+   */
+  getEntriesInRange(range: KeyRange, reverse: boolean = false): StorageEntry<K, V>[] {
+    const entries: StorageEntry<K, V>[] = [];
+    for (const [, versions] of this.data.range(range, reverse)) {
+      entries.push(...versions);
+    }
+    return entries;
   }
 
   getStats(): MemtableStats {
     let oldestEntry = Number.MAX_SAFE_INTEGER;
     let newestEntry = 0;
+    let entries = 0;
 
-    for (const entry of this.data.values()) {
+    for (const entry of this.getAllEntries()) {
+      entries++;
       if (entry.timestamp < oldestEntry) {
         oldestEntry = entry.timestamp;
       }
@@ -155,20 +200,30 @@ export class Memtable<K = string, V = any> {
     }
 
     return {
-      size: this.sizeBytes,
-      entries: this.data.size,
-      oldestEntry: this.data.size > 0 ? oldestEntry : 0,
-      newestEntry: this.data.size > 0 ? newestEntry : 0
+      size: this.getSize(),
+      entries,
+      oldestEntry: entries > 0 ? oldestEntry : 0,
+      newestEntry: entries > 0 ? newestEntry : 0
     };
   }
 
+  /**
+   * Memory held by the skiplist nodes and the versions they point to
+   */
+  getSize(): number {
+    return this.data.getMemoryUsage() + this.versionBytes;
+  }
+
+  /**
+   * A version's value and fields; its key is stored once, by the node
+   */
   private calculateEntrySize(entry: StorageEntry<K, V>): number {
     return (
-      calculateSize(entry.key) +
       calculateSize(entry.value) +
       8 + // timestamp
       (entry.ttl ? 8 : 0) + // ttl
-      4 // version
+      4 + // version
+      8 // sequence
     );
   }
 
@@ -0,0 +1,101 @@
+/**
+ * K-way merge of sorted entry streams
+ *
+ * Each source yields entries already in the requested order. A binary heap
+ * holds the head of every source, so producing the next entry costs
+ * O(log k) and only one entry per source is buffered at a time.
+ */
+
+import { StorageEntry, Comparator } from '../../types';
+import { bytewiseComparator } from '../../utils/comparator';
+
+interface HeapItem {
+  entry: StorageEntry<any, any>;
+  source: number;
+}
+
+/**
+ * Order entries by key (descending when reversed), then newest sequence first
+ */
+export function compareForScan(reverse: boolean, comparator: Comparator = bytewiseComparator) {
+  return (a: StorageEntry<any, any>, b: StorageEntry<any, any>): number => {
+    const byKey = comparator.compare(String(a.key), String(b.key));
+    return (reverse ? -byKey : byKey) || (b.sequence ?? 0) - (a.sequence ?? 0);
+  };
+}
+
+/**
+ * Merge sources sorted by `compareForScan(reverse, comparator)`. Sources must be listed
+ * newest first: when two entries compare equal, the earlier source wins.
+ */
+export async function* mergeIterators<K, V>(
+  sources: AsyncIterator<StorageEntry<K, V>>[],
+  reverse: boolean,
+  comparator: Comparator = bytewiseComparator
+): AsyncGenerator<StorageEntry<K, V>> {
+  const compareEntries = compareForScan(reverse, comparator);
+  const heap: HeapItem[] = [];
+  const less = (a: HeapItem, b: HeapItem) =>
+    (compareEntries(a.entry, b.entry) || a.source - b.source) < 0;
+
+  const push = (item: HeapItem) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(heap[i]!, heap[parent]!)) break;
+      [heap[i], heap[parent]] = [heap[parent]!, heap[i]!];
+      i = parent;
+    }
+  };
+
+  const pop = (): HeapItem => {
+    const top = heap[0]!;
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && less(heap[left]!, heap[smallest]!)) smallest = left;
+        if (right < heap.length && less(heap[right]!, heap[smallest]!)) smallest = right;
+        if (smallest === i) break;
+        [heap[i], heap[smallest]] = [heap[smallest]!, heap[i]!];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  const advance = async (source: number) => {
+    const result = await sources[source]!.next();
+    if (!result.done) {
+      push({ entry: result.value, source });
+    }
+  };
+
+  try {
+    for (let source = 0; source < sources.length; source++) {
+      await advance(source);
+    }
+
+    while (heap.length > 0) {
+      const { entry, source } = pop();
+      yield entry as StorageEntry<K, V>;
+      await advance(source);
+    }
+  } finally {
+    // Let sources that were not drained release what they hold
+    await Promise.all(sources.map(source => source.return?.()));
+  }
+}
+
+/**
+ * Adapt an in-memory array to the source interface
+ */
+export function fromEntries<K, V>(entries: StorageEntry<K, V>[]): AsyncIterator<StorageEntry<K, V>> {
+  const iterator = entries[Symbol.iterator]();
+  return { next: () => Promise.resolve(iterator.next()) };
+}
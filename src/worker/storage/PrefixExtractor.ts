@@ -0,0 +1,78 @@
+/**
+ * Prefix extractors pick the part of a key that SSTable bloom filters index
+ * besides the whole key, so prefix scans can rule out tables without reading
+ * them.
+ *
+ * A scan for prefix P can consult the filter only when P itself has an
+ * extracted prefix: every key starting with P then extracts to the same one.
+ */
+
+import { PrefixExtractorConfig } from '../../types';
+import { ValidationError } from '../../utils/errors';
+
+export interface PrefixExtractor {
+  /** Identifies the extractor and its settings, recorded in each table */
+  readonly name: string;
+  /** The prefix of a key, or undefined when the key is outside its domain */
+  transform(key: string): string | undefined;
+}
+
+export class FixedPrefixExtractor implements PrefixExtractor {
+  readonly name: string;
+
+  constructor(private readonly length: number) {
+    this.name = `fixed:${length}`;
+  }
+
+  transform(key: string): string | undefined {
+    return key.length >= this.length ? key.slice(0, this.length) : undefined;
+  }
+}
+
+export class DelimiterPrefixExtractor implements PrefixExtractor {
+  readonly name: string;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly count: number
+  ) {
+    this.name = `delimiter:${JSON.stringify(delimiter)}:${count}`;
+  }
+
+  transform(key: string): string | undefined {
+    let end = -this.delimiter.length;
+    for (let i = 0; i < this.count; i++) {
+      end = key.indexOf(this.delimiter, end + this.delimiter.length);
+      if (end === -1) {
+        return undefined;
+      }
+    }
+    return key.slice(0, end + this.delimiter.length);
+  }
+}
+
+export function createPrefixExtractor(config?: PrefixExtractorConfig): PrefixExtractor | undefined {
+  if (!config) {
+    return undefined;
+  }
+
+  switch (config.type) {
+    case 'fixed':
+      if (!Number.isInteger(config.length) || config.length <= 0) {
+        throw new ValidationError('Prefix length must be a positive integer', { length: config.length });
+      }
+      return new FixedPrefixExtractor(config.length);
+    case 'delimiter': {
+      const count = config.count ?? 1;
+      if (!config.delimiter) {
+        throw new ValidationError('Prefix delimiter must not be empty');
+      }
+      if (!Number.isInteger(count) || count <= 0) {
+        throw new ValidationError('Prefix delimiter count must be a positive integer', { count });
+      }
+      return new DelimiterPrefixExtractor(config.delimiter, count);
+    }
+    default:
+      throw new ValidationError(`Unknown prefix extractor: ${String((config as { type: unknown }).type)}`);
+  }
+}
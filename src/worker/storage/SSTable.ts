@@ -1,53 +1,402 @@
 /**
  * Sorted String Table implementation for LSM-tree
+ *
+ * An SSTable is an immutable file laid out as:
+ *
+ *   [data block][trailer] ... [bloom block][trailer] [properties block][trailer]
+ *   [index block][trailer] [footer]
+ *
+ * Every block is followed by a 5 byte trailer holding its compression type
+ * and a CRC32 of the stored block contents plus that type byte. Blocks are
+ * compressed with the type configured for the table's level, and stored raw
+ * when compression saves too little to be worth undoing. The index block maps
+ * the last key of each data block to the block's location, so a lookup reads
+ * the index (kept in memory once the table is open) plus a single data block.
+ *
+ * The fixed-size footer holds the handles of the bloom, properties and index
+ * blocks followed by the format version and a magic number. Version 1 tables
+ * hashed their bloom filter keys differently, so their filter is not used.
  */
 
-import { StorageEntry, SSTableMetadata, BloomFilterData } from '../../types';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  StorageEntry,
+  SSTableMetadata,
+  BloomFilterStats,
+  CompressionType,
+  Comparator,
+  ValueType
+} from '../../types';
 import { BloomFilter } from './BloomFilter';
-import { StorageEngineConfig } from './StorageEngine';
-import { calculateSize } from '../../utils/serializer';
+import { BlockCache } from './BlockCache';
+import { PrefixExtractor, createPrefixExtractor } from './PrefixExtractor';
+import { Block, BlockBuilder, encodeVarint, decodeVarint } from './Block';
+import { TableFile, MemoryTableFile, DiskTableFile, writeTableFile } from './TableFile';
+import { StorageEngineConfig } from '../types';
+import { bytewiseComparator, resolveComparator, prefixSuccessor, KeyRange } from '../../utils/comparator';
+import { crc32 } from '../../utils/crc32';
+import { compress, decompress, compressionForLevel, COMPRESSION_TYPES } from '../../utils/compression';
+import { StorageError } from '../../utils/errors';
+
+const TABLE_MAGIC = Buffer.from('SNAPSST\x01', 'latin1');
+const FORMAT_VERSION = 2;
+const LEGACY_BLOOM_VERSION = 1;
+const BLOOM_HEADER_SIZE = 13;
+const BLOCK_SIZE = 4096;
+const BLOCK_TRAILER_SIZE = 5;
+const FOOTER_SIZE = 3 * 16 + 4 + TABLE_MAGIC.length;
+
+interface BlockHandle {
+  offset: number;
+  size: number;
+}
+
+interface TableProperties {
+  minKey: string;
+  maxKey: string;
+  entries: number;
+  createdAt: number;
+  /** Absent from tables written before compression was supported */
+  compression?: CompressionType;
+  rawDataSize?: number;
+  dataSize?: number;
+  /** Name of the extractor whose prefixes the bloom filter also holds */
+  prefixExtractor?: string;
+  /** Name of the comparator that ordered the keys, absent from older bytewise tables */
+  comparator?: string;
+}
+
+interface EntryRecord {
+  value: any;
+  type?: ValueType;
+  timestamp: number;
+  ttl?: number;
+  version?: number;
+  sequence?: number;
+}
 
 export class SSTable {
   private id: string;
   private level: number;
-  private entries: StorageEntry[];
   private bloomFilter?: BloomFilter;
   private metadata: SSTableMetadata;
   private config: StorageEngineConfig;
-
-  constructor(
-    index: number,
+  private indexKeys: string[];
+  private indexHandles: BlockHandle[];
+  private activeReads = 0;
+  private obsolete = false;
+  private bloomProbes = { useful: 0, useless: 0, truePositives: 0, prefixUseful: 0 };
+  /** Set only when the bloom filter indexes prefixes of the configured extractor */
+  private prefixExtractor?: PrefixExtractor;
+  private comparator: Comparator;
+
+  private constructor(
+    private readonly number: number,
     level: number,
-    entries: StorageEntry[],
-    config: StorageEngineConfig
+    private readonly file: TableFile,
+    private readonly filePath: string | undefined,
+    config: StorageEngineConfig,
+    index: { keys: string[]; handles: BlockHandle[] },
+    properties: TableProperties,
+    bloomFilter?: BloomFilter
   ) {
-    this.id = `sstable_${Date.now()}_${index}`;
+    this.id = SSTable.idFor(number);
     this.level = level;
-    this.entries = entries;
     this.config = config;
+    this.indexKeys = index.keys;
+    this.indexHandles = index.handles;
+    this.bloomFilter = bloomFilter;
+    this.comparator = resolveComparator(config.comparator);
+
+    const prefixExtractor = createPrefixExtractor(config.prefixExtractor);
+    if (bloomFilter && prefixExtractor && prefixExtractor.name === properties.prefixExtractor) {
+      this.prefixExtractor = prefixExtractor;
+    }
+
+    this.metadata = {
+      id: this.id,
+      level,
+      minKey: properties.minKey,
+      maxKey: properties.maxKey,
+      size: file.size,
+      entries: properties.entries,
+      createdAt: properties.createdAt,
+      bloomFilter: bloomFilter?.toData(),
+      compression: properties.compression ?? 'none',
+      compressionRatio: properties.rawDataSize && properties.dataSize
+        ? properties.rawDataSize / properties.dataSize
+        : 1
+    };
+  }
+
+  /**
+   * Encode entries (sorted by key, then newest sequence first) into a new table.
+   * All versions of a key are kept in the same data block.
+   * The table is written under the configured data directory, or kept in
+   * memory when there is none.
+   */
+  static async build(
+    number: number,
+    level: number,
+    entries: StorageEntry[],
+    config: StorageEngineConfig
+  ): Promise<SSTable> {
+    const chunks: Buffer[] = [];
+    const compression = compressionForLevel(config.compression, level);
+    let offset = 0;
+    let rawDataSize = 0;
+    let dataSize = 0;
+
+    const writeBlock = (contents: Buffer): BlockHandle => {
+      let type: CompressionType = 'none';
+      let stored = contents;
+      if (compression !== 'none') {
+        // A block that shrinks by less than an eighth is cheaper to read raw
+        const compressed = compress(contents, compression);
+        if (compressed.length < contents.length - contents.length / 8) {
+          type = compression;
+          stored = compressed;
+        }
+      }
+
+      const trailer = Buffer.alloc(BLOCK_TRAILER_SIZE);
+      trailer.writeUInt8(COMPRESSION_TYPES.indexOf(type), 0);
+      trailer.writeUInt32LE(crc32(Buffer.concat([stored, trailer.subarray(0, 1)])), 1);
+      chunks.push(stored, trailer);
+
+      const handle = { offset, size: stored.length };
+      offset += stored.length + BLOCK_TRAILER_SIZE;
+      return handle;
+    };
+
+    const dataBlock = new BlockBuilder();
+    const indexBlock = new BlockBuilder(1);
+    let lastKey = '';
+
+    const finishDataBlock = () => {
+      const contents = dataBlock.finish();
+      const handle = writeBlock(contents);
+      rawDataSize += contents.length;
+      dataSize += handle.size;
+      indexBlock.add(lastKey, Buffer.concat([encodeVarint(handle.offset), encodeVarint(handle.size)]));
+      dataBlock.reset();
+    };
+
+    entries.forEach((entry, i) => {
+      const key = String(entry.key);
+      const record: EntryRecord = {
+        value: entry.value,
+        type: entry.type,
+        timestamp: entry.timestamp,
+        ttl: entry.ttl,
+        version: entry.version,
+        sequence: entry.sequence
+      };
+
+      dataBlock.add(key, SSTable.toBuffer(config.serializer.serialize(record)));
+      lastKey = key;
+
+      const nextKey = i + 1 < entries.length ? String(entries[i + 1]!.key) : undefined;
+      if (dataBlock.estimatedSize() >= BLOCK_SIZE && nextKey !== key) {
+        finishDataBlock();
+      }
+    });
 
-    // Create bloom filter if enabled
+    if (!dataBlock.isEmpty()) {
+      finishDataBlock();
+    }
+
+    let bloomHandle: BlockHandle = { offset: 0, size: 0 };
+    const prefixExtractor = createPrefixExtractor(config.prefixExtractor);
     if (config.enableBloomFilter && entries.length > 0) {
-      this.bloomFilter = new BloomFilter(entries.length * 10); // 10 bits per key
-      for (const entry of entries) {
-        this.bloomFilter.add(config.serializer.serialize(entry.key) as string);
+      // Versions of a key are adjacent, and so are keys sharing a prefix,
+      // so this leaves each key and each prefix once
+      const unique = (values: Array<string | undefined>) =>
+        values.filter((value, i): value is string => value !== undefined && value !== values[i - 1]);
+      const keys = unique(entries.map(entry => String(entry.key)));
+      if (prefixExtractor) {
+        keys.push(...unique(keys.map(key => prefixExtractor.transform(key))));
+      }
+
+      const bloomFilter = BloomFilter.forKeys(
+        keys.length,
+        config.bloomFilter?.bitsPerKey ?? 10,
+        config.bloomFilter?.format ?? 'standard'
+      );
+      for (const key of keys) {
+        bloomFilter.add(key);
       }
+      bloomHandle = writeBlock(SSTable.encodeBloomFilter(bloomFilter));
     }
 
-    // Calculate metadata
-    this.metadata = this.calculateMetadata();
+    const properties: TableProperties = {
+      minKey: entries.length > 0 ? String(entries[0]!.key) : '',
+      maxKey: entries.length > 0 ? String(entries[entries.length - 1]!.key) : '',
+      entries: entries.length,
+      createdAt: Date.now(),
+      compression,
+      rawDataSize,
+      dataSize,
+      prefixExtractor: config.enableBloomFilter ? prefixExtractor?.name : undefined,
+      comparator: resolveComparator(config.comparator).name
+    };
+    const propertiesHandle = writeBlock(Buffer.from(JSON.stringify(properties), 'utf-8'));
+    const indexHandle = writeBlock(indexBlock.finish());
+
+    const footer = Buffer.alloc(FOOTER_SIZE);
+    [bloomHandle, propertiesHandle, indexHandle].forEach((handle, i) => {
+      footer.writeBigUInt64LE(BigInt(handle.offset), i * 16);
+      footer.writeBigUInt64LE(BigInt(handle.size), i * 16 + 8);
+    });
+    footer.writeUInt32LE(FORMAT_VERSION, 48);
+    TABLE_MAGIC.copy(footer, 52);
+    chunks.push(footer);
+
+    const data = Buffer.concat(chunks);
+
+    if (!config.dataDir) {
+      return SSTable.fromBuffer(number, level, data, config);
+    }
+
+    const filePath = SSTable.pathFor(config.dataDir, number);
+    await writeTableFile(filePath, data);
+    return SSTable.load(number, level, await DiskTableFile.open(filePath, config.tableCache), filePath, config);
   }
 
-  async get(key: any): Promise<any> {
-    const serializedKey = this.config.serializer.serialize(key) as string;
+  /**
+   * Open an existing table file from the configured data directory
+   */
+  static async open(number: number, level: number, config: StorageEngineConfig): Promise<SSTable> {
+    if (!config.dataDir) {
+      throw new StorageError('Cannot open an SSTable without a data directory');
+    }
 
-    // Check bloom filter first
-    if (this.bloomFilter && !this.bloomFilter.contains(serializedKey)) {
-      return undefined;
+    const filePath = SSTable.pathFor(config.dataDir, number);
+    return SSTable.load(number, level, await DiskTableFile.open(filePath, config.tableCache), filePath, config);
+  }
+
+  /**
+   * Wrap an encoded table held in memory, such as one built on another thread
+   */
+  static async fromBuffer(
+    number: number,
+    level: number,
+    data: Buffer,
+    config: StorageEngineConfig
+  ): Promise<SSTable> {
+    return SSTable.load(number, level, new MemoryTableFile(data), undefined, config);
+  }
+
+  static idFor(number: number): string {
+    return `sstable-${String(number).padStart(6, '0')}`;
+  }
+
+  static pathFor(dataDir: string, number: number): string {
+    return path.join(dataDir, `${String(number).padStart(6, '0')}.sst`);
+  }
+
+  private static async load(
+    number: number,
+    level: number,
+    file: TableFile,
+    filePath: string | undefined,
+    config: StorageEngineConfig
+  ): Promise<SSTable> {
+    try {
+      if (file.size < FOOTER_SIZE) {
+        throw new StorageError('SSTable is too small to hold a footer');
+      }
+
+      const footer = await file.read(file.size - FOOTER_SIZE, FOOTER_SIZE);
+      if (!footer.subarray(52).equals(TABLE_MAGIC)) {
+        throw new StorageError('SSTable has a bad magic number');
+      }
+
+      const version = footer.readUInt32LE(48);
+      if (version !== FORMAT_VERSION && version !== LEGACY_BLOOM_VERSION) {
+        throw new StorageError(`Unsupported SSTable format version ${version}`);
+      }
+
+      const [bloomHandle, propertiesHandle, indexHandle] = [0, 1, 2].map(i => ({
+        offset: Number(footer.readBigUInt64LE(i * 16)),
+        size: Number(footer.readBigUInt64LE(i * 16 + 8))
+      })) as [BlockHandle, BlockHandle, BlockHandle];
+
+      const properties = JSON.parse(
+        (await SSTable.readBlock(file, propertiesHandle)).toString('utf-8')
+      ) as TableProperties;
+
+      const comparator = resolveComparator(config.comparator).name;
+      const recorded = properties.comparator ?? bytewiseComparator.name;
+      if (recorded !== comparator) {
+        throw new StorageError(`SSTable was written with comparator ${recorded}, not ${comparator}`);
+      }
+
+      const index = { keys: [] as string[], handles: [] as BlockHandle[] };
+      for (const { key, value } of new Block(await SSTable.readBlock(file, indexHandle)).entries()) {
+        const blockOffset = decodeVarint(value, 0);
+        const blockSize = decodeVarint(value, blockOffset.next);
+        index.keys.push(key);
+        index.handles.push({ offset: blockOffset.value, size: blockSize.value });
+      }
+
+      const bloomFilter =
+        bloomHandle.size > 0 && version !== LEGACY_BLOOM_VERSION
+          ? SSTable.decodeBloomFilter(await SSTable.readBlock(file, bloomHandle))
+          : undefined;
+
+      return new SSTable(number, level, file, filePath, config, index, properties, bloomFilter);
+    } catch (error) {
+      await file.close();
+      throw error;
+    }
+  }
+
+  private static async readBlock(file: TableFile, handle: BlockHandle): Promise<Buffer> {
+    const raw = await file.read(handle.offset, handle.size + BLOCK_TRAILER_SIZE);
+    const expected = raw.readUInt32LE(handle.size + 1);
+
+    if (crc32(raw.subarray(0, handle.size + 1)) !== expected) {
+      throw new StorageError('SSTable block checksum mismatch', { offset: handle.offset });
+    }
+
+    const type = COMPRESSION_TYPES[raw.readUInt8(handle.size)];
+    if (!type) {
+      throw new StorageError(`Unknown SSTable block type ${raw.readUInt8(handle.size)}`, { offset: handle.offset });
     }
 
-    // Binary search
-    const entry = this.binarySearch(key);
+    return decompress(raw.subarray(0, handle.size), type);
+  }
+
+  /**
+   * [size][numHashes][keys] as 32-bit integers, a format byte, then the bits
+   */
+  private static encodeBloomFilter(filter: BloomFilter): Buffer {
+    const header = Buffer.alloc(BLOOM_HEADER_SIZE);
+    header.writeUInt32LE(filter.getSize(), 0);
+    header.writeUInt32LE(filter.getNumHashes(), 4);
+    header.writeUInt32LE(filter.getKeyCount(), 8);
+    header.writeUInt8(filter.getFormat() === 'blocked' ? 1 : 0, 12);
+    return Buffer.concat([header, filter.getBits()]);
+  }
+
+  private static decodeBloomFilter(data: Buffer): BloomFilter {
+    return BloomFilter.fromData({
+      size: data.readUInt32LE(0),
+      numHashes: data.readUInt32LE(4),
+      keys: data.readUInt32LE(8),
+      format: data.readUInt8(12) === 1 ? 'blocked' : 'standard',
+      bits: new Uint8Array(data.subarray(BLOOM_HEADER_SIZE))
+    });
+  }
+
+  private static toBuffer(data: Buffer | string): Buffer {
+    return typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+  }
+
+  async get(key: any): Promise<any> {
+    const entry = await this.findEntry(key);
     if (!entry) {
       return undefined;
     }
@@ -61,8 +410,56 @@ export class SSTable {
     return entry.value;
   }
 
+  /**
+   * Look up the newest version of a key visible at the given sequence without
+   * TTL filtering, consulting the bloom filter before reading the one data
+   * block that may hold it
+   */
+  async findEntry(
+    key: any,
+    sequence: number = Number.MAX_SAFE_INTEGER
+  ): Promise<StorageEntry | undefined> {
+    const target = String(key);
+
+    // Check bloom filter first
+    if (this.bloomFilter && !this.bloomFilter.contains(target)) {
+      this.bloomProbes.useful++;
+      return undefined;
+    }
+
+    const blockIndex = this.findBlock(target);
+    let present = false;
+    let result: StorageEntry | undefined;
+
+    if (blockIndex !== -1) {
+      const block = new Block(await this.readDataBlock(this.indexHandles[blockIndex]!));
+      for (const found of block.entriesFromKey(target, (a, b) => this.comparator.compare(a, b))) {
+        if (found.key !== target) {
+          break;
+        }
+
+        present = true;
+        const entry = this.decodeEntry(found.key, found.value);
+        if ((entry.sequence ?? 0) <= sequence) {
+          result = entry;
+          break;
+        }
+      }
+    }
+
+    if (this.bloomFilter) {
+      if (present) {
+        this.bloomProbes.truePositives++;
+      } else {
+        this.bloomProbes.useless++;
+      }
+    }
+
+    return result;
+  }
+
   async getEntry(key: any): Promise<StorageEntry | undefined> {
-    const entry = this.binarySearch(key);
+    const entry = await this.findEntry(key);
     if (!entry) {
       return undefined;
     }
@@ -80,7 +477,16 @@ export class SSTable {
     const now = Date.now();
     const regex = pattern ? this.patternToRegex(pattern) : null;
 
-    for (const entry of this.entries) {
+    let lastKey: string | undefined;
+
+    for (const entry of await this.getEntries()) {
+      // Only the newest version of each key counts
+      const keyStr = String(entry.key);
+      if (keyStr === lastKey) {
+        continue;
+      }
+      lastKey = keyStr;
+
       // Skip expired entries
       if (entry.ttl && entry.ttl < now) {
         continue;
@@ -91,7 +497,6 @@ export class SSTable {
         continue;
       }
 
-      const keyStr = String(entry.key);
       if (!regex || regex.test(keyStr)) {
         keys.push(entry.key);
       }
@@ -100,12 +505,150 @@ export class SSTable {
     return keys;
   }
 
+  /**
+   * Whether the table may hold keys starting with the prefix, judged from its
+   * key range (in bytewise order only) and, when it indexes prefixes, its
+   * bloom filter
+   */
+  mayContainPrefix(prefix: string): boolean {
+    const end = prefixSuccessor(prefix);
+    if (
+      this.comparator === bytewiseComparator &&
+      (this.comparator.compare(this.metadata.maxKey, prefix) < 0 ||
+        (end !== undefined && this.comparator.compare(this.metadata.minKey, end) >= 0))
+    ) {
+      return false;
+    }
+
+    const extracted = this.prefixExtractor?.transform(prefix);
+    if (extracted !== undefined && !this.bloomFilter!.contains(extracted)) {
+      this.bloomProbes.prefixUseful++;
+      return false;
+    }
+
+    return true;
+  }
+
   getMetadata(): SSTableMetadata {
-    return { ...this.metadata };
+    return { ...this.metadata, bloomFilterStats: this.getBloomFilterStats() };
+  }
+
+  private getBloomFilterStats(): BloomFilterStats | undefined {
+    if (!this.bloomFilter) {
+      return undefined;
+    }
+
+    const { useful, useless, truePositives, prefixUseful } = this.bloomProbes;
+    return {
+      useful,
+      useless,
+      truePositives,
+      prefixUseful,
+      falsePositiveRate: useful + useless > 0 ? useless / (useful + useless) : 0,
+      expectedFalsePositiveRate: this.bloomFilter.getFalsePositiveRate()
+    };
   }
 
-  getEntries(): StorageEntry[] {
-    return [...this.entries];
+  /**
+   * Read every stored version in key order, newest first within a key
+   */
+  async getEntries(): Promise<StorageEntry[]> {
+    const entries: StorageEntry[] = [];
+
+    for (const handle of this.indexHandles) {
+      const block = new Block(await this.readDataBlock(handle, false));
+      for (const { key, value } of block.entries()) {
+        entries.push(this.decodeEntry(key, value));
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Stream the versions of keys within the range in scan order, reading one
+   * data block at a time. Callers must hold a reference (see `ref`) while
+   * iterating so the file is not released underneath them.
+   */
+  async *iterate(range: KeyRange, reverse: boolean = false): AsyncGenerator<StorageEntry> {
+    const { lower, upper } = range;
+
+    if (!reverse) {
+      const start = lower === undefined ? 0 : this.findBlock(lower);
+      if (start === -1) {
+        return;
+      }
+
+      for (let i = start; i < this.indexHandles.length; i++) {
+        const block = new Block(await this.readDataBlock(this.indexHandles[i]!));
+        const entries = i === start && lower !== undefined ? block.entriesFromKey(lower, (a, b) => this.comparator.compare(a, b)) : block.entries();
+
+        for (const { key, value } of entries) {
+          if (upper !== undefined && this.comparator.compare(key, upper) >= 0) {
+            return;
+          }
+          yield this.decodeEntry(key, value);
+        }
+      }
+      return;
+    }
+
+    // The first block whose last key reaches the upper bound is the last one
+    // that can hold keys below it
+    const found = upper === undefined ? -1 : this.findBlock(upper);
+    const start = found === -1 ? this.indexHandles.length - 1 : found;
+
+    for (let i = start; i >= 0; i--) {
+      const block = new Block(await this.readDataBlock(this.indexHandles[i]!));
+
+      // Reverse the order of keys but keep each key's versions newest first
+      const groups: Array<Array<{ key: string; value: Buffer }>> = [];
+      for (const entry of block.entries()) {
+        const group = groups[groups.length - 1];
+        if (group && group[0]!.key === entry.key) {
+          group.push(entry);
+        } else {
+          groups.push([entry]);
+        }
+      }
+
+      for (const group of groups.reverse()) {
+        const key = group[0]!.key;
+        if (upper !== undefined && this.comparator.compare(key, upper) >= 0) {
+          continue;
+        }
+        if (lower !== undefined && this.comparator.compare(key, lower) < 0) {
+          return;
+        }
+
+        for (const { value } of group) {
+          yield this.decodeEntry(key, value);
+        }
+      }
+    }
+  }
+
+  /**
+   * Keep the file open until the matching `unref`, even if the table is
+   * destroyed in the meantime
+   */
+  ref(): void {
+    this.activeReads++;
+  }
+
+  async unref(): Promise<void> {
+    this.activeReads--;
+    if (this.obsolete && this.activeReads === 0) {
+      await this.release();
+    }
+  }
+
+  getId(): string {
+    return this.id;
+  }
+
+  getNumber(): number {
+    return this.number;
   }
 
   getLevel(): number {
@@ -120,65 +663,108 @@ export class SSTable {
   overlaps(other: SSTable): boolean {
     const otherMeta = other.getMetadata();
     return !(
-      this.metadata.maxKey < otherMeta.minKey ||
-      this.metadata.minKey > otherMeta.maxKey
+      this.comparator.compare(this.metadata.maxKey, otherMeta.minKey) < 0 ||
+      this.comparator.compare(this.metadata.minKey, otherMeta.maxKey) > 0
     );
   }
 
-  private binarySearch(key: any): StorageEntry | undefined {
-    let left = 0;
-    let right = this.entries.length - 1;
-    const targetKey = String(key);
+  /**
+   * Read the whole encoded table
+   */
+  async contents(): Promise<Buffer> {
+    this.ref();
+    try {
+      return await this.file.read(0, this.file.size);
+    } finally {
+      await this.unref();
+    }
+  }
 
-    while (left <= right) {
-      const mid = Math.floor((left + right) / 2);
-      const midKey = String(this.entries[mid].key);
+  /**
+   * Release the underlying file without deleting it
+   */
+  async close(): Promise<void> {
+    await this.file.close();
+  }
 
-      if (midKey === targetKey) {
-        return this.entries[mid];
+  /**
+   * Mark the table as no longer part of the tree. The file is closed and
+   * deleted once in-flight reads have finished.
+   */
+  async destroy(): Promise<void> {
+    this.obsolete = true;
+    if (this.activeReads === 0) {
+      await this.release();
+    }
+  }
+
+  private async release(): Promise<void> {
+    await this.file.close();
+    if (this.filePath) {
+      for (const handle of this.indexHandles) {
+        this.config.blockCache?.erase(BlockCache.keyFor(this.number, handle.offset));
       }
+      await fs.rm(this.filePath, { force: true });
+    }
+  }
 
-      if (midKey < targetKey) {
-        left = mid + 1;
-      } else {
+  /**
+   * Index keys are the last key of each block, so the first index key that is
+   * >= the target names the only block that can contain it
+   */
+  private findBlock(target: string): number {
+    let left = 0;
+    let right = this.indexKeys.length - 1;
+    let result = -1;
+
+    while (left <= right) {
+      const mid = (left + right) >>> 1;
+
+      if (this.comparator.compare(this.indexKeys[mid]!, target) >= 0) {
+        result = mid;
         right = mid - 1;
+      } else {
+        left = mid + 1;
       }
     }
 
-    return undefined;
+    return result;
   }
 
-  private calculateMetadata(): SSTableMetadata {
-    let totalSize = 0;
-    let minKey = '';
-    let maxKey = '';
-
-    if (this.entries.length > 0) {
-      minKey = String(this.entries[0].key);
-      maxKey = String(this.entries[this.entries.length - 1].key);
+  /**
+   * Read a data block through the block cache when the table is on disk.
+   * Bulk reads pass fillCache = false so they do not evict hot blocks.
+   */
+  private async readDataBlock(handle: BlockHandle, fillCache = true): Promise<Buffer> {
+    const cache = this.filePath ? this.config.blockCache : undefined;
+    const cacheKey = BlockCache.keyFor(this.number, handle.offset);
+    const cached = cache?.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
 
-      for (const entry of this.entries) {
-        totalSize += calculateSize(entry, this.config.serializer);
+    this.ref();
+    try {
+      const block = await SSTable.readBlock(this.file, handle);
+      if (fillCache) {
+        cache?.insert(cacheKey, block);
       }
+      return block;
+    } finally {
+      await this.unref();
     }
+  }
 
-    const bloomFilterData: BloomFilterData | undefined = this.bloomFilter
-      ? {
-          bits: this.bloomFilter.getBits(),
-          numHashes: this.bloomFilter.getNumHashes(),
-          size: this.bloomFilter.getSize()
-        }
-      : undefined;
-
+  private decodeEntry(key: string, value: Buffer): StorageEntry {
+    const record = this.config.serializer.deserialize<EntryRecord>(value);
     return {
-      id: this.id,
-      level: this.level,
-      minKey,
-      maxKey,
-      size: totalSize,
-      entries: this.entries.length,
-      createdAt: Date.now(),
-      bloomFilter: bloomFilterData
+      key,
+      value: record.value,
+      type: record.type ?? undefined,
+      timestamp: record.timestamp,
+      ttl: record.ttl ?? undefined,
+      version: record.version ?? undefined,
+      sequence: record.sequence ?? undefined
     };
   }
 
@@ -187,7 +773,7 @@ export class SSTable {
       .replace(/[.+^${}()|[\]\\]/g, '\\$&')
       .replace(/\*/g, '.*')
       .replace(/\?/g, '.');
-    
+
     return new RegExp(`^${regexPattern}$`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+/**
+ * Ordered map from string keys to values, kept as a skiplist
+ *
+ * Each node is linked at a random number of levels, a quarter of the nodes at
+ * each level reaching the next one, so lookups and inserts take O(log n) and
+ * iteration is a walk along the bottom level. The bottom level is also linked
+ * backwards for reverse scans.
+ */
+
+import { bytewiseCompare, KeyRange } from '../../utils/comparator';
+
+const MAX_HEIGHT = 12;
+const BRANCHING = 4;
+/** Estimated bytes of a node besides its key and links */
+const NODE_OVERHEAD = 32;
+const POINTER_SIZE = 8;
+
+interface Node<T> {
+  key: string;
+  value: T;
+  next: Array<Node<T> | undefined>;
+  prev?: Node<T>;
+}
+
+export class SkipList<T> {
+  private head: Node<T>;
+  private tail?: Node<T>;
+  private height = 1;
+  private count = 0;
+  private memoryUsage = 0;
+
+  constructor(private readonly compare: (a: string, b: string) => number = bytewiseCompare) {
+    this.head = { key: '', value: undefined as T, next: new Array<Node<T> | undefined>(MAX_HEIGHT) };
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Bytes held by the nodes: keys, links and per-node bookkeeping
+   */
+  getMemoryUsage(): number {
+    return this.memoryUsage;
+  }
+
+  get(key: string): T | undefined {
+    const node = this.findGreaterOrEqual(key);
+    return node && this.compare(node.key, key) === 0 ? node.value : undefined;
+  }
+
+  /**
+   * Insert the key, or replace its value when already present
+   */
+  set(key: string, value: T): void {
+    const update = new Array<Node<T>>(MAX_HEIGHT);
+    const found = this.findGreaterOrEqual(key, update);
+
+    if (found && this.compare(found.key, key) === 0) {
+      found.value = value;
+      return;
+    }
+
+    const height = this.randomHeight();
+    if (height > this.height) {
+      for (let level = this.height; level < height; level++) {
+        update[level] = this.head;
+      }
+      this.height = height;
+    }
+
+    const node: Node<T> = { key, value, next: new Array<Node<T> | undefined>(height) };
+    for (let level = 0; level < height; level++) {
+      node.next[level] = update[level]!.next[level];
+      update[level]!.next[level] = node;
+    }
+
+    node.prev = update[0] === this.head ? undefined : update[0];
+    if (node.next[0]) {
+      node.next[0].prev = node;
+    } else {
+      this.tail = node;
+    }
+
+    this.count++;
+    this.memoryUsage += Buffer.byteLength(key, 'utf-8') + NODE_OVERHEAD + height * POINTER_SIZE;
+  }
+
+  /**
+   * Every key and value in ascending key order
+   */
+  *entries(): Generator<[string, T]> {
+    for (let node = this.head.next[0]; node; node = node.next[0]) {
+      yield [node.key, node.value];
+    }
+  }
+
+  /**
+   * Keys within the range and their values, ascending or descending
+   */
+  *range(range: KeyRange, reverse: boolean = false): Generator<[string, T]> {
+    const { lower, upper } = range;
+
+    if (!reverse) {
+      let node = lower === undefined ? this.head.next[0] : this.findGreaterOrEqual(lower);
+      for (; node; node = node.next[0]) {
+        if (upper !== undefined && this.compare(node.key, upper) >= 0) {
+          return;
+        }
+        yield [node.key, node.value];
+      }
+      return;
+    }
+
+    // Start from the last key below the upper bound
+    let node: Node<T> | undefined;
+    if (upper === undefined) {
+      node = this.tail;
+    } else {
+      const atOrAbove = this.findGreaterOrEqual(upper);
+      node = atOrAbove ? atOrAbove.prev : this.tail;
+    }
+
+    for (; node; node = node.prev) {
+      if (lower !== undefined && this.compare(node.key, lower) < 0) {
+        return;
+      }
+      yield [node.key, node.value];
+    }
+  }
+
+  /**
+   * The first node whose key is >= the target. When given, `update` receives
+   * the last node before the target at every level.
+   */
+  private findGreaterOrEqual(key: string, update?: Array<Node<T>>): Node<T> | undefined {
+    let node = this.head;
+
+    for (let level = this.height - 1; level >= 0; level--) {
+      let next = node.next[level];
+      while (next && this.compare(next.key, key) < 0) {
+        node = next;
+        next = node.next[level];
+      }
+      if (update) {
+        update[level] = node;
+      }
+    }
+
+    return node.next[0];
+  }
+
+  private randomHeight(): number {
+    let height = 1;
+    while (height < MAX_HEIGHT && Math.random() * BRANCHING < 1) {
+      height++;
+    }
+    return height;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Sequence-number ordering and snapshot bookkeeping for multi-version storage
+ *
+ * Every write is stamped with a monotonically increasing sequence number. The
+ * memtable and SSTables keep several versions of a key, ordered by key and
+ * then newest sequence first. A snapshot pins a sequence: reads through it
+ * see, for each key, the newest version whose sequence is not above it.
+ */
+
+import { StorageEntry, Comparator } from '../../types';
+import { bytewiseComparator } from '../../utils/comparator';
+
+/**
+ * Order entries by key, then newest sequence first
+ */
+export function compareInternal(comparator: Comparator = bytewiseComparator) {
+  return (a: StorageEntry<any, any>, b: StorageEntry<any, any>): number =>
+    comparator.compare(String(a.key), String(b.key)) || (b.sequence ?? 0) - (a.sequence ?? 0);
+}
+
+/**
+ * Whether an entry hides the key: a tombstone or an expired value
+ */
+export function isDeleted(entry: StorageEntry<any, any>, now: number = Date.now()): boolean {
+  return entry.value === null || Boolean(entry.ttl && entry.ttl < now);
+}
+
+/**
+ * Keep the newest version of a key plus every older version that is still the
+ * newest one visible to some snapshot
+ * @param versions Versions of one key, newest first
+ * @param snapshots Pinned sequences in ascending order
+ */
+export function retainVisibleVersions<T extends StorageEntry<any, any>>(
+  versions: T[],
+  snapshots: readonly number[]
+): T[] {
+  const retained = versions.slice(0, 1);
+
+  for (let i = 1; i < versions.length; i++) {
+    const sequence = versions[i]!.sequence ?? 0;
+    const supersededAt = versions[i - 1]!.sequence ?? 0;
+
+    if (snapshots.some(snapshot => snapshot >= sequence && snapshot < supersededAt)) {
+      retained.push(versions[i]!);
+    }
+  }
+
+  return retained;
+}
+
+/**
+ * Drop versions no reader can observe from entries sorted by `compareInternal`.
+ * With `dropDeleted`, deleted versions at the tail of each key are removed too,
+ * which is only safe when no older version of the key exists elsewhere.
+ */
+export function collapseVersions<T extends StorageEntry<any, any>>(
+  entries: T[],
+  snapshots: readonly number[],
+  dropDeleted: boolean
+): T[] {
+  const result: T[] = [];
+  const now = Date.now();
+  let start = 0;
+
+  while (start < entries.length) {
+    const key = String(entries[start]!.key);
+    let end = start + 1;
+    while (end < entries.length && String(entries[end]!.key) === key) {
+      end++;
+    }
+
+    const versions = retainVisibleVersions(entries.slice(start, end), snapshots);
+    while (dropDeleted && versions.length > 0 && isDeleted(versions[versions.length - 1]!, now)) {
+      versions.pop();
+    }
+
+    result.push(...versions);
+    start = end;
+  }
+
+  return result;
+}
+
+/**
+ * Reference-counted set of sequences pinned by open snapshots
+ */
+export class SnapshotList {
+  private sequences: number[] = [];
+
+  acquire(sequence: number): void {
+    // Snapshots are taken at the latest sequence, so this stays sorted
+    let index = this.sequences.length;
+    while (index > 0 && this.sequences[index - 1]! > sequence) {
+      index--;
+    }
+    this.sequences.splice(index, 0, sequence);
+  }
+
+  release(sequence: number): void {
+    const index = this.sequences.indexOf(sequence);
+    if (index !== -1) {
+      this.sequences.splice(index, 1);
+    }
+  }
+
+  /**
+   * Pinned sequences in ascending order, with duplicates
+   */
+  list(): readonly number[] {
+    return this.sequences;
+  }
+
+  get size(): number {
+    return this.sequences.length;
+  }
+}
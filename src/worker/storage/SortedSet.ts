@@ -0,0 +1,224 @@
+/**
+ * Members ordered by score, the value of a sorted set key
+ *
+ * A skiplist orders the members by score, then bytewise by member, and a map
+ * holds each member's score. Every link records how many nodes it spans, so
+ * besides lookups by member, finding a member's rank, the member at a rank or
+ * the first member past a score takes O(log n).
+ *
+ * Commands change a sorted set in place; the simple backend changes a
+ * `clone()` of one a snapshot holds. The set serializes as `[member, score]`
+ * pairs in order, which `from()` reads back.
+ */
+
+import { bytewiseCompare } from '../../utils/comparator';
+
+const MAX_HEIGHT = 32;
+const BRANCHING = 4;
+
+interface Node {
+  member: string;
+  score: number;
+  next: Array<Node | undefined>;
+  /** Number of nodes each link moves forward by, counting the one it reaches */
+  span: number[];
+  prev?: Node;
+}
+
+export class SortedSet {
+  private head: Node = { member: '', score: -Infinity, next: [], span: [] };
+  private height = 1;
+  private scores = new Map<string, number>();
+
+  static from(pairs: Iterable<readonly [string, number]>): SortedSet {
+    const set = new SortedSet();
+    for (const [member, score] of pairs) {
+      set.add(member, score);
+    }
+    return set;
+  }
+
+  get size(): number {
+    return this.scores.size;
+  }
+
+  score(member: string): number | undefined {
+    return this.scores.get(member);
+  }
+
+  /**
+   * Add the member, or move it to its new score
+   */
+  add(member: string, score: number): void {
+    const current = this.scores.get(member);
+    if (current === score) {
+      return;
+    }
+    if (current !== undefined) {
+      this.unlink(member, current);
+    }
+    this.insert(member, score);
+    this.scores.set(member, score);
+  }
+
+  remove(member: string): boolean {
+    const score = this.scores.get(member);
+    if (score === undefined) {
+      return false;
+    }
+    this.unlink(member, score);
+    this.scores.delete(member);
+    return true;
+  }
+
+  /**
+   * Position of the member counting from the lowest score, from 0
+   */
+  rank(member: string): number | undefined {
+    const score = this.scores.get(member);
+    if (score === undefined) {
+      return undefined;
+    }
+    return this.seek(node => compareNodes(node, score, member) < 0).rank;
+  }
+
+  /**
+   * Members from a rank onwards, towards higher scores or lower ones
+   */
+  *fromRank(rank: number, reverse: boolean = false): Generator<[string, number]> {
+    let node = this.seek((_, nodeRank) => nodeRank < rank).node;
+    for (; node; node = reverse ? node.prev : node.next[0]) {
+      yield [node.member, node.score];
+    }
+  }
+
+  /**
+   * Rank of the first member for which `before` is false. `before` must hold
+   * for a prefix of the members in order, such as those below a score.
+   */
+  rankWhere(before: (member: string, score: number) => boolean): number {
+    return this.seek(node => before(node.member, node.score)).rank;
+  }
+
+  *entries(): Generator<[string, number]> {
+    yield* this.fromRank(0);
+  }
+
+  clone(): SortedSet {
+    return SortedSet.from(this.entries());
+  }
+
+  toJSON(): Array<[string, number]> {
+    return [...this.entries()];
+  }
+
+  /**
+   * Walk forward past the nodes `before` holds for
+   * @returns The first node it does not hold for, and its rank
+   */
+  private seek(before: (node: Node, rank: number) => boolean): { node?: Node; rank: number } {
+    let node = this.head;
+    let rank = 0;
+
+    for (let level = this.height - 1; level >= 0; level--) {
+      let next = node.next[level];
+      while (next && before(next, rank + node.span[level]! - 1)) {
+        rank += node.span[level]!;
+        node = next;
+        next = node.next[level];
+      }
+    }
+    return { node: node.next[0], rank };
+  }
+
+  private insert(member: string, score: number): void {
+    const update = new Array<Node>(MAX_HEIGHT);
+    const rank = new Array<number>(MAX_HEIGHT);
+    let node = this.head;
+
+    for (let level = this.height - 1; level >= 0; level--) {
+      rank[level] = level === this.height - 1 ? 0 : rank[level + 1]!;
+      let next = node.next[level];
+      while (next && compareNodes(next, score, member) < 0) {
+        rank[level]! += node.span[level]!;
+        node = next;
+        next = node.next[level];
+      }
+      update[level] = node;
+    }
+
+    const height = this.randomHeight();
+    if (height > this.height) {
+      for (let level = this.height; level < height; level++) {
+        rank[level] = 0;
+        update[level] = this.head;
+        this.head.span[level] = this.size;
+      }
+      this.height = height;
+    }
+
+    const inserted: Node = { member, score, next: [], span: [] };
+    for (let level = 0; level < height; level++) {
+      const before = update[level]!;
+      inserted.next[level] = before.next[level];
+      before.next[level] = inserted;
+      inserted.span[level] = (before.span[level] ?? 0) - (rank[0]! - rank[level]!);
+      before.span[level] = rank[0]! - rank[level]! + 1;
+    }
+    for (let level = height; level < this.height; level++) {
+      update[level]!.span[level]!++;
+    }
+
+    inserted.prev = update[0] === this.head ? undefined : update[0];
+    if (inserted.next[0]) {
+      inserted.next[0].prev = inserted;
+    }
+  }
+
+  private unlink(member: string, score: number): void {
+    const update = new Array<Node>(MAX_HEIGHT);
+    let node = this.head;
+
+    for (let level = this.height - 1; level >= 0; level--) {
+      let next = node.next[level];
+      while (next && compareNodes(next, score, member) < 0) {
+        node = next;
+        next = node.next[level];
+      }
+      update[level] = node;
+    }
+
+    const removed = node.next[0]!;
+    for (let level = 0; level < this.height; level++) {
+      const before = update[level]!;
+      if (before.next[level] === removed) {
+        before.span[level]! += removed.span[level]! - 1;
+        before.next[level] = removed.next[level];
+      } else {
+        before.span[level]!--;
+      }
+    }
+
+    if (removed.next[0]) {
+      removed.next[0].prev = removed.prev;
+    }
+    while (this.height > 1 && !this.head.next[this.height - 1]) {
+      this.height--;
+    }
+  }
+
+  private randomHeight(): number {
+    let height = 1;
+    while (height < MAX_HEIGHT && Math.random() * BRANCHING < 1) {
+      height++;
+    }
+    return height;
+  }
+}
+
+/**
+ * Order of a node against a score and member: by score, then bytewise
+ */
+function compareNodes(node: Node, score: number, member: string): number {
+  return node.score !== score ? node.score - score : bytewiseCompare(node.member, member);
+}
@@ -0,0 +1,71 @@
+/**
+ * LRU cache of the sorted sets zset keys hold, bounded by their total number
+ * of members
+ *
+ * The LSM engine stores each member's score under its own key, so answering
+ * rank and range queries takes the whole set in score order. A cached set is
+ * tagged with the version of the key it was read at and only served for that
+ * version; writes change it in place and tag it with the version they made.
+ */
+
+import { SortedSet } from './SortedSet';
+
+interface CachedSet {
+  version: number;
+  zset: SortedSet;
+  /** Members counted against the capacity, as of the last insert */
+  size: number;
+}
+
+export class SortedSetCache {
+  // Map iteration follows insertion order, so the first key is the least
+  // recently used one
+  private sets = new Map<string, CachedSet>();
+  private usage = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  /**
+   * The sorted set cached for a key, if it was cached at this version
+   */
+  get(key: string, version: number): SortedSet | undefined {
+    const cached = this.sets.get(key);
+    if (!cached || cached.version !== version) {
+      return undefined;
+    }
+
+    this.sets.delete(key);
+    this.sets.set(key, cached);
+    return cached.zset;
+  }
+
+  insert(key: string, version: number, zset: SortedSet): void {
+    this.erase(key);
+    // A set larger than the whole cache would only evict everything else
+    if (zset.size > this.capacity) {
+      return;
+    }
+
+    this.sets.set(key, { version, zset, size: zset.size });
+    this.usage += zset.size;
+
+    for (const [oldestKey, oldest] of this.sets) {
+      if (this.usage <= this.capacity) break;
+      this.sets.delete(oldestKey);
+      this.usage -= oldest.size;
+    }
+  }
+
+  erase(key: string): void {
+    const cached = this.sets.get(key);
+    if (cached) {
+      this.sets.delete(key);
+      this.usage -= cached.size;
+    }
+  }
+
+  clear(): void {
+    this.sets.clear();
+    this.usage = 0;
+  }
+}
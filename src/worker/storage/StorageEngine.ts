@@ -5,309 +5,3025 @@
 import { WAL } from './WAL';
 import { Memtable } from './Memtable';
 import { SSTable } from './SSTable';
-import { StorageEngineConfig } from '../types';
-import { StorageStats, CompactionStats, StorageEntry } from '../../types';
-import { StorageError } from '../../utils/errors';
-import { createLogger } from '../../utils/logger';
+import { BlockCache } from './BlockCache';
+import { TableCache } from './TableFile';
+import { createPrefixExtractor } from './PrefixExtractor';
+import { Manifest } from './Manifest';
+import { SnapshotList, collapseVersions } from './Snapshot';
+import { SortedSet } from './SortedSet';
+import { SortedSetCache } from './SortedSetCache';
+import { Deque } from './Deque';
+import { copyGroups, PendingEntry, plainStream, StreamMeta } from './Stream';
+import { mergeIterators, fromEntries } from './MergingIterator';
+import { CompactionEngine, CompactionResult } from '../compaction/CompactionEngine';
+import { createCompactionStrategy } from '../compaction/CompactionStrategy';
+import { StorageEngineConfig, WALEntry } from '../types';
+import {
+  StorageBackend,
+  ReadSnapshot,
+  ScanOptions,
+  ScanEntry,
+  ScanKey,
+  StorageStats,
+  CompactionStats,
+  CompactionTotals,
+  CompactionPick,
+  CompactionStrategy,
+  StorageEntry,
+  SSTableMetadata,
+  Comparator,
+  BatchOperation,
+  ValueWithMeta,
+  ValueType,
+  HashFields,
+  HashScanResult,
+  MemberScanOptions,
+  ListEnd,
+  ListPosition,
+  SetScanResult,
+  StreamConsumerInfo,
+  StreamEntry,
+  StreamGroupInfo,
+  StreamInfo,
+  StreamReadResult,
+  XAddOptions,
+  XAutoClaimResult,
+  XPendingEntry,
+  XPendingOptions,
+  XPendingSummary,
+  ZAddOptions,
+  ZRangeBound,
+  ZRangeOptions,
+  ZSetMembers,
+  ZSetScanResult,
+  ZStoreOptions
+} from '../../types';
+import {
+  INTERNAL_KEY_PREFIX,
+  isInternalKey,
+  KeyRange,
+  prefixSuccessor,
+  resolveComparator,
+  resolveKeyRange
+} from '../../utils/comparator';
+import { validateCompression } from '../../utils/compression';
+import { scanMembers } from '../../utils/cursor';
+import {
+  addScores,
+  applyScores,
+  checkType,
+  combineZSets,
+  countScores,
+  incrementField,
+  heldMembers,
+  incrementScore,
+  insertionIndex,
+  listIndex,
+  listRange,
+  matchingIndexes,
+  plainCollection,
+  popScores,
+  randomMembers,
+  zsetRange
+} from '../../utils/datatypes';
+import {
+  addGroup,
+  claimEntry,
+  compareStreamIds,
+  consumersInfo,
+  deliverEntry,
+  dropPending,
+  findConsumer,
+  findGroup,
+  groupIndex,
+  groupsInfo,
+  nextStreamId,
+  parseStreamId,
+  pendingInfo,
+  pendingMatches,
+  pendingSummary,
+  StreamId,
+  streamIdOf,
+  streamIdRange,
+  streamInfo,
+  touchConsumer
+} from '../../utils/streams';
+import {
+  BusyGroupError,
+  KeyNotFoundError,
+  NoGroupError,
+  StorageError,
+  ValidationError,
+  VersionConflictError,
+  WrongTypeError
+} from '../../utils/errors';
+import { generateId } from '../../utils/id-generator';
+import { logger } from '../../utils/logger';
 
-export class StorageEngine<K = string, V = any> {
+const MAX_LEVELS = 7;
+const LATEST = Number.MAX_SAFE_INTEGER;
+const SLOWDOWN_DELAY_MS = 1;
+/** Compactions INFO lists; older ones only count towards the totals */
+const RECENT_COMPACTIONS = 100;
+
+/** What a caller decides about a write; logging fills in the rest */
+type LoggedWrite<K, V> = Pick<WALEntry<K, V>, 'operation' | 'key' | 'value' | 'type' | 'ttl'>;
+
+/**
+ * Give a key the TTL, keeping what it holds. Read `current` in the same
+ * tick as the write, or a write that came in between is undone.
+ */
+function expireWrite<K, V>(
+  key: K,
+  current: Pick<StorageEntry<K, V>, 'value' | 'type'>,
+  ttl: number
+): LoggedWrite<K, V> {
+  return { operation: 'EXPIRE', key, value: current.value as V, type: current.type, ttl };
+}
+
+/**
+ * What the WAL keeps of a write. An EXPIRE record carries only the TTL, and
+ * replay takes the value from what the key holds by then.
+ */
+function walRecord<K, V>(entry: WALEntry<K, V>): WALEntry<K, V> {
+  if (entry.operation !== 'EXPIRE') {
+    return entry;
+  }
+  const { id, timestamp, operation, key, ttl, sequence } = entry;
+  return { id, timestamp, operation, key, ttl, sequence };
+}
+
+/** What a collection key holds itself, its elements being stored under their own keys */
+interface CollectionMeta {
+  /** Sequence of the write that created the collection */
+  generation: number;
+  size: number;
+  /** Index of a list's first element, the others following it in order */
+  head?: number;
+}
+
+/** A change to some elements of a collection, and what the command returns */
+interface ElementChange<T> {
+  result: T;
+  /** Elements to store, each with what it holds, or undefined to delete it */
+  elements?: Array<[element: string, value: unknown]>;
+  /** The metadata after the change, when it differs */
+  meta?: CollectionMeta;
+}
+
+/** A change to the elements of a list, leaving what the command returns to the caller */
+type ListChange = Required<Omit<ElementChange<unknown>, 'result'>>;
+
+/** What a stream key holds itself, its entries and pending entries being stored under their own keys */
+type StoredStream = CollectionMeta & StreamMeta;
+
+/** A change to a stream, with the stream's metadata after it unless nothing changed */
+type StreamChange<T> = Omit<ElementChange<T>, 'meta'> & { stream?: StoredStream };
+
+/** Collection types storing their elements under their own keys */
+const ELEMENT_TYPES: ReadonlySet<ValueType | undefined> = new Set<ValueType>(['hash', 'list', 'set', 'zset', 'stream']);
+
+/** Index of a new list's first element, mid-way so the list can grow either way */
+const LIST_START = 2 ** 52;
+
+/** Members of the sorted sets kept in memory for rank and range queries */
+const ZSET_CACHE_MEMBERS = 1_000_000;
+
+/**
+ * Where the elements of a collection are stored: under internal keys made of
+ * the generation of the collection and the element, so it is changed and
+ * read an element at a time. A collection created again after the key went
+ * away gets a new generation, which hides any element left behind.
+ */
+function elementPrefix(generation: number): string {
+  return `${INTERNAL_KEY_PREFIX}${String(generation).padStart(16, '0')}:`;
+}
+
+/**
+ * The element a list stores at an index. Indexes have a fixed width, so
+ * elements sort in list order.
+ */
+function listElement(index: number): string {
+  return String(index).padStart(16, '0');
+}
+
+/**
+ * The element a stream stores an entry under. IDs have a fixed width, so
+ * entries sort in ID order.
+ */
+function entryElement(id: string | StreamId): string {
+  return `e${idElement(id)}`;
+}
+
+/**
+ * What the elements a stream stores the pending entries of a group under
+ * start with, the group going by its index among the stream's groups
+ */
+function pendingPrefix(group: number): string {
+  return `p${group}:`;
+}
+
+function pendingElement(group: number, id: string | StreamId): string {
+  return `${pendingPrefix(group)}${idElement(id)}`;
+}
+
+function idElement(id: string | StreamId): string {
+  const [ms, seq] = typeof id === 'string' ? parseStreamId(id) : id;
+  return `${String(ms).padStart(16, '0')}-${String(seq).padStart(16, '0')}`;
+}
+
+/**
+ * A bound just past an element, for ranges that include it
+ */
+function elementAfter(element: string): string {
+  return `${element}\u0000`;
+}
+
+/**
+ * Push values one by one onto an end of a list
+ */
+function pushElements(list: CollectionMeta, values: unknown[], end: ListEnd): ListChange {
+  const head = list.head ?? LIST_START;
+  const elements = values.map((value, i): [string, unknown] => [
+    listElement(end === 'left' ? head - 1 - i : head + list.size + i),
+    value
+  ]);
+  const size = list.size + values.length;
+  return { elements, meta: { ...list, head: end === 'left' ? head - values.length : head, size } };
+}
+
+/**
+ * Keep only the elements of a list from `from` up to, not including, `to`
+ */
+function trimElements(list: CollectionMeta, from: number, to: number): ListChange {
+  const head = list.head ?? LIST_START;
+  const elements: Array<[string, unknown]> = [];
+  for (let i = 0; i < list.size; i++) {
+    if (i < from || i >= to) {
+      elements.push([listElement(head + i), undefined]);
+    }
+  }
+  return { elements, meta: { ...list, head: head + from, size: to - from } };
+}
+
+/**
+ * Pop `count` elements off an end of a list, which holds at least as many
+ */
+function popElements(list: CollectionMeta, count: number, end: ListEnd): ListChange {
+  return end === 'left' ? trimElements(list, count, list.size) : trimElements(list, 0, list.size - count);
+}
+
+/**
+ * Replace the elements of a list from `from` up to `to` with others. The
+ * elements on the shorter side of them move to make room or close the gap,
+ * so the change rewrites no more than half the list.
+ * @param values Every element of the list
+ */
+function spliceElements(
+  list: CollectionMeta,
+  values: unknown[],
+  from: number,
+  to: number,
+  replacement: unknown[]
+): ListChange {
+  const head = list.head!;
+  const spliced = [...values.slice(0, from), ...replacement, ...values.slice(to)];
+  const grown = spliced.length - values.length;
+  const elements: Array<[string, unknown]> = [];
+
+  if (from <= values.length - to) {
+    // Keep the tail in place and shift the head
+    const newHead = head - grown;
+    for (let i = 0; i < from + replacement.length; i++) {
+      elements.push([listElement(newHead + i), spliced[i]]);
+    }
+    for (let index = head; index < newHead; index++) {
+      elements.push([listElement(index), undefined]);
+    }
+    return { elements, meta: { ...list, head: newHead, size: spliced.length } };
+  }
+
+  for (let i = from; i < spliced.length; i++) {
+    elements.push([listElement(head + i), spliced[i]]);
+  }
+  for (let i = spliced.length; i < values.length; i++) {
+    elements.push([listElement(head + i), undefined]);
+  }
+  return { elements, meta: { ...list, size: spliced.length } };
+}
+
+function emptyCompactionTotals(): CompactionTotals {
+  return { compactions: 0, inputSize: 0, outputSize: 0, duration: 0, entriesCompacted: 0, entriesDropped: 0 };
+}
+
+interface ImmutableMemtable<K, V> {
+  memtable: Memtable<K, V>;
+  /** First WAL segment holding writes that came after this memtable */
+  walSegment: Promise<number>;
+}
+
+export class StorageEngine<K = string, V = any> implements StorageBackend<K, V> {
   private wal: WAL<K, V>;
-  private memtable: Memtable;
+  private manifest: Manifest;
+  private memtable: Memtable<K, V>;
+  /** Full memtables waiting to be flushed, oldest first */
+  private immutableMemtables: ImmutableMemtable<K, V>[] = [];
+  private flushPromise?: Promise<void>;
   private sstables: Map<number, SSTable[]> = new Map();
   private config: StorageEngineConfig;
+  private comparator: Comparator;
+  private compactionEngine: CompactionEngine;
+  private compactionStrategy: CompactionStrategy;
   private compactionInProgress = false;
-  private compactionStats: CompactionStats[] = [];
-  private logger = createLogger();
+  private compactionPromise?: Promise<void>;
+  private closed = false;
+  private compactionStats = new Deque<CompactionStats>();
+  private compactionTotals = emptyCompactionTotals();
+  private compactionTimer?: NodeJS.Timeout;
+  private nextTableNumber = 1;
+  private lastSequence = 0;
+  /** Counts memtables dropped from memory, so lookups can tell one moved to disk */
+  private flushedMemtables = 0;
+  private snapshots = new SnapshotList();
+  private zsets = new SortedSetCache(ZSET_CACHE_MEMBERS);
+  private writeStall = { slowdowns: 0, stops: 0, stallMs: 0 };
+  private maxImmutableMemtables: number;
+  private level0SlowdownWritesTrigger: number;
+  private level0StopWritesTrigger: number;
 
   constructor(config: StorageEngineConfig) {
-    this.config = config;
-    this.wal = new WAL();
-    this.memtable = new Memtable(config.maxMemtableSizeMB);
+    validateCompression(config.compression);
+    createPrefixExtractor(config.prefixExtractor);
+    this.comparator = resolveComparator(config.comparator);
+    this.config = {
+      ...config,
+      blockCache: config.blockCache ?? new BlockCache((config.blockCacheSizeMB ?? 8) * 1024 * 1024),
+      tableCache: config.tableCache ?? new TableCache(config.maxOpenFiles ?? 1000)
+    };
+    this.wal = new WAL<K, V>({
+      dataDir: config.dataDir,
+      syncPolicy: config.walSyncPolicy,
+      serializer: config.serializer
+    });
+    this.manifest = new Manifest(config.dataDir, this.comparator.name);
+    this.memtable = new Memtable<K, V>(config.maxMemtableSizeMB, this.comparator);
+    this.compactionEngine = new CompactionEngine(this.config, () => this.nextTableNumber++);
+    this.compactionStrategy = createCompactionStrategy(config);
+    this.maxImmutableMemtables = config.maxImmutableMemtables ?? 2;
+    this.level0SlowdownWritesTrigger = config.compaction?.level0SlowdownWritesTrigger ?? 8;
+    this.level0StopWritesTrigger = config.compaction?.level0StopWritesTrigger ?? 12;
 
-    for (let level = 0; level < 7; level++) {
+    for (let level = 0; level < MAX_LEVELS; level++) {
       this.sstables.set(level, []);
     }
   }
 
-  async set(key: K, value: V, ttl?: number): Promise<void> {
+  /**
+   * Rebuild the level structure from the manifest, then open the write-ahead
+   * log and rebuild the memtable from any records left by a previous run
+   */
+  async open(): Promise<void> {
     try {
-      this.wal.append('SET', key, value, ttl);
-      this.memtable.set(key, value, ttl);
+      const version = await this.manifest.recover();
+      this.nextTableNumber = version.nextFileNumber;
+      this.lastSequence = version.lastSequence;
+
+      for (const [level, numbers] of version.levels) {
+        const tables: SSTable[] = [];
+        for (const number of numbers) {
+          tables.push(await SSTable.open(number, level, this.config));
+        }
+        this.sstables.set(level, tables);
+      }
+
+      await this.manifest.collectGarbage();
+      await this.wal.initialize();
 
-      if (this.memtable.isFull()) {
+      const entries = await this.wal.replay(version.logNumber);
+      for (const entry of entries) {
+        this.applyWALEntry(await this.recoveredWrite(entry));
+      }
+
+      if (entries.length > 0) {
+        logger.info('Recovered entries from WAL', { entries: entries.length });
+      }
+
+      if (this.memtable.shouldFlush()) {
         await this.flushMemtable();
       }
     } catch (error) {
-      this.logger.error('Failed to set key', { key: String(key), error });
+      logger.error('Failed to open storage engine', { error });
+      throw new StorageError(`Failed to open storage engine: ${error}`);
+    }
+  }
+
+  async set(key: K, value: V, ttl?: number): Promise<void> {
+    this.checkKey(key);
+    try {
+      await this.throttleWrites();
+      await this.logAndApply({ operation: 'SET', key, value, ttl }).logged;
+    } catch (error) {
+      logger.error('Failed to set key', { key: String(key), error });
       throw new StorageError(`Failed to set key: ${error}`);
     }
   }
 
   async get(key: K): Promise<V | null> {
     try {
-      const memValue = this.memtable.get(key);
-      if (memValue !== null) {
-        return memValue;
-      }
-
-      for (let level = 0; level < 7; level++) {
-        const tables = this.sstables.get(level) || [];
-        
-        for (let i = tables.length - 1; i >= 0; i--) {
-          const value = tables[i].get(key);
-          if (value !== null) {
-            return value;
-          }
-        }
-      }
-
-      return null;
+      return await this.getAt(key, LATEST);
     } catch (error) {
-      this.logger.error('Failed to get key', { key: String(key), error });
+      if (error instanceof WrongTypeError) {
+        throw error;
+      }
+      logger.error('Failed to get key', { key: String(key), error });
       throw new StorageError(`Failed to get key: ${error}`);
     }
   }
 
   async del(key: K): Promise<boolean> {
     try {
-      this.wal.append('DEL', key);
-      return this.memtable.delete(key);
+      await this.throttleWrites();
+
+      const { existed, logged } = await this.updateCollections([key], async ([current]) => {
+        const deletes = await this.elementDeletes(current);
+        // The tombstone shadows any version already flushed to an SSTable
+        return () => ({
+          existed: current !== undefined,
+          logged: this.logAndApplyBatch([{ operation: 'DEL', key }, ...deletes])
+        });
+      });
+      await logged;
+      return existed;
     } catch (error) {
-      this.logger.error('Failed to delete key', { key: String(key), error });
+      logger.error('Failed to delete key', { key: String(key), error });
       throw new StorageError(`Failed to delete key: ${error}`);
     }
   }
 
-  async exists(key: K): Promise<boolean> {
+  async getVersion(key: K): Promise<number> {
+    try {
+      return (await this.getLiveEntry(key, LATEST))?.version ?? 0;
+    } catch (error) {
+      logger.error('Failed to get key version', { key: String(key), error });
+      throw new StorageError(`Failed to get key version: ${error}`);
+    }
+  }
+
+  async getWithMeta(key: K): Promise<ValueWithMeta<V> | null> {
     try {
-      if (this.memtable.exists(key)) {
-        return true;
+      const entry = await this.getLiveEntry(key, LATEST);
+      checkType(key, entry, 'string');
+      if (!entry) {
+        return null;
       }
 
-      for (let level = 0; level < 7; level++) {
-        const tables = this.sstables.get(level) || [];
-        
-        for (let i = tables.length - 1; i >= 0; i--) {
-          if (tables[i].exists(key)) {
-            return true;
-          }
-        }
+      return {
+        value: entry.value as V,
+        version: entry.version ?? 0,
+        timestamp: entry.timestamp,
+        expiresAt: entry.ttl
+      };
+    } catch (error) {
+      if (error instanceof WrongTypeError) {
+        throw error;
       }
+      logger.error('Failed to get key with metadata', { key: String(key), error });
+      throw new StorageError(`Failed to get key with metadata: ${error}`);
+    }
+  }
 
-      return false;
+  async setIfVersion(key: K, value: V, expectedVersion: number, ttl?: number): Promise<number> {
+    this.checkKey(key);
+    try {
+      await this.throttleWrites();
+
+      let version = 0;
+      await this.writeIfVersion(key, expectedVersion, () => {
+        const { sequence, logged } = this.logAndApply({ operation: 'SET', key, value, ttl });
+        version = sequence;
+        return logged;
+      });
+      return version;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
+      logger.error('Failed to set key if version', { key: String(key), error });
+      throw new StorageError(`Failed to set key if version: ${error}`);
+    }
+  }
+
+  async delIfVersion(key: K, expectedVersion: number): Promise<boolean> {
+    try {
+      await this.throttleWrites();
+
+      const { existed, logged } = await this.updateCollections([key], async ([current]) => {
+        const deletes = await this.elementDeletes(current);
+        return () => {
+          this.checkVersion(key, expectedVersion, current);
+          return {
+            existed: current !== undefined,
+            logged: this.logAndApplyBatch([{ operation: 'DEL', key }, ...deletes])
+          };
+        };
+      });
+      await logged;
+      return existed;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
+      logger.error('Failed to delete key if version', { key: String(key), error });
+      throw new StorageError(`Failed to delete key if version: ${error}`);
+    }
+  }
+
+  async exists(key: K): Promise<boolean> {
+    try {
+      return (await this.getLiveEntry(key, LATEST)) !== undefined;
     } catch (error) {
-      this.logger.error('Failed to check key existence', { key: String(key), error });
+      logger.error('Failed to check key existence', { key: String(key), error });
       throw new StorageError(`Failed to check key existence: ${error}`);
     }
   }
 
   async expire(key: K, ttl: number): Promise<boolean> {
     try {
-      this.wal.append('EXPIRE', key, undefined, ttl);
-      return this.memtable.expire(key, ttl);
+      await this.throttleWrites();
+
+      const { existed, logged } = await this.updateEntry(key, current => ({
+        existed: current !== undefined,
+        logged: current && this.logAndApply(expireWrite(key, current, ttl)).logged
+      }));
+      await logged;
+      return existed;
     } catch (error) {
-      this.logger.error('Failed to set expiry', { key: String(key), error });
+      logger.error('Failed to set expiry', { key: String(key), error });
       throw new StorageError(`Failed to set expiry: ${error}`);
     }
   }
 
   async ttl(key: K): Promise<number> {
     try {
-      const memTtl = this.memtable.ttl(key);
-      if (memTtl >= 0) {
-        return memTtl;
-      }
-
-      return -1;
+      return await this.ttlAt(key, LATEST);
     } catch (error) {
-      this.logger.error('Failed to get TTL', { key: String(key), error });
+      logger.error('Failed to get TTL', { key: String(key), error });
       throw new StorageError(`Failed to get TTL: ${error}`);
     }
   }
 
+  async incr(key: K): Promise<number> {
+    return this.incrBy(key, 1);
+  }
+
+  async decr(key: K): Promise<number> {
+    return this.incrBy(key, -1);
+  }
+
   async keys(pattern?: string): Promise<K[]> {
     try {
-      const allKeys = new Set<K>();
-      
-      const memKeys = this.memtable.keys(pattern);
-      memKeys.forEach(key => allKeys.add(key));
-
-      for (let level = 0; level < 7; level++) {
-        const tables = this.sstables.get(level) || [];
-        
-        for (const table of tables) {
-          const regex = pattern ? new RegExp(pattern.replace(/\*/g, '.*')) : null;
-          
-          for (const entry of table.entries) {
-            if (!entry.deleted && (!regex || regex.test(String(entry.key)))) {
-              allKeys.add(entry.key);
-            }
-          }
-        }
-      }
-
-      return Array.from(allKeys);
+      return await this.keysAt(pattern, LATEST);
     } catch (error) {
-      this.logger.error('Failed to get keys', { pattern, error });
+      logger.error('Failed to get keys', { pattern, error });
       throw new StorageError(`Failed to get keys: ${error}`);
     }
   }
 
   async flushall(): Promise<void> {
     try {
-      this.wal.clear();
+      // Let background work settle so it cannot install tables afterwards
+      while (this.flushPromise || this.compactionPromise) {
+        await Promise.all([this.flushPromise, this.compactionPromise].map(p => p?.catch(() => undefined)));
+      }
+
+      await this.wal.clear();
       this.memtable.clear();
-      
-      for (let level = 0; level < 7; level++) {
+      this.zsets.clear();
+      this.immutableMemtables = [];
+      this.flushedMemtables++;
+
+      const removed = [...this.sstables.values()].flat();
+      await this.manifest.logEdit({
+        removedTables: removed.map(table => ({ level: table.getLevel(), number: table.getNumber() })),
+        nextFileNumber: this.nextTableNumber
+      });
+
+      for (let level = 0; level < MAX_LEVELS; level++) {
         this.sstables.set(level, []);
       }
-      
-      this.compactionStats = [];
+      await Promise.all(removed.map(table => table.destroy()));
+
+      this.compactionStats = new Deque();
+      this.compactionTotals = emptyCompactionTotals();
     } catch (error) {
-      this.logger.error('Failed to flush all', { error });
+      logger.error('Failed to flush all', { error });
       throw new StorageError(`Failed to flush all: ${error}`);
     }
   }
 
   async info(): Promise<StorageStats> {
-    const memtableStats = {
-      size: this.memtable.getSizeInBytes(),
-      entries: this.memtable.size(),
-      oldestEntry: Date.now(),
-      newestEntry: Date.now()
-    };
+    const memtableStats = this.memtable.getStats();
+    const sstables: SSTableMetadata[] = [];
+    let totalSize = this.immutableMemtables.reduce(
+      (sum, { memtable }) => sum + memtable.getStats().size,
+      memtableStats.size
+    );
+
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      for (const table of this.sstables.get(level) || []) {
+        // Bloom filter bits are an implementation detail, keep INFO small
+        const metadata = { ...table.getMetadata(), bloomFilter: undefined };
+        sstables.push(metadata);
+        totalSize += metadata.size;
+      }
+    }
+
+    const totalKeys = (await this.keys()).length;
 
-    const stats: StorageStats = {
+    return {
       memtable: memtableStats,
-      sstables: [],
-      totalSize: this.memtable.getSizeInBytes(),
-      totalEntries: 0,
-      compactionStats: [...this.compactionStats]
+      sstables,
+      totalSize,
+      totalEntries: totalKeys,
+      compactionStats: [...this.compactionStats],
+      compactionTotals: { ...this.compactionTotals },
+      memtableSize: memtableStats.size,
+      sstableCount: sstables.length,
+      totalKeys,
+      lastSequence: this.lastSequence,
+      activeSnapshots: this.snapshots.size,
+      background: {
+        immutableMemtables: this.immutableMemtables.length,
+        flushRunning: this.flushPromise !== undefined,
+        compactionRunning: this.compactionInProgress,
+        writeSlowdowns: this.writeStall.slowdowns,
+        writeStops: this.writeStall.stops,
+        writeStallMs: this.writeStall.stallMs
+      },
+      blockCache: this.config.blockCache!.getStats(),
+      tableCache: this.config.tableCache!.getStats()
     };
+  }
 
-    const allKeys = new Set<string>();
-    
-    for (let level = 0; level < 7; level++) {
-      const tables = this.sstables.get(level) || [];
-      
-      for (const table of tables) {
-        stats.totalSize += table.metadata?.size || 0;
-        stats.sstables.push({
-          id: table.id || '',
-          level: table.level || level,
-          minKey: table.metadata?.minKey || '',
-          maxKey: table.metadata?.maxKey || '',
-          size: table.metadata?.size || 0,
-          entries: table.metadata?.entryCount || 0,
-          createdAt: table.metadata?.createdAt || Date.now()
-        });
-        
-        table.entries?.forEach(entry => {
-          if (!entry.value === null) { // Not deleted
-            allKeys.add(String(entry.key));
-          }
-        });
-      }
+  /**
+   * Read every key at the same sequence, pinned while the reads run, so a
+   * batch committed meanwhile is seen whole or not at all
+   */
+  async mget(keys: K[]): Promise<(V | null)[]> {
+    try {
+      return await this.readLatest(sequence => this.mgetAt(keys, sequence));
+    } catch (error) {
+      logger.error('Failed to get keys', { keys: keys.length, error });
+      throw new StorageError(`Failed to get keys: ${error}`);
     }
-
-    stats.totalEntries = allKeys.size;
-    
-    return stats;
   }
 
-  private async flushMemtable(): Promise<void> {
-    if (this.memtable.size() === 0) return;
+  async mset(entries: Array<{ key: K; value: V; ttl?: number }>): Promise<void> {
+    await this.writeBatch(entries.map(entry => ({ type: 'set', ...entry })));
+  }
 
+  /**
+   * Apply the operations as one write: they take consecutive sequence
+   * numbers, are logged as a single WAL record and reach the memtable in the
+   * same tick, so no reader or snapshot sees part of the batch
+   */
+  async writeBatch(operations: BatchOperation<K, V>[]): Promise<void> {
+    operations.forEach(operation => this.checkKey(operation.key));
     try {
-      const entries = this.memtable.getEntries();
-      const newSSTable = new SSTable(0, entries, this.config.enableBloomFilter);
-      
-      const level0Tables = this.sstables.get(0) || [];
-      level0Tables.push(newSSTable);
-      this.sstables.set(0, level0Tables);
+      await this.throttleWrites();
 
-      this.memtable.clear();
-      this.wal.clear();
+      const keys = [...new Map(operations.map(operation => [String(operation.key), operation.key])).values()];
+      const { logged } = await this.updateCollections(keys, async current => {
+        const held = new Map(keys.map((key, i) => [String(key), current[i]]));
+        // Elements of the collections the batch deletes get tombstones too
+        const deletes = new Map<string, LoggedWrite<K, V>[]>();
+        for (const operation of operations) {
+          const keyStr = String(operation.key);
+          if (operation.type === 'del' && !deletes.has(keyStr)) {
+            deletes.set(keyStr, await this.elementDeletes(held.get(keyStr)));
+          }
+        }
 
-      this.logger.info('Memtable flushed to SSTable', {
-        sstableId: newSSTable.id,
-        entries: entries.length,
-        size: newSSTable.metadata.size,
-      });
+        return () => {
+          // Expire keeps what the key holds once the earlier operations have run
+          const pending = new Map<string, Pick<StorageEntry<K, V>, 'value' | 'type'> | undefined>(held);
+          const writes: LoggedWrite<K, V>[] = [];
 
-      if (level0Tables.length >= 4 && !this.compactionInProgress) {
-        setImmediate(() => this.triggerCompaction());
-      }
+          for (const operation of operations) {
+            const keyStr = String(operation.key);
+
+            switch (operation.type) {
+              case 'set':
+                pending.set(keyStr, { value: operation.value });
+                writes.push({
+                  operation: 'SET',
+                  key: operation.key,
+                  value: operation.value,
+                  ttl: operation.ttl
+                });
+                break;
+              case 'del':
+                writes.push(...(deletes.get(keyStr) ?? []));
+                deletes.delete(keyStr);
+                pending.set(keyStr, undefined);
+                writes.push({ operation: 'DEL', key: operation.key });
+                break;
+              case 'expire': {
+                const entry = pending.get(keyStr);
+                if (entry) {
+                  writes.push(expireWrite(operation.key, entry, operation.ttl));
+                }
+                break;
+              }
+            }
+          }
+
+          return { logged: writes.length > 0 ? this.logAndApplyBatch(writes) : undefined };
+        };
+      });
+      await logged;
     } catch (error) {
-      this.logger.error('Failed to flush memtable', { error });
-      throw new StorageError(`Failed to flush memtable: ${error}`);
+      logger.error('Failed to write batch', { operations: operations.length, error });
+      throw new StorageError(`Failed to write batch: ${error}`);
     }
   }
 
-  private async triggerCompaction(): Promise<void> {
-    if (this.compactionInProgress) return;
+  async type(key: K): Promise<ValueType | 'none'> {
+    return this.command('get key type', key, async () => {
+      const entry = await this.getLiveEntry(key, LATEST);
+      return entry ? (entry.type ?? 'string') : 'none';
+    });
+  }
 
-    this.compactionInProgress = true;
-    
-    try {
-      await this.compact();
-    } finally {
-      this.compactionInProgress = false;
-    }
+  async hset(key: K, fields: HashFields<V>): Promise<number> {
+    return this.command('set hash fields', key, () =>
+      this.updateCollection(key, 'hash', async hash => {
+        const current = await this.findElements(hash, Object.keys(fields), LATEST);
+        const added = current.filter(value => value === undefined).length;
+        return meta => ({
+          result: added,
+          elements: Object.entries(fields),
+          meta: { ...meta, size: meta.size + added }
+        });
+      })
+    );
   }
 
-  private async compact(): Promise<void> {
-    for (let level = 0; level < 6; level++) {
-      const tables = this.sstables.get(level) || [];
-      const maxTablesAtLevel = level === 0 ? 4 : Math.pow(10, level);
-
-      if (tables.length >= maxTablesAtLevel) {
-        const startTime = Date.now();
-        const tablesToCompact = tables.splice(0, Math.min(tables.length, maxTablesAtLevel));
-        
-        const inputBytes = tablesToCompact.reduce((sum, t) => sum + t.metadata.size, 0);
-        
-        const nextLevel = level + 1;
-        const nextLevelTables = this.sstables.get(nextLevel) || [];
-        
-        const overlappingTables = nextLevelTables.filter(table =>
-          tablesToCompact.some(t => t.overlaps(table))
-        );
+  async hget(key: K, field: string): Promise<V | null> {
+    return this.command('get hash field', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) => {
+        const [value] = await this.findElements(hash, [field], sequence);
+        return (value ?? null) as V | null;
+      })
+    );
+  }
+
+  async hmget(key: K, fields: string[]): Promise<(V | null)[]> {
+    return this.command('get hash fields', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) =>
+        (await this.findElements(hash, fields, sequence)).map(value => (value ?? null) as V | null)
+      )
+    );
+  }
 
-        const allTablesToMerge = [...tablesToCompact, ...overlappingTables];
-        const mergedTable = SSTable.merge(allTablesToMerge, nextLevel, this.config.enableBloomFilter);
+  async hgetall(key: K): Promise<HashFields<V>> {
+    return this.command('get hash', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) =>
+        Object.fromEntries(await this.elementsAt(hash, sequence)) as HashFields<V>
+      )
+    );
+  }
 
-        const newNextLevelTables = nextLevelTables.filter(t => 
-          !overlappingTables.includes(t)
-        );
-        newNextLevelTables.push(mergedTable);
-        
-        this.sstables.set(level, tables);
-        this.sstables.set(nextLevel, newNextLevelTables);
-
-        const compactionStat: CompactionStats = {
-          level,
-          inputFiles: allTablesToMerge.length,
-          outputFiles: 1,
-          inputBytes,
-          outputBytes: mergedTable.metadata.size,
-          duration: Date.now() - startTime,
+  async hdel(key: K, fields: string[]): Promise<number> {
+    return this.command('delete hash fields', key, () => this.removeElements(key, 'hash', fields));
+  }
+
+  async hexists(key: K, field: string): Promise<boolean> {
+    return this.command('check hash field', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) => {
+        const [value] = await this.findElements(hash, [field], sequence);
+        return value !== undefined;
+      })
+    );
+  }
+
+  async hlen(key: K): Promise<number> {
+    return this.command('get hash length', key, () =>
+      this.readCollection(key, 'hash', hash => Promise.resolve(hash?.size ?? 0))
+    );
+  }
+
+  async hkeys(key: K): Promise<string[]> {
+    return this.command('get hash fields', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) =>
+        (await this.elementsAt(hash, sequence)).map(([field]) => field)
+      )
+    );
+  }
+
+  async hvals(key: K): Promise<V[]> {
+    return this.command('get hash values', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) =>
+        (await this.elementsAt(hash, sequence)).map(([, value]) => value as V)
+      )
+    );
+  }
+
+  async hincrby(key: K, field: string, increment: number): Promise<number> {
+    return this.command('increment hash field', key, () => this.incrementHashField(key, field, increment, true));
+  }
+
+  async hincrbyfloat(key: K, field: string, increment: number): Promise<number> {
+    return this.command('increment hash field', key, () => this.incrementHashField(key, field, increment, false));
+  }
+
+  async hscan(key: K, cursor: string, options?: MemberScanOptions): Promise<HashScanResult<V>> {
+    return this.command('scan hash', key, () =>
+      this.readCollection(key, 'hash', async (hash, sequence) =>
+        scanMembers((await this.elementsAt(hash, sequence)) as Array<[string, V]>, cursor, options)
+      )
+    );
+  }
+
+  async lpush(key: K, values: V[]): Promise<number> {
+    return this.command('push to list', key, () => this.push(key, values, 'left'));
+  }
+
+  async rpush(key: K, values: V[]): Promise<number> {
+    return this.command('push to list', key, () => this.push(key, values, 'right'));
+  }
+
+  async lpop(key: K, count: number): Promise<V[]> {
+    return this.command('pop from list', key, () => this.pop(key, count, 'left'));
+  }
+
+  async rpop(key: K, count: number): Promise<V[]> {
+    return this.command('pop from list', key, () => this.pop(key, count, 'right'));
+  }
+
+  async lrange(key: K, start: number, stop: number): Promise<V[]> {
+    return this.command('get list range', key, () =>
+      this.readCollection(key, 'list', (list, sequence) =>
+        this.listSlice(list, ...listRange(list?.size ?? 0, start, stop), sequence)
+      )
+    );
+  }
+
+  async llen(key: K): Promise<number> {
+    return this.command('get list length', key, () =>
+      this.readCollection(key, 'list', list => Promise.resolve(list?.size ?? 0))
+    );
+  }
+
+  async lindex(key: K, index: number): Promise<V | null> {
+    return this.command('get list element', key, () =>
+      this.readCollection(key, 'list', async (list, sequence) => {
+        const at = listIndex(list?.size ?? 0, index);
+        return at === undefined ? null : ((await this.listSlice(list, at, at + 1, sequence))[0] ?? null);
+      })
+    );
+  }
+
+  async lset(key: K, index: number, value: V): Promise<void> {
+    return this.command('set list element', key, () =>
+      this.updateCollection(key, 'list', list => {
+        if (!list) {
+          throw new KeyNotFoundError(key);
+        }
+
+        const at = listIndex(list.size, index);
+        if (at === undefined) {
+          throw new ValidationError('List index out of range', { index });
+        }
+        return Promise.resolve(() => ({ result: undefined, elements: [[listElement(list.head! + at), value]] }));
+      })
+    );
+  }
+
+  async lrem(key: K, count: number, value: V): Promise<number> {
+    return this.command('remove list elements', key, () =>
+      this.updateCollection(key, 'list', async list => {
+        const values = await this.listSlice(list, 0, list?.size ?? 0, LATEST);
+        const indexes = matchingIndexes(values, count, value);
+        return meta => {
+          if (indexes.length === 0) {
+            return { result: 0 };
+          }
+
+          const from = indexes[0]!;
+          const to = indexes[indexes.length - 1]! + 1;
+          const removed = new Set(indexes);
+          const kept = values.slice(from, to).filter((_, i) => !removed.has(from + i));
+          return { result: indexes.length, ...spliceElements(meta, values, from, to, kept) };
         };
+      })
+    );
+  }
 
-        this.compactionStats.push(compactionStat);
-        
-        this.logger.info('Compaction completed', compactionStat);
-      }
-    }
+  async ltrim(key: K, start: number, stop: number): Promise<void> {
+    return this.command('trim list', key, () =>
+      this.updateCollection(key, 'list', () =>
+        Promise.resolve(meta => ({ result: undefined, ...trimElements(meta, ...listRange(meta.size, start, stop)) }))
+      )
+    );
   }
 
-  async startPeriodicCompaction(): Promise<void> {
-    setInterval(() => {
-      if (!this.compactionInProgress) {
-        this.triggerCompaction().catch(error => {
-          this.logger.error('Periodic compaction failed', { error });
+  async linsert(key: K, position: ListPosition, pivot: V, value: V): Promise<number> {
+    return this.command('insert into list', key, () =>
+      this.updateCollection(key, 'list', async list => {
+        const values = await this.listSlice(list, 0, list?.size ?? 0, LATEST);
+        const at = insertionIndex(values, position, pivot);
+        return meta => {
+          if (!list) {
+            return { result: 0 };
+          }
+          if (at === undefined) {
+            return { result: -1 };
+          }
+          return { result: values.length + 1, ...spliceElements(meta, values, at, at, [value]) };
+        };
+      })
+    );
+  }
+
+  async lmove(source: K, destination: K, from: ListEnd, to: ListEnd): Promise<V | null> {
+    return this.command('move list element', source, async () => {
+      await this.throttleWrites();
+
+      const { moved, logged } = await this.updateCollections([source, destination], async ([current, target]) => {
+        // Check both types before changing either list
+        const list = this.metaOf(source, current, 'list');
+        this.metaOf(destination, target, 'list');
+        const size = list?.size ?? 0;
+        const [value] = await this.listSlice(list, from === 'left' ? 0 : size - 1, from === 'left' ? 1 : size, LATEST);
+
+        return () => {
+          if (!list) {
+            return { moved: null, logged: undefined };
+          }
+
+          const popped = popElements(list, 1, from);
+          if (String(source) === String(destination)) {
+            const pushed = pushElements(popped.meta, [value], to);
+            // Rotating a list of one deletes and sets the same element, the set wins
+            const elements = [...new Map([...popped.elements, ...pushed.elements])];
+            return {
+              moved: value!,
+              logged: this.logAndApplyBatch(this.collectionWrites(source, 'list', elements, pushed.meta, current))
+            };
+          }
+
+          const pushed = pushElements(this.currentMeta(target), [value], to);
+          return {
+            moved: value!,
+            logged: this.logAndApplyBatch([
+              ...this.collectionWrites(source, 'list', popped.elements, popped.meta, current),
+              ...this.collectionWrites(destination, 'list', pushed.elements, pushed.meta, target)
+            ])
+          };
+        };
+      });
+      await logged;
+      return moved;
+    });
+  }
+
+  async sadd(key: K, members: string[]): Promise<number> {
+    return this.command('add set members', key, () =>
+      this.updateCollection(key, 'set', async set => {
+        const unique = [...new Set(members)];
+        const current = await this.findElements(set, unique, LATEST);
+        const added = unique.filter((_, i) => current[i] === undefined);
+        return meta => ({
+          result: added.length,
+          elements: added.map(member => [member, null]),
+          meta: { ...meta, size: meta.size + added.length }
         });
-      }
-    }, this.config.compactionIntervalMs);
+      })
+    );
+  }
+
+  async srem(key: K, members: string[]): Promise<number> {
+    return this.command('remove set members', key, () => this.removeElements(key, 'set', members));
+  }
+
+  async smembers(key: K): Promise<string[]> {
+    return this.command('get set members', key, () =>
+      this.readCollection(key, 'set', async (set, sequence) =>
+        (await this.elementsAt(set, sequence)).map(([member]) => member)
+      )
+    );
+  }
+
+  async sismember(key: K, member: string): Promise<boolean> {
+    return this.command('check set member', key, () =>
+      this.readCollection(key, 'set', async (set, sequence) => {
+        const [value] = await this.findElements(set, [member], sequence);
+        return value !== undefined;
+      })
+    );
+  }
+
+  async smismember(key: K, members: string[]): Promise<boolean[]> {
+    return this.command('check set members', key, () =>
+      this.readCollection(key, 'set', async (set, sequence) =>
+        (await this.findElements(set, members, sequence)).map(value => value !== undefined)
+      )
+    );
+  }
+
+  async scard(key: K): Promise<number> {
+    return this.command('get set size', key, () =>
+      this.readCollection(key, 'set', set => Promise.resolve(set?.size ?? 0))
+    );
+  }
+
+  async spop(key: K, count: number): Promise<string[]> {
+    return this.command('pop set members', key, () =>
+      this.updateCollection(key, 'set', async set => {
+        const popped = randomMembers((await this.elementsAt(set, LATEST)).map(([member]) => member), count);
+        return meta => ({
+          result: popped,
+          elements: popped.map(member => [member, undefined]),
+          meta: { ...meta, size: meta.size - popped.length }
+        });
+      })
+    );
+  }
+
+  async srandmember(key: K, count: number): Promise<string[]> {
+    return this.command('get random set members', key, () =>
+      this.readCollection(key, 'set', async (set, sequence) =>
+        randomMembers((await this.elementsAt(set, sequence)).map(([member]) => member), count)
+      )
+    );
+  }
+
+  async sinter(keys: K[]): Promise<string[]> {
+    return this.command('intersect sets', keys[0]!, () =>
+      this.readLatest(async sequence => this.intersectSetsAt(await this.setsAt(keys, sequence), sequence))
+    );
+  }
+
+  async sunion(keys: K[]): Promise<string[]> {
+    return this.command('union sets', keys[0]!, () =>
+      this.readLatest(async sequence => this.unionSetsAt(await this.setsAt(keys, sequence), sequence))
+    );
+  }
+
+  async sdiff(keys: K[]): Promise<string[]> {
+    return this.command('diff sets', keys[0]!, () =>
+      this.readLatest(async sequence => this.diffSetsAt(await this.setsAt(keys, sequence), sequence))
+    );
+  }
+
+  async sinterstore(destination: K, keys: K[]): Promise<number> {
+    return this.command('store set intersection', destination, () =>
+      this.storeSet(destination, keys, (sets, sequence) => this.intersectSetsAt(sets, sequence))
+    );
+  }
+
+  async sunionstore(destination: K, keys: K[]): Promise<number> {
+    return this.command('store set union', destination, () =>
+      this.storeSet(destination, keys, (sets, sequence) => this.unionSetsAt(sets, sequence))
+    );
+  }
+
+  async sdiffstore(destination: K, keys: K[]): Promise<number> {
+    return this.command('store set difference', destination, () =>
+      this.storeSet(destination, keys, (sets, sequence) => this.diffSetsAt(sets, sequence))
+    );
+  }
+
+  async sscan(key: K, cursor: string, options?: MemberScanOptions): Promise<SetScanResult> {
+    return this.command('scan set', key, () =>
+      this.readCollection(key, 'set', async (set, sequence) => {
+        const members = (await this.elementsAt(set, sequence)).map(([member]): [string, string] => [member, member]);
+        const [next, entries] = scanMembers(members, cursor, options);
+        return [next, entries.map(([member]) => member)];
+      })
+    );
+  }
+
+  async zadd(key: K, members: ZSetMembers, options: ZAddOptions): Promise<number | null> {
+    return this.command('add sorted set members', key, () =>
+      this.updateZSet(key, zset => addScores(zset, members, options))
+    );
+  }
+
+  async zrem(key: K, members: string[]): Promise<number> {
+    return this.command('remove sorted set members', key, () =>
+      this.updateZSet(key, zset => {
+        const removed = heldMembers(zset, members);
+        return { scores: removed.map(member => [member, undefined]), result: removed.length };
+      })
+    );
+  }
+
+  async zscore(key: K, member: string): Promise<number | null> {
+    return this.command('get member score', key, () =>
+      this.readCollection(key, 'zset', async (zset, sequence) => {
+        const [score] = await this.findElements(zset, [member], sequence);
+        return (score ?? null) as number | null;
+      })
+    );
+  }
+
+  async zincrby(key: K, increment: number, member: string): Promise<number> {
+    return this.command('increment member score', key, () =>
+      this.updateZSet(key, zset => {
+        const score = incrementScore(zset?.score(member), increment);
+        return { scores: [[member, score]], result: score };
+      })
+    );
+  }
+
+  async zcard(key: K): Promise<number> {
+    return this.command('get sorted set size', key, () =>
+      this.readCollection(key, 'zset', zset => Promise.resolve(zset?.size ?? 0))
+    );
+  }
+
+  async zrank(key: K, member: string): Promise<number | null> {
+    return this.command('get member rank', key, () => this.readZSet(key, zset => zset?.rank(member) ?? null));
+  }
+
+  async zrevrank(key: K, member: string): Promise<number | null> {
+    return this.command('get member reverse rank', key, () =>
+      this.readZSet(key, zset => {
+        const rank = zset?.rank(member);
+        return rank === undefined ? null : zset!.size - 1 - rank;
+      })
+    );
+  }
+
+  async zrange(
+    key: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions
+  ): Promise<Array<[string, number]>> {
+    return this.command('get sorted set range', key, () =>
+      this.readZSet(key, zset => zsetRange(zset, start, stop, options))
+    );
+  }
+
+  async zrangestore(
+    destination: K,
+    source: K,
+    start: ZRangeBound,
+    stop: ZRangeBound,
+    options: ZRangeOptions
+  ): Promise<number> {
+    return this.command('store sorted set range', destination, () =>
+      this.storeZSet(destination, [source], ([zset]) => SortedSet.from(zsetRange(zset, start, stop, options)))
+    );
+  }
+
+  async zcount(key: K, min: ZRangeBound, max: ZRangeBound): Promise<number> {
+    return this.command('count sorted set range', key, () => this.readZSet(key, zset => countScores(zset, min, max)));
+  }
+
+  async zpopmin(key: K, count: number): Promise<Array<[string, number]>> {
+    return this.command('pop lowest scores', key, () => this.popZSet(key, count, false));
+  }
+
+  async zpopmax(key: K, count: number): Promise<Array<[string, number]>> {
+    return this.command('pop highest scores', key, () => this.popZSet(key, count, true));
+  }
+
+  async zunionstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number> {
+    return this.command('store sorted set union', destination, () =>
+      this.storeZSet(destination, keys, zsets => combineZSets(zsets, options, false))
+    );
+  }
+
+  async zinterstore(destination: K, keys: K[], options: ZStoreOptions): Promise<number> {
+    return this.command('store sorted set intersection', destination, () =>
+      this.storeZSet(destination, keys, zsets => combineZSets(zsets, options, true))
+    );
+  }
+
+  async zscan(key: K, cursor: string, options?: MemberScanOptions): Promise<ZSetScanResult> {
+    return this.command('scan sorted set', key, () =>
+      this.readZSet(key, zset => scanMembers(zset?.entries() ?? [], cursor, options))
+    );
+  }
+
+  async xadd(key: K, fields: HashFields<V>, options: XAddOptions): Promise<string | null> {
+    return this.command('add stream entry', key, () =>
+      this.updateStream(key, async stream => {
+        if (!stream && options.noMkStream) {
+          return () => ({ result: null });
+        }
+        const id = nextStreamId(stream?.lastId ?? '0-0', options.id ?? '*', Date.now());
+        const { trimmed, kept } = await this.trimEntries(stream, id, options);
+        return current => {
+          const elements: Array<[string, unknown]> = trimmed.map(element => [element, undefined]);
+          if (kept) {
+            elements.push([entryElement(id), fields]);
+          }
+          const size = current.size + Number(kept) - trimmed.length;
+          const entriesAdded = current.entriesAdded + 1;
+          return { result: id, elements, stream: { ...current, size, lastId: id, entriesAdded } };
+        };
+      })
+    );
+  }
+
+  async xrange(key: K, start: string, end: string, count?: number): Promise<StreamEntry<V>[]> {
+    return this.command('get stream range', key, () =>
+      this.readStream(key, (stream, sequence) => this.streamEntries(stream, start, end, count, false, sequence))
+    );
+  }
+
+  async xrevrange(key: K, end: string, start: string, count?: number): Promise<StreamEntry<V>[]> {
+    return this.command('get stream range', key, () =>
+      this.readStream(key, (stream, sequence) => this.streamEntries(stream, start, end, count, true, sequence))
+    );
+  }
+
+  async xread(streams: Array<[K, string]>, count?: number): Promise<StreamReadResult<K, V> | null> {
+    return this.command('read streams', streams[0]![0], () =>
+      this.readLatest(async sequence => {
+        const result: StreamReadResult<K, V> = [];
+        for (const [key, id] of streams) {
+          const stream = this.streamOf(key, await this.getLiveEntry(key, sequence));
+          const entries = id === '$' ? [] : await this.streamEntries(stream, `(${id}`, '+', count, false, sequence);
+          if (entries.length > 0) {
+            result.push([key, entries]);
+          }
+        }
+        return result.length > 0 ? result : null;
+      })
+    );
+  }
+
+  async xgroupCreate(key: K, group: string, id: string, mkStream: boolean): Promise<void> {
+    return this.command('create consumer group', key, () =>
+      this.updateStream(key, stream => {
+        if (!stream && !mkStream) {
+          throw new KeyNotFoundError(key);
+        }
+        return Promise.resolve(current => {
+          addGroup(current, key, group, id);
+          return { result: undefined, stream: current };
+        });
+      })
+    );
+  }
+
+  async xreadgroup(
+    group: string,
+    consumer: string,
+    streams: Array<[K, string]>,
+    options: { count?: number; noAck?: boolean }
+  ): Promise<StreamReadResult<K, V> | null> {
+    const keys = streams.map(([key]) => key);
+    return this.command('read streams for group', keys[0]!, async () => {
+      await this.throttleWrites();
+
+      const { result, logged } = await this.updateCollections(keys, async currents => {
+        const now = Date.now();
+        const found = currents.map((current, i) => this.streamOf(keys[i]!, current));
+        // Check every group before delivering from any stream
+        const indexes = found.map((stream, i) => groupIndex(stream, keys[i], group));
+        const reads: Array<(stream: StoredStream) => StreamChange<StreamEntry<V>[] | null>> = [];
+        for (let i = 0; i < streams.length; i++) {
+          reads.push(await this.readGroup(found[i]!, indexes[i]!, consumer, streams[i]![1], options, now));
+        }
+
+        return () => {
+          const result: StreamReadResult<K, V> = [];
+          const writes: Array<LoggedWrite<K, V>> = [];
+          reads.forEach((read, i) => {
+            const key = keys[i]!;
+            const { result: entries, elements = [], stream } = read(this.streamState(currents[i]));
+            if (stream) {
+              writes.push(...this.collectionWrites(key, 'stream', elements, stream, currents[i]));
+            }
+            if (entries) {
+              result.push([key, entries]);
+            }
+          });
+          return {
+            result: result.length > 0 ? result : null,
+            logged: writes.length > 0 ? this.logAndApplyBatch(writes) : undefined
+          };
+        };
+      });
+      await logged;
+      return result;
+    });
+  }
+
+  async xack(key: K, group: string, ids: string[]): Promise<number> {
+    return this.command('acknowledge stream entries', key, () =>
+      this.updateStream(key, async stream => {
+        const index = findGroup(stream, group);
+        const unique = index < 0 ? [] : [...new Set(ids.map(streamIdOf))];
+        const found = await this.findElements(stream, unique.map(id => pendingElement(index, id)), LATEST);
+        const acked = (found as Array<PendingEntry | undefined>).filter(pending => pending !== undefined);
+        return current => {
+          if (acked.length === 0) {
+            return { result: 0 };
+          }
+          acked.forEach(pending => dropPending(current.groups[index]!, pending));
+          const elements = acked.map((pending): [string, unknown] => [pendingElement(index, pending.id), undefined]);
+          return { result: acked.length, elements, stream: current };
+        };
+      })
+    );
+  }
+
+  async xpending(key: K, group: string): Promise<XPendingSummary> {
+    return this.command('get pending entries', key, () =>
+      this.readStream(key, async (stream, sequence) => {
+        const index = groupIndex(stream, key, group);
+        const lowest = await this.firstPending(stream!, index, false, sequence);
+        const highest = await this.firstPending(stream!, index, true, sequence);
+        return pendingSummary(stream!.groups[index]!, lowest, highest);
+      })
+    );
+  }
+
+  async xpendingRange(key: K, group: string, options: XPendingOptions): Promise<XPendingEntry[]> {
+    return this.command('get pending entries', key, () =>
+      this.readStream(key, async (stream, sequence) => {
+        const index = groupIndex(stream, key, group);
+        const { start = '-', end = '+' } = options;
+        const now = Date.now();
+        const entries: XPendingEntry[] = [];
+        for await (const pending of this.iteratePending(stream!, index, start, end, false, sequence)) {
+          if (entries.length >= options.count) {
+            break;
+          }
+          if (pendingMatches(pending, options, now)) {
+            entries.push(pendingInfo(pending, now));
+          }
+        }
+        return entries;
+      })
+    );
+  }
+
+  async xclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    ids: string[]
+  ): Promise<StreamEntry<V>[]> {
+    return this.command('claim stream entries', key, () =>
+      this.updateStream(key, async stream => {
+        const index = groupIndex(stream, key, group);
+        const now = Date.now();
+        const unique = [...new Set(ids.map(streamIdOf))];
+        const found = await this.findElements(stream, unique.map(id => pendingElement(index, id)), LATEST);
+        const idle = (found as Array<PendingEntry | undefined>).filter(
+          (pending): pending is PendingEntry => pending !== undefined && now - pending.deliveredAt >= minIdleMs
+        );
+        const claims = await this.pendingClaims(stream!, idle);
+        return current => {
+          const { entries, elements } = this.claimPending(current, index, claims, consumer, now);
+          return { result: entries, elements, stream: current };
+        };
+      })
+    );
+  }
+
+  async xautoclaim(
+    key: K,
+    group: string,
+    consumer: string,
+    minIdleMs: number,
+    start: string,
+    count: number
+  ): Promise<XAutoClaimResult<V>> {
+    return this.command('claim stream entries', key, () =>
+      this.updateStream(key, async stream => {
+        const index = groupIndex(stream, key, group);
+        const now = Date.now();
+        const idle: PendingEntry[] = [];
+        let next = '0-0';
+        for await (const pending of this.iteratePending(stream!, index, start, '+', false, LATEST)) {
+          if (idle.length >= count) {
+            next = pending.id;
+            break;
+          }
+          if (now - pending.deliveredAt >= minIdleMs) {
+            idle.push(pending);
+          }
+        }
+        const claims = await this.pendingClaims(stream!, idle);
+        return current => {
+          const { entries, elements } = this.claimPending(current, index, claims, consumer, now);
+          const deleted = claims.filter(([, fields]) => fields === undefined).map(([pending]) => pending.id);
+          return { result: [next, entries, deleted], elements, stream: current };
+        };
+      })
+    );
+  }
+
+  async xinfoStream(key: K): Promise<StreamInfo<V> | null> {
+    return this.command('get stream info', key, () =>
+      this.readStream(key, async (stream, sequence) => {
+        if (!stream) {
+          return null;
+        }
+        const [first] = await this.streamEntries(stream, '-', '+', 1, false, sequence);
+        const [last] = await this.streamEntries(stream, '-', '+', 1, true, sequence);
+        return streamInfo(stream, stream.size, first ?? null, last ?? null);
+      })
+    );
+  }
+
+  async xinfoGroups(key: K): Promise<StreamGroupInfo[]> {
+    return this.command('get consumer groups', key, () =>
+      this.readStream(key, stream => Promise.resolve(groupsInfo(stream)))
+    );
+  }
+
+  async xinfoConsumers(key: K, group: string): Promise<StreamConsumerInfo[]> {
+    return this.command('get consumers', key, () =>
+      this.readStream(key, stream => Promise.resolve(consumersInfo(stream, key, group, Date.now())))
+    );
+  }
+
+  /**
+   * Iterate live entries in key order, merging the memtables and every
+   * SSTable level lazily so only one block per table is held at a time
+   */
+  scan(options: ScanOptions = {}): AsyncIterable<ScanEntry<K, V>> {
+    return this.scanAt(options);
+  }
+
+  /**
+   * Iterate the keys `scan()` would, with their types but without reading
+   * the collections they hold
+   */
+  async *scanTypes(options: ScanOptions = {}): AsyncGenerator<ScanKey<K>> {
+    for await (const [entry] of this.entriesAt(options)) {
+      yield { key: entry.key, ...(entry.type && { type: entry.type }) };
+    }
+  }
+
+  /**
+   * Pin the current sequence so reads through the snapshot ignore later
+   * writes. Flush and compaction keep the versions it can see until it is
+   * released.
+   */
+  getSnapshot(): ReadSnapshot<K, V> {
+    const sequence = this.lastSequence;
+    let released = false;
+    this.snapshots.acquire(sequence);
+
+    const read = async <T>(operation: string, fn: () => Promise<T>): Promise<T> => {
+      if (released) {
+        throw new StorageError('Snapshot has been released');
+      }
+
+      try {
+        return await fn();
+      } catch (error) {
+        if (error instanceof WrongTypeError) {
+          throw error;
+        }
+        logger.error(`Failed to ${operation} from snapshot`, { sequence, error });
+        throw new StorageError(`Failed to ${operation} from snapshot: ${error}`);
+      }
+    };
+
+    return {
+      sequence,
+      get: key => read('get key', () => this.getAt(key, sequence)),
+      exists: key =>
+        read('check key existence', async () => (await this.getLiveEntry(key, sequence)) !== undefined),
+      ttl: key => read('get TTL', () => this.ttlAt(key, sequence)),
+      keys: pattern => read('get keys', () => this.keysAt(pattern, sequence)),
+      mget: keys => read('get keys', () => this.mgetAt(keys, sequence)),
+      scan: options => {
+        if (released) {
+          throw new StorageError('Snapshot has been released');
+        }
+        return this.scanAt(options ?? {}, sequence);
+      },
+      release: () => {
+        if (!released) {
+          released = true;
+          this.snapshots.release(sequence);
+        }
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+
+    if (this.compactionTimer) {
+      clearInterval(this.compactionTimer);
+      this.compactionTimer = undefined;
+    }
+
+    // Let in-flight background work finish before the files are closed.
+    // Memtables still queued are recovered from the WAL on the next open.
+    await this.compactionPromise?.catch(() => undefined);
+    while (this.flushPromise) {
+      await this.flushPromise.catch(() => undefined);
+    }
+    await this.compactionEngine.close();
+
+    await this.wal.close();
+    await this.manifest.close();
+
+    for (const tables of this.sstables.values()) {
+      await Promise.all(tables.map(table => table.close()));
+    }
+  }
+
+  /**
+   * Find the newest version of a key visible at the given sequence, searching
+   * the memtable first and then every level from L0 down. Expired versions
+   * and tombstones are returned as-is so they shadow older versions.
+   */
+  private async findEntry(key: K, sequence: number): Promise<StorageEntry<K, V> | undefined> {
+    const memEntry = this.findInMemory(key, sequence);
+    if (memEntry) {
+      return memEntry;
+    }
+
+    const tables = this.pinTables();
+    try {
+      for (const table of tables) {
+        const entry = await table.findEntry(key, sequence);
+        if (entry) {
+          return entry as StorageEntry<K, V>;
+        }
+      }
+      return undefined;
+    } finally {
+      await Promise.all(tables.map(table => table.unref()));
+    }
+  }
+
+  /**
+   * Find the newest version of a key held by the memtable or a memtable
+   * queued for flush, without touching disk
+   */
+  private findInMemory(key: K, sequence: number): StorageEntry<K, V> | undefined {
+    const memEntry = this.memtable.findEntry(key, sequence);
+    if (memEntry) {
+      return memEntry;
+    }
+
+    for (let i = this.immutableMemtables.length - 1; i >= 0; i--) {
+      const entry = this.immutableMemtables[i]!.memtable.findEntry(key, sequence);
+      if (entry) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the live entry of a key and run a write based on it in the same
+   * tick, so no other write to the key can come in between. A lookup that had
+   * to wait on disk is retried when the key was written, or a memtable
+   * flushed, meanwhile.
+   */
+  private updateEntry<T>(key: K, update: (current: StorageEntry<K, V> | undefined) => T): Promise<T> {
+    return this.updateEntries([key], ([current]) => update(current));
+  }
+
+  /**
+   * Like `updateEntry()`, for writes based on several keys at once
+   */
+  private async updateEntries<T>(
+    keys: K[],
+    update: (current: Array<StorageEntry<K, V> | undefined>) => T
+  ): Promise<T> {
+    for (;;) {
+      const entries = keys.map(key => this.findInMemory(key, LATEST));
+      const onDisk = keys.filter((_, i) => !entries[i]);
+      if (onDisk.length > 0) {
+        const flushed = this.flushedMemtables;
+        for (let i = 0; i < keys.length; i++) {
+          entries[i] ??= await this.findEntry(keys[i]!, LATEST);
+        }
+        if (flushed !== this.flushedMemtables || onDisk.some(key => this.findInMemory(key, LATEST))) {
+          continue;
+        }
+      }
+
+      return update(entries.map(entry => (entry && this.isLive(entry) ? entry : undefined)));
+    }
+  }
+
+  /**
+   * Like `updateEntries()`, for writes that first read elements of the
+   * collections the keys hold. `prepare` reads what the write needs and
+   * returns the write, which runs once the keys turn out unchanged meanwhile;
+   * otherwise it all starts over. Every write to a collection rewrites the
+   * key, so that also covers its elements.
+   */
+  private async updateCollections<T>(
+    keys: K[],
+    prepare: (current: Array<StorageEntry<K, V> | undefined>) => Promise<() => T>
+  ): Promise<T> {
+    for (;;) {
+      const flushed = this.flushedMemtables;
+      const inMemory = keys.map(key => this.findInMemory(key, LATEST));
+      const entries = [...inMemory];
+      for (let i = 0; i < keys.length; i++) {
+        entries[i] ??= await this.findEntry(keys[i]!, LATEST);
+      }
+
+      const write = await prepare(entries.map(entry => (entry && this.isLive(entry) ? entry : undefined)));
+      if (flushed === this.flushedMemtables && keys.every((key, i) => this.findInMemory(key, LATEST) === inMemory[i])) {
+        return write();
+      }
+    }
+  }
+
+  /**
+   * Run a write only if the key is still at the expected version
+   */
+  private async writeIfVersion(
+    key: K,
+    expectedVersion: number,
+    write: (current: StorageEntry<K, V> | undefined) => Promise<void>
+  ): Promise<void> {
+    const { logged } = await this.updateEntry(key, current => {
+      this.checkVersion(key, expectedVersion, current);
+      return { logged: write(current) };
+    });
+    await logged;
+  }
+
+  private checkVersion(key: K, expectedVersion: number, current: StorageEntry<K, V> | undefined): void {
+    const actualVersion = current?.version ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw new VersionConflictError(String(key), expectedVersion, actualVersion);
+    }
+  }
+
+  /**
+   * Keys starting with the internal prefix would mix with the engine's own
+   */
+  private checkKey(key: K): void {
+    if (isInternalKey(String(key))) {
+      throw new ValidationError('Keys may not start with U+10FFFF', { key: String(key) });
+    }
+  }
+
+  /**
+   * Run a data type command, passing errors about the command itself through
+   * to the caller and wrapping any other failure
+   */
+  private async command<T>(operation: string, key: K, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (
+        error instanceof WrongTypeError ||
+        error instanceof ValidationError ||
+        error instanceof KeyNotFoundError ||
+        error instanceof NoGroupError ||
+        error instanceof BusyGroupError
+      ) {
+        throw error;
+      }
+      logger.error(`Failed to ${operation}`, { key: String(key), error });
+      throw new StorageError(`Failed to ${operation}: ${error}`);
+    }
+  }
+
+  /**
+   * Read at the latest sequence, pinned while the reads run so writes
+   * meanwhile cannot change what they see
+   */
+  private async readLatest<T>(read: (sequence: number) => Promise<T>): Promise<T> {
+    const sequence = this.lastSequence;
+    this.snapshots.acquire(sequence);
+    try {
+      return await read(sequence);
+    } finally {
+      this.snapshots.release(sequence);
+    }
+  }
+
+  /**
+   * Read the collection a key holds: `read` gets its metadata, or undefined
+   * when the key is missing, and the sequence to read its elements at
+   */
+  private readCollection<T>(
+    key: K,
+    type: ValueType,
+    read: (meta: CollectionMeta | undefined, sequence: number) => Promise<T>
+  ): Promise<T> {
+    return this.readLatest(async sequence =>
+      read(this.metaOf(key, await this.getLiveEntry(key, sequence), type), sequence)
+    );
+  }
+
+  private metaOf(key: K, entry: StorageEntry<K, V> | undefined, type: ValueType): CollectionMeta | undefined {
+    checkType(key, entry, type);
+    return entry?.value as CollectionMeta | undefined;
+  }
+
+  /**
+   * What some elements of a collection hold, undefined for those it lacks
+   */
+  private async findElements(
+    meta: CollectionMeta | undefined,
+    elements: string[],
+    sequence: number
+  ): Promise<unknown[]> {
+    const values: unknown[] = [];
+    for (const element of elements) {
+      const entry = meta && (await this.getLiveEntry(`${elementPrefix(meta.generation)}${element}` as K, sequence));
+      // Values are boxed, as a null one would read as deleted
+      values.push(entry ? (entry.value as [unknown])[0] : undefined);
+    }
+    return values;
+  }
+
+  /**
+   * Every element of a collection in key order, with what it holds, or those
+   * from `lower` up to, not including, `upper`
+   */
+  private async elementsAt(
+    meta: CollectionMeta | undefined,
+    sequence: number,
+    lower?: string,
+    upper?: string
+  ): Promise<Array<[string, unknown]>> {
+    const elements: Array<[string, unknown]> = [];
+    for await (const element of this.iterateElements(meta, sequence, lower, upper, false)) {
+      elements.push(element);
+    }
+    return elements;
+  }
+
+  /**
+   * Like `elementsAt()`, one element at a time so the caller can stop early,
+   * in reverse key order if asked
+   */
+  private async *iterateElements(
+    meta: CollectionMeta | undefined,
+    sequence: number,
+    lower: string | undefined,
+    upper: string | undefined,
+    reverse: boolean
+  ): AsyncGenerator<[string, unknown]> {
+    if (!meta) {
+      return;
+    }
+
+    const prefix = elementPrefix(meta.generation);
+    const range = {
+      lower: `${prefix}${lower ?? ''}`,
+      upper: upper === undefined ? prefixSuccessor(prefix) : `${prefix}${upper}`
+    };
+    for await (const entry of this.rangeAt(range, sequence, reverse, prefix)) {
+      yield [String(entry.key).slice(prefix.length), (entry.value as [unknown])[0]];
+    }
+  }
+
+  /**
+   * Change elements of a collection. `prepare` reads the elements the change
+   * depends on and returns the change, logged as one write with the new
+   * metadata once `updateCollections()` finds the key unchanged.
+   */
+  private async updateCollection<T>(
+    key: K,
+    type: ValueType,
+    prepare: (meta: CollectionMeta | undefined) => Promise<(meta: CollectionMeta) => ElementChange<T>>
+  ): Promise<T> {
+    await this.throttleWrites();
+
+    const { result, logged } = await this.updateCollections([key], async ([current]) => {
+      const change = await prepare(this.metaOf(key, current, type));
+      return () => {
+        const meta = this.currentMeta(current);
+        const { result, elements = [], meta: changed = meta } = change(meta);
+        if (elements.length === 0) {
+          return { result, logged: undefined };
+        }
+        return { result, logged: this.logAndApplyBatch(this.collectionWrites(key, type, elements, changed, current)) };
+      };
+    });
+    await logged;
+    return result;
+  }
+
+  /**
+   * The metadata of the collection an entry holds, or of a new one: its
+   * generation is the sequence of the write about to be logged
+   */
+  private currentMeta(current: StorageEntry<K, V> | undefined): CollectionMeta {
+    return (current?.value as CollectionMeta | undefined) ?? { generation: this.lastSequence + 1, size: 0 };
+  }
+
+  /**
+   * Remove elements from a collection
+   * @returns How many of them it held
+   */
+  private removeElements(key: K, type: ValueType, elements: string[]): Promise<number> {
+    return this.updateCollection(key, type, async collection => {
+      const unique = [...new Set(elements)];
+      const current = await this.findElements(collection, unique, LATEST);
+      const removed = unique.filter((_, i) => current[i] !== undefined);
+      return meta => ({
+        result: removed.length,
+        elements: removed.map(element => [element, undefined]),
+        meta: { ...meta, size: meta.size - removed.length }
+      });
+    });
+  }
+
+  /**
+   * The writes changing elements of a collection and storing its metadata
+   */
+  private collectionWrites(
+    key: K,
+    type: ValueType,
+    elements: Array<[element: string, value: unknown]>,
+    meta: CollectionMeta,
+    current: StorageEntry<K, V> | undefined
+  ): LoggedWrite<K, V>[] {
+    const writes = elements.map(([element, value]) => this.elementWrite(meta.generation, element, value));
+    writes.push(this.metaWrite(key, type, meta, current));
+    return writes;
+  }
+
+  private elementWrite(generation: number, element: string, value: unknown): LoggedWrite<K, V> {
+    const key = `${elementPrefix(generation)}${element}` as K;
+    return value === undefined ? { operation: 'DEL', key } : { operation: 'SET', key, value: [value] as V };
+  }
+
+  /**
+   * The write storing what a collection key holds itself, keeping its
+   * expiry, or deleting the key once the collection is empty. A stream stays
+   * once empty, keeping its groups and last ID.
+   */
+  private metaWrite(
+    key: K,
+    type: ValueType,
+    meta: CollectionMeta,
+    current: StorageEntry<K, V> | undefined
+  ): LoggedWrite<K, V> {
+    this.checkKey(key);
+    if (meta.size === 0 && type !== 'stream') {
+      return { operation: 'DEL', key };
+    }
+    return { operation: 'SET', key, value: meta as V, type, ttl: this.remainingTtl(current) };
+  }
+
+  /**
+   * Deletes for the elements of the collection an entry holds, so they do
+   * not linger once the key is deleted. Elements of a collection that
+   * expired or was overwritten stay, hidden by their generation.
+   */
+  private async elementDeletes(entry: StorageEntry<K, V> | undefined): Promise<LoggedWrite<K, V>[]> {
+    if (!entry || !ELEMENT_TYPES.has(entry.type)) {
+      return [];
+    }
+
+    const meta = entry.value as CollectionMeta;
+    const elements = await this.elementsAt(meta, LATEST);
+    return elements.map(([element]) => this.elementWrite(meta.generation, element, undefined));
+  }
+
+  /**
+   * The time an entry has left to live, to keep its expiry on a rewrite
+   */
+  private remainingTtl(current: StorageEntry<K, V> | undefined): number | undefined {
+    return current?.ttl ? Math.max(1, current.ttl - Date.now()) : undefined;
+  }
+
+  private push(key: K, values: V[], end: ListEnd): Promise<number> {
+    return this.updateCollection(key, 'list', () =>
+      Promise.resolve(list => {
+        const change = pushElements(list, values, end);
+        return { result: change.meta.size, ...change };
+      })
+    );
+  }
+
+  private pop(key: K, count: number, end: ListEnd): Promise<V[]> {
+    return this.updateCollection(key, 'list', async list => {
+      const size = list?.size ?? 0;
+      const popping = Math.min(count, size);
+      const [from, to] = end === 'left' ? [0, popping] : [size - popping, size];
+      const values = await this.listSlice(list, from, to, LATEST);
+      return meta => ({
+        result: end === 'left' ? values : values.reverse(),
+        ...popElements(meta, popping, end)
+      });
+    });
+  }
+
+  /**
+   * The elements of a list from `from` up to, not including, `to`
+   */
+  private async listSlice(list: CollectionMeta | undefined, from: number, to: number, sequence: number): Promise<V[]> {
+    if (!list || from >= to) {
+      return [];
+    }
+
+    const head = list.head!;
+    const elements = await this.elementsAt(list, sequence, listElement(head + from), listElement(head + to));
+    return elements.map(([, value]) => value as V);
+  }
+
+  /**
+   * The sets several keys hold as of a sequence, checking all their types
+   */
+  private async setsAt(keys: K[], sequence: number): Promise<Array<CollectionMeta | undefined>> {
+    const sets: Array<CollectionMeta | undefined> = [];
+    for (const key of keys) {
+      sets.push(this.metaOf(key, await this.getLiveEntry(key, sequence), 'set'));
+    }
+    return sets;
+  }
+
+  /**
+   * Members of the first set that are in every other one, looking up only the
+   * members of the smallest set in the others
+   */
+  private async intersectSetsAt(sets: Array<CollectionMeta | undefined>, sequence: number): Promise<string[]> {
+    if (sets.some(set => !set)) {
+      return [];
+    }
+
+    const [smallest, ...others] = sets.slice().sort((a, b) => a!.size - b!.size);
+    let members = (await this.elementsAt(smallest, sequence)).map(([member]) => member);
+    for (const other of others) {
+      const found = await this.findElements(other, members, sequence);
+      members = members.filter((_, i) => found[i] !== undefined);
+    }
+    return members;
+  }
+
+  private async unionSetsAt(sets: Array<CollectionMeta | undefined>, sequence: number): Promise<string[]> {
+    const union = new Set<string>();
+    for (const set of sets) {
+      for (const [member] of await this.elementsAt(set, sequence)) {
+        union.add(member);
+      }
+    }
+    return [...union];
+  }
+
+  /**
+   * Members of the first set that are in none of the others
+   */
+  private async diffSetsAt(sets: Array<CollectionMeta | undefined>, sequence: number): Promise<string[]> {
+    const [first, ...others] = sets;
+    let members = (await this.elementsAt(first, sequence)).map(([member]) => member);
+    for (const other of others) {
+      const found = await this.findElements(other, members, sequence);
+      members = members.filter((_, i) => found[i] === undefined);
+    }
+    return members;
+  }
+
+  /**
+   * Replace whatever the destination of a `*STORE` command holds, expiry
+   * included, with the sets combined, once none of the keys changed while
+   * reading them
+   */
+  private async storeSet(
+    destination: K,
+    keys: K[],
+    combine: (sets: Array<CollectionMeta | undefined>, sequence: number) => Promise<string[]>
+  ): Promise<number> {
+    await this.throttleWrites();
+
+    const { size, logged } = await this.updateCollections([...keys, destination], async currents => {
+      const sets = keys.map((key, i) => this.metaOf(key, currents[i], 'set'));
+      const members = await combine(sets, LATEST);
+      const deletes = await this.elementDeletes(currents[keys.length]);
+      return () => {
+        const meta = { ...this.currentMeta(undefined), size: members.length };
+        const elements = members.map((member): [string, unknown] => [member, null]);
+        return {
+          size: members.length,
+          logged: this.logAndApplyBatch([
+            ...deletes,
+            ...this.collectionWrites(destination, 'set', elements, meta, undefined)
+          ])
+        };
+      };
+    });
+    await logged;
+    return size;
+  }
+
+  /**
+   * The sorted set an entry holds, from the cache when it holds the entry's
+   * version, otherwise read from its members as of the sequence and cached
+   */
+  private async zsetAt(
+    key: K,
+    entry: StorageEntry<K, V> | undefined,
+    sequence: number
+  ): Promise<SortedSet | undefined> {
+    const meta = this.metaOf(key, entry, 'zset');
+    if (!meta) {
+      return undefined;
+    }
+
+    const cached = this.zsets.get(String(key), entry!.version!);
+    if (cached) {
+      return cached;
+    }
+    const zset = SortedSet.from((await this.elementsAt(meta, sequence)) as Array<[string, number]>);
+    this.zsets.insert(String(key), entry!.version!, zset);
+    return zset;
+  }
+
+  /**
+   * Read the sorted set a key holds. The cached set may change once `read`
+   * returns, so it must be done with it by then.
+   */
+  private readZSet<T>(key: K, read: (zset: SortedSet | undefined) => T): Promise<T> {
+    return this.readLatest(async sequence =>
+      read(await this.zsetAt(key, await this.getLiveEntry(key, sequence), sequence))
+    );
+  }
+
+  /**
+   * Replace whatever the destination of a `*STORE` command holds, expiry
+   * included, with what `combine` makes of the sorted sets, once none of the
+   * keys changed while reading them
+   */
+  private async storeZSet(
+    destination: K,
+    keys: K[],
+    combine: (zsets: Array<SortedSet | undefined>) => SortedSet
+  ): Promise<number> {
+    await this.throttleWrites();
+
+    const { size, logged } = await this.updateCollections([...keys, destination], async currents => {
+      const zsets: Array<SortedSet | undefined> = [];
+      for (let i = 0; i < keys.length; i++) {
+        zsets.push(await this.zsetAt(keys[i]!, currents[i], LATEST));
+      }
+      const deletes = await this.elementDeletes(currents[keys.length]);
+
+      return () => {
+        const zset = combine(zsets);
+        const meta = { ...this.currentMeta(undefined), size: zset.size };
+        const elements = [...zset.entries()];
+        const writes = [...deletes, ...this.collectionWrites(destination, 'zset', elements, meta, undefined)];
+        return { size: zset.size, logged: this.logZSet(destination, writes, zset) };
+      };
+    });
+    await logged;
+    return size;
+  }
+
+  /**
+   * Read a sorted set, and log the scores the change sets or removes, undefined
+   * ones removing their member. The cached set changes in place, so no write
+   * copies the whole set.
+   */
+  private async updateZSet<T>(
+    key: K,
+    change: (zset: SortedSet | undefined) => { scores: Array<[member: string, score: number | undefined]>; result: T }
+  ): Promise<T> {
+    await this.throttleWrites();
+
+    const { result, logged } = await this.updateCollections([key], async ([current]) => {
+      const zset = await this.zsetAt(key, current, LATEST);
+      return () => {
+        const { scores, result } = change(zset);
+        if (scores.length === 0) {
+          return { result, logged: undefined };
+        }
+
+        const held = (member: string) => (zset?.score(member) === undefined ? 0 : 1);
+        const grown = scores.reduce((sum, [member, score]) => sum - held(member) + (score === undefined ? 0 : 1), 0);
+        const meta = this.currentMeta(current);
+        const writes = this.collectionWrites(key, 'zset', scores, { ...meta, size: meta.size + grown }, current);
+        const changed = zset ?? new SortedSet();
+        applyScores(changed, scores);
+        return { result, logged: this.logZSet(key, writes, changed) };
+      };
+    });
+    await logged;
+    return result;
+  }
+
+  /**
+   * Log the writes to a sorted set, and cache what it now holds under the
+   * version they give the key: the metadata goes last, so it is the newest
+   */
+  private logZSet(key: K, writes: LoggedWrite<K, V>[], zset: SortedSet): Promise<void> {
+    const logged = this.logAndApplyBatch(writes);
+    if (zset.size > 0) {
+      this.zsets.insert(String(key), this.lastSequence, zset);
+    } else {
+      this.zsets.erase(String(key));
+    }
+    return logged;
+  }
+
+  private popZSet(key: K, count: number, highest: boolean): Promise<Array<[string, number]>> {
+    return this.updateZSet(key, zset => {
+      const popped = popScores(zset, count, highest);
+      return { scores: popped.map(([member]) => [member, undefined]), result: popped };
+    });
+  }
+
+  private streamOf(key: K, entry: StorageEntry<K, V> | undefined): StoredStream | undefined {
+    return this.metaOf(key, entry, 'stream') as StoredStream | undefined;
+  }
+
+  /**
+   * Like `readCollection()`, for streams
+   */
+  private readStream<T>(key: K, read: (stream: StoredStream | undefined, sequence: number) => Promise<T>): Promise<T> {
+    return this.readCollection(key, 'stream', (meta, sequence) => read(meta as StoredStream | undefined, sequence));
+  }
+
+  /**
+   * Change a stream like `updateCollection()` changes other collections. The
+   * change gets a copy of the stream's metadata to work on and returns it
+   * unless nothing changed; a stream stays once empty.
+   */
+  private async updateStream<T>(
+    key: K,
+    prepare: (stream: StoredStream | undefined) => Promise<(stream: StoredStream) => StreamChange<T>>
+  ): Promise<T> {
+    await this.throttleWrites();
+
+    const { result, logged } = await this.updateCollections([key], async ([current]) => {
+      const change = await prepare(this.streamOf(key, current));
+      return () => {
+        const { result, elements = [], stream } = change(this.streamState(current));
+        if (!stream) {
+          return { result, logged: undefined };
+        }
+        return { result, logged: this.logAndApplyBatch(this.collectionWrites(key, 'stream', elements, stream, current)) };
+      };
+    });
+    await logged;
+    return result;
+  }
+
+  /**
+   * A copy of the metadata of the stream an entry holds, or of a new one
+   */
+  private streamState(current: StorageEntry<K, V> | undefined): StoredStream {
+    const stream = { lastId: '0-0', entriesAdded: 0, groups: [], ...this.currentMeta(current) } as StoredStream;
+    return { ...stream, groups: copyGroups(stream.groups) };
+  }
+
+  /**
+   * Entries of a stream between two bounds, as `xrange()` takes them, the
+   * last ones first if `reverse`
+   */
+  private async streamEntries(
+    stream: CollectionMeta | undefined,
+    start: string,
+    end: string,
+    count: number | undefined,
+    reverse: boolean,
+    sequence: number
+  ): Promise<StreamEntry<V>[]> {
+    const range = stream && streamIdRange(start, end);
+    const entries: StreamEntry<V>[] = [];
+    if (!range) {
+      return entries;
+    }
+
+    const [lower, upper] = [entryElement(range[0]), elementAfter(entryElement(range[1]))];
+    for await (const [element, fields] of this.iterateElements(stream, sequence, lower, upper, reverse)) {
+      if (count !== undefined && entries.length >= count) {
+        break;
+      }
+      entries.push([streamIdOf(element.slice(1)), fields as HashFields<V>]);
+    }
+    return entries;
+  }
+
+  /**
+   * The entries adding one to a stream trims, as `xadd()` options ask
+   * @returns The elements of those in the stream, and whether the new one stays
+   */
+  private async trimEntries(
+    stream: StoredStream | undefined,
+    id: string,
+    options: XAddOptions
+  ): Promise<{ trimmed: string[]; kept: boolean }> {
+    const { maxLen, minId } = options;
+    const size = stream?.size ?? 0;
+    let entries: StreamEntry<V>[] = [];
+    let kept = true;
+    if (maxLen !== undefined && size + 1 > maxLen) {
+      entries = await this.streamEntries(stream, '-', '+', size + 1 - maxLen, false, LATEST);
+      kept = maxLen > 0;
+    }
+    if (minId !== undefined) {
+      const min = streamIdOf(minId);
+      entries = await this.streamEntries(stream, '-', `(${min}`, undefined, false, LATEST);
+      kept = compareStreamIds(parseStreamId(id), parseStreamId(min)) >= 0;
+    }
+    return { trimmed: entries.map(([entryId]) => entryElement(entryId)), kept };
+  }
+
+  /**
+   * The pending entries of a group between two bounds, in ID order or the reverse
+   */
+  private async *iteratePending(
+    stream: StoredStream,
+    index: number,
+    start: string,
+    end: string,
+    reverse: boolean,
+    sequence: number
+  ): AsyncGenerator<PendingEntry> {
+    const range = streamIdRange(start, end);
+    if (!range) {
+      return;
+    }
+
+    const [lower, upper] = [pendingElement(index, range[0]), elementAfter(pendingElement(index, range[1]))];
+    for await (const [, pending] of this.iterateElements(stream, sequence, lower, upper, reverse)) {
+      yield pending as PendingEntry;
+    }
+  }
+
+  /**
+   * ID of the lowest pending entry of a group, or the highest if `reverse`
+   */
+  private async firstPending(
+    stream: StoredStream,
+    index: number,
+    reverse: boolean,
+    sequence: number
+  ): Promise<string | null> {
+    for await (const pending of this.iteratePending(stream, index, '-', '+', reverse, sequence)) {
+      return pending.id;
+    }
+    return null;
+  }
+
+  /**
+   * Read for a consumer of a group like the simple backend's `readGroup()`
+   * @returns The change to make once the stream turns out unchanged
+   */
+  private async readGroup(
+    stream: StoredStream,
+    index: number,
+    consumer: string,
+    id: string,
+    options: { count?: number; noAck?: boolean },
+    now: number
+  ): Promise<(stream: StoredStream) => StreamChange<StreamEntry<V>[] | null>> {
+    if (id === '>') {
+      const after = `(${stream.groups[index]!.lastDeliveredId}`;
+      const entries = await this.streamEntries(stream, after, '+', options.count, false, LATEST);
+      return current => {
+        const group = current.groups[index]!;
+        if (entries.length === 0) {
+          // Waiting for entries only changes the group for a new consumer
+          const created = !findConsumer(group, consumer) && touchConsumer(group, consumer, now);
+          return { result: null, stream: created ? current : undefined };
+        }
+        touchConsumer(group, consumer, now);
+        group.lastDeliveredId = entries[entries.length - 1]![0];
+        const elements = options.noAck
+          ? []
+          : entries.map(([entryId]): [string, unknown] => [
+              pendingElement(index, entryId),
+              deliverEntry(group, entryId, consumer, now)
+            ]);
+        return { result: entries, elements, stream: current };
+      };
+    }
+
+    const history: PendingEntry[] = [];
+    for await (const pending of this.iteratePending(stream, index, `(${id}`, '+', false, LATEST)) {
+      if (options.count !== undefined && history.length >= options.count) {
+        break;
+      }
+      if (pending.consumer === consumer) {
+        history.push(pending);
+      }
+    }
+    const claims = await this.pendingClaims(stream, history);
+    return current => {
+      touchConsumer(current.groups[index]!, consumer, now);
+      const entries = claims.flatMap(([pending, fields]): StreamEntry<V>[] => (fields ? [[pending.id, fields]] : []));
+      return { result: entries, stream: current };
+    };
+  }
+
+  /**
+   * Pending entries, each with the fields of its entry, undefined for those
+   * trimmed from the stream
+   */
+  private async pendingClaims(
+    stream: StoredStream,
+    pending: PendingEntry[]
+  ): Promise<Array<[PendingEntry, HashFields<V> | undefined]>> {
+    const fields = await this.findElements(stream, pending.map(entry => entryElement(entry.id)), LATEST);
+    return pending.map((entry, i) => [entry, fields[i] as HashFields<V> | undefined]);
+  }
+
+  /**
+   * Hand pending entries to a consumer like the simple backend's
+   * `claimEntries()`, removing those trimmed from the stream
+   */
+  private claimPending(
+    stream: StoredStream,
+    index: number,
+    claims: Array<[PendingEntry, HashFields<V> | undefined]>,
+    consumer: string,
+    now: number
+  ): { entries: StreamEntry<V>[]; elements: Array<[string, unknown]> } {
+    const group = stream.groups[index]!;
+    touchConsumer(group, consumer, now);
+
+    const entries: StreamEntry<V>[] = [];
+    const elements: Array<[string, unknown]> = [];
+    for (const [pending, fields] of claims) {
+      const element = pendingElement(index, pending.id);
+      if (fields) {
+        elements.push([element, claimEntry(group, pending, consumer, now)]);
+        entries.push([pending.id, fields]);
+      } else {
+        dropPending(group, pending);
+        elements.push([element, undefined]);
+      }
+    }
+    return { entries, elements };
+  }
+
+  private incrementHashField(key: K, field: string, increment: number, integer: boolean): Promise<number> {
+    return this.updateCollection(key, 'hash', async hash => {
+      const [current] = await this.findElements(hash, [field], LATEST);
+      return meta => {
+        const result = incrementField(current ?? null, field, increment, integer);
+        const size = meta.size + (current === undefined ? 1 : 0);
+        return { result, elements: [[field, result]], meta: { ...meta, size } };
+      };
+    });
+  }
+
+  /**
+   * List the tables newest first (L0 from the back, then each deeper level)
+   * and keep them open until unref'd, so a compaction that replaces them
+   * meanwhile cannot close them under a read
+   */
+  private pinTables(): SSTable[] {
+    const tables: SSTable[] = [];
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      // Newer tables are appended, so list them from the back
+      tables.push(...[...(this.sstables.get(level) || [])].reverse());
+    }
+    tables.forEach(table => table.ref());
+    return tables;
+  }
+
+  private async getLiveEntry(key: K, sequence: number): Promise<StorageEntry<K, V> | undefined> {
+    const entry = await this.findEntry(key, sequence);
+    return entry && this.isLive(entry) ? entry : undefined;
+  }
+
+  private async getAt(key: K, sequence: number): Promise<V | null> {
+    const entry = await this.getLiveEntry(key, sequence);
+    checkType(key, entry, 'string');
+    return entry ? entry.value : null;
+  }
+
+  private async mgetAt(keys: K[], sequence: number): Promise<(V | null)[]> {
+    const results: (V | null)[] = [];
+    for (const key of keys) {
+      // Keys holding another type read as missing
+      const entry = await this.getLiveEntry(key, sequence);
+      results.push(entry && !entry.type ? entry.value : null);
+    }
+    return results;
+  }
+
+  private async ttlAt(key: K, sequence: number): Promise<number> {
+    const entry = await this.getLiveEntry(key, sequence);
+    if (!entry) {
+      return -2; // Key does not exist
+    }
+
+    if (!entry.ttl) {
+      return -1; // Key exists but has no TTL
+    }
+
+    return Math.ceil((entry.ttl - Date.now()) / 1000); // Return in seconds
+  }
+
+  private async keysAt(pattern: string | undefined, sequence: number): Promise<K[]> {
+    const regex = pattern ? this.patternToRegex(pattern) : null;
+    // Keys matching the pattern all start with its literal part, so only the
+    // tables that may hold that prefix need to be read, and only its range
+    // when the comparator keeps them together
+    const prefix = pattern?.split(/[*?]/, 1)[0] || undefined;
+    const range = this.userKeyRange({ prefix });
+    const latest = new Map<string, StorageEntry<K, V>>();
+
+    const visit = (entry: StorageEntry<K, V>) => {
+      if ((entry.sequence ?? 0) > sequence) {
+        return;
+      }
+
+      // Sources are visited oldest first, so later ones win ties
+      const keyStr = String(entry.key);
+      const current = latest.get(keyStr);
+      if (!current || (entry.sequence ?? 0) >= (current.sequence ?? 0)) {
+        latest.set(keyStr, entry);
+      }
+    };
+
+    // Capture every source in one tick so a flush cannot move entries
+    // between them while the tables are read
+    const memtables = [...this.immutableMemtables.map(i => i.memtable), this.memtable];
+    const tables = this.pinTables().reverse();
+    try {
+      for (const table of tables) {
+        if (!prefix || table.mayContainPrefix(prefix)) {
+          for await (const entry of table.iterate(range)) {
+            visit(entry as StorageEntry<K, V>);
+          }
+        }
+      }
+    } finally {
+      await Promise.all(tables.map(table => table.unref()));
+    }
+
+    for (const memtable of memtables) {
+      memtable.getEntriesInRange(range).forEach(visit);
+    }
+
+    const result: K[] = [];
+    for (const [keyStr, entry] of latest) {
+      if (this.isLive(entry) && (!regex || regex.test(keyStr))) {
+        result.push(entry.key);
+      }
+    }
+
+    return result;
+  }
+
+  private isLive(entry: StorageEntry<K, V>): boolean {
+    if (entry.value === null) {
+      return false;
+    }
+
+    return !(entry.ttl && entry.ttl < Date.now());
+  }
+
+  private async *scanAt(
+    options: ScanOptions,
+    snapshotSequence?: number
+  ): AsyncGenerator<ScanEntry<K, V>> {
+    for await (const [entry, sequence] of this.entriesAt(options, snapshotSequence)) {
+      const value = (await this.plainValueAt(entry, sequence)) as V;
+      yield { key: entry.key, value, ...(entry.type && { type: entry.type }) };
+    }
+  }
+
+  /**
+   * Iterate the live entries scan options cover, each with the sequence it is
+   * read as of, which stays pinned until the iteration ends
+   */
+  private async *entriesAt(
+    options: ScanOptions,
+    snapshotSequence?: number
+  ): AsyncGenerator<[StorageEntry<K, V>, number]> {
+    let remaining = options.limit ?? Infinity;
+    if (remaining <= 0) {
+      return;
+    }
+
+    // Pin the sequence, so the elements of collections are read as of it too
+    const sequence = snapshotSequence ?? this.lastSequence;
+    const { prefix } = options;
+    this.snapshots.acquire(sequence);
+
+    try {
+      for await (const entry of this.rangeAt(this.userKeyRange(options), sequence, options.reverse ?? false, prefix)) {
+        // Only bytewise ranges are narrowed to the prefix
+        if (prefix && !String(entry.key).startsWith(prefix)) {
+          continue;
+        }
+
+        yield [entry, sequence];
+        if (--remaining <= 0) {
+          return;
+        }
+      }
+    } finally {
+      this.snapshots.release(sequence);
+    }
+  }
+
+  /**
+   * Iterate the live entries in a key range as of a sequence, merging the
+   * memtables and every SSTable level lazily so only one block per table is
+   * held at a time
+   * @param prefix What every key in the range starts with, to skip the
+   * tables whose prefix filter rules it out
+   */
+  private async *rangeAt(
+    range: KeyRange,
+    sequence: number,
+    reverse: boolean,
+    prefix?: string
+  ): AsyncGenerator<StorageEntry<K, V>> {
+    // Capture the sources in one tick and keep the tables open, so flushes
+    // and compactions during the scan do not change what it reads
+    const memtables = [this.memtable, ...this.immutableMemtables.map(i => i.memtable).reverse()];
+    const tables = this.pinTables();
+
+    try {
+      const candidates = prefix ? tables.filter(table => table.mayContainPrefix(prefix)) : tables;
+
+      // Sources are ordered newest first so they win ties
+      const sources: AsyncIterator<StorageEntry<K, V>>[] = [
+        ...memtables.map(memtable => fromEntries(memtable.getEntriesInRange(range, reverse))),
+        ...candidates.map(table => table.iterate(range, reverse) as AsyncIterator<StorageEntry<K, V>>)
+      ];
+
+      let lastKey: string | undefined;
+      for await (const entry of mergeIterators(sources, reverse, this.comparator)) {
+        const keyStr = String(entry.key);
+
+        // The first version at or below the sequence decides, older ones are hidden
+        if (keyStr === lastKey || (entry.sequence ?? 0) > sequence) {
+          continue;
+        }
+        lastKey = keyStr;
+
+        if (this.isLive(entry)) {
+          yield entry;
+        }
+      }
+    } finally {
+      await Promise.all(tables.map(table => table.unref()));
+    }
+  }
+
+  /**
+   * The range of user keys scan options cover. Internal keys sort after
+   * every user key, so the range ends before them.
+   */
+  private userKeyRange(options: { gte?: string; lt?: string; prefix?: string }): KeyRange {
+    const range = resolveKeyRange(options, this.comparator);
+    const beforeInternal =
+      range.upper === undefined || this.comparator.compare(range.upper, INTERNAL_KEY_PREFIX) > 0;
+    return { ...range, upper: beforeInternal ? INTERNAL_KEY_PREFIX : range.upper };
+  }
+
+  /**
+   * An entry's value as scans yield it, with collections read whole as of
+   * the sequence
+   */
+  private async plainValueAt(entry: StorageEntry<K, V>, sequence: number): Promise<unknown> {
+    if (!ELEMENT_TYPES.has(entry.type)) {
+      return plainCollection(entry.value);
+    }
+
+    const elements = await this.elementsAt(entry.value as CollectionMeta, sequence);
+    switch (entry.type) {
+      case 'hash':
+        return Object.fromEntries(elements);
+      case 'list':
+        return elements.map(([, value]) => value);
+      case 'zset':
+        return SortedSet.from(elements as Array<[string, number]>).toJSON();
+      case 'stream': {
+        const stream = entry.value as StoredStream;
+        const entries = elements
+          .filter(([element]) => element.startsWith('e'))
+          .map(([element, fields]): StreamEntry<V> => [streamIdOf(element.slice(1)), fields as HashFields<V>]);
+        const pending = stream.groups.map((_, i) =>
+          elements.filter(([element]) => element.startsWith(pendingPrefix(i))).map(([, value]) => value as PendingEntry)
+        );
+        return plainStream(stream, entries, pending);
+      }
+      default:
+        return elements.map(([member]) => member);
+    }
+  }
+
+  /**
+   * Log a write and apply it in the same tick, so WAL order matches memtable
+   * order. The caller awaits `logged` once it has read anything it needs.
+   */
+  private logAndApply(write: LoggedWrite<K, V>): {
+    sequence: number;
+    logged: Promise<void>;
+  } {
+    const entry: WALEntry<K, V> = {
+      id: generateId(),
+      timestamp: Date.now(),
+      ...write,
+      sequence: ++this.lastSequence
+    };
+    const logged = this.wal.append(walRecord(entry));
+    this.applyWALEntry(entry);
+    this.scheduleFlushIfFull();
+    return { sequence: entry.sequence!, logged };
+  }
+
+  /**
+   * Log writes as one WAL record with consecutive sequences and apply them in
+   * the same tick, so no reader sees part of them
+   */
+  private logAndApplyBatch(writes: LoggedWrite<K, V>[]): Promise<void> {
+    const timestamp = Date.now();
+    const entries: WALEntry<K, V>[] = writes.map(write => ({
+      id: generateId(),
+      timestamp,
+      ...write,
+      sequence: ++this.lastSequence
+    }));
+    const logged = this.wal.appendBatch(entries.map(walRecord));
+    entries.forEach(entry => this.applyWALEntry(entry));
+    this.scheduleFlushIfFull();
+    return logged;
+  }
+
+  private applyWrite(entry: StorageEntry<K, V>): void {
+    this.memtable.put(entry, this.snapshots.list());
+  }
+
+  /**
+   * Queue the memtable for a background flush once it is full. Writes carry
+   * on into a fresh memtable meanwhile.
+   */
+  private scheduleFlushIfFull(): void {
+    if (!this.memtable.shouldFlush() || this.closed) return;
+
+    this.rotateMemtable();
+    this.flushInBackground().catch(error => {
+      logger.error('Background flush failed', { error });
+    });
+  }
+
+  /**
+   * A WAL record as replay applies it. An EXPIRE keeps what the key holds
+   * once the records before it are applied, unless it comes from a log
+   * written when EXPIRE records still carried the value.
+   */
+  private async recoveredWrite(entry: WALEntry<K, V>): Promise<WALEntry<K, V>> {
+    if (entry.operation !== 'EXPIRE' || entry.value !== undefined) {
+      return entry;
+    }
+    const held = await this.findEntry(entry.key, LATEST);
+    return held ? { ...entry, value: held.value as V, type: held.type } : entry;
+  }
+
+  private applyWALEntry(entry: WALEntry<K, V>): void {
+    // Logs written before sequence numbers existed are numbered in order
+    const sequence = entry.sequence ?? this.lastSequence + 1;
+    this.lastSequence = Math.max(this.lastSequence, sequence);
+
+    switch (entry.operation) {
+      case 'SET':
+      case 'EXPIRE':
+        // TTLs are logged relative to the write, so expiry survives restarts
+        this.applyWrite({
+          key: entry.key,
+          value: entry.value as V,
+          type: entry.type,
+          timestamp: entry.timestamp,
+          ttl: entry.ttl ? entry.timestamp + entry.ttl : undefined,
+          sequence
+        });
+        break;
+      case 'DEL':
+        this.applyWrite({ key: entry.key, value: null, timestamp: entry.timestamp, sequence });
+        break;
+    }
+  }
+
+  /**
+   * Read the counter and write it back in the same tick. Like Redis, changing
+   * a counter keeps its expiry.
+   */
+  private async incrBy(key: K, delta: number): Promise<number> {
+    this.checkKey(key);
+    await this.throttleWrites();
+
+    const { result, logged } = await this.updateEntry(key, current => {
+      checkType(key, current, 'string');
+      const currentValue = current?.value ?? null;
+      let numValue = 0;
+
+      if (typeof currentValue === 'number') {
+        numValue = currentValue;
+      } else if (currentValue !== null) {
+        const parsed = parseInt(String(currentValue));
+        numValue = isNaN(parsed) ? 0 : parsed;
+      }
+
+      const result = numValue + delta;
+      const ttl = this.remainingTtl(current);
+      return { result, logged: this.logAndApply({ operation: 'SET', key, value: result as V, ttl }).logged };
+    });
+    await logged;
+    return result;
+  }
+
+  /**
+   * Flush the memtable and everything queued before it, waiting until done
+   */
+  private async flushMemtable(): Promise<void> {
+    if (!this.memtable.isEmpty()) {
+      this.rotateMemtable();
+    }
+
+    while (this.immutableMemtables.length > 0) {
+      await this.flushInBackground();
+    }
+  }
+
+  private rotateMemtable(): void {
+    // Rotate the WAL in the same tick as the swap, so older segments only
+    // hold records that belong to immutable memtables
+    this.immutableMemtables.push({ memtable: this.memtable, walSegment: this.wal.rotate() });
+    this.memtable = new Memtable<K, V>(this.config.maxMemtableSizeMB, this.comparator);
+  }
+
+  /**
+   * Start flushing the queued memtables unless a flush is already running,
+   * and return the running flush
+   */
+  private flushInBackground(): Promise<void> {
+    if (!this.flushPromise) {
+      const flush = this.flushImmutableMemtables();
+      this.flushPromise = flush;
+      flush.then(
+        () => {
+          this.flushPromise = undefined;
+          // A memtable may have been queued after the loop finished
+          if (this.immutableMemtables.length > 0 && !this.closed) {
+            this.flushInBackground().catch(error => {
+              logger.error('Background flush failed', { error });
+            });
+          }
+        },
+        () => {
+          // A failed flush is retried by the next write that needs one
+          this.flushPromise = undefined;
+        }
+      );
+    }
+    return this.flushPromise;
+  }
+
+  private async flushImmutableMemtables(): Promise<void> {
+    while (this.immutableMemtables.length > 0) {
+      await this.writeImmutableMemtable(this.immutableMemtables[0]!);
+    }
+  }
+
+  private async writeImmutableMemtable(immutable: ImmutableMemtable<K, V>): Promise<void> {
+    try {
+      const walSegment = await immutable.walSegment;
+      // Drop versions hidden from every snapshot released since they were written
+      const entries = collapseVersions(
+        immutable.memtable.getAllEntries() as StorageEntry[],
+        this.snapshots.list(),
+        false
+      );
+      const newSSTable =
+        entries.length > 0
+          ? await SSTable.build(this.nextTableNumber++, 0, entries, this.config)
+          : undefined;
+
+      await this.manifest.logEdit({
+        addedTables: newSSTable ? [{ level: 0, number: newSSTable.getNumber() }] : [],
+        nextFileNumber: this.nextTableNumber,
+        lastSequence: this.lastSequence,
+        logNumber: walSegment
+      });
+
+      // Swap the memtable for its table in one tick so reads see one of them
+      if (newSSTable) {
+        this.sstables.get(0)!.push(newSSTable);
+
+        logger.debug('Memtable flushed to SSTable', {
+          sstableId: newSSTable.getId(),
+          entries: entries.length,
+          size: newSSTable.getMetadata().size
+        });
+      }
+      this.immutableMemtables = this.immutableMemtables.filter(queued => queued !== immutable);
+      this.flushedMemtables++;
+
+      await this.wal.truncate(walSegment);
+
+      if (!this.compactionInProgress && this.pickCompaction()) {
+        this.triggerCompaction().catch(error => {
+          logger.error('Compaction failed', { error });
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to flush memtable', { error });
+      throw new StorageError(`Failed to flush memtable: ${error}`);
+    }
+  }
+
+  /**
+   * Hold writes back while background work falls behind: wait for a flush
+   * while too many memtables are queued, wait for compaction once L0 reaches
+   * the stop trigger, and delay each write past the slowdown trigger
+   */
+  private async throttleWrites(): Promise<void> {
+    const start = Date.now();
+    let stopped = false;
+
+    while (!this.closed) {
+      if (this.immutableMemtables.length >= this.maxImmutableMemtables) {
+        stopped = true;
+        await this.flushInBackground();
+      } else if (this.level0Count() >= this.level0StopWritesTrigger && this.compactionPending()) {
+        stopped = true;
+        await (this.compactionPromise ?? this.triggerCompaction());
+      } else {
+        break;
+      }
+    }
+
+    if (stopped) {
+      this.writeStall.stops++;
+    } else if (this.level0Count() >= this.level0SlowdownWritesTrigger && this.compactionPending()) {
+      this.writeStall.slowdowns++;
+      await new Promise(resolve => setTimeout(resolve, SLOWDOWN_DELAY_MS));
+    } else {
+      return;
+    }
+
+    this.writeStall.stallMs += Date.now() - start;
+  }
+
+  private level0Count(): number {
+    return (this.sstables.get(0) || []).length;
+  }
+
+  private compactionPending(): boolean {
+    return this.compactionInProgress || this.pickCompaction() !== undefined;
+  }
+
+  private async triggerCompaction(): Promise<void> {
+    if (this.compactionInProgress || this.closed) return;
+
+    this.compactionInProgress = true;
+    this.compactionPromise = this.compact();
+
+    try {
+      await this.compactionPromise;
+    } finally {
+      this.compactionInProgress = false;
+      this.compactionPromise = undefined;
+    }
+  }
+
+  /**
+   * Run compactions until the strategy finds nothing left to do
+   */
+  private async compact(): Promise<void> {
+    let pick = this.pickCompaction();
+    while (pick && !this.closed) {
+      await this.runCompaction(pick);
+      pick = this.pickCompaction();
+    }
+  }
+
+  private pickCompaction(): CompactionPick | undefined {
+    const levels: SSTableMetadata[][] = [];
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      levels.push((this.sstables.get(level) || []).map(table => table.getMetadata()));
+    }
+    return this.compactionStrategy.pick(levels);
+  }
+
+  private async runCompaction(pick: CompactionPick): Promise<void> {
+    const ids = new Set(pick.inputs);
+    const outputLevel = pick.outputLevel;
+    if (outputLevel < 0 || outputLevel >= MAX_LEVELS) {
+      throw new StorageError(`Invalid compaction output level: ${outputLevel}`);
+    }
+
+    // Deeper levels always hold older data, and each level is oldest first
+    const inputs: SSTable[] = [];
+    for (let level = MAX_LEVELS - 1; level >= 0; level--) {
+      inputs.push(...(this.sstables.get(level) || []).filter(table => ids.has(table.getId())));
+    }
+    if (inputs.length === 0) {
+      throw new StorageError(`Compaction picked no known tables: ${pick.inputs.join(', ')}`);
+    }
+
+    let result: CompactionResult;
+    if (pick.deleteOnly) {
+      result = this.compactionEngine.dropTables(inputs, this.compactionStrategy.name);
+    } else {
+      // Tombstones may only be dropped when no older table outside the
+      // compaction, below or beside the output, can hold the same keys
+      const minKey = inputs.reduce((min, t) => {
+        const key = t.getMetadata().minKey;
+        return this.comparator.compare(key, min) < 0 ? key : min;
+      }, inputs[0]!.getMetadata().minKey);
+      const maxKey = inputs.reduce((max, t) => {
+        const key = t.getMetadata().maxKey;
+        return this.comparator.compare(key, max) > 0 ? key : max;
+      }, inputs[0]!.getMetadata().maxKey);
+      const overlaps = (table: SSTable) => {
+        const meta = table.getMetadata();
+        return !(
+          this.comparator.compare(meta.maxKey, minKey) < 0 ||
+          this.comparator.compare(meta.minKey, maxKey) > 0
+        );
+      };
+
+      const outputTables = this.sstables.get(outputLevel) || [];
+      const firstInput = outputTables.findIndex(table => inputs.includes(table));
+      const older = [
+        ...outputTables.slice(0, firstInput === -1 ? outputTables.length : firstInput),
+        ...[...this.sstables.entries()].filter(([level]) => level > outputLevel).flatMap(([, tables]) => tables)
+      ];
+      const bottommost = !older.some(table => !inputs.includes(table) && overlaps(table));
+
+      result = await this.compactionEngine.compactInto(inputs, outputLevel, {
+        bottommost,
+        snapshots: this.snapshots.list(),
+        strategy: this.compactionStrategy.name
+      });
+    }
+
+    await this.manifest.logEdit({
+      addedTables: result.sstables.map(table => ({ level: outputLevel, number: table.getNumber() })),
+      removedTables: inputs.map(table => ({ level: table.getLevel(), number: table.getNumber() })),
+      nextFileNumber: this.nextTableNumber
+    });
+
+    // Outputs take the place of the oldest input in their level, so the
+    // level stays ordered by age
+    const outputTables = this.sstables.get(outputLevel) || [];
+    const position = outputTables.findIndex(table => inputs.includes(table));
+    for (const [level, tables] of this.sstables) {
+      this.sstables.set(level, tables.filter(table => !inputs.includes(table)));
+    }
+    const remaining = this.sstables.get(outputLevel)!;
+    const insertAt = position === -1 ? remaining.length : position;
+    this.sstables.set(outputLevel, [
+      ...remaining.slice(0, insertAt),
+      ...result.sstables,
+      ...remaining.slice(insertAt)
+    ]);
+
+    this.recordCompaction(result.stats);
+    await Promise.all(inputs.map(table => table.destroy()));
+
+    logger.info('Compaction completed', result.stats);
+  }
+
+  private recordCompaction(stats: CompactionStats): void {
+    this.compactionStats.push(stats);
+    if (this.compactionStats.length > RECENT_COMPACTIONS) {
+      this.compactionStats.shift();
+    }
+
+    const totals = this.compactionTotals;
+    totals.compactions++;
+    totals.inputSize += stats.inputSize;
+    totals.outputSize += stats.outputSize;
+    totals.duration += stats.duration;
+    totals.entriesCompacted += stats.entriesCompacted;
+    totals.entriesDropped += stats.entriesDropped;
+  }
+
+  startPeriodicCompaction(): void {
+    this.compactionTimer = setInterval(() => {
+      if (!this.compactionInProgress) {
+        this.triggerCompaction().catch(error => {
+          logger.error('Periodic compaction failed', { error });
+        });
+      }
+    }, this.config.compactionIntervalMs);
+    this.compactionTimer.unref();
+  }
+
+  private patternToRegex(pattern: string): RegExp {
+    const regexPattern = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+
+    return new RegExp(`^${regexPattern}$`);
   }
-}
\ No newline at end of file
+}
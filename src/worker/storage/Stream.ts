@@ -0,0 +1,90 @@
+/**
+ * A stream as the simple backend keeps it, and the metadata both backends
+ * keep for a stream
+ *
+ * Entries sit in a deque in ID order, so adding one and trimming the oldest
+ * take O(1), and each group's pending entries sit in a map by ID, in ID order
+ * as delivered IDs only grow. Commands change a stream in place; the LSM
+ * engine stores entries and pending entries under their own keys instead,
+ * next to a `StreamMeta`. Both scan a stream as the same plain object.
+ */
+
+import { StreamEntry } from '../../types';
+import { Deque } from './Deque';
+
+/** What a stream holds besides its entries and pending entries */
+export interface StreamMeta {
+  lastId: string;
+  entriesAdded: number;
+  groups: StreamGroup[];
+}
+
+export interface StreamGroup {
+  name: string;
+  lastDeliveredId: string;
+  consumers: StreamConsumer[];
+  /** Entries delivered but not acknowledged */
+  pending: number;
+}
+
+export interface StreamConsumer {
+  name: string;
+  seenAt: number;
+  pending: number;
+}
+
+export interface PendingEntry {
+  id: string;
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+export class Stream<V = any> implements StreamMeta {
+  entries = new Deque<StreamEntry<V>>();
+  lastId = '0-0';
+  entriesAdded = 0;
+  groups: StreamGroup[] = [];
+  /** Pending entries of each group, in the order of `groups` */
+  pending: Array<Map<string, PendingEntry>> = [];
+
+  clone(): Stream<V> {
+    const stream = new Stream<V>();
+    stream.entries = this.entries.clone();
+    stream.lastId = this.lastId;
+    stream.entriesAdded = this.entriesAdded;
+    stream.groups = copyGroups(this.groups);
+    // Pending entries are replaced rather than changed, so the maps can share them
+    stream.pending = this.pending.map(pending => new Map(pending));
+    return stream;
+  }
+
+  toJSON(): PlainStream<V> {
+    return plainStream(this, [...this.entries], this.pending.map(pending => [...pending.values()]));
+  }
+}
+
+/** A stream as scans yield it */
+export interface PlainStream<V> extends Omit<StreamMeta, 'groups'> {
+  entries: StreamEntry<V>[];
+  groups: Array<StreamGroup & { pendingEntries: PendingEntry[] }>;
+}
+
+/**
+ * @param pending The pending entries of each group, in the order of `groups`
+ */
+export function plainStream<V>(meta: StreamMeta, entries: StreamEntry<V>[], pending: PendingEntry[][]): PlainStream<V> {
+  return {
+    entries,
+    lastId: meta.lastId,
+    entriesAdded: meta.entriesAdded,
+    groups: meta.groups.map((group, i) => ({ ...group, pendingEntries: pending[i] ?? [] }))
+  };
+}
+
+/**
+ * Copies of groups and their consumers, which the caller may then change
+ */
+export function copyGroups(groups: StreamGroup[]): StreamGroup[] {
+  return groups.map(group => ({ ...group, consumers: group.consumers.map(consumer => ({ ...consumer })) }));
+}
@@ -0,0 +1,198 @@
+/**
+ * Random-access storage for encoded SSTables, either on disk or in memory
+ */
+
+import fs from 'fs/promises';
+import { TableCacheStats } from '../../types';
+import { StorageError } from '../../utils/errors';
+
+export interface TableFile {
+  readonly size: number;
+  read(offset: number, length: number): Promise<Buffer>;
+  close(): Promise<void>;
+}
+
+/**
+ * Holds an encoded table in a buffer, used when no data directory is configured
+ */
+export class MemoryTableFile implements TableFile {
+  constructor(private readonly data: Buffer) {}
+
+  get size(): number {
+    return this.data.length;
+  }
+
+  read(offset: number, length: number): Promise<Buffer> {
+    if (offset + length > this.data.length) {
+      return Promise.reject(new StorageError('Read past end of table', { offset, length }));
+    }
+    return Promise.resolve(this.data.subarray(offset, offset + length));
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * A table file on disk. Its handle may be closed by the table cache while no
+ * read is using it, and is reopened on the next read.
+ */
+export class DiskTableFile implements TableFile {
+  private handle?: fs.FileHandle;
+  private opening?: Promise<fs.FileHandle>;
+  private activeReads = 0;
+  private closed = false;
+
+  private constructor(
+    private readonly filePath: string,
+    readonly size: number,
+    private readonly cache?: TableCache
+  ) {}
+
+  static async open(filePath: string, cache?: TableCache): Promise<DiskTableFile> {
+    const handle = await fs.open(filePath, 'r');
+    const { size } = await handle.stat();
+    const file = new DiskTableFile(filePath, size, cache);
+    file.handle = handle;
+    await cache?.add(file);
+    return file;
+  }
+
+  /**
+   * Whether the handle can be closed without disturbing a read
+   */
+  get idle(): boolean {
+    return this.activeReads === 0 && !this.opening;
+  }
+
+  async read(offset: number, length: number): Promise<Buffer> {
+    if (this.closed) {
+      throw new StorageError('Table file is closed');
+    }
+
+    this.activeReads++;
+    try {
+      const handle = await this.acquireHandle();
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      if (bytesRead !== length) {
+        throw new StorageError('Short read from table file', { offset, length, bytesRead });
+      }
+      return buffer;
+    } finally {
+      this.activeReads--;
+    }
+  }
+
+  /**
+   * Release the handle to stay within the table cache's limit
+   */
+  async closeHandle(): Promise<void> {
+    const handle = this.handle;
+    this.handle = undefined;
+    await handle?.close();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.cache?.remove(this);
+    await this.closeHandle();
+  }
+
+  private async acquireHandle(): Promise<fs.FileHandle> {
+    if (this.handle) {
+      this.cache?.touch(this);
+      return this.handle;
+    }
+
+    this.opening ??= (async () => {
+      try {
+        const handle = await fs.open(this.filePath, 'r');
+        if (this.closed) {
+          await handle.close();
+          throw new StorageError('Table file is closed');
+        }
+
+        this.handle = handle;
+        await this.cache?.add(this);
+        return handle;
+      } finally {
+        this.opening = undefined;
+      }
+    })();
+
+    return this.opening;
+  }
+}
+
+/**
+ * Bounds the number of open table file handles. Handles are closed least
+ * recently used first, skipping files with reads in flight.
+ */
+export class TableCache {
+  // Set iteration follows insertion order, so the first file is the least
+  // recently used one
+  private files = new Set<DiskTableFile>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly maxOpenFiles: number) {}
+
+  touch(file: DiskTableFile): void {
+    this.hits++;
+    this.files.delete(file);
+    this.files.add(file);
+  }
+
+  /**
+   * Record a newly opened handle and close others that are over the limit
+   */
+  async add(file: DiskTableFile): Promise<void> {
+    this.misses++;
+    this.files.delete(file);
+    this.files.add(file);
+
+    const evicted: DiskTableFile[] = [];
+    for (const candidate of this.files) {
+      if (this.files.size - evicted.length <= this.maxOpenFiles) break;
+      if (candidate !== file && candidate.idle) {
+        evicted.push(candidate);
+      }
+    }
+
+    evicted.forEach(candidate => this.files.delete(candidate));
+    await Promise.all(evicted.map(candidate => candidate.closeHandle()));
+  }
+
+  remove(file: DiskTableFile): void {
+    this.files.delete(file);
+  }
+
+  getStats(): TableCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      openFiles: this.files.size,
+      capacity: this.maxOpenFiles
+    };
+  }
+}
+
+/**
+ * Write a table atomically: the data goes to a temporary file that is synced
+ * and then renamed into place, so readers never see a partial table
+ */
+export async function writeTableFile(filePath: string, data: Buffer): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  await fs.rename(tempPath, filePath);
+}
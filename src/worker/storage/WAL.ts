@@ -1,74 +1,284 @@
 /**
  * Write-Ahead Log implementation for durability
+ *
+ * The log is split into numbered segment files (`wal-000001.log`, ...) in the
+ * data directory, each holding length-prefixed, checksummed records (see
+ * LogRecord). Replay of a segment stops at the first torn record.
+ *
+ * A record holds either one entry or, for a write batch, the array of its
+ * entries, so a batch is replayed whole or not at all.
  */
 
-import { StorageEntry } from '../../types';
-import { createLogger } from '../../utils/logger';
+import fs from 'fs/promises';
+import path from 'path';
+import { SerializationOptions, WALSyncPolicy } from '../../types';
+import { WALEntry } from '../types';
+import { encodeRecord, decodeRecords } from './LogRecord';
+import { StorageError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { defaultSerializer } from '../../utils/serializer';
 
-const logger = createLogger();
+const SEGMENT_PREFIX = 'wal-';
+const SEGMENT_SUFFIX = '.log';
+const SEGMENT_PATTERN = /^wal-(\d+)\.log$/;
+
+export interface WALOptions {
+  dataDir?: string;
+  syncPolicy?: WALSyncPolicy;
+  segmentSizeBytes?: number;
+  serializer?: SerializationOptions;
+}
 
 export class WAL<K = string, V = any> {
-  private entries: StorageEntry<K, V>[] = [];
-  private flushPromise?: Promise<void>;
+  private options: Required<Omit<WALOptions, 'dataDir'>> & Pick<WALOptions, 'dataDir'>;
+  private handle?: fs.FileHandle;
+  private segmentNumber = 0;
+  private segmentSize = 0;
+  private entryCount = 0;
+  private dirty = false;
+  private queue: Promise<void> = Promise.resolve();
+  private syncTimer?: NodeJS.Timeout;
+
+  constructor(options: WALOptions = {}) {
+    this.options = {
+      dataDir: options.dataDir,
+      syncPolicy: options.syncPolicy ?? 'everysec',
+      segmentSizeBytes: options.segmentSizeBytes ?? 4 * 1024 * 1024,
+      serializer: options.serializer ?? defaultSerializer
+    };
+  }
 
-  constructor() {
-    // Constructor simplified for demo
+  get isPersistent(): boolean {
+    return this.options.dataDir !== undefined;
   }
 
   async initialize(): Promise<void> {
-    // In a real implementation, this would:
-    // - Open file handles
-    // - Replay existing WAL entries
-    // - Set up fsync intervals
-    logger.debug('WAL initialized');
+    if (!this.options.dataDir) {
+      logger.debug('WAL initialized in memory-only mode');
+      return;
+    }
+
+    await fs.mkdir(this.options.dataDir, { recursive: true });
+
+    // Never append after a possibly torn tail: start a fresh segment
+    const segments = await this.listSegments();
+    this.segmentNumber = segments.length > 0 ? segments[segments.length - 1]! : 0;
+    await this.openNextSegment();
+
+    if (this.options.syncPolicy === 'everysec') {
+      this.syncTimer = setInterval(() => {
+        this.flush().catch(error => {
+          logger.error('WAL background sync failed', { error });
+        });
+      }, 1000);
+      this.syncTimer.unref();
+    }
+
+    logger.debug('WAL initialized', {
+      dataDir: this.options.dataDir,
+      segment: this.segmentNumber,
+      syncPolicy: this.options.syncPolicy
+    });
   }
 
-  async append(entry: StorageEntry): Promise<void> {
-    this.entries.push(entry);
-    
-    // In production, this would:
-    // - Write to disk
-    // - fsync periodically
-    // - Handle write failures
-    
-    // For now, we just keep in memory
-    if (this.entries.length % 100 === 0) {
-      await this.flush();
+  async append(entry: WALEntry<K, V>): Promise<void> {
+    this.entryCount++;
+
+    if (!this.isPersistent) {
+      return;
     }
+
+    const record = this.encodeRecord(entry);
+    await this.enqueue(() => this.writeRecord(record));
   }
 
-  async replay(): Promise<StorageEntry[]> {
-    // In production, read from disk and replay
-    return [...this.entries];
+  /**
+   * Log the entries of a write batch as a single record
+   */
+  async appendBatch(entries: WALEntry<K, V>[]): Promise<void> {
+    this.entryCount += entries.length;
+
+    if (!this.isPersistent) {
+      return;
+    }
+
+    const record = this.encodeRecord(entries);
+    await this.enqueue(() => this.writeRecord(record));
   }
 
-  async flush(): Promise<void> {
-    if (this.flushPromise) {
-      return this.flushPromise;
+  /**
+   * Read every record from segments older than the active one, in write order
+   * @param fromSegment - Skip segments numbered below this one
+   */
+  async replay(fromSegment: number = 0): Promise<WALEntry<K, V>[]> {
+    if (!this.options.dataDir) {
+      return [];
     }
 
-    this.flushPromise = this.doFlush();
-    await this.flushPromise;
-    this.flushPromise = undefined;
+    const entries: WALEntry<K, V>[] = [];
+    const segments = (await this.listSegments()).filter(
+      n => n >= fromSegment && n < this.segmentNumber
+    );
+
+    for (const segment of segments) {
+      const data = await fs.readFile(this.segmentPath(segment));
+      entries.push(...this.decodeSegment(segment, data));
+    }
+
+    logger.debug('WAL replayed', { segments: segments.length, entries: entries.length });
+    return entries;
   }
 
-  private async doFlush(): Promise<void> {
-    // In production: fsync to disk
-    logger.debug('WAL flushed', { entries: this.entries.length });
+  /**
+   * Close the active segment and start a new one
+   * @returns The number of the new segment; older segments can be truncated
+   * once everything they cover is durable elsewhere
+   */
+  async rotate(): Promise<number> {
+    if (!this.isPersistent) {
+      return this.segmentNumber;
+    }
+
+    return this.enqueue(async () => {
+      await this.rollSegment();
+      return this.segmentNumber;
+    });
+  }
+
+  /**
+   * Delete every segment numbered below the given one
+   */
+  async truncate(beforeSegment: number): Promise<void> {
+    if (!this.options.dataDir) {
+      return;
+    }
+
+    for (const segment of await this.listSegments()) {
+      if (segment < beforeSegment) {
+        await fs.rm(this.segmentPath(segment), { force: true });
+      }
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.enqueue(() => this.sync());
   }
 
   async clear(): Promise<void> {
-    this.entries = [];
-    await this.flush();
+    this.entryCount = 0;
+    const segment = await this.rotate();
+    await this.truncate(segment);
   }
 
   async close(): Promise<void> {
-    await this.flush();
-    // In production: close file handles
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+
+    await this.enqueue(async () => {
+      if (this.handle) {
+        await this.sync();
+        await this.handle.close();
+        this.handle = undefined;
+      }
+    });
+
     logger.debug('WAL closed');
   }
 
   getSize(): number {
-    return this.entries.length;
+    return this.entryCount;
+  }
+
+  /**
+   * Run file operations one at a time so records land in append order and
+   * the active handle is never swapped out mid-write
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  private async writeRecord(record: Buffer): Promise<void> {
+    if (!this.handle) {
+      throw new StorageError('WAL is closed');
+    }
+
+    await this.handle.write(record, 0, record.length, this.segmentSize);
+    this.segmentSize += record.length;
+    this.dirty = true;
+
+    if (this.options.syncPolicy === 'always') {
+      await this.sync();
+    }
+
+    if (this.segmentSize >= this.options.segmentSizeBytes) {
+      await this.rollSegment();
+    }
+  }
+
+  private async sync(): Promise<void> {
+    if (!this.handle || !this.dirty) {
+      return;
+    }
+
+    this.dirty = false;
+    await this.handle.sync();
+  }
+
+  private async rollSegment(): Promise<void> {
+    if (this.handle) {
+      await this.sync();
+      await this.handle.close();
+    }
+
+    await this.openNextSegment();
+  }
+
+  private encodeRecord(entry: WALEntry<K, V> | WALEntry<K, V>[]): Buffer {
+    const serialized = this.options.serializer.serialize(entry);
+    const payload = typeof serialized === 'string' ? Buffer.from(serialized, 'utf-8') : serialized;
+    return encodeRecord(payload);
+  }
+
+  private decodeSegment(segment: number, data: Buffer): WALEntry<K, V>[] {
+    const { records, tornAt } = decodeRecords(data);
+
+    if (tornAt !== undefined) {
+      logger.warn('Skipping torn WAL record', { segment, offset: tornAt });
+    }
+
+    return records.flatMap(payload => {
+      const decoded = this.options.serializer.deserialize<WALEntry<K, V> | WALEntry<K, V>[]>(payload);
+      return Array.isArray(decoded) ? decoded : [decoded];
+    });
+  }
+
+  private async openNextSegment(): Promise<void> {
+    this.segmentNumber++;
+    this.segmentSize = 0;
+    this.dirty = false;
+    this.handle = await fs.open(this.segmentPath(this.segmentNumber), 'w');
+  }
+
+  private async listSegments(): Promise<number[]> {
+    const files = await fs.readdir(this.options.dataDir!);
+    return files
+      .map(file => SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  private segmentPath(segment: number): string {
+    return path.join(
+      this.options.dataDir!,
+      `${SEGMENT_PREFIX}${String(segment).padStart(6, '0')}${SEGMENT_SUFFIX}`
+    );
   }
-}
\ No newline at end of file
+}
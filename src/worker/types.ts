@@ -2,7 +2,22 @@
  * Worker-specific types for SnapDBJS
  */
 
-import { WorkerRequest, WorkerResponse, StorageEntry } from '../types';
+import {
+  WorkerRequest,
+  WorkerResponse,
+  StorageEntry,
+  SerializationOptions,
+  WALSyncPolicy,
+  CompactionConfig,
+  CompressionType,
+  BloomFilterConfig,
+  PrefixExtractorConfig,
+  Comparator,
+  ComparatorName,
+  ValueType
+} from '../types';
+import { BlockCache } from './storage/BlockCache';
+import { TableCache } from './storage/TableFile';
 
 export interface WorkerMessage<K = string, V = any> {
   type: 'request' | 'response' | 'event';
@@ -19,8 +34,13 @@ export interface WALEntry<K = string, V = any> {
   timestamp: number;
   operation: 'SET' | 'DEL' | 'EXPIRE';
   key: K;
+  /** Absent for EXPIRE, which keeps what the key holds */
   value?: V;
+  /** Kind of value written by SET, absent for strings */
+  type?: ValueType;
   ttl?: number;
+  /** Missing in logs written before sequence numbers were introduced */
+  sequence?: number;
 }
 
 export interface MemtableEntry<K = string, V = any> extends StorageEntry<K, V> {
@@ -50,6 +70,22 @@ export interface BloomFilter {
 
 export interface StorageEngineConfig {
   maxMemtableSizeMB: number;
+  maxImmutableMemtables?: number;
   compactionIntervalMs: number;
+  compaction?: CompactionConfig;
   enableBloomFilter: boolean;
+  bloomFilter?: BloomFilterConfig;
+  prefixExtractor?: PrefixExtractorConfig;
+  comparator?: ComparatorName | Comparator;
+  blockCacheSizeMB?: number;
+  maxOpenFiles?: number;
+  compression?: CompressionType | CompressionType[];
+  /** Caches shared by the engine's tables, set up by the engine */
+  blockCache?: BlockCache;
+  tableCache?: TableCache;
+  serializer: SerializationOptions;
+  dataDir?: string;
+  walSyncPolicy: WALSyncPolicy;
+  /** CPU time limit for scripts run by the worker thread */
+  scriptTimeoutMs?: number;
 }
\ No newline at end of file
@@ -4,18 +4,68 @@
 
 import { parentPort } from 'worker_threads';
 import { StorageEngine } from './storage/StorageEngine';
+import { ScriptRunner } from './scripting/ScriptRunner';
+import { BlockingPops } from './blocking/BlockingPops';
 import { WorkerMessage, StorageEngineConfig } from './types';
-import { WorkerRequest, WorkerResponse, CommandType } from '../types';
-import { WorkerError, ValidationError } from '../utils/errors';
-import { createLogger } from '../utils/logger';
+import {
+  WorkerRequest,
+  WorkerResponse,
+  WorkerCommand,
+  ListEnd,
+  ListPosition,
+  ScanEntry,
+  ZRangeBound
+} from '../types';
+import { WorkerError, ValidationError, serializeError } from '../utils/errors';
+import { defaultSerializer } from '../utils/serializer';
+import { scanKeys } from '../utils/cursor';
+
+function isListEnd(value: unknown): value is ListEnd {
+  return value === 'left' || value === 'right';
+}
+
+function isListPosition(value: unknown): value is ListPosition {
+  return value === 'before' || value === 'after';
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isSafeInteger(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isRangeBound(value: unknown): value is ZRangeBound {
+  return typeof value === 'number' || typeof value === 'string';
+}
+
+function isStreamList<K>(value: unknown): value is Array<[K, string]> {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(item => Array.isArray(item) && item.length === 2 && typeof item[1] === 'string')
+  );
+}
 
 class WorkerThread<K = string, V = any> {
   private storageEngine: StorageEngine<K, V>;
+  private scripts: ScriptRunner<K, V>;
+  private blocking: BlockingPops<K, V>;
 
   constructor(config: StorageEngineConfig) {
     this.storageEngine = new StorageEngine<K, V>(config);
-    this.setupMessageHandler();
+    this.scripts = new ScriptRunner<K, V>(this.storageEngine, config.scriptTimeoutMs ?? 5000);
+    this.blocking = new BlockingPops<K, V>(this.storageEngine);
+  }
+
+  /**
+   * Recover the storage engine, then start taking requests
+   */
+  async start(): Promise<void> {
+    await this.storageEngine.open();
     this.storageEngine.startPeriodicCompaction();
+    this.setupMessageHandler();
   }
 
   private setupMessageHandler(): void {
@@ -29,27 +79,22 @@ class WorkerThread<K = string, V = any> {
       }
     });
 
-    parentPort.postMessage({
-      type: 'event',
-      data: {
-        type: 'workerReady',
-        payload: { ready: true },
-      },
-    });
+    this.sendEvent('workerReady', { ready: true });
   }
 
   private async handleRequest(request: WorkerRequest<K, V>): Promise<void> {
-    const { id, command, args } = request;
+    const { id } = request;
     
     try {
-      const result = await this.executeCommand(command, args);
+      const result = await this.executeCommand(request);
       this.sendResponse(id, result);
     } catch (error) {
       this.sendError(id, error as Error);
     }
   }
 
-  private async executeCommand(command: CommandType, args: any): Promise<any> {
+  private async executeCommand(request: WorkerCommand<K, V>): Promise<unknown> {
+    const { command, args } = request;
     switch (command) {
       case 'SET': {
         if (!args.key || args.value === undefined) {
@@ -98,28 +143,627 @@ class WorkerThread<K = string, V = any> {
         if (!args.key) {
           throw new ValidationError('INCR requires key');
         }
-        const current = await this.storageEngine.get(args.key);
-        const value = typeof current === 'number' ? current : 0;
-        const newValue = value + (args.amount || 1);
-        await this.storageEngine.set(args.key, newValue as V);
-        return newValue;
+        return await this.storageEngine.incr(args.key);
       }
 
       case 'DECR': {
         if (!args.key) {
           throw new ValidationError('DECR requires key');
         }
-        const current = await this.storageEngine.get(args.key);
-        const value = typeof current === 'number' ? current : 0;
-        const newValue = value - (args.amount || 1);
-        await this.storageEngine.set(args.key, newValue as V);
-        return newValue;
+        return await this.storageEngine.decr(args.key);
+      }
+
+      case 'BATCH': {
+        const { operations } = args;
+        if (!Array.isArray(operations)) {
+          throw new ValidationError('BATCH requires operations');
+        }
+        await this.storageEngine.writeBatch(operations);
+        return undefined;
+      }
+
+      case 'VERSION': {
+        if (!args.key) {
+          throw new ValidationError('VERSION requires key');
+        }
+        return await this.storageEngine.getVersion(args.key);
+      }
+
+      case 'GETMETA': {
+        if (!args.key) {
+          throw new ValidationError('GETMETA requires key');
+        }
+        return await this.storageEngine.getWithMeta(args.key);
+      }
+
+      case 'SETIFVERSION': {
+        if (!args.key || args.value === undefined || typeof args.version !== 'number') {
+          throw new ValidationError('SETIFVERSION requires key, value and version');
+        }
+        return await this.storageEngine.setIfVersion(args.key, args.value, args.version, args.ttl);
+      }
+
+      case 'DELIFVERSION': {
+        if (!args.key || typeof args.version !== 'number') {
+          throw new ValidationError('DELIFVERSION requires key and version');
+        }
+        return await this.storageEngine.delIfVersion(args.key, args.version);
+      }
+
+      case 'EVAL': {
+        const { script, keys, argv } = args;
+        if (typeof script !== 'string') {
+          throw new ValidationError('EVAL requires script');
+        }
+        try {
+          return await this.scripts.eval(script, keys ?? [], argv ?? []);
+        } finally {
+          // Scripts may add to keys with blocked callers
+          await this.blocking.notifyAll();
+        }
+      }
+
+      case 'EVALSHA': {
+        const { sha, keys, argv } = args;
+        if (typeof sha !== 'string') {
+          throw new ValidationError('EVALSHA requires sha');
+        }
+        try {
+          return await this.scripts.evalsha(sha, keys ?? [], argv ?? []);
+        } finally {
+          // Scripts may add to keys with blocked callers
+          await this.blocking.notifyAll();
+        }
+      }
+
+      case 'SCRIPTLOAD': {
+        const { script } = args;
+        if (typeof script !== 'string') {
+          throw new ValidationError('SCRIPTLOAD requires script');
+        }
+        return this.scripts.load(script);
+      }
+
+      case 'SCRIPTEXISTS': {
+        return this.scripts.exists(args.shas ?? []);
+      }
+
+      case 'SCRIPTLIST': {
+        return this.scripts.list();
+      }
+
+      case 'SCRIPTFLUSH': {
+        this.scripts.flush();
+        return undefined;
+      }
+
+      case 'TYPE': {
+        if (!args.key) {
+          throw new ValidationError('TYPE requires key');
+        }
+        return await this.storageEngine.type(args.key);
+      }
+
+      case 'HSET': {
+        if (!args.key || !args.hash) {
+          throw new ValidationError('HSET requires key and fields');
+        }
+        return await this.storageEngine.hset(args.key, args.hash);
+      }
+
+      case 'HGET': {
+        if (!args.key || typeof args.field !== 'string') {
+          throw new ValidationError('HGET requires key and field');
+        }
+        return await this.storageEngine.hget(args.key, args.field);
+      }
+
+      case 'HMGET': {
+        if (!args.key || !Array.isArray(args.fields)) {
+          throw new ValidationError('HMGET requires key and fields');
+        }
+        return await this.storageEngine.hmget(args.key, args.fields);
+      }
+
+      case 'HGETALL': {
+        if (!args.key) {
+          throw new ValidationError('HGETALL requires key');
+        }
+        return await this.storageEngine.hgetall(args.key);
+      }
+
+      case 'HDEL': {
+        if (!args.key || !Array.isArray(args.fields)) {
+          throw new ValidationError('HDEL requires key and fields');
+        }
+        return await this.storageEngine.hdel(args.key, args.fields);
+      }
+
+      case 'HEXISTS': {
+        if (!args.key || typeof args.field !== 'string') {
+          throw new ValidationError('HEXISTS requires key and field');
+        }
+        return await this.storageEngine.hexists(args.key, args.field);
+      }
+
+      case 'HLEN': {
+        if (!args.key) {
+          throw new ValidationError('HLEN requires key');
+        }
+        return await this.storageEngine.hlen(args.key);
+      }
+
+      case 'HKEYS': {
+        if (!args.key) {
+          throw new ValidationError('HKEYS requires key');
+        }
+        return await this.storageEngine.hkeys(args.key);
+      }
+
+      case 'HVALS': {
+        if (!args.key) {
+          throw new ValidationError('HVALS requires key');
+        }
+        return await this.storageEngine.hvals(args.key);
+      }
+
+      case 'HINCRBY':
+      case 'HINCRBYFLOAT': {
+        if (!args.key || typeof args.field !== 'string' || typeof args.increment !== 'number') {
+          throw new ValidationError(`${command} requires key, field and increment`);
+        }
+        return command === 'HINCRBY'
+          ? await this.storageEngine.hincrby(args.key, args.field, args.increment)
+          : await this.storageEngine.hincrbyfloat(args.key, args.field, args.increment);
+      }
+
+      case 'HSCAN': {
+        if (!args.key || typeof args.cursor !== 'string') {
+          throw new ValidationError('HSCAN requires key and cursor');
+        }
+        return await this.storageEngine.hscan(args.key, args.cursor, args.options);
+      }
+
+      case 'LPUSH':
+      case 'RPUSH': {
+        if (!args.key || !Array.isArray(args.values) || args.values.length === 0) {
+          throw new ValidationError(`${command} requires key and values`);
+        }
+        const length = command === 'LPUSH'
+          ? await this.storageEngine.lpush(args.key, args.values)
+          : await this.storageEngine.rpush(args.key, args.values);
+        await this.blocking.notify([args.key]);
+        return length;
+      }
+
+      case 'LPOP':
+      case 'RPOP': {
+        if (!args.key || !isInteger(args.count) || args.count < 0) {
+          throw new ValidationError(`${command} requires key and count`);
+        }
+        return command === 'LPOP'
+          ? await this.storageEngine.lpop(args.key, args.count)
+          : await this.storageEngine.rpop(args.key, args.count);
+      }
+
+      case 'LRANGE': {
+        if (!args.key || !isInteger(args.start) || !isInteger(args.stop)) {
+          throw new ValidationError('LRANGE requires key, start and stop');
+        }
+        return await this.storageEngine.lrange(args.key, args.start, args.stop);
+      }
+
+      case 'LLEN': {
+        if (!args.key) {
+          throw new ValidationError('LLEN requires key');
+        }
+        return await this.storageEngine.llen(args.key);
+      }
+
+      case 'LINDEX': {
+        if (!args.key || !isInteger(args.index)) {
+          throw new ValidationError('LINDEX requires key and index');
+        }
+        return await this.storageEngine.lindex(args.key, args.index);
+      }
+
+      case 'LSET': {
+        if (!args.key || !isInteger(args.index) || args.value === undefined) {
+          throw new ValidationError('LSET requires key, index and value');
+        }
+        await this.storageEngine.lset(args.key, args.index, args.value);
+        return undefined;
+      }
+
+      case 'LREM': {
+        if (!args.key || !isInteger(args.count) || args.value === undefined) {
+          throw new ValidationError('LREM requires key, count and value');
+        }
+        return await this.storageEngine.lrem(args.key, args.count, args.value);
+      }
+
+      case 'LTRIM': {
+        if (!args.key || !isInteger(args.start) || !isInteger(args.stop)) {
+          throw new ValidationError('LTRIM requires key, start and stop');
+        }
+        await this.storageEngine.ltrim(args.key, args.start, args.stop);
+        return undefined;
+      }
+
+      case 'LINSERT': {
+        if (!args.key || !isListPosition(args.position) || args.pivot === undefined || args.value === undefined) {
+          throw new ValidationError('LINSERT requires key, position, pivot and value');
+        }
+        return await this.storageEngine.linsert(args.key, args.position, args.pivot, args.value);
+      }
+
+      case 'LMOVE': {
+        if (!args.key || !args.destination || !isListEnd(args.from) || !isListEnd(args.to)) {
+          throw new ValidationError('LMOVE requires key, destination, from and to');
+        }
+        const moved = await this.storageEngine.lmove(args.key, args.destination, args.from, args.to);
+        if (moved !== null) {
+          await this.blocking.notify([args.destination]);
+        }
+        return moved;
+      }
+
+      case 'BLPOP':
+      case 'BRPOP': {
+        if (!Array.isArray(args.keys) || args.keys.length === 0 || typeof args.timeoutMs !== 'number') {
+          throw new ValidationError(`${command} requires keys and timeoutMs`);
+        }
+        return command === 'BLPOP'
+          ? await this.blocking.blpop(args.keys, args.timeoutMs)
+          : await this.blocking.brpop(args.keys, args.timeoutMs);
+      }
+
+      case 'BLMOVE': {
+        if (
+          !args.key ||
+          !args.destination ||
+          !isListEnd(args.from) ||
+          !isListEnd(args.to) ||
+          typeof args.timeoutMs !== 'number'
+        ) {
+          throw new ValidationError('BLMOVE requires key, destination, from, to and timeoutMs');
+        }
+        return await this.blocking.blmove(args.key, args.destination, args.from, args.to, args.timeoutMs);
+      }
+
+      case 'SADD':
+      case 'SREM': {
+        if (!args.key || !isStringArray(args.members) || args.members.length === 0) {
+          throw new ValidationError(`${command} requires key and members`);
+        }
+        return command === 'SADD'
+          ? await this.storageEngine.sadd(args.key, args.members)
+          : await this.storageEngine.srem(args.key, args.members);
+      }
+
+      case 'SMEMBERS': {
+        if (!args.key) {
+          throw new ValidationError('SMEMBERS requires key');
+        }
+        return await this.storageEngine.smembers(args.key);
+      }
+
+      case 'SISMEMBER': {
+        if (!args.key || typeof args.member !== 'string') {
+          throw new ValidationError('SISMEMBER requires key and member');
+        }
+        return await this.storageEngine.sismember(args.key, args.member);
+      }
+
+      case 'SMISMEMBER': {
+        if (!args.key || !isStringArray(args.members)) {
+          throw new ValidationError('SMISMEMBER requires key and members');
+        }
+        return await this.storageEngine.smismember(args.key, args.members);
+      }
+
+      case 'SCARD': {
+        if (!args.key) {
+          throw new ValidationError('SCARD requires key');
+        }
+        return await this.storageEngine.scard(args.key);
+      }
+
+      case 'SPOP': {
+        if (!args.key || !isInteger(args.count) || args.count < 0) {
+          throw new ValidationError('SPOP requires key and count');
+        }
+        return await this.storageEngine.spop(args.key, args.count);
+      }
+
+      case 'SRANDMEMBER': {
+        if (!args.key || !isInteger(args.count)) {
+          throw new ValidationError('SRANDMEMBER requires key and count');
+        }
+        return await this.storageEngine.srandmember(args.key, args.count);
+      }
+
+      case 'SINTER':
+      case 'SUNION':
+      case 'SDIFF': {
+        if (!Array.isArray(args.keys) || args.keys.length === 0) {
+          throw new ValidationError(`${command} requires keys`);
+        }
+        if (command === 'SINTER') {
+          return await this.storageEngine.sinter(args.keys);
+        }
+        return command === 'SUNION'
+          ? await this.storageEngine.sunion(args.keys)
+          : await this.storageEngine.sdiff(args.keys);
+      }
+
+      case 'SINTERSTORE':
+      case 'SUNIONSTORE':
+      case 'SDIFFSTORE': {
+        if (!args.destination || !Array.isArray(args.keys) || args.keys.length === 0) {
+          throw new ValidationError(`${command} requires destination and keys`);
+        }
+        if (command === 'SINTERSTORE') {
+          return await this.storageEngine.sinterstore(args.destination, args.keys);
+        }
+        return command === 'SUNIONSTORE'
+          ? await this.storageEngine.sunionstore(args.destination, args.keys)
+          : await this.storageEngine.sdiffstore(args.destination, args.keys);
+      }
+
+      case 'SSCAN': {
+        if (!args.key || typeof args.cursor !== 'string') {
+          throw new ValidationError('SSCAN requires key and cursor');
+        }
+        return await this.storageEngine.sscan(args.key, args.cursor, args.options);
+      }
+
+      case 'ZADD': {
+        if (!args.key || !args.scores || typeof args.scores !== 'object' || Object.keys(args.scores).length === 0) {
+          throw new ValidationError('ZADD requires key and scores');
+        }
+        const result = await this.storageEngine.zadd(args.key, args.scores, args.addOptions ?? {});
+        await this.blocking.notify([args.key]);
+        return result;
+      }
+
+      case 'ZREM': {
+        if (!args.key || !isStringArray(args.members) || args.members.length === 0) {
+          throw new ValidationError('ZREM requires key and members');
+        }
+        return await this.storageEngine.zrem(args.key, args.members);
+      }
+
+      case 'ZSCORE':
+      case 'ZRANK':
+      case 'ZREVRANK': {
+        if (!args.key || typeof args.member !== 'string') {
+          throw new ValidationError(`${command} requires key and member`);
+        }
+        if (command === 'ZSCORE') {
+          return await this.storageEngine.zscore(args.key, args.member);
+        }
+        return command === 'ZRANK'
+          ? await this.storageEngine.zrank(args.key, args.member)
+          : await this.storageEngine.zrevrank(args.key, args.member);
+      }
+
+      case 'ZINCRBY': {
+        if (!args.key || typeof args.member !== 'string' || typeof args.increment !== 'number') {
+          throw new ValidationError('ZINCRBY requires key, increment and member');
+        }
+        const score = await this.storageEngine.zincrby(args.key, args.increment, args.member);
+        await this.blocking.notify([args.key]);
+        return score;
+      }
+
+      case 'ZCARD': {
+        if (!args.key) {
+          throw new ValidationError('ZCARD requires key');
+        }
+        return await this.storageEngine.zcard(args.key);
+      }
+
+      case 'ZRANGE': {
+        if (!args.key || !isRangeBound(args.min) || !isRangeBound(args.max)) {
+          throw new ValidationError('ZRANGE requires key, min and max');
+        }
+        return await this.storageEngine.zrange(args.key, args.min, args.max, args.rangeOptions ?? {});
+      }
+
+      case 'ZRANGESTORE': {
+        if (!args.key || !args.destination || !isRangeBound(args.min) || !isRangeBound(args.max)) {
+          throw new ValidationError('ZRANGESTORE requires key, destination, min and max');
+        }
+        const size = await this.storageEngine.zrangestore(
+          args.destination,
+          args.key,
+          args.min,
+          args.max,
+          args.rangeOptions ?? {}
+        );
+        await this.blocking.notify([args.destination]);
+        return size;
+      }
+
+      case 'ZCOUNT': {
+        if (!args.key || !isRangeBound(args.min) || !isRangeBound(args.max)) {
+          throw new ValidationError('ZCOUNT requires key, min and max');
+        }
+        return await this.storageEngine.zcount(args.key, args.min, args.max);
+      }
+
+      case 'ZPOPMIN':
+      case 'ZPOPMAX': {
+        if (!args.key || !isInteger(args.count) || args.count < 0) {
+          throw new ValidationError(`${command} requires key and count`);
+        }
+        return command === 'ZPOPMIN'
+          ? await this.storageEngine.zpopmin(args.key, args.count)
+          : await this.storageEngine.zpopmax(args.key, args.count);
+      }
+
+      case 'BZPOPMIN': {
+        if (!Array.isArray(args.keys) || args.keys.length === 0 || typeof args.timeoutMs !== 'number') {
+          throw new ValidationError('BZPOPMIN requires keys and timeoutMs');
+        }
+        return await this.blocking.bzpopmin(args.keys, args.timeoutMs);
+      }
+
+      case 'ZUNIONSTORE':
+      case 'ZINTERSTORE': {
+        if (!args.destination || !Array.isArray(args.keys) || args.keys.length === 0) {
+          throw new ValidationError(`${command} requires destination and keys`);
+        }
+        const size = command === 'ZUNIONSTORE'
+          ? await this.storageEngine.zunionstore(args.destination, args.keys, args.storeOptions ?? {})
+          : await this.storageEngine.zinterstore(args.destination, args.keys, args.storeOptions ?? {});
+        await this.blocking.notify([args.destination]);
+        return size;
+      }
+
+      case 'ZSCAN': {
+        if (!args.key || typeof args.cursor !== 'string') {
+          throw new ValidationError('ZSCAN requires key and cursor');
+        }
+        return await this.storageEngine.zscan(args.key, args.cursor, args.options);
+      }
+
+      case 'XADD': {
+        if (!args.key || !args.hash || typeof args.hash !== 'object' || Object.keys(args.hash).length === 0) {
+          throw new ValidationError('XADD requires key and fields');
+        }
+        const id = await this.storageEngine.xadd(args.key, args.hash, args.xaddOptions ?? {});
+        await this.blocking.notify([args.key]);
+        return id;
+      }
+
+      case 'XRANGE':
+      case 'XREVRANGE': {
+        if (!args.key || typeof args.min !== 'string' || typeof args.max !== 'string') {
+          throw new ValidationError(`${command} requires key, start and end`);
+        }
+        return command === 'XRANGE'
+          ? await this.storageEngine.xrange(args.key, args.min, args.max, args.count)
+          : await this.storageEngine.xrevrange(args.key, args.max, args.min, args.count);
+      }
+
+      case 'XREAD': {
+        if (!isStreamList<K>(args.streams)) {
+          throw new ValidationError('XREAD requires streams');
+        }
+        return typeof args.timeoutMs === 'number'
+          ? await this.blocking.xread(args.streams, args.count, args.timeoutMs)
+          : await this.storageEngine.xread(args.streams, args.count);
+      }
+
+      case 'XGROUPCREATE': {
+        if (!args.key || typeof args.group !== 'string' || typeof args.id !== 'string') {
+          throw new ValidationError('XGROUPCREATE requires key, group and id');
+        }
+        await this.storageEngine.xgroupCreate(args.key, args.group, args.id, args.mkStream ?? false);
+        return undefined;
+      }
+
+      case 'XREADGROUP': {
+        if (typeof args.group !== 'string' || typeof args.consumer !== 'string' || !isStreamList<K>(args.streams)) {
+          throw new ValidationError('XREADGROUP requires group, consumer and streams');
+        }
+        const { count, noAck } = args.readOptions ?? {};
+        return typeof args.timeoutMs === 'number'
+          ? await this.blocking.xreadgroup(args.group, args.consumer, args.streams, { count, noAck }, args.timeoutMs)
+          : await this.storageEngine.xreadgroup(args.group, args.consumer, args.streams, { count, noAck });
+      }
+
+      case 'XACK': {
+        if (!args.key || typeof args.group !== 'string' || !isStringArray(args.ids) || args.ids.length === 0) {
+          throw new ValidationError('XACK requires key, group and ids');
+        }
+        return await this.storageEngine.xack(args.key, args.group, args.ids);
+      }
+
+      case 'XPENDING': {
+        if (!args.key || typeof args.group !== 'string') {
+          throw new ValidationError('XPENDING requires key and group');
+        }
+        return args.pendingOptions
+          ? await this.storageEngine.xpendingRange(args.key, args.group, args.pendingOptions)
+          : await this.storageEngine.xpending(args.key, args.group);
+      }
+
+      case 'XCLAIM': {
+        if (
+          !args.key ||
+          typeof args.group !== 'string' ||
+          typeof args.consumer !== 'string' ||
+          typeof args.minIdleMs !== 'number' ||
+          !isStringArray(args.ids)
+        ) {
+          throw new ValidationError('XCLAIM requires key, group, consumer, minIdleMs and ids');
+        }
+        return await this.storageEngine.xclaim(args.key, args.group, args.consumer, args.minIdleMs, args.ids);
+      }
+
+      case 'XAUTOCLAIM': {
+        if (
+          !args.key ||
+          typeof args.group !== 'string' ||
+          typeof args.consumer !== 'string' ||
+          typeof args.minIdleMs !== 'number' ||
+          typeof args.id !== 'string' ||
+          !isInteger(args.count)
+        ) {
+          throw new ValidationError('XAUTOCLAIM requires key, group, consumer, minIdleMs, id and count');
+        }
+        return await this.storageEngine.xautoclaim(
+          args.key,
+          args.group,
+          args.consumer,
+          args.minIdleMs,
+          args.id,
+          args.count
+        );
+      }
+
+      case 'XINFOSTREAM':
+      case 'XINFOGROUPS': {
+        if (!args.key) {
+          throw new ValidationError(`${command} requires key`);
+        }
+        return command === 'XINFOSTREAM'
+          ? await this.storageEngine.xinfoStream(args.key)
+          : await this.storageEngine.xinfoGroups(args.key);
+      }
+
+      case 'XINFOCONSUMERS': {
+        if (!args.key || typeof args.group !== 'string') {
+          throw new ValidationError('XINFOCONSUMERS requires key and group');
+        }
+        return await this.storageEngine.xinfoConsumers(args.key, args.group);
       }
 
       case 'KEYS': {
         return await this.storageEngine.keys(args.pattern);
       }
 
+      case 'MGET': {
+        if (!Array.isArray(args.keys)) {
+          throw new ValidationError('MGET requires keys');
+        }
+        return await this.storageEngine.mget(args.keys);
+      }
+
+      case 'SCAN': {
+        if (typeof args.cursor === 'string') {
+          return await scanKeys(options => this.storageEngine.scanTypes(options), args.cursor, args.options ?? {});
+        }
+        const entries: ScanEntry<K, V>[] = [];
+        for await (const entry of this.storageEngine.scan(args.scanOptions)) {
+          entries.push(entry);
+        }
+        return entries;
+      }
+
       case 'FLUSHALL': {
         await this.storageEngine.flushall();
         return undefined;
@@ -129,8 +773,16 @@ class WorkerThread<K = string, V = any> {
         return await this.storageEngine.info();
       }
 
+      case 'CLOSE': {
+        await this.blocking.close();
+        await this.scripts.close();
+        await this.storageEngine.close();
+        return undefined;
+      }
+
       default:
-        throw new ValidationError(`Unknown command: ${command}`);
+        // Requests come from another thread, so they may name a command the union does not
+        throw new ValidationError(`Unknown command: ${String(command)}`);
     }
   }
 
@@ -156,6 +808,7 @@ class WorkerThread<K = string, V = any> {
       error: {
         message: error.message,
         code: (error as any).code || 'UNKNOWN_ERROR',
+        details: (error as any).details,
       },
     };
 
@@ -179,7 +832,11 @@ class WorkerThread<K = string, V = any> {
 }
 
 if (parentPort) {
-  parentPort.once('message', (config: StorageEngineConfig) => {
-    new WorkerThread(config);
+  const port = parentPort;
+  // Functions cannot cross the thread boundary, so the serializer is local
+  port.once('message', (config: Omit<StorageEngineConfig, 'serializer'>) => {
+    new WorkerThread({ ...config, serializer: defaultSerializer }).start().catch((error: Error) => {
+      port.postMessage({ type: 'event', data: { type: 'workerFailed', payload: serializeError(error) } });
+    });
   });
 }
\ No newline at end of file
@@ -5,11 +5,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { SnapDB } from '../src';
 
-describe('SnapDB Basic Commands', () => {
+describe.each(['simple', 'lsm'] as const)('SnapDB Basic Commands (%s engine)', (engine) => {
   let db: SnapDB<string, any>;
 
   beforeEach(async () => {
     db = new SnapDB({
+      engine,
       maxMemtableSizeMB: 1,
       logLevel: 'error'
     });
@@ -110,6 +111,12 @@ describe('SnapDB Basic Commands', () => {
       const value = await db.get('key1');
       expect(value).toBeNull();
     });
+
+    it('should keep a write made while expire runs', async () => {
+      await db.set('key1', 'a');
+      await Promise.all([db.expire('key1', 10000), db.set('key1', 'b')]);
+      expect(await db.get('key1')).toBe('b');
+    });
   });
 
   describe('INCR/DECR operations', () => {
@@ -137,6 +144,16 @@ describe('SnapDB Basic Commands', () => {
       const result = await db.decr('newcounter');
       expect(result).toBe(-1);
     });
+
+    it('should keep the TTL of the counter', async () => {
+      await db.set('counter', 5);
+      await db.expire('counter', 60000);
+      await db.incr('counter');
+      await db.decr('counter');
+
+      expect(await db.get('counter')).toBe(5);
+      expect(await db.ttl('counter')).toBe(60);
+    });
   });
 
   describe('KEYS operations', () => {
@@ -209,4 +226,82 @@ describe('SnapDB Basic Commands', () => {
       expect(values).toEqual(['value1', 'value2', 'value3', null]);
     });
   });
+
+  describe('Write batches', () => {
+    it('should apply set, del and expire in order', async () => {
+      await db.set('old', 'value');
+      await db.set('gone', 'value');
+
+      await db
+        .batch()
+        .set('key1', 'value1')
+        .set('key2', 'value2', 60000)
+        .del('gone')
+        .expire('old', 30000)
+        .expire('key1', 45000)
+        .expire('missing', 1000)
+        .write();
+
+      expect(await db.mget(['key1', 'key2', 'gone', 'old', 'missing'])).toEqual([
+        'value1',
+        'value2',
+        null,
+        'value',
+        null
+      ]);
+      expect(await db.ttl('key1')).toBe(45);
+      expect(await db.ttl('old')).toBe(30);
+      expect(await db.exists('missing')).toBe(false);
+    });
+
+    it('should keep writes made while a batch expires or deletes the key', async () => {
+      await db.set('key1', 'a');
+      await Promise.all([db.batch().expire('key1', 10000).write(), db.set('key1', 'b')]);
+      expect(await db.get('key1')).toBe('b');
+
+      await db.rpush('list', 'x');
+      await Promise.all([db.rpush('list', 'y'), db.batch().del('list').write()]);
+      await db.rpush('list', 'z');
+      expect(await db.lrange('list', 0, -1)).toEqual(['z']);
+    });
+
+    it('should make the whole batch visible at once', async () => {
+      const snapshot = await db.getSnapshot();
+      const keys = Array.from({ length: 50 }, (_, i) => `key:${i}`);
+      const batch = db.batch();
+      keys.forEach((key, i) => batch.set(key, i));
+      expect(batch.length).toBe(50);
+
+      // Every read racing the write sees all of the batch or none of it
+      let committed = false;
+      const written = batch.write().then(() => (committed = true));
+      const views: Array<Array<number | null>> = [];
+      do {
+        views.push(await db.mget(keys));
+      } while (!committed);
+      await written;
+
+      for (const values of views) {
+        expect(values).toEqual(values[0] === null ? keys.map(() => null) : keys.map((_, i) => i));
+      }
+      expect(await db.mget(keys)).toEqual(keys.map((_, i) => i));
+      expect(await db.keys('key:*')).toHaveLength(50);
+      expect(await snapshot.keys('key:*')).toHaveLength(0);
+      snapshot.release();
+    });
+
+    it('should emit events and reject reuse', async () => {
+      const events: string[] = [];
+      db.on('set', ({ key }: { key: string }) => events.push(`set:${key}`));
+      db.on('del', ({ key }: { key: string }) => events.push(`del:${key}`));
+
+      const batch = db.batch().set('a', 1).del('b');
+      await batch.write();
+
+      expect(events).toEqual(['set:a', 'del:b']);
+      await expect(batch.write()).rejects.toThrow(/already been written/);
+      expect(() => batch.set('c', 3)).toThrow(/already been written/);
+      expect(() => db.batch().expire('a', 0)).toThrow(/TTL must be positive/);
+    });
+  });
 });
\ No newline at end of file
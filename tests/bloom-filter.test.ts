@@ -0,0 +1,138 @@
+/**
+ * Bloom filter tests for SnapDBJS
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SnapDB } from '../src';
+import { BloomFilter } from '../src/worker/storage/BloomFilter';
+import { createPrefixExtractor } from '../src/worker/storage/PrefixExtractor';
+
+describe('BloomFilter', () => {
+  const keys = Array.from({ length: 10000 }, (_, i) => `user:${i}`);
+  const absent = Array.from({ length: 10000 }, (_, i) => `other:${i}`);
+
+  it('should derive the number of hashes from bits per key', () => {
+    expect(BloomFilter.optimalNumHashes(10)).toBe(7);
+    expect(BloomFilter.optimalNumHashes(1)).toBe(1);
+    expect(BloomFilter.optimalNumHashes(100)).toBe(30);
+    expect(BloomFilter.forKeys(1000, 10).getNumHashes()).toBe(7);
+  });
+
+  it.each(['standard', 'blocked'] as const)('should have no false negatives and few false positives (%s)', (format) => {
+    const filter = BloomFilter.forKeys(keys.length, 10, format);
+    keys.forEach(key => filter.add(key));
+
+    expect(keys.every(key => filter.contains(key))).toBe(true);
+
+    const falsePositives = absent.filter(key => filter.contains(key)).length / absent.length;
+    expect(falsePositives).toBeLessThan(0.02);
+    expect(filter.getFalsePositiveRate()).toBeGreaterThan(0.005);
+    expect(filter.getFalsePositiveRate()).toBeLessThan(0.015);
+  });
+
+  it('should round trip through its serialized form', () => {
+    const filter = BloomFilter.forKeys(100, 10, 'blocked');
+    keys.slice(0, 100).forEach(key => filter.add(key));
+
+    const restored = BloomFilter.fromData(filter.toData());
+    expect(restored.getFormat()).toBe('blocked');
+    expect(restored.getKeyCount()).toBe(100);
+    expect(restored.getSize() % 512).toBe(0);
+    expect(keys.slice(0, 100).every(key => restored.contains(key))).toBe(true);
+  });
+});
+
+describe('SnapDB bloom filter stats', () => {
+  it('should report useful and useless probes per table', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      bloomFilter: { bitsPerKey: 12, format: 'blocked' },
+      compaction: { useWorkerThread: false },
+      logLevel: 'error'
+    });
+
+    for (let i = 0; i < 200; i++) {
+      await db.set(`key:${String(i).padStart(4, '0')}`, 'x'.repeat(32));
+    }
+    for (let i = 0; i < 200; i++) {
+      await db.get(`missing:${i}`);
+    }
+    expect(await db.get('key:0042')).toBe('x'.repeat(32));
+
+    const { sstables } = await db.info();
+    expect(sstables.length).toBeGreaterThan(0);
+
+    const totals = sstables.reduce(
+      (sum, table) => ({
+        useful: sum.useful + table.bloomFilterStats!.useful,
+        useless: sum.useless + table.bloomFilterStats!.useless,
+        truePositives: sum.truePositives + table.bloomFilterStats!.truePositives
+      }),
+      { useful: 0, useless: 0, truePositives: 0 }
+    );
+    expect(totals.useful).toBeGreaterThan(totals.useless);
+    expect(totals.truePositives).toBeGreaterThan(0);
+    expect(sstables[0]!.bloomFilterStats!.expectedFalsePositiveRate).toBeLessThan(0.01);
+
+    await db.close();
+  });
+});
+
+describe('Prefix extractors', () => {
+  it('should extract fixed-length and delimited prefixes', () => {
+    const fixed = createPrefixExtractor({ type: 'fixed', length: 5 })!;
+    expect(fixed.transform('user:123')).toBe('user:');
+    expect(fixed.transform('usr')).toBeUndefined();
+
+    const delimited = createPrefixExtractor({ type: 'delimiter', delimiter: ':', count: 2 })!;
+    expect(delimited.transform('user:123:profile')).toBe('user:123:');
+    expect(delimited.transform('user:123:')).toBe('user:123:');
+    expect(delimited.transform('user:123')).toBeUndefined();
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => createPrefixExtractor({ type: 'fixed', length: 0 })).toThrow(/positive integer/);
+    expect(() => createPrefixExtractor({ type: 'delimiter', delimiter: '' })).toThrow(/must not be empty/);
+  });
+});
+
+describe('SnapDB prefix bloom filters', () => {
+  it('should skip SSTables whose prefix filter rules out a prefix', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.005,
+      prefixExtractor: { type: 'delimiter', delimiter: ':', count: 2 },
+      compaction: { strategy: 'universal', level0FileNumCompactionTrigger: 100, useWorkerThread: false },
+      logLevel: 'error'
+    });
+
+    // Spread each round of users over the whole key range and fill the
+    // memtable after each one, so every table overlaps every user but holds
+    // only a quarter of them
+    for (let round = 0; round < 4; round++) {
+      for (let user = round; user < 40; user += 4) {
+        await db.set(`user:${user}:profile`, { user, bio: 'x'.repeat(64) });
+        await db.set(`user:${user}:settings`, { theme: 'dark', notes: 'x'.repeat(64) });
+      }
+      await db.set('filler', 'x'.repeat(8192));
+    }
+    while ((await db.info()).background?.immutableMemtables) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect((await db.keys('user:13:*')).sort()).toEqual(['user:13:profile', 'user:13:settings']);
+    expect(await db.keys('user:99:*')).toEqual([]);
+
+    const [cursor, keys] = await db.scan('0', { match: 'user:13:*', count: 100 });
+    expect(cursor).toBe('0');
+    expect(keys).toEqual(['user:13:profile', 'user:13:settings']);
+
+    const { sstables } = await db.info();
+    expect(sstables.length).toBeGreaterThan(3);
+    const skipped = sstables.reduce((sum, table) => sum + table.bloomFilterStats!.prefixUseful, 0);
+    expect(skipped).toBeGreaterThan(sstables.length);
+
+    await db.close();
+  });
+});
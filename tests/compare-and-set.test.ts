@@ -0,0 +1,128 @@
+/**
+ * Versioned read and compare-and-set tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapDB, VersionConflictError } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB compare-and-set (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should return the value with its version and times', async () => {
+    const before = Date.now();
+    await db.set('session', { user: 1 }, 60000);
+
+    const meta = await db.getWithMeta('session');
+    expect(meta!.value).toEqual({ user: 1 });
+    expect(meta!.version).toBeGreaterThan(0);
+    expect(meta!.timestamp).toBeGreaterThanOrEqual(before);
+    expect(meta!.expiresAt).toBeGreaterThanOrEqual(before + 60000);
+    expect(await db.getWithMeta('missing')).toBeNull();
+
+    await db.set('plain', 1);
+    expect((await db.getWithMeta('plain'))!.expiresAt).toBeUndefined();
+  });
+
+  it('should write when the version matches and return the new one', async () => {
+    await db.set('stock', 5);
+    const { version } = (await db.getWithMeta('stock'))!;
+
+    const next = await db.setIfVersion('stock', 4, version);
+    expect(next).toBeGreaterThan(version);
+    expect(await db.getWithMeta('stock')).toMatchObject({ value: 4, version: next });
+  });
+
+  it('should throw a VersionConflictError when the key changed', async () => {
+    await db.set('stock', 5);
+    const { version } = (await db.getWithMeta('stock'))!;
+    await db.set('stock', 3);
+    const actual = (await db.getWithMeta('stock'))!.version;
+
+    const error = await db.setIfVersion('stock', 4, version).catch(e => e);
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect(error.code).toBe('VERSION_CONFLICT');
+    expect(error.details).toEqual({ key: 'stock', expectedVersion: version, actualVersion: actual });
+    expect(await db.get('stock')).toBe(3);
+  });
+
+  it('should create a key only if it does not exist with version 0', async () => {
+    const version = await db.setIfVersion('lock', 'owner-a', 0);
+    expect(version).toBeGreaterThan(0);
+
+    await expect(db.setIfVersion('lock', 'owner-b', 0)).rejects.toThrow(VersionConflictError);
+    expect(await db.get('lock')).toBe('owner-a');
+
+    // Expired keys count as missing
+    await db.set('lease', 'old', 10);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await db.setIfVersion('lease', 'new', 0);
+    expect(await db.get('lease')).toBe('new');
+  });
+
+  it('should delete only at the expected version', async () => {
+    const version = await db.setIfVersion('job', 'queued', 0);
+
+    await expect(db.delIfVersion('job', version + 1000)).rejects.toThrow(VersionConflictError);
+    expect(await db.delIfVersion('job', version)).toBe(true);
+    expect(await db.exists('job')).toBe(false);
+
+    // A deleted and recreated key gets a new version
+    const recreated = await db.setIfVersion('job', 'queued', 0);
+    expect(recreated).not.toBe(version);
+  });
+
+  it('should let exactly one of two concurrent writers win', async () => {
+    await db.set('counter', 0);
+    const { version } = (await db.getWithMeta('counter'))!;
+
+    const results = await Promise.allSettled([
+      db.setIfVersion('counter', 1, version),
+      db.setIfVersion('counter', 2, version)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(VersionConflictError);
+  });
+
+  it('should keep versions across memtable flushes', async () => {
+    const version = await db.setIfVersion('config', { v: 1 }, 0);
+    // Enough other writes to push the key out to an SSTable
+    for (let i = 0; i < 200; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+    while (((await db.info()).background?.immutableMemtables ?? 0) > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect((await db.getWithMeta('config'))!.version).toBe(version);
+    await expect(db.setIfVersion('config', { v: 2 }, version - 1)).rejects.toThrow(VersionConflictError);
+    await db.setIfVersion('config', { v: 2 }, version);
+    expect(await db.get('config')).toEqual({ v: 2 });
+  });
+
+  it('should pass conditional writes through middleware and emit events', async () => {
+    const commands: string[] = [];
+    db.use(async (context, next) => {
+      commands.push(`${context.command}:${context.version ?? ''}`);
+      return next();
+    });
+    const deleted: string[] = [];
+    db.on('del', ({ key }) => deleted.push(key));
+
+    const version = await db.setIfVersion('item', 'a', 0);
+    await db.getWithMeta('item');
+    await db.delIfVersion('item', version);
+
+    expect(commands).toEqual(['SETIFVERSION:0', 'GETMETA:', `DELIFVERSION:${version}`]);
+    expect(deleted).toEqual(['item']);
+  });
+});
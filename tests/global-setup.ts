@@ -0,0 +1,31 @@
+/**
+ * Builds the entry files of the worker and compaction threads before the
+ * tests run. Threads cannot load the TypeScript sources, so the clients are
+ * pointed at the bundles instead.
+ */
+
+import { build } from 'esbuild';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export async function setup(): Promise<() => Promise<void>> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-threads-'));
+
+  await build({
+    entryPoints: {
+      worker: 'src/worker/worker.ts',
+      compaction: 'src/worker/compaction/thread.ts'
+    },
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    outdir: dir,
+    outExtension: { '.js': '.cjs' },
+    logLevel: 'error'
+  });
+  process.env.SNAPDB_WORKER = path.join(dir, 'worker.cjs');
+  process.env.SNAPDB_COMPACTION_THREAD = path.join(dir, 'compaction.cjs');
+
+  return () => fs.rm(dir, { recursive: true, force: true });
+}
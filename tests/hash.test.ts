@@ -0,0 +1,249 @@
+/**
+ * Hash data type tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB, ValidationError, WrongTypeError } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB hashes (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should set and read hash fields', async () => {
+    expect(await db.hset('user:1', 'name', 'ada')).toBe(1);
+    expect(await db.hset('user:1', { name: 'Ada', lang: 'en', visits: 1 })).toBe(2);
+
+    expect(await db.hget('user:1', 'name')).toBe('Ada');
+    expect(await db.hget('user:1', 'missing')).toBeNull();
+    expect(await db.hmget('user:1', ['lang', 'missing', 'visits'])).toEqual(['en', null, 1]);
+    expect(await db.hgetall('user:1')).toEqual({ name: 'Ada', lang: 'en', visits: 1 });
+    expect(await db.hexists('user:1', 'lang')).toBe(true);
+    expect(await db.hexists('user:1', 'toString')).toBe(false);
+    expect(await db.hlen('user:1')).toBe(3);
+    expect((await db.hkeys('user:1')).sort()).toEqual(['lang', 'name', 'visits']);
+    expect(await db.hvals('user:1')).toHaveLength(3);
+    expect(await db.type('user:1')).toBe('hash');
+
+    // Missing keys read as empty hashes
+    expect(await db.hgetall('nobody')).toEqual({});
+    expect(await db.hlen('nobody')).toBe(0);
+    expect(await db.hmget('nobody', ['a'])).toEqual([null]);
+    expect(await db.type('nobody')).toBe('none');
+
+    await expect(db.hset('user:1', {})).rejects.toThrow(ValidationError);
+  });
+
+  it('should delete fields and the key with its last field', async () => {
+    await db.hset('cart', { apples: 2, pears: 1, plums: 5 });
+
+    expect(await db.hdel('cart', 'apples', 'apples', 'missing')).toBe(1);
+    expect(await db.hdel('missing', 'a')).toBe(0);
+    expect(await db.hgetall('cart')).toEqual({ pears: 1, plums: 5 });
+
+    expect(await db.hdel('cart', 'pears', 'plums')).toBe(2);
+    expect(await db.exists('cart')).toBe(false);
+    expect(await db.type('cart')).toBe('none');
+  });
+
+  it('should increment integer and float fields', async () => {
+    expect(await db.hincrby('stats', 'hits', 5)).toBe(5);
+    expect(await db.hincrby('stats', 'hits', -2)).toBe(3);
+    await db.hset('stats', { text: '10', ratio: 1.5, name: 'x' });
+    expect(await db.hincrby('stats', 'text', 1)).toBe(11);
+    expect(await db.hincrbyfloat('stats', 'ratio', 0.25)).toBe(1.75);
+    expect(await db.hincrbyfloat('stats', 'hits', 0.5)).toBe(3.5);
+
+    await expect(db.hincrby('stats', 'name', 1)).rejects.toThrow(/not an integer/);
+    await expect(db.hincrby('stats', 'ratio', 1)).rejects.toThrow(/not an integer/);
+    await expect(db.hincrby('stats', 'hits', 1.5)).rejects.toThrow(ValidationError);
+    await expect(db.hincrbyfloat('stats', 'name', 1)).rejects.toThrow(/not a number/);
+    await expect(db.hincrby('stats', 'text', Number.MAX_SAFE_INTEGER)).rejects.toThrow(/overflow/);
+    expect(await db.hget('stats', 'hits')).toBe(3.5);
+  });
+
+  it('should throw WRONGTYPE between strings and hashes', async () => {
+    await db.set('plain', 'value');
+    await db.hset('hash', 'field', 'value');
+
+    const error = await db.hget('plain', 'field').catch(e => e);
+    expect(error).toBeInstanceOf(WrongTypeError);
+    expect(error.code).toBe('WRONGTYPE');
+    expect(error.message).toMatch(/^WRONGTYPE Operation against a key holding the wrong kind of value/);
+
+    await expect(db.hset('plain', 'field', 1)).rejects.toThrow(WrongTypeError);
+    await expect(db.hincrby('plain', 'field', 1)).rejects.toThrow(WrongTypeError);
+    await expect(db.get('hash')).rejects.toThrow(WrongTypeError);
+    await expect(db.incr('hash')).rejects.toThrow(WrongTypeError);
+    await expect(db.getWithMeta('hash')).rejects.toThrow(WrongTypeError);
+    expect(await db.mget(['plain', 'hash'])).toEqual(['value', null]);
+    expect(await db.type('plain')).toBe('string');
+
+    // SET replaces a value of any type
+    await db.set('hash', 'now a string');
+    expect(await db.get('hash')).toBe('now a string');
+  });
+
+  it('should keep the expiry of a hash across updates', async () => {
+    await db.hset('session', 'user', 1);
+    expect(await db.expire('session', 60000)).toBe(true);
+    await db.hset('session', 'seen', 2);
+    await db.hincrby('session', 'user', 1);
+
+    expect(await db.ttl('session')).toBeGreaterThan(55);
+    expect(await db.hgetall('session')).toEqual({ user: 2, seen: 2 });
+
+    await db.expire('session', 10);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(await db.hgetall('session')).toEqual({});
+    expect(await db.hset('session', 'user', 3)).toBe(1);
+    expect(await db.ttl('session')).toBe(-1);
+  });
+
+  it('should page through fields with hscan', async () => {
+    const fields: Record<string, number> = {};
+    for (let i = 0; i < 25; i++) {
+      fields[`f${String(i).padStart(2, '0')}`] = i;
+    }
+    await db.hset('big', fields);
+
+    const seen: Array<[string, number]> = [];
+    let cursor = '0';
+    do {
+      const [next, entries] = await db.hscan('big', cursor, { count: 10 });
+      seen.push(...entries);
+      cursor = next;
+    } while (cursor !== '0');
+    expect(seen).toEqual(Object.entries(fields));
+
+    const [done, matched] = await db.hscan('big', 0, { match: 'f1?', count: 100 });
+    expect(done).toBe('0');
+    expect(matched.map(([field]) => field)).toEqual(Object.keys(fields).slice(10, 20));
+
+    expect(await db.hscan('missing', 0)).toEqual(['0', []]);
+    await expect(db.hscan('big', '!', {})).rejects.toThrow(/Invalid scan cursor/);
+  });
+
+  it('should filter scans by the type a key holds', async () => {
+    await db.set('a', 1);
+    await db.hset('b', 'f', 1);
+    await db.set('c', 3);
+
+    expect(await db.scan(0, { type: 'hash' })).toEqual(['0', ['b']]);
+    expect(await db.scan(0, { type: 'string' })).toEqual(['0', ['a', 'c']]);
+  });
+
+  it('should keep hashes across memtable flushes', async () => {
+    await db.hset('profile', { name: 'snap', visits: 1 });
+    // Enough other writes to push the hash out to an SSTable
+    for (let i = 0; i < 200; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+    while (((await db.info()).background?.immutableMemtables ?? 0) > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(await db.type('profile')).toBe('hash');
+    expect(await db.hincrby('profile', 'visits', 1)).toBe(2);
+    expect(await db.hgetall('profile')).toEqual({ name: 'snap', visits: 2 });
+    await expect(db.get('profile')).rejects.toThrow(WrongTypeError);
+  });
+
+  it('should keep what a snapshot saw of a hash it changes', async () => {
+    await db.hset('user:1', { name: 'Ada', lang: 'en' });
+    const snapshot = await db.getSnapshot();
+    await db.hset('user:1', 'name', 'Grace');
+    await db.hdel('user:1', 'lang');
+
+    const entries = [];
+    for await (const entry of snapshot.scan({ prefix: 'user:' })) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([{ key: 'user:1', value: { name: 'Ada', lang: 'en' }, type: 'hash' }]);
+    expect(await db.hgetall('user:1')).toEqual({ name: 'Grace' });
+    snapshot.release();
+  });
+
+  it('should run hash commands from scripts', async () => {
+    const result = await db.eval(`([key]) => {
+      redis.call('HSET', key, 'a', 1, 'b', 2);
+      redis.call('HINCRBY', key, 'a', 10);
+      return [redis.call('HGETALL', key), redis.call('TYPE', key)];
+    }`, ['scripted']);
+
+    expect(result).toEqual([{ a: 11, b: 2 }, 'hash']);
+    expect(await db.eval(`([key]) => redis.pcall('GET', key)`, ['scripted'])).toEqual({
+      err: expect.stringMatching(/^WRONGTYPE/)
+    });
+  });
+
+  it('should keep fields set while the hash is given a TTL', async () => {
+    await db.hset('user', { name: 'Ada' });
+    await Promise.all([db.hset('user', { age: 36 }), db.expire('user', 60000)]);
+    expect(await db.hgetall('user')).toEqual({ name: 'Ada', age: 36 });
+    expect(await db.hlen('user')).toBe(2);
+  });
+});
+
+describe('SnapDB hashes durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep hashes and their type across restarts', async () => {
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    await db.hset('flushed', { a: 1, b: 2 });
+    for (let i = 0; i < 50; i++) {
+      await db.set(`key:${i}`, i);
+    }
+    await db.hset('logged', 'field', 'value');
+    await db.hdel('flushed', 'a');
+    await db.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    expect(await reopened.hgetall('flushed')).toEqual({ b: 2 });
+    expect(await reopened.hgetall('logged')).toEqual({ field: 'value' });
+    await expect(reopened.get('logged')).rejects.toThrow(WrongTypeError);
+    await reopened.close();
+  });
+
+  it('should log only the fields a write changes', async () => {
+    const walBytes = async () => {
+      const files = (await fs.readdir(dataDir)).filter(file => file.startsWith('wal-'));
+      const sizes = await Promise.all(files.map(async file => (await fs.stat(path.join(dataDir, file))).size));
+      return sizes.reduce((sum, size) => sum + size, 0);
+    };
+    const db = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    const fields: Record<string, string> = {};
+    for (let i = 0; i < 1000; i++) {
+      fields[`field:${i}`] = 'x'.repeat(20);
+    }
+    await db.hset('big', fields);
+
+    const before = await walBytes();
+    for (let i = 0; i < 20; i++) {
+      await db.hincrby('big', 'counter', 1);
+    }
+    // The whole hash is over 30 KB, so even one rewrite would show
+    expect((await walBytes()) - before).toBeLessThan(20 * 1024);
+    expect(await db.hlen('big')).toBe(1001);
+    expect(await db.hget('big', 'counter')).toBe(20);
+    await db.close();
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * List data type tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB, ClosedError, KeyNotFoundError, ValidationError, WrongTypeError } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB lists (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should push, pop and read lists from both ends', async () => {
+    expect(await db.rpush('queue', 'b', 'c')).toBe(2);
+    expect(await db.lpush('queue', 'a', 'z')).toBe(4);
+    expect(await db.lrange('queue', 0, -1)).toEqual(['z', 'a', 'b', 'c']);
+    expect(await db.llen('queue')).toBe(4);
+    expect(await db.type('queue')).toBe('list');
+
+    expect(await db.lpop('queue')).toBe('z');
+    expect(await db.rpop('queue')).toBe('c');
+    expect(await db.rpush('queue', { id: 1 })).toBe(3);
+    expect(await db.lpop('queue', 2)).toEqual(['a', 'b']);
+    expect(await db.rpop('queue', 5)).toEqual([{ id: 1 }]);
+
+    // Popping the last element deletes the key
+    expect(await db.exists('queue')).toBe(false);
+    expect(await db.lpop('queue')).toBeNull();
+    expect(await db.lpop('queue', 3)).toEqual([]);
+    expect(await db.llen('queue')).toBe(0);
+
+    await expect(db.lpush('queue')).rejects.toThrow(ValidationError);
+    await expect(db.lpop('queue', -1)).rejects.toThrow(ValidationError);
+  });
+
+  it('should index and range from the tail with negative indexes', async () => {
+    await db.rpush('letters', 'a', 'b', 'c', 'd', 'e');
+
+    expect(await db.lindex('letters', 0)).toBe('a');
+    expect(await db.lindex('letters', -1)).toBe('e');
+    expect(await db.lindex('letters', 5)).toBeNull();
+    expect(await db.lrange('letters', 1, 2)).toEqual(['b', 'c']);
+    expect(await db.lrange('letters', -3, -2)).toEqual(['c', 'd']);
+    expect(await db.lrange('letters', -100, 100)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(await db.lrange('letters', 3, 1)).toEqual([]);
+
+    await db.lset('letters', -2, 'D');
+    expect(await db.lindex('letters', 3)).toBe('D');
+    await expect(db.lset('letters', 5, 'x')).rejects.toThrow(/out of range/);
+    await expect(db.lset('missing', 0, 'x')).rejects.toThrow(KeyNotFoundError);
+
+    await db.ltrim('letters', 1, -2);
+    expect(await db.lrange('letters', 0, -1)).toEqual(['b', 'c', 'D']);
+    await db.ltrim('letters', 5, 10);
+    expect(await db.exists('letters')).toBe(false);
+  });
+
+  it('should remove matching elements from either end', async () => {
+    const fill = () => db.rpush('list', 'x', 'a', 'x', 'b', 'x');
+
+    await fill();
+    expect(await db.lrem('list', 2, 'x')).toBe(2);
+    expect(await db.lrange('list', 0, -1)).toEqual(['a', 'b', 'x']);
+
+    await db.del('list');
+    await fill();
+    expect(await db.lrem('list', -2, 'x')).toBe(2);
+    expect(await db.lrange('list', 0, -1)).toEqual(['x', 'a', 'b']);
+
+    await db.del('list');
+    await fill();
+    expect(await db.lrem('list', 0, 'x')).toBe(3);
+    expect(await db.lrem('list', 0, 'missing')).toBe(0);
+    expect(await db.lrange('list', 0, -1)).toEqual(['a', 'b']);
+
+    // Elements compare by value
+    await db.rpush('objects', { id: 1 }, { id: 2 });
+    expect(await db.lrem('objects', 0, { id: 1 })).toBe(1);
+    expect(await db.lrange('objects', 0, -1)).toEqual([{ id: 2 }]);
+  });
+
+  it('should insert next to a pivot', async () => {
+    await db.rpush('list', 'a', 'c');
+
+    expect(await db.linsert('list', 'before', 'c', 'b')).toBe(3);
+    expect(await db.linsert('list', 'after', 'c', 'd')).toBe(4);
+    expect(await db.linsert('list', 'after', 'missing', 'x')).toBe(-1);
+    expect(await db.linsert('nothing', 'after', 'a', 'x')).toBe(0);
+    expect(await db.lrange('list', 0, -1)).toEqual(['a', 'b', 'c', 'd']);
+    expect(await db.exists('nothing')).toBe(false);
+  });
+
+  it('should move elements between lists', async () => {
+    await db.rpush('todo', 1, 2, 3);
+
+    expect(await db.lmove('todo', 'doing', 'left', 'right')).toBe(1);
+    expect(await db.lmove('todo', 'doing', 'right', 'left')).toBe(3);
+    expect(await db.lrange('todo', 0, -1)).toEqual([2]);
+    expect(await db.lrange('doing', 0, -1)).toEqual([3, 1]);
+
+    // Moving within one list rotates it
+    expect(await db.lmove('doing', 'doing', 'left', 'right')).toBe(3);
+    expect(await db.lrange('doing', 0, -1)).toEqual([1, 3]);
+
+    expect(await db.lmove('todo', 'done', 'left', 'left')).toBe(2);
+    expect(await db.exists('todo')).toBe(false);
+    expect(await db.lmove('todo', 'done', 'left', 'left')).toBeNull();
+  });
+
+  it('should keep list order through changes at both ends and in the middle', async () => {
+    const expected: number[] = [];
+    for (let i = 0; i < 60; i++) {
+      await db.lpush('mixed', -i - 1);
+      await db.rpush('mixed', i);
+      expected.unshift(-i - 1);
+      expected.push(i);
+    }
+
+    expect(await db.lpop('mixed', 5)).toEqual(expected.splice(0, 5));
+    expect(await db.rpop('mixed', 5)).toEqual(expected.splice(-5).reverse());
+    await db.linsert('mixed', 'after', 50, 'near the tail');
+    expected.splice(expected.indexOf(50) + 1, 0, 'near the tail' as unknown as number);
+    await db.linsert('mixed', 'before', -50, 'near the head');
+    expected.splice(expected.indexOf(-50), 0, 'near the head' as unknown as number);
+    expect(await db.lrem('mixed', 0, 0)).toBe(1);
+    expected.splice(expected.indexOf(0), 1);
+    await db.lset('mixed', -3, 'set');
+    expected[expected.length - 3] = 'set' as unknown as number;
+    await db.ltrim('mixed', 2, -2);
+    expected.splice(0, 2);
+    expected.pop();
+
+    expect(await db.lrange('mixed', 0, -1)).toEqual(expected);
+    expect(await db.lrange('mixed', 10, 20)).toEqual(expected.slice(10, 21));
+    expect(await db.lindex('mixed', -1)).toEqual(expected[expected.length - 1]);
+    expect(await db.llen('mixed')).toBe(expected.length);
+  });
+
+  it('should keep what a snapshot saw of a list it changes', async () => {
+    await db.rpush('list:1', 'a', 'b');
+    const snapshot = await db.getSnapshot();
+    await db.rpush('list:1', 'c');
+    await db.lset('list:1', 0, 'A');
+
+    const entries = [];
+    for await (const entry of snapshot.scan({ prefix: 'list:' })) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([{ key: 'list:1', value: ['a', 'b'], type: 'list' }]);
+    expect(await db.lrange('list:1', 0, -1)).toEqual(['A', 'b', 'c']);
+    snapshot.release();
+  });
+
+  it('should throw WRONGTYPE between lists and other types', async () => {
+    await db.set('plain', 'value');
+    await db.hset('hash', 'field', 1);
+    await db.rpush('list', 'a');
+
+    await expect(db.lpush('plain', 'x')).rejects.toThrow(WrongTypeError);
+    await expect(db.lrange('hash', 0, -1)).rejects.toThrow(WrongTypeError);
+    await expect(db.get('list')).rejects.toThrow(WrongTypeError);
+    await expect(db.hget('list', 'field')).rejects.toThrow(WrongTypeError);
+
+    // Neither list changes when the destination has the wrong type
+    await expect(db.lmove('list', 'plain', 'left', 'left')).rejects.toThrow(WrongTypeError);
+    expect(await db.lrange('list', 0, -1)).toEqual(['a']);
+    await expect(db.blpop(['plain'], 10)).rejects.toThrow(WrongTypeError);
+  });
+
+  it('should keep the expiry of a list across pushes and pops', async () => {
+    await db.rpush('jobs', 'a', 'b');
+    await db.expire('jobs', 60000);
+    await db.rpush('jobs', 'c');
+    await db.lpop('jobs');
+
+    expect(await db.ttl('jobs')).toBeGreaterThan(55);
+    expect(await db.lrange('jobs', 0, -1)).toEqual(['b', 'c']);
+  });
+
+  it('should pop at once when a list has elements', async () => {
+    await db.rpush('second', 'x', 'y');
+
+    expect(await db.blpop(['first', 'second'], 1000)).toEqual(['second', 'x']);
+    expect(await db.brpop(['first', 'second'], 1000)).toEqual(['second', 'y']);
+    expect(await db.exists('second')).toBe(false);
+  });
+
+  it('should wake a blocked pop when another caller pushes', async () => {
+    const popped = db.blpop(['jobs', 'urgent'], 0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(await db.rpush('urgent', 'job-1', 'job-2')).toBe(2);
+    expect(await popped).toEqual(['urgent', 'job-1']);
+    expect(await db.lrange('urgent', 0, -1)).toEqual(['job-2']);
+  });
+
+  it('should serve blocked callers in the order they blocked', async () => {
+    const order: string[] = [];
+    const waiters = ['first', 'second', 'third'].map(name =>
+      db.brpop(['jobs'], 2000).then(result => {
+        order.push(name);
+        return result;
+      })
+    );
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await db.lpush('jobs', 'a', 'b');
+    await db.lpush('jobs', 'c');
+
+    expect(await Promise.all(waiters)).toEqual([['jobs', 'a'], ['jobs', 'b'], ['jobs', 'c']]);
+    expect(order).toEqual(['first', 'second', 'third']);
+    expect(await db.exists('jobs')).toBe(false);
+  });
+
+  it('should return null once the timeout passes', async () => {
+    const started = Date.now();
+    expect(await db.blpop(['nothing'], 50)).toBeNull();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    expect(await db.blmove('nothing', 'elsewhere', 'left', 'right', 20)).toBeNull();
+
+    // A push after the timeout stays on the list
+    await db.rpush('nothing', 'late');
+    expect(await db.lrange('nothing', 0, -1)).toEqual(['late']);
+
+    await expect(db.blpop(['nothing'], -1)).rejects.toThrow(ValidationError);
+  });
+
+  it('should move an element once one arrives with blmove', async () => {
+    const moved = db.blmove('incoming', 'processing', 'left', 'right', 2000);
+    // A caller blocked on the destination gets the moved element in turn
+    const next = db.blpop(['processing'], 2000);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await db.rpush('incoming', 'task');
+    expect(await moved).toBe('task');
+    expect(await next).toEqual(['processing', 'task']);
+    expect(await db.exists('incoming')).toBe(false);
+    expect(await db.exists('processing')).toBe(false);
+  });
+
+  it('should not hold up transactions and scripts while blocked', async () => {
+    const popped = db.blpop(['jobs'], 2000);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(await db.multi().set('a', 1).get('a').exec()).toEqual([undefined, 1]);
+    // A script push wakes the blocked caller too
+    expect(await db.eval(`([key]) => redis.call('RPUSH', key, 'from-script')`, ['jobs'])).toBe(1);
+    expect(await popped).toEqual(['jobs', 'from-script']);
+  });
+
+  it('should cancel blocked callers on close', async () => {
+    const blocked = db.blpop(['never'], 0);
+    const moving = db.blmove('never', 'other', 'left', 'left', 0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await db.close();
+    const error = await blocked.catch(e => e);
+    expect(error).toBeInstanceOf(ClosedError);
+    expect(error.code).toBe('CLOSED');
+    await expect(moving).rejects.toThrow(ClosedError);
+
+    // Leave afterEach a database to close
+    db = new SnapDB({ engine, logLevel: 'error' });
+  });
+
+  it('should run list commands from scripts', async () => {
+    const result = await db.eval(`([key, other]) => {
+      redis.call('RPUSH', key, 'a', 'b', 'c');
+      redis.call('LPUSH', key, 'z');
+      redis.call('LSET', key, 1, 'A');
+      const first = redis.call('LPOP', key);
+      const moved = redis.call('LMOVE', key, other, 'RIGHT', 'LEFT');
+      return [first, moved, redis.call('LRANGE', key, 0, -1), redis.call('LLEN', other)];
+    }`, ['script-list', 'script-other']);
+
+    expect(result).toEqual(['z', 'c', ['A', 'b'], 1]);
+    expect(await db.eval(`([key]) => redis.pcall('LPUSH', key)`, ['script-list'])).toEqual({
+      err: expect.stringMatching(/without values/)
+    });
+  });
+
+  it('should keep elements pushed while the list is given a TTL', async () => {
+    await db.rpush('list', 'x');
+    await Promise.all([db.rpush('list', 'y'), db.expire('list', 60000)]);
+    await db.rpush('list', 'z');
+    expect(await db.lrange('list', 0, -1)).toEqual(['x', 'y', 'z']);
+
+    for (let round = 0; round < 10; round++) {
+      await Promise.all(
+        Array.from({ length: 8 }, (_, i) => (i % 4 === 1 ? db.expire('list', 60000) : db.rpush('list', String(i))))
+      );
+    }
+    expect(await db.llen('list')).toBe(63);
+    expect(await db.lrange('list', 0, -1)).toHaveLength(63);
+  });
+});
+
+describe('SnapDB lists durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep lists across restarts', async () => {
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    await db.rpush('flushed', 'a', 'b', 'c');
+    for (let i = 0; i < 50; i++) {
+      await db.set(`key:${i}`, i);
+    }
+    await db.lpush('flushed', 'z');
+    await db.rpop('flushed', 1);
+    await db.rpush('logged', null, 'x');
+    await db.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    expect(await reopened.lrange('flushed', 0, -1)).toEqual(['z', 'a', 'b']);
+    expect(await reopened.lrange('logged', 0, -1)).toEqual([null, 'x']);
+    await reopened.close();
+  });
+
+  it('should log only the elements a push or pop changes', async () => {
+    const walBytes = async () => {
+      const files = (await fs.readdir(dataDir)).filter(file => file.startsWith('wal-'));
+      const sizes = await Promise.all(files.map(async file => (await fs.stat(path.join(dataDir, file))).size));
+      return sizes.reduce((sum, size) => sum + size, 0);
+    };
+    const db = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    await db.rpush('big', ...Array.from({ length: 1000 }, () => 'x'.repeat(20)));
+
+    const before = await walBytes();
+    for (let i = 0; i < 10; i++) {
+      await db.lpush('big', i);
+      await db.rpop('big', 1);
+    }
+    // The whole list is over 20 KB, so even one rewrite would show
+    expect((await walBytes()) - before).toBeLessThan(20 * 1024);
+    expect(await db.llen('big')).toBe(1000);
+    expect(await db.lrange('big', 0, 1)).toEqual([9, 8]);
+    await db.close();
+  });
+});
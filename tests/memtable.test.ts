@@ -0,0 +1,108 @@
+/**
+ * Skiplist memtable tests for SnapDBJS
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SkipList } from '../src/worker/storage/SkipList';
+import { Memtable } from '../src/worker/storage/Memtable';
+import { numericCompare } from '../src/utils/comparator';
+
+describe('SkipList', () => {
+  const keys = Array.from({ length: 1000 }, (_, i) => `key:${String(i).padStart(4, '0')}`);
+
+  function shuffled(): string[] {
+    return [...keys].sort(() => Math.random() - 0.5);
+  }
+
+  it('should keep keys in bytewise order whatever the insertion order', () => {
+    const list = new SkipList<number>();
+    shuffled().forEach((key, i) => list.set(key, i));
+    list.set('\u{1F600}', -1);
+    list.set('�', -2);
+
+    const ordered = [...list.entries()].map(([key]) => key);
+    expect(ordered.slice(0, 1000)).toEqual(keys);
+    // Code points above U+FFFF sort after the rest of the BMP
+    expect(ordered.slice(1000)).toEqual(['�', '\u{1F600}']);
+    expect(list.size).toBe(1002);
+  });
+
+  it('should replace the value of an existing key', () => {
+    const list = new SkipList<string>();
+    list.set('a', 'first');
+    const usage = list.getMemoryUsage();
+    list.set('a', 'second');
+
+    expect(list.get('a')).toBe('second');
+    expect(list.get('b')).toBeUndefined();
+    expect(list.size).toBe(1);
+    expect(list.getMemoryUsage()).toBe(usage);
+  });
+
+  it('should iterate ranges in both directions', () => {
+    const list = new SkipList<number>();
+    shuffled().forEach((key, i) => list.set(key, i));
+
+    const range = { lower: 'key:0100', upper: 'key:0105' };
+    expect([...list.range(range)].map(([key]) => key)).toEqual(keys.slice(100, 105));
+    expect([...list.range(range, true)].map(([key]) => key)).toEqual(keys.slice(100, 105).reverse());
+    expect([...list.range({ lower: 'key:0998' }, false)].map(([key]) => key)).toEqual(keys.slice(998));
+    expect([...list.range({ upper: 'key:0002' }, true)].map(([key]) => key)).toEqual(['key:0001', 'key:0000']);
+    expect([...list.range({ lower: 'zzz' })]).toEqual([]);
+  });
+
+  it('should order keys with the given compare function', () => {
+    const list = new SkipList<number>(numericCompare);
+    ['v10', 'v9', 'v010', 'v2.10', 'v2.9', 'w1'].forEach((key, i) => list.set(key, i));
+
+    expect([...list.entries()].map(([key]) => key)).toEqual(['v2.9', 'v2.10', 'v9', 'v010', 'v10', 'w1']);
+    expect(list.get('v010')).toBe(2);
+  });
+});
+
+describe('Memtable', () => {
+  it('should return entries in key order without sorting', () => {
+    const memtable = new Memtable<string, number>(1);
+    ['c', 'a', 'b'].forEach((key, i) => memtable.put({ key, value: i, timestamp: 0, sequence: i + 1 }));
+    memtable.put({ key: 'a', value: 9, timestamp: 0, sequence: 4 }, [2]);
+
+    expect(memtable.getAllEntries().map(entry => [entry.key, entry.sequence])).toEqual([
+      ['a', 4],
+      ['a', 2],
+      ['b', 3],
+      ['c', 1]
+    ]);
+    expect(memtable.getEntriesInRange({ lower: 'b' }, true).map(entry => entry.key)).toEqual(['c', 'b']);
+  });
+
+  it('should account for node overhead and release superseded versions', () => {
+    const memtable = new Memtable<string, string>(1);
+    memtable.set('key', 'x'.repeat(100));
+    const single = memtable.getStats().size;
+    expect(single).toBeGreaterThan(100 + 'key'.length);
+
+    // Without snapshots the old version is dropped, so the size stays put
+    memtable.set('key', 'y'.repeat(100));
+    expect(memtable.getStats().size).toBe(single);
+
+    memtable.set('other', 'x'.repeat(100));
+    expect(memtable.getStats().size).toBeGreaterThan(single + 100);
+  });
+
+  it('should count versions a snapshot retains until a later write drops them', () => {
+    const memtable = new Memtable<string, string>(1);
+    memtable.put({ key: 'key', value: 'a'.repeat(100), timestamp: 0, sequence: 1 });
+    const single = memtable.getStats().size;
+
+    memtable.put({ key: 'key', value: 'b'.repeat(100), timestamp: 0, sequence: 2 }, [1]);
+    memtable.put({ key: 'key', value: 'c'.repeat(100), timestamp: 0, sequence: 3 }, [1]);
+    const retained = memtable.getStats().size;
+    expect(retained).toBeGreaterThan(single + 100);
+
+    // The version pinned at sequence 1 is kept, the one at 2 is dropped
+    expect(memtable.getAllEntries().map(entry => entry.sequence)).toEqual([3, 1]);
+
+    memtable.put({ key: 'key', value: 'd'.repeat(100), timestamp: 0, sequence: 4 });
+    expect(memtable.getStats().size).toBe(single);
+  });
+});
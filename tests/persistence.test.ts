@@ -0,0 +1,73 @@
+/**
+ * Persistence plugin tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { SnapDB } from '../src';
+import { PersistencePlugin } from '../src/plugins/PersistencePlugin';
+
+/** A save file as written before saves could be compressed */
+const legacySave = () =>
+  JSON.stringify(
+    {
+      version: '1.0.0',
+      timestamp: Date.now(),
+      entries: [
+        { key: 'user:1', value: { name: 'John' } },
+        { key: 'session:1', value: 'token', ttl: 60_000 }
+      ]
+    },
+    null,
+    2
+  );
+
+describe('PersistencePlugin', () => {
+  let dataDir: string;
+  let db: SnapDB<string, any>;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+    db = new SnapDB({ logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should load a save file in the legacy format', async () => {
+    await fs.writeFile(path.join(dataDir, 'snapdb.json'), legacySave(), 'utf-8');
+
+    await db.register(new PersistencePlugin({ dataDir, compression: true }));
+
+    expect(await db.get('user:1')).toEqual({ name: 'John' });
+    expect(await db.get('session:1')).toBe('token');
+    expect(await db.ttl('session:1')).toBeGreaterThan(0);
+  });
+
+  it('should recognise a gzip save file by its contents', async () => {
+    await fs.writeFile(path.join(dataDir, 'snapdb.json'), zlib.gzipSync(legacySave()));
+
+    await db.register(new PersistencePlugin({ dataDir }));
+
+    expect(await db.get('user:1')).toEqual({ name: 'John' });
+  });
+
+  it('should load what it saved with compression', async () => {
+    const plugin = new PersistencePlugin({ dataDir, compression: 'brotli' });
+    await db.register(plugin);
+    await db.set('user:2', { name: 'Jane' });
+    await plugin.save();
+
+    const files = await fs.readdir(dataDir);
+    expect(files).toContain('snapdb.json.br');
+
+    await db.flushall();
+    await plugin.load();
+    expect(await db.get('user:2')).toEqual({ name: 'Jane' });
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Ordered range scan tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapDB, ScanEntry } from '../src';
+
+async function collect<K, V>(iterable: AsyncIterable<ScanEntry<K, V>>): Promise<ScanEntry<K, V>[]> {
+  const entries: ScanEntry<K, V>[] = [];
+  for await (const entry of iterable) {
+    entries.push(entry);
+  }
+  return entries;
+}
+
+describe.each(['simple', 'lsm'] as const)('SnapDB Range Scans (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  const key = (i: number) => `key:${String(i).padStart(4, '0')}`;
+
+  beforeEach(async () => {
+    db = new SnapDB({
+      engine,
+      maxMemtableSizeMB: 0.001, // Spread the keys over several SSTables
+      logLevel: 'error'
+    });
+
+    // Write out of order, then overwrite and delete some keys
+    for (let i = 0; i < 200; i++) {
+      const n = (i * 37) % 200;
+      await db.set(key(n), n);
+    }
+    for (let i = 0; i < 200; i += 10) {
+      await db.set(key(i), `updated:${i}`);
+    }
+    for (let i = 5; i < 200; i += 10) {
+      await db.del(key(i));
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  function expected(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < 200; i++) {
+      if (i % 10 !== 5) {
+        keys.push(key(i));
+      }
+    }
+    return keys;
+  }
+
+  it('should return every live entry in key order with the newest values', async () => {
+    const entries = await collect(db.scan());
+
+    expect(entries.map(e => e.key)).toEqual(expected());
+    expect(entries.find(e => e.key === key(10))?.value).toBe('updated:10');
+    expect(entries.find(e => e.key === key(11))?.value).toBe(11);
+  });
+
+  it('should honor gte and lt bounds', async () => {
+    const entries = await collect(db.scan({ gte: key(20), lt: key(40) }));
+
+    expect(entries.map(e => e.key)).toEqual(
+      expected().filter(k => k >= key(20) && k < key(40))
+    );
+  });
+
+  it('should restrict keys to a prefix', async () => {
+    await db.set('other:1', 'x');
+    await db.set('kez', 'y');
+
+    const entries = await collect(db.scan({ prefix: 'key:01' }));
+
+    expect(entries.map(e => e.key)).toEqual(expected().filter(k => k.startsWith('key:01')));
+  });
+
+  it('should iterate in reverse and stop at the limit', async () => {
+    const entries = await collect(db.scan({ reverse: true, limit: 5 }));
+
+    expect(entries.map(e => e.key)).toEqual(expected().reverse().slice(0, 5));
+
+    const bounded = await collect(db.scan({ reverse: true, gte: key(100), lt: key(110) }));
+    expect(bounded.map(e => e.key)).toEqual(
+      expected().filter(k => k >= key(100) && k < key(110)).reverse()
+    );
+  });
+
+  it('should skip expired entries', async () => {
+    await db.set('key:0001', 'short-lived', 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const entries = await collect(db.scan({ prefix: 'key:000' }));
+    expect(entries.map(e => e.key)).not.toContain('key:0001');
+  });
+
+  it('should allow stopping early', async () => {
+    const seen: string[] = [];
+    for await (const entry of db.scan()) {
+      seen.push(entry.key);
+      if (seen.length === 3) break;
+    }
+
+    expect(seen).toEqual(expected().slice(0, 3));
+    expect(await db.get(key(0))).toBe('updated:0');
+  });
+
+  it('should scan a snapshot as of when it was taken', async () => {
+    const snapshot = await db.getSnapshot();
+    await db.set('key:0000', 'after');
+    await db.del('key:0001');
+    await db.set('key:0000a', 'new');
+
+    const entries = await collect(snapshot.scan({ prefix: 'key:000' }));
+    expect(entries.map(e => e.key)).toEqual(expected().filter(k => k.startsWith('key:000')));
+    expect(entries[0]?.value).toBe('updated:0');
+
+    snapshot.release();
+  });
+
+  it('should reject an invalid limit', () => {
+    expect(() => db.scan({ limit: -1 })).toThrow('Scan limit must be a non-negative integer');
+  });
+});
+
+describe('SnapDB Range Scans during compaction', () => {
+  it('should keep reading a consistent view while flushes and compactions run', async () => {
+    const db = new SnapDB<string, any>({ engine: 'lsm', maxMemtableSizeMB: 0.001, logLevel: 'error' });
+
+    for (let i = 0; i < 100; i++) {
+      await db.set(`key:${String(i).padStart(4, '0')}`, i);
+    }
+
+    const seen: string[] = [];
+    for await (const entry of db.scan()) {
+      seen.push(entry.key);
+      // Enough writes to flush and compact the tables being scanned
+      for (let j = 0; j < 5; j++) {
+        await db.set(`later:${seen.length}:${j}`, j);
+      }
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(seen).toHaveLength(100);
+    expect(seen.every(k => k.startsWith('key:'))).toBe(true);
+
+    await db.close();
+  });
+});
+
+describe.each(['simple', 'lsm'] as const)('SnapDB Cursor Scans (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(async () => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+    for (let i = 0; i < 50; i++) {
+      await db.set(`user:${i}`, i);
+      await db.set(`post:${i}`, i);
+    }
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function scanAll(match?: string, count?: number): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await db.scan(cursor, { match, count });
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
+
+  it('should return every key exactly once across calls', async () => {
+    const keys = await scanAll(undefined, 7);
+
+    expect(keys).toHaveLength(100);
+    expect(new Set(keys).size).toBe(100);
+  });
+
+  it('should examine COUNT keys per call', async () => {
+    const [cursor, keys] = await db.scan(0, { count: 5 });
+
+    expect(cursor).not.toBe('0');
+    expect(keys).toHaveLength(5);
+  });
+
+  it('should return Redis-style integer cursors', async () => {
+    const [cursor] = await db.scan(0, { count: 5 });
+
+    expect(cursor).toMatch(/^[1-9][0-9]*$/);
+    await expect(db.scan('12')).rejects.toThrow('Invalid scan cursor');
+  });
+
+  it('should filter keys with MATCH', async () => {
+    const keys = await scanAll('user:1*', 3);
+
+    expect(keys.sort()).toEqual(
+      ['user:1', ...Array.from({ length: 10 }, (_, i) => `user:1${i}`)].sort()
+    );
+  });
+
+  it('should filter keys with TYPE', async () => {
+    const [, strings] = await db.scan('0', { count: 1000, type: 'string' });
+    const [, hashes] = await db.scan('0', { count: 1000, type: 'hash' });
+
+    expect(strings).toHaveLength(100);
+    expect(hashes).toHaveLength(0);
+  });
+
+  it('should filter collection keys with TYPE', async () => {
+    await db.hset('profile', { name: 'ada', lang: 'en' });
+    await db.rpush('queue', 'a', 'b');
+    await db.sadd('tags', 'x');
+
+    const [, hashes] = await db.scan('0', { count: 1000, type: 'hash' });
+    const [, lists] = await db.scan('0', { count: 1000, type: 'list' });
+    const [, strings] = await db.scan('0', { count: 1000, type: 'string' });
+
+    expect(hashes).toEqual(['profile']);
+    expect(lists).toEqual(['queue']);
+    expect(strings).toHaveLength(100);
+  });
+
+  it('should return keys present for the whole scan despite concurrent writes', async () => {
+    const seen = new Set<string>();
+    let cursor = '0';
+    let round = 0;
+
+    do {
+      const [next, batch] = await db.scan(cursor, { count: 10 });
+      batch.forEach(key => seen.add(key));
+      cursor = next;
+
+      // Churn the key space between calls
+      await db.set(`aaa:${round}`, round);
+      await db.set(`zzz:${round}`, round);
+      await db.del(`post:${round}`);
+      round++;
+    } while (cursor !== '0');
+
+    for (let i = 0; i < 50; i++) {
+      expect(seen.has(`user:${i}`)).toBe(true);
+    }
+    for (let i = round; i < 50; i++) {
+      expect(seen.has(`post:${i}`)).toBe(true);
+    }
+  });
+
+  it('should reject a malformed cursor', async () => {
+    await expect(db.scan('not a cursor!')).rejects.toThrow('Invalid scan cursor');
+    await expect(db.scan('0', { count: 0 })).rejects.toThrow('Scan count must be a positive integer');
+  });
+});
+
+describe.each(['simple', 'lsm'] as const)('SnapDB key comparators (%s engine)', (engine) => {
+  it('should order keys by numeric value with the numeric comparator', async () => {
+    const db = new SnapDB<string, any>({
+      engine,
+      comparator: 'numeric',
+      maxMemtableSizeMB: 0.001,
+      logLevel: 'error'
+    });
+
+    for (let i = 0; i < 120; i++) {
+      const n = (i * 37) % 120;
+      await db.set(`item:${n}`, n);
+    }
+
+    const keys = (await collect(db.scan({ prefix: 'item:' }))).map(entry => entry.key);
+    expect(keys).toEqual(Array.from({ length: 120 }, (_, i) => `item:${i}`));
+
+    const range = (await collect(db.scan({ gte: 'item:9', lt: 'item:12' }))).map(entry => entry.key);
+    expect(range).toEqual(['item:9', 'item:10', 'item:11']);
+    expect(await db.get('item:100')).toBe(100);
+
+    await db.close();
+  });
+
+  it('should scan in descending order with the reverse comparator', async () => {
+    const db = new SnapDB<string, any>({
+      engine,
+      comparator: 'reverse',
+      maxMemtableSizeMB: 0.001,
+      logLevel: 'error'
+    });
+
+    for (let i = 0; i < 100; i++) {
+      await db.set(`key:${String(i).padStart(4, '0')}`, i);
+    }
+    await db.set('other', 'x');
+
+    const expected = Array.from({ length: 100 }, (_, i) => `key:${String(99 - i).padStart(4, '0')}`);
+    expect((await collect(db.scan({ prefix: 'key:' }))).map(entry => entry.key)).toEqual(expected);
+    expect((await collect(db.scan({ limit: 2 }))).map(entry => entry.key)).toEqual(['other', 'key:0099']);
+    expect((await collect(db.scan({ reverse: true, limit: 1 })))[0]!.key).toBe('key:0000');
+
+    await db.close();
+  });
+
+  it('should keep hashes whole under the reverse comparator', async () => {
+    const db = new SnapDB<string, any>({
+      engine,
+      comparator: 'reverse',
+      maxMemtableSizeMB: 0.001,
+      logLevel: 'error'
+    });
+
+    const fields = Object.fromEntries(Array.from({ length: 60 }, (_, i) => [`field:${i}`, i]));
+    await db.set('a', 1);
+    await db.hset('b', fields);
+    await db.set('c', 3);
+
+    expect(await collect(db.scan())).toEqual([
+      { key: 'c', value: 3 },
+      { key: 'b', value: fields, type: 'hash' },
+      { key: 'a', value: 1 }
+    ]);
+    expect(await db.hgetall('b')).toEqual(fields);
+    expect(await db.keys()).toHaveLength(3);
+
+    await db.close();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Server-side scripting tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapDB, ScriptError, ScriptNotFoundError, TimeoutError } from '../src';
+
+const TRANSFER = `([from, to], [amount]) => {
+  const balance = redis.call('GET', from) ?? 0;
+  if (balance < amount) {
+    return { ok: false, balance };
+  }
+  redis.call('SET', from, balance - amount);
+  redis.call('INCR', to);
+  return { ok: true, balance: balance - amount };
+}`;
+
+describe.each(['simple', 'lsm'] as const)('SnapDB scripting (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, scriptTimeoutMs: 200, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should run a script with keys and args against the store', async () => {
+    await db.set('alice', 10);
+
+    expect(await db.eval(TRANSFER, ['alice', 'bob'], [3])).toEqual({ ok: true, balance: 7 });
+    expect(await db.eval(TRANSFER, ['alice', 'bob'], [30])).toEqual({ ok: false, balance: 7 });
+    expect(await db.mget(['alice', 'bob'])).toEqual([7, 1]);
+
+    expect(await db.eval('() => undefined')).toBeNull();
+    expect(await db.eval(`() => redis.call('MGET', 'alice', 'missing')`)).toEqual([7, null]);
+    // Async functions work too
+    expect(await db.eval(`async ([key]) => (await redis.call('GET', key)) * 2`, ['alice'])).toBe(14);
+  });
+
+  it('should cache scripts by SHA1 and run them with evalsha', async () => {
+    const sha = await db.scriptLoad(TRANSFER);
+    expect(sha).toMatch(/^[0-9a-f]{40}$/);
+    expect(await db.scriptLoad(TRANSFER)).toBe(sha);
+
+    await db.set('alice', 5);
+    expect(await db.evalsha(sha, ['alice', 'bob'], [5])).toEqual({ ok: true, balance: 0 });
+
+    // eval caches the script too
+    await db.eval('() => 1');
+    expect(await db.scriptList()).toHaveLength(2);
+    expect(await db.scriptExists(sha, '0'.repeat(40))).toEqual([true, false]);
+
+    await db.scriptFlush();
+    expect(await db.scriptList()).toEqual([]);
+    await expect(db.evalsha(sha, ['alice', 'bob'], [1])).rejects.toThrow(ScriptNotFoundError);
+  });
+
+  it('should not let other commands interleave with a script', async () => {
+    await db.set('counter', 0);
+    const script = `([key]) => {
+      for (let i = 0; i < 20; i++) {
+        redis.call('SET', key, redis.call('GET', key) + 1);
+      }
+      return redis.call('GET', key);
+    }`;
+
+    const [first, , second] = await Promise.all([
+      db.eval(script, ['counter']),
+      db.incr('counter'),
+      db.eval(script, ['counter'])
+    ]);
+
+    expect(await db.get('counter')).toBe(41);
+    expect((second as number) - (first as number)).toBeGreaterThanOrEqual(20);
+    expect([20, 40, 41]).toContain(first);
+  });
+
+  it('should stop a script that runs past its CPU time limit', async () => {
+    const busy = `([key]) => {
+      redis.call('SET', key, 'started');
+      for (;;) {}
+    }`;
+
+    await expect(db.eval('() => { for (;;) {} }')).rejects.toThrow(TimeoutError);
+    await expect(db.eval('() => new Promise(() => {})')).rejects.toThrow(TimeoutError);
+    await expect(db.eval(busy, ['state'])).rejects.toThrow(TimeoutError);
+    expect(await db.get('state')).toBe('started');
+
+    // The database keeps serving commands afterwards
+    await db.set('after', 1);
+    expect(await db.get('after')).toBe(1);
+  });
+
+  it('should report script errors as ScriptError', async () => {
+    await expect(db.scriptLoad('() => {')).rejects.toThrow(ScriptError);
+    await expect(db.eval('42')).rejects.toThrow(/must be the source of a function/);
+    await expect(db.eval(`() => { throw new Error('boom'); }`)).rejects.toThrow(/boom/);
+    await expect(db.eval(`() => redis.call('NOPE', 'key')`)).rejects.toThrow(/Unknown command 'NOPE'/);
+
+    expect(await db.eval(`() => redis.pcall('NOPE', 'key')`)).toEqual({
+      err: "Unknown command 'NOPE' called from a script"
+    });
+  });
+
+  it('should keep scripts away from Node and from stored objects', async () => {
+    await db.set('profile', { name: 'snap' });
+
+    expect(await db.eval('() => typeof process + typeof require + typeof setTimeout')).toBe(
+      'undefinedundefinedundefined'
+    );
+    await expect(db.eval(`() => eval('1 + 1')`)).rejects.toThrow(ScriptError);
+
+    await db.eval(`([key]) => {
+      const profile = redis.call('GET', key);
+      profile.name = 'changed';
+    }`, ['profile']);
+    expect(await db.get('profile')).toEqual({ name: 'snap' });
+  });
+
+  it('should pass scripts through the middleware chain', async () => {
+    const seen: Array<[string, unknown]> = [];
+    db.use(async (context, next) => {
+      seen.push([context.command, context.keys]);
+      return next();
+    });
+
+    const sha = await db.scriptLoad('(keys) => keys.length');
+    expect(await db.evalsha(sha, ['a', 'b'])).toBe(2);
+
+    expect(seen).toEqual([
+      ['SCRIPTLOAD', undefined],
+      ['EVALSHA', ['a', 'b']]
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Set data type tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB, ValidationError, WrongTypeError } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB sets (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should add, check and remove members', async () => {
+    expect(await db.sadd('tags', 'red', 'green', 'red')).toBe(2);
+    expect(await db.sadd('tags', 'green', 'blue')).toBe(1);
+
+    expect((await db.smembers('tags')).sort()).toEqual(['blue', 'green', 'red']);
+    expect(await db.scard('tags')).toBe(3);
+    expect(await db.sismember('tags', 'red')).toBe(true);
+    expect(await db.sismember('tags', 'pink')).toBe(false);
+    expect(await db.smismember('tags', ['pink', 'blue'])).toEqual([false, true]);
+    expect(await db.type('tags')).toBe('set');
+
+    expect(await db.srem('tags', 'red', 'pink')).toBe(1);
+    expect(await db.srem('tags', 'green', 'blue')).toBe(2);
+    expect(await db.exists('tags')).toBe(false);
+
+    // Missing keys read as empty sets
+    expect(await db.smembers('tags')).toEqual([]);
+    expect(await db.scard('tags')).toBe(0);
+    expect(await db.srem('tags', 'red')).toBe(0);
+
+    await expect(db.sadd('tags')).rejects.toThrow(ValidationError);
+  });
+
+  it('should pop and sample random members', async () => {
+    await db.sadd('pool', 'a', 'b', 'c', 'd');
+
+    const sample = await db.srandmember('pool', 3);
+    expect(new Set(sample).size).toBe(3);
+    expect(await db.srandmember('pool', 10)).toHaveLength(4);
+    const repeated = await db.srandmember('pool', -10);
+    expect(repeated).toHaveLength(10);
+    expect(repeated.every(member => ['a', 'b', 'c', 'd'].includes(member))).toBe(true);
+    expect(await db.scard('pool')).toBe(4);
+
+    const one = await db.spop('pool');
+    expect(['a', 'b', 'c', 'd']).toContain(one);
+    expect(await db.sismember('pool', one!)).toBe(false);
+
+    const rest = await db.spop('pool', 10);
+    expect([one, ...rest].sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(await db.exists('pool')).toBe(false);
+    expect(await db.spop('pool')).toBeNull();
+    expect(await db.srandmember('pool')).toBeNull();
+    expect(await db.srandmember('pool', -3)).toEqual([]);
+
+    await expect(db.spop('pool', -1)).rejects.toThrow(ValidationError);
+  });
+
+  it('should combine sets', async () => {
+    await db.sadd('a', 'x', 'y', 'z');
+    await db.sadd('b', 'y', 'z', 'w');
+    await db.sadd('c', 'z');
+
+    expect((await db.sinter(['a', 'b'])).sort()).toEqual(['y', 'z']);
+    expect(await db.sinter(['a', 'b', 'c'])).toEqual(['z']);
+    expect(await db.sinter(['a', 'missing'])).toEqual([]);
+    expect((await db.sunion(['a', 'b', 'missing'])).sort()).toEqual(['w', 'x', 'y', 'z']);
+    expect(await db.sdiff(['a', 'b'])).toEqual(['x']);
+    expect((await db.sdiff(['a', 'missing'])).sort()).toEqual(['x', 'y', 'z']);
+    expect(await db.sdiff(['missing', 'a'])).toEqual([]);
+
+    await expect(db.sinter([])).rejects.toThrow(ValidationError);
+  });
+
+  it('should store combined sets, replacing the destination', async () => {
+    await db.sadd('a', 'x', 'y', 'z');
+    await db.sadd('b', 'y', 'z', 'w');
+    await db.set('dest', 'a string', 60000);
+
+    expect(await db.sinterstore('dest', ['a', 'b'])).toBe(2);
+    expect((await db.smembers('dest')).sort()).toEqual(['y', 'z']);
+    expect(await db.type('dest')).toBe('set');
+    expect(await db.ttl('dest')).toBe(-1);
+
+    expect(await db.sunionstore('dest', ['a', 'b'])).toBe(4);
+    expect(await db.sdiffstore('dest', ['b', 'a'])).toBe(1);
+    expect(await db.smembers('dest')).toEqual(['w']);
+
+    // The destination may be one of the sources
+    expect(await db.sunionstore('a', ['a', 'b'])).toBe(4);
+    expect(await db.scard('a')).toBe(4);
+
+    // An empty result deletes the destination
+    expect(await db.sinterstore('dest', ['b', 'missing'])).toBe(0);
+    expect(await db.exists('dest')).toBe(false);
+  });
+
+  it('should combine a large set with small ones', async () => {
+    const large = Array.from({ length: 2000 }, (_, i) => `m${i}`);
+    await db.sadd('large', ...large);
+    await db.sadd('small', 'm5', 'm1999', 'outside');
+    await db.sadd('other', 'm5', 'outside');
+
+    expect((await db.sinter(['large', 'small'])).sort()).toEqual(['m1999', 'm5']);
+    expect(await db.sinter(['large', 'small', 'other'])).toEqual(['m5']);
+    expect(await db.sdiff(['small', 'large'])).toEqual(['outside']);
+    expect(await db.sunion(['large', 'small'])).toHaveLength(2001);
+    expect(await db.sismember('large', 'm1234')).toBe(true);
+    expect(await db.smismember('large', ['m0', 'm2000'])).toEqual([true, false]);
+
+    // Replacing a large destination drops its old members
+    expect(await db.sinterstore('large', ['small', 'other'])).toBe(2);
+    expect((await db.smembers('large')).sort()).toEqual(['m5', 'outside']);
+  });
+
+  it('should keep what a snapshot saw of a set it changes', async () => {
+    await db.sadd('set:1', 'a', 'b');
+    const snapshot = await db.getSnapshot();
+    await db.sadd('set:1', 'c');
+    await db.srem('set:1', 'a');
+
+    const entries = [];
+    for await (const entry of snapshot.scan({ prefix: 'set:' })) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([{ key: 'set:1', value: ['a', 'b'], type: 'set' }]);
+    expect((await db.smembers('set:1')).sort()).toEqual(['b', 'c']);
+    snapshot.release();
+  });
+
+  it('should throw WRONGTYPE between sets and other types', async () => {
+    await db.set('plain', 'value');
+    await db.rpush('list', 'x');
+    await db.sadd('set', 'x');
+
+    await expect(db.sadd('plain', 'x')).rejects.toThrow(WrongTypeError);
+    await expect(db.smembers('list')).rejects.toThrow(WrongTypeError);
+    await expect(db.sinter(['set', 'list'])).rejects.toThrow(WrongTypeError);
+    await expect(db.sunionstore('dest', ['set', 'plain'])).rejects.toThrow(WrongTypeError);
+    await expect(db.get('set')).rejects.toThrow(WrongTypeError);
+    await expect(db.lpush('set', 'x')).rejects.toThrow(WrongTypeError);
+    expect(await db.exists('dest')).toBe(false);
+  });
+
+  it('should keep the expiry of a set across updates', async () => {
+    await db.sadd('online', 'ada');
+    await db.expire('online', 60000);
+    await db.sadd('online', 'grace');
+    await db.srem('online', 'ada');
+
+    expect(await db.ttl('online')).toBeGreaterThan(55);
+    expect(await db.smembers('online')).toEqual(['grace']);
+  });
+
+  it('should page through members with sscan', async () => {
+    const members = Array.from({ length: 25 }, (_, i) => `m${String(i).padStart(2, '0')}`);
+    await db.sadd('big', ...[...members].reverse());
+
+    const seen: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, page] = await db.sscan('big', cursor, { count: 10 });
+      seen.push(...page);
+      cursor = next;
+    } while (cursor !== '0');
+    expect(seen).toEqual(members);
+
+    expect(await db.sscan('big', 0, { match: 'm1?', count: 100 })).toEqual(['0', members.slice(10, 20)]);
+    expect(await db.sscan('missing', 0)).toEqual(['0', []]);
+    expect(await db.scan(0, { type: 'set' })).toEqual(['0', ['big']]);
+  });
+
+  it('should keep sets across memtable flushes', async () => {
+    await db.sadd('flushed', 'a', 'b');
+    for (let i = 0; i < 200; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+    while (((await db.info()).background?.immutableMemtables ?? 0) > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(await db.sadd('flushed', 'c')).toBe(1);
+    expect((await db.sunion(['flushed', 'missing'])).sort()).toEqual(['a', 'b', 'c']);
+    expect(await db.sinterstore('copy', ['flushed'])).toBe(3);
+  });
+
+  it('should run set commands from scripts', async () => {
+    const result = await db.eval(`([a, b, dest]) => {
+      redis.call('SADD', a, 'x', 'y');
+      redis.call('SADD', b, 'y', 'z');
+      return [
+        redis.call('SISMEMBER', a, 'x'),
+        redis.call('SINTER', a, b),
+        redis.call('SUNIONSTORE', dest, a, b),
+        redis.call('SCARD', dest)
+      ];
+    }`, ['sa', 'sb', 'sdest']);
+
+    expect(result).toEqual([true, ['y'], 3, 3]);
+  });
+
+  it('should keep members added while the set is given a TTL', async () => {
+    await db.sadd('tags', 'a');
+    await Promise.all([db.sadd('tags', 'b'), db.expire('tags', 60000)]);
+    expect((await db.smembers('tags')).sort()).toEqual(['a', 'b']);
+    expect(await db.scard('tags')).toBe(2);
+  });
+});
+
+describe('SnapDB sets durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should log only the members a write changes', async () => {
+    const walBytes = async () => {
+      const files = (await fs.readdir(dataDir)).filter(file => file.startsWith('wal-'));
+      const sizes = await Promise.all(files.map(async file => (await fs.stat(path.join(dataDir, file))).size));
+      return sizes.reduce((sum, size) => sum + size, 0);
+    };
+    const db = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    await db.sadd('big', ...Array.from({ length: 1000 }, (_, i) => `member:${i}:${'x'.repeat(20)}`));
+
+    const before = await walBytes();
+    for (let i = 0; i < 10; i++) {
+      await db.sadd('big', `new:${i}`);
+      await db.srem('big', `new:${i}`);
+    }
+    // The whole set is over 30 KB, so even one rewrite would show
+    expect((await walBytes()) - before).toBeLessThan(20 * 1024);
+    expect(await db.scard('big')).toBe(1000);
+    await db.close();
+
+    const reopened = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    expect(await reopened.scard('big')).toBe(1000);
+    expect(await reopened.sismember('big', `member:999:${'x'.repeat(20)}`)).toBe(true);
+    await reopened.close();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Read snapshot tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapDB } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB Read Snapshots (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should not see writes made after the snapshot was taken', async () => {
+    await db.set('user:1', 'John');
+    await db.set('user:2', 'Jane');
+
+    const snapshot = await db.getSnapshot();
+
+    await db.set('user:1', 'Johnny');
+    await db.del('user:2');
+    await db.set('user:3', 'Bob');
+
+    expect(await snapshot.get('user:1')).toBe('John');
+    expect(await snapshot.exists('user:2')).toBe(true);
+    expect(await snapshot.get('user:3')).toBeNull();
+    expect(await snapshot.mget(['user:1', 'user:2', 'user:3'])).toEqual(['John', 'Jane', null]);
+    expect((await snapshot.keys('user:*')).sort()).toEqual(['user:1', 'user:2']);
+
+    expect(await db.get('user:1')).toBe('Johnny');
+    expect((await db.keys('user:*')).sort()).toEqual(['user:1', 'user:3']);
+
+    snapshot.release();
+  });
+
+  it('should report TTLs as of the snapshot', async () => {
+    await db.set('session', 'token');
+    const snapshot = await db.getSnapshot();
+    await db.expire('session', 60000);
+
+    expect(await snapshot.ttl('session')).toBe(-1);
+    expect(await db.ttl('session')).toBeGreaterThan(0);
+
+    snapshot.release();
+  });
+
+  it('should advance the sequence with every write', async () => {
+    const before = await db.getSnapshot();
+    await db.set('key1', 'value1');
+    await db.del('key1');
+    const after = await db.getSnapshot();
+
+    expect(after.sequence).toBe(before.sequence + 2);
+
+    before.release();
+    after.release();
+  });
+
+  it('should reject reads after release', async () => {
+    await db.set('key1', 'value1');
+    const snapshot = await db.getSnapshot();
+    snapshot.release();
+
+    await expect(snapshot.get('key1')).rejects.toThrow(/released/);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Sorted set data type tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB, ClosedError, ValidationError, WrongTypeError } from '../src';
+import { StorageBackend } from '../src/types';
+import { SimpleStorage } from '../src/simple-storage/SimpleStorage';
+import { SortedSet } from '../src/worker/storage/SortedSet';
+import { StorageEngine } from '../src/worker/storage/StorageEngine';
+import { defaultSerializer } from '../src/utils/serializer';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB sorted sets (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should add, score, rank and remove members', async () => {
+    expect(await db.zadd('board', { ada: 30, grace: 10, linus: 20 })).toBe(3);
+    expect(await db.zadd('board', 15, 'grace')).toBe(0);
+    expect(await db.zadd('board', 5, 'ken')).toBe(1);
+
+    expect(await db.zrange('board', 0, -1)).toEqual(['ken', 'grace', 'linus', 'ada']);
+    expect(await db.zscore('board', 'grace')).toBe(15);
+    expect(await db.zscore('board', 'nobody')).toBeNull();
+    expect(await db.zcard('board')).toBe(4);
+    expect(await db.zrank('board', 'linus')).toBe(2);
+    expect(await db.zrevrank('board', 'linus')).toBe(1);
+    expect(await db.zrank('board', 'nobody')).toBeNull();
+    expect(await db.type('board')).toBe('zset');
+
+    expect(await db.zincrby('board', 100, 'ken')).toBe(105);
+    expect(await db.zincrby('board', 1.5, 'new')).toBe(1.5);
+    expect(await db.zrevrank('board', 'ken')).toBe(0);
+
+    expect(await db.zrem('board', 'ken', 'nobody')).toBe(1);
+    expect(await db.zrem('board', 'new', 'grace', 'linus', 'ada')).toBe(4);
+    expect(await db.exists('board')).toBe(false);
+    expect(await db.zcard('board')).toBe(0);
+    expect(await db.zrange('board', 0, -1)).toEqual([]);
+
+    await expect(db.zrem('board')).rejects.toThrow(ValidationError);
+    await expect(db.zadd('board', {})).rejects.toThrow(ValidationError);
+    await expect(db.zadd('board', Infinity, 'x')).rejects.toThrow(ValidationError);
+  });
+
+  it('should order equal scores by member', async () => {
+    await db.zadd('ties', { b: 1, c: 1, a: 1, z: 0 });
+
+    expect(await db.zrange('ties', 0, -1, { withScores: true })).toEqual([
+      ['z', 0],
+      ['a', 1],
+      ['b', 1],
+      ['c', 1]
+    ]);
+    expect(await db.zrank('ties', 'c')).toBe(3);
+  });
+
+  it('should apply zadd conditions', async () => {
+    await db.zadd('scores', { a: 10, b: 20 });
+
+    expect(await db.zadd('scores', { a: 1, c: 3 }, { nx: true })).toBe(1);
+    expect(await db.zscore('scores', 'a')).toBe(10);
+    expect(await db.zadd('scores', { a: 11, d: 4 }, { xx: true })).toBe(0);
+    expect(await db.zscore('scores', 'a')).toBe(11);
+    expect(await db.zscore('scores', 'd')).toBeNull();
+
+    // GT and LT only hold back updates, new members are still added
+    expect(await db.zadd('scores', { a: 5, b: 25, e: 1 }, { gt: true, ch: true })).toBe(2);
+    expect(await db.zscore('scores', 'a')).toBe(11);
+    expect(await db.zscore('scores', 'b')).toBe(25);
+    expect(await db.zadd('scores', { a: 5, b: 30 }, { lt: true, ch: true })).toBe(1);
+    expect(await db.zscore('scores', 'a')).toBe(5);
+
+    expect(await db.zadd('scores', 2, 'a', { incr: true })).toBe(7);
+    expect(await db.zadd('scores', 2, 'a', { incr: true, nx: true })).toBeNull();
+    expect(await db.zadd('scores', -10, 'a', { incr: true, gt: true })).toBeNull();
+    expect(await db.zscore('scores', 'a')).toBe(7);
+
+    await expect(db.zadd('scores', 1, 'a', { nx: true, xx: true })).rejects.toThrow(ValidationError);
+    await expect(db.zadd('scores', 1, 'a', { gt: true, lt: true })).rejects.toThrow(ValidationError);
+    await expect(db.zadd('scores', { a: 1, b: 2 }, { incr: true })).rejects.toThrow(ValidationError);
+  });
+
+  it('should range by rank, score and member', async () => {
+    await db.zadd('nums', { one: 1, two: 2, three: 3, four: 4, five: 5 });
+
+    expect(await db.zrange('nums', 1, 2)).toEqual(['two', 'three']);
+    expect(await db.zrange('nums', -2, -1)).toEqual(['four', 'five']);
+    expect(await db.zrange('nums', 0, 1, { rev: true })).toEqual(['five', 'four']);
+    expect(await db.zrange('nums', 3, 1)).toEqual([]);
+
+    expect(await db.zrange('nums', 2, 4, { by: 'score' })).toEqual(['two', 'three', 'four']);
+    expect(await db.zrange('nums', '(2', '+inf', { by: 'score', withScores: true })).toEqual([
+      ['three', 3],
+      ['four', 4],
+      ['five', 5]
+    ]);
+    expect(await db.zrange('nums', 4, '(1', { by: 'score', rev: true })).toEqual(['four', 'three', 'two']);
+    expect(await db.zrange('nums', '-inf', '+inf', { by: 'score', limit: { offset: 1, count: 2 } })).toEqual([
+      'two',
+      'three'
+    ]);
+    expect(
+      await db.zrange('nums', '+inf', '-inf', { by: 'score', rev: true, limit: { offset: 1, count: -1 } })
+    ).toEqual(['four', 'three', 'two', 'one']);
+    expect(await db.zcount('nums', '(1', 4)).toBe(3);
+    expect(await db.zcount('nums', 10, 20)).toBe(0);
+
+    await db.zadd('words', { apple: 0, banana: 0, cherry: 0, date: 0 });
+    expect(await db.zrange('words', '[b', '(d', { by: 'lex' })).toEqual(['banana', 'cherry']);
+    expect(await db.zrange('words', '-', '[banana', { by: 'lex' })).toEqual(['apple', 'banana']);
+    expect(await db.zrange('words', '+', '(banana', { by: 'lex', rev: true })).toEqual(['date', 'cherry']);
+    expect(await db.zrange('words', '-', '+', { by: 'lex', limit: { offset: 3, count: 5 } })).toEqual(['date']);
+
+    await expect(db.zrange('nums', 'x', 2, { by: 'score' })).rejects.toThrow(ValidationError);
+    await expect(db.zrange('words', 'b', '+', { by: 'lex' })).rejects.toThrow(ValidationError);
+    await expect(db.zrange('nums', 0, 1, { limit: { offset: 0, count: 1 } })).rejects.toThrow(ValidationError);
+  });
+
+  it('should store a range, replacing the destination', async () => {
+    await db.zadd('nums', { one: 1, two: 2, three: 3 });
+    await db.set('dest', 'a string', 60000);
+
+    expect(await db.zrangestore('dest', 'nums', 2, '+inf', { by: 'score' })).toBe(2);
+    expect(await db.zrange('dest', 0, -1, { withScores: true })).toEqual([
+      ['two', 2],
+      ['three', 3]
+    ]);
+    expect(await db.ttl('dest')).toBe(-1);
+
+    expect(await db.zrangestore('dest', 'nums', 10, 20)).toBe(0);
+    expect(await db.exists('dest')).toBe(false);
+  });
+
+  it('should pop the lowest and highest scores', async () => {
+    await db.zadd('queue', { low: 1, mid: 5, high: 9 });
+
+    expect(await db.zpopmin('queue')).toEqual(['low', 1]);
+    expect(await db.zpopmax('queue', 5)).toEqual([
+      ['high', 9],
+      ['mid', 5]
+    ]);
+    expect(await db.exists('queue')).toBe(false);
+    expect(await db.zpopmin('queue')).toBeNull();
+    expect(await db.zpopmax('queue', 2)).toEqual([]);
+
+    await expect(db.zpopmin('queue', -1)).rejects.toThrow(ValidationError);
+  });
+
+  it('should combine sorted sets with weights and aggregates', async () => {
+    await db.zadd('a', { x: 1, y: 2 });
+    await db.zadd('b', { y: 10, z: 20 });
+
+    expect(await db.zunionstore('out', ['a', 'b'])).toBe(3);
+    expect(await db.zrange('out', 0, -1, { withScores: true })).toEqual([
+      ['x', 1],
+      ['y', 12],
+      ['z', 20]
+    ]);
+
+    expect(await db.zunionstore('out', ['a', 'b', 'missing'], { weights: [2, 1, 5], aggregate: 'max' })).toBe(3);
+    expect(await db.zrange('out', 0, -1, { withScores: true })).toEqual([
+      ['x', 2],
+      ['y', 10],
+      ['z', 20]
+    ]);
+
+    expect(await db.zinterstore('out', ['a', 'b'], { aggregate: 'min' })).toBe(1);
+    expect(await db.zrange('out', 0, -1, { withScores: true })).toEqual([['y', 2]]);
+
+    // The destination may be one of the sources
+    expect(await db.zunionstore('a', ['a', 'b'], { weights: [10, 1] })).toBe(3);
+    expect(await db.zscore('a', 'y')).toBe(30);
+
+    // An empty result deletes the destination
+    expect(await db.zinterstore('out', ['b', 'missing'])).toBe(0);
+    expect(await db.exists('out')).toBe(false);
+
+    await expect(db.zunionstore('out', ['a', 'b'], { weights: [1] })).rejects.toThrow(ValidationError);
+    await expect(db.zunionstore('out', [])).rejects.toThrow(ValidationError);
+  });
+
+  it('should throw WRONGTYPE between sorted sets and other types', async () => {
+    await db.set('plain', 'value');
+    await db.sadd('set', 'x');
+    await db.zadd('zset', 1, 'x');
+
+    await expect(db.zadd('plain', 1, 'x')).rejects.toThrow(WrongTypeError);
+    await expect(db.zrange('set', 0, -1)).rejects.toThrow(WrongTypeError);
+    await expect(db.zunionstore('dest', ['zset', 'set'])).rejects.toThrow(WrongTypeError);
+    await expect(db.smembers('zset')).rejects.toThrow(WrongTypeError);
+    await expect(db.get('zset')).rejects.toThrow(WrongTypeError);
+    await expect(db.bzpopmin(['plain'], 10)).rejects.toThrow(WrongTypeError);
+    expect(await db.exists('dest')).toBe(false);
+  });
+
+  it('should keep the expiry of a sorted set across updates', async () => {
+    await db.zadd('online', 1, 'ada');
+    await db.expire('online', 60000);
+    await db.zadd('online', 2, 'grace');
+    await db.zincrby('online', 5, 'grace');
+    await db.zrem('online', 'ada');
+
+    expect(await db.ttl('online')).toBeGreaterThan(55);
+    expect(await db.zrange('online', 0, -1, { withScores: true })).toEqual([['grace', 7]]);
+  });
+
+  it('should wake a blocked bzpopmin when members are added', async () => {
+    await db.zadd('ready', 3, 'now');
+    expect(await db.bzpopmin(['empty', 'ready'], 1000)).toEqual(['ready', 'now', 3]);
+
+    const popped = db.bzpopmin(['tasks', 'urgent'], 0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(await db.zadd('urgent', { later: 9, sooner: 1 })).toBe(2);
+    expect(await popped).toEqual(['urgent', 'sooner', 1]);
+    expect(await db.zrange('urgent', 0, -1)).toEqual(['later']);
+
+    expect(await db.bzpopmin(['nothing'], 30)).toBeNull();
+    await expect(db.bzpopmin(['nothing'], -1)).rejects.toThrow(ValidationError);
+  });
+
+  it('should cancel a blocked bzpopmin on close', async () => {
+    const blocked = db.bzpopmin(['never'], 0);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await db.close();
+    await expect(blocked).rejects.toThrow(ClosedError);
+
+    // Leave afterEach a database to close
+    db = new SnapDB({ engine, logLevel: 'error' });
+  });
+
+  it('should page through members with zscan', async () => {
+    const members = Array.from({ length: 25 }, (_, i) => `m${String(i).padStart(2, '0')}`);
+    await db.zadd('big', Object.fromEntries(members.map((member, i) => [member, -i])));
+
+    const seen: Array<[string, number]> = [];
+    let cursor = '0';
+    do {
+      const [next, page] = await db.zscan('big', cursor, { count: 10 });
+      seen.push(...page);
+      cursor = next;
+    } while (cursor !== '0');
+    expect(seen).toEqual(members.map((member, i) => [member, -i]));
+
+    expect(await db.zscan('big', 0, { match: 'm1?', count: 100 })).toEqual(['0', seen.slice(10, 20)]);
+    expect(await db.zscan('missing', 0)).toEqual(['0', []]);
+    expect(await db.scan(0, { type: 'zset' })).toEqual(['0', ['big']]);
+  });
+
+  it('should keep sorted sets across memtable flushes', async () => {
+    await db.zadd('flushed', { a: 1, b: 2 });
+    for (let i = 0; i < 200; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+    while (((await db.info()).background?.immutableMemtables ?? 0) > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(await db.zrank('flushed', 'b')).toBe(1);
+    expect(await db.zadd('flushed', 0, 'c')).toBe(1);
+    expect(await db.zrange('flushed', 0, -1, { withScores: true })).toEqual([
+      ['c', 0],
+      ['a', 1],
+      ['b', 2]
+    ]);
+
+    const entries = [];
+    for await (const entry of db.scan({ prefix: 'flushed' })) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([{ key: 'flushed', value: [['c', 0], ['a', 1], ['b', 2]], type: 'zset' }]);
+  });
+
+  it('should run sorted set commands from scripts', async () => {
+    const result = await db.eval(`([key, other, dest]) => {
+      redis.call('ZADD', key, 1, 'a', 2, 'b', 3, 'c');
+      redis.call('ZADD', other, 'INCR', 10, 'b');
+      return [
+        redis.call('ZRANGE', key, '(1', '+inf', 'BYSCORE', 'WITHSCORES'),
+        redis.call('ZRANGE', key, 0, 0, 'REV'),
+        redis.call('ZINCRBY', key, 5, 'a'),
+        redis.call('ZUNIONSTORE', dest, 2, key, other, 'WEIGHTS', 1, 2, 'AGGREGATE', 'MAX'),
+        redis.call('ZPOPMIN', dest),
+        redis.call('ZCOUNT', dest, '-inf', '+inf')
+      ];
+    }`, ['script-z', 'script-other', 'script-dest']);
+
+    expect(result).toEqual([[['b', 2], ['c', 3]], ['c'], 6, 3, ['c', 3], 2]);
+  });
+
+  it('should keep members added while the sorted set is given a TTL', async () => {
+    await db.zadd('board', 1, 'a');
+    await Promise.all([db.zadd('board', 2, 'b'), db.expire('board', 60000)]);
+    expect(await db.zrange('board', 0, -1)).toEqual(['a', 'b']);
+    expect(await db.zcard('board')).toBe(2);
+  });
+});
+
+describe.each(['simple', 'lsm'] as const)('Sorted set storage (%s engine)', (engine) => {
+  let dataDir: string;
+  let storage: StorageBackend<string, any>;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+    storage =
+      engine === 'simple'
+        ? new SimpleStorage()
+        : new StorageEngine({
+            dataDir,
+            maxMemtableSizeMB: 4,
+            compactionIntervalMs: 60_000,
+            enableBloomFilter: true,
+            serializer: defaultSerializer,
+            walSyncPolicy: 'everysec'
+          });
+    await storage.open();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await storage.close();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should rank and range a large set without copying it on every write', async () => {
+    const members = Object.fromEntries(Array.from({ length: 5000 }, (_, i) => [`m${i}`, i]));
+    await storage.zadd('big', members, {});
+    const copies = [vi.spyOn(SortedSet.prototype, 'clone'), vi.spyOn(SortedSet, 'from')];
+
+    for (let i = 0; i < 100; i++) {
+      await storage.zincrby('big', 10_000, `m${i}`);
+      expect(await storage.zrank('big', `m${i}`)).toBe(4999);
+    }
+    expect(await storage.zrem('big', ['m100'])).toBe(1);
+    expect(await storage.zrange('big', 0, 2, {})).toEqual([['m101', 101], ['m102', 102], ['m103', 103]]);
+    expect(await storage.zrange('big', 0, 0, { rev: true })).toEqual([['m99', 10_099]]);
+    expect(await storage.zcount('big', 10_000, '+inf')).toBe(100);
+    expect(await storage.zcard('big')).toBe(4999);
+
+    for (const copy of copies) {
+      expect(copy).not.toHaveBeenCalled();
+    }
+  });
+});
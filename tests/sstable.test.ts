@@ -0,0 +1,131 @@
+/**
+ * SSTable file format tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SSTable } from '../src/worker/storage/SSTable';
+import { StorageEngineConfig } from '../src/worker/types';
+import { StorageEntry } from '../src/types';
+import { defaultSerializer } from '../src/utils/serializer';
+
+describe('SSTable', () => {
+  let dataDir: string;
+  let config: StorageEngineConfig;
+
+  const entries: StorageEntry[] = Array.from({ length: 500 }, (_, i) => ({
+    key: `user:${String(i).padStart(4, '0')}`,
+    value: { index: i },
+    timestamp: 1000 + i,
+    version: 1
+  }));
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-sst-'));
+    config = {
+      maxMemtableSizeMB: 1,
+      compactionIntervalMs: 60000,
+      enableBloomFilter: true,
+      serializer: defaultSerializer,
+      dataDir,
+      walSyncPolicy: 'never'
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should write a table file and read entries back', async () => {
+    const table = await SSTable.build(1, 0, entries, config);
+
+    expect(await table.findEntry('user:0000')).toMatchObject({ key: 'user:0000', value: { index: 0 } });
+    expect(await table.findEntry('user:0499')).toMatchObject({ value: { index: 499 }, timestamp: 1499 });
+    expect(await table.findEntry('user:0250')).toMatchObject({ value: { index: 250 } });
+    expect(await table.findEntry('user:9999')).toBeUndefined();
+    expect(await table.findEntry('aaa')).toBeUndefined();
+    expect(await table.getEntries()).toHaveLength(500);
+
+    await table.close();
+  });
+
+  it('should load metadata from the footer when reopened', async () => {
+    const built = await SSTable.build(7, 2, entries, config);
+    await built.close();
+
+    const table = await SSTable.open(7, 2, config);
+    const metadata = table.getMetadata();
+
+    expect(metadata.id).toBe(built.getId());
+    expect(metadata.minKey).toBe('user:0000');
+    expect(metadata.maxKey).toBe('user:0499');
+    expect(metadata.entries).toBe(500);
+    expect(metadata.size).toBe((await fs.stat(SSTable.pathFor(dataDir, 7))).size);
+    expect(metadata.bloomFilter?.numHashes).toBeGreaterThan(0);
+    expect(await table.findEntry('user:0123')).toMatchObject({ value: { index: 123 } });
+
+    await table.close();
+  });
+
+  it('should detect corrupted blocks', async () => {
+    const built = await SSTable.build(3, 0, entries, config);
+    await built.close();
+
+    const filePath = SSTable.pathFor(dataDir, 3);
+    const data = await fs.readFile(filePath);
+    data[10] = data[10]! ^ 0xff;
+    await fs.writeFile(filePath, data);
+
+    const table = await SSTable.open(3, 0, config);
+    await expect(table.findEntry('user:0000')).rejects.toThrow(/checksum/);
+    await table.close();
+  });
+
+  it('should reject files without the table magic', async () => {
+    await fs.writeFile(SSTable.pathFor(dataDir, 4), Buffer.alloc(128));
+    await expect(SSTable.open(4, 0, config)).rejects.toThrow(/magic/);
+  });
+
+  it('should keep tables in memory without a data directory', async () => {
+    const table = await SSTable.build(1, 0, entries, { ...config, dataDir: undefined });
+
+    expect(await table.findEntry('user:0042')).toMatchObject({ value: { index: 42 } });
+    expect(await fs.readdir(dataDir)).toHaveLength(0);
+  });
+
+  it.each(['deflate', 'gzip', 'brotli'] as const)('should compress blocks with %s', async (compression) => {
+    const raw = await SSTable.build(1, 0, entries, config);
+    const built = await SSTable.build(2, 0, entries, { ...config, compression });
+    await built.close();
+
+    const table = await SSTable.open(2, 0, { ...config, compression });
+    const metadata = table.getMetadata();
+
+    expect(metadata.compression).toBe(compression);
+    expect(metadata.compressionRatio).toBeGreaterThan(1);
+    expect(metadata.size).toBeLessThan(raw.getMetadata().size);
+    expect(raw.getMetadata()).toMatchObject({ compression: 'none', compressionRatio: 1 });
+    expect(await table.findEntry('user:0321')).toMatchObject({ value: { index: 321 } });
+    expect(await table.getEntries()).toHaveLength(500);
+
+    await raw.close();
+    await table.close();
+  });
+
+  it('should pick the compression of the level a table is written to', async () => {
+    const levelConfig: StorageEngineConfig = { ...config, compression: ['none', 'deflate', 'brotli'] };
+    const tables = await Promise.all([0, 1, 4].map(level => SSTable.build(level + 1, level, entries, levelConfig)));
+
+    expect(tables.map(table => table.getMetadata().compression)).toEqual(['none', 'deflate', 'brotli']);
+    await Promise.all(tables.map(table => table.close()));
+  });
+
+  it('should delete the file when destroyed', async () => {
+    const table = await SSTable.build(5, 0, entries, config);
+    await table.destroy();
+
+    await expect(fs.access(SSTable.pathFor(dataDir, 5))).rejects.toThrow();
+  });
+});
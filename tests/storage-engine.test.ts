@@ -0,0 +1,655 @@
+/**
+ * LSM storage engine tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB } from '../src';
+
+/**
+ * Wait for background flushes and compactions to finish
+ */
+async function settle(db: SnapDB<string, any>): Promise<void> {
+  for (;;) {
+    // Compaction is scheduled after the flush that triggers it
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const { background } = await db.info();
+    if (!background?.flushRunning && !background?.compactionRunning && !background?.immutableMemtables) {
+      return;
+    }
+  }
+}
+
+describe('SnapDB LSM Engine', () => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001, // ~1KB so a handful of writes trigger a flush
+      logLevel: 'error'
+    });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  async function writeMany(count: number, prefix = 'key'): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await db.set(`${prefix}:${String(i).padStart(4, '0')}`, { index: i, payload: 'x'.repeat(32) });
+    }
+  }
+
+  it('should flush the memtable to SSTables once it is full', async () => {
+    await writeMany(50);
+
+    const info = await db.info();
+    expect(info.sstables.length).toBeGreaterThan(0);
+    expect(info.totalKeys).toBe(50);
+  });
+
+  it('should read values back from flushed SSTables', async () => {
+    await writeMany(50);
+
+    expect(await db.get('key:0000')).toEqual({ index: 0, payload: 'x'.repeat(32) });
+    expect(await db.get('key:0049')).toEqual({ index: 49, payload: 'x'.repeat(32) });
+    expect(await db.exists('key:0010')).toBe(true);
+    expect(await db.get('missing')).toBeNull();
+  });
+
+  it('should return the newest version after overwrites across flushes', async () => {
+    await writeMany(50);
+    await db.set('key:0000', 'updated');
+    await writeMany(50, 'other');
+
+    expect(await db.get('key:0000')).toBe('updated');
+  });
+
+  it('should compact level 0 into level 1', async () => {
+    await writeMany(300);
+    await settle(db);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.sstables.some(table => table.level > 0)).toBe(true);
+    expect(info.totalKeys).toBe(300);
+    expect(await db.get('key:0123')).toEqual({ index: 123, payload: 'x'.repeat(32) });
+  });
+
+  it('should list keys across the memtable and SSTables', async () => {
+    await writeMany(40, 'user');
+    await writeMany(40, 'post');
+
+    const userKeys = await db.keys('user:*');
+    expect(userKeys).toHaveLength(40);
+    expect(new Set(userKeys).size).toBe(40);
+  });
+
+  it('should keep the elements of collections out of keys and scans', async () => {
+    await db.hset('profile', { name: 'snap', visits: 1 });
+    await writeMany(50);
+    await settle(db);
+
+    expect(await db.keys('p*')).toEqual(['profile']);
+    expect(await db.keys()).toHaveLength(51);
+    expect(await db.hgetall('profile')).toEqual({ name: 'snap', visits: 1 });
+    await expect(db.set('\u{10FFFF}key', 1)).rejects.toThrow(/U\+10FFFF/);
+  });
+
+  it('should apply expire to keys that live in SSTables', async () => {
+    await writeMany(50);
+
+    expect(await db.expire('key:0001', 5000)).toBe(true);
+    const ttl = await db.ttl('key:0001');
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(5);
+  });
+
+  it('should not resurrect deleted keys from SSTables', async () => {
+    await writeMany(50);
+
+    expect(await db.del('key:0000')).toBe(true);
+    expect(await db.get('key:0000')).toBeNull();
+    expect(await db.exists('key:0000')).toBe(false);
+    expect(await db.ttl('key:0000')).toBe(-2);
+    expect(await db.keys('key:*')).toHaveLength(49);
+
+    // Flush the tombstone itself into an SSTable
+    await writeMany(50, 'other');
+    expect(await db.get('key:0000')).toBeNull();
+    expect(await db.keys('key:*')).toHaveLength(49);
+    expect(await db.del('key:0000')).toBe(false);
+  });
+
+  it('should keep versions visible to a snapshot through flush and compaction', async () => {
+    await db.set('pinned', 'old');
+    await db.set('deleted', 'present');
+    const snapshot = await db.getSnapshot();
+
+    await db.set('pinned', 'new');
+    await db.del('deleted');
+    await writeMany(300);
+    await settle(db);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.activeSnapshots).toBe(1);
+
+    expect(await snapshot.get('pinned')).toBe('old');
+    expect(await snapshot.get('deleted')).toBe('present');
+    expect(await snapshot.get('key:0000')).toBeNull();
+    expect(await db.get('pinned')).toBe('new');
+    expect(await db.get('deleted')).toBeNull();
+
+    snapshot.release();
+    expect((await db.info()).activeSnapshots).toBe(0);
+  });
+
+  it('should keep running compaction totals alongside the recent compactions', async () => {
+    await writeMany(300);
+    await settle(db);
+
+    const { compactionStats, compactionTotals } = await db.info();
+    expect(compactionStats.length).toBeGreaterThan(0);
+    expect(compactionStats.length).toBeLessThanOrEqual(100);
+    expect(compactionTotals!.compactions).toBeGreaterThanOrEqual(compactionStats.length);
+    expect(compactionTotals!.entriesCompacted).toBeGreaterThanOrEqual(
+      compactionStats.reduce((sum, stats) => sum + stats.entriesCompacted, 0)
+    );
+
+    await db.flushall();
+    expect((await db.info()).compactionTotals!.compactions).toBe(0);
+  });
+
+  it('should drop tombstones once compaction reaches the bottommost level', async () => {
+    await writeMany(50);
+    for (let i = 0; i < 10; i++) {
+      await db.del(`key:${String(i).padStart(4, '0')}`);
+    }
+    await writeMany(300, 'other');
+    await settle(db);
+
+    const info = await db.info();
+    const dropped = info.compactionStats.reduce((sum, stats) => sum + stats.entriesDropped, 0);
+    // Each deleted key loses both its value and its tombstone
+    expect(dropped).toBeGreaterThanOrEqual(20);
+    expect(await db.get('key:0000')).toBeNull();
+    expect(await db.keys('key:*')).toHaveLength(40);
+  });
+});
+
+describe('SnapDB LSM Engine durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  function open(): SnapDB<string, any> {
+    return new SnapDB({ engine: 'lsm', dataDir, walSyncPolicy: 'always', logLevel: 'error' });
+  }
+
+  it('should replay the WAL into the memtable on restart', async () => {
+    const db = open();
+    await db.set('user:1', { name: 'John' });
+    await db.set('user:2', 'Jane');
+    await db.set('session', 'token', 60000);
+    await db.del('user:2');
+    await db.close();
+
+    const reopened = open();
+    expect(await reopened.get('user:1')).toEqual({ name: 'John' });
+    expect(await reopened.get('user:2')).toBeNull();
+    expect(await reopened.ttl('session')).toBeGreaterThan(50);
+    await reopened.close();
+  });
+
+  it('should replay an expire onto what the key holds', async () => {
+    const db = open();
+    await db.set('user:1', { name: 'John' });
+    await db.expire('user:1', 60000);
+    await db.rpush('list', 'a', 'b');
+    await db.expire('list', 60000);
+    await db.close();
+
+    const reopened = open();
+    expect(await reopened.get('user:1')).toEqual({ name: 'John' });
+    expect(await reopened.ttl('user:1')).toBeGreaterThan(50);
+    expect(await reopened.lrange('list', 0, -1)).toEqual(['a', 'b']);
+    expect(await reopened.ttl('list')).toBeGreaterThan(50);
+    await reopened.close();
+  });
+
+  it('should keep deletes of flushed keys across restarts', async () => {
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    for (let i = 0; i < 50; i++) {
+      await db.set(`key:${i}`, i);
+    }
+    await db.del('key:1');
+    for (let i = 0; i < 50; i++) {
+      await db.set(`other:${i}`, i);
+    }
+    await db.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    expect(await reopened.get('key:1')).toBeNull();
+    expect(await reopened.get('key:2')).toBe(2);
+    await reopened.close();
+  });
+
+  it('should continue the sequence after a restart', async () => {
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    for (let i = 0; i < 50; i++) {
+      await db.set(`key:${i}`, i);
+    }
+    const { lastSequence } = await db.info();
+    await db.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    expect((await reopened.info()).lastSequence).toBe(lastSequence);
+
+    const snapshot = await reopened.getSnapshot();
+    await reopened.set('key:0', 'updated');
+    expect(await snapshot.get('key:0')).toBe(0);
+    expect(await reopened.get('key:0')).toBe('updated');
+    snapshot.release();
+    await reopened.close();
+  });
+
+  it('should skip a torn final record instead of failing', async () => {
+    const db = open();
+    await db.set('key1', 'value1');
+    await db.set('key2', 'value2');
+    await db.close();
+
+    const [segment] = (await fs.readdir(dataDir)).filter(file => file.endsWith('.log')).sort().reverse();
+    const segmentPath = path.join(dataDir, segment!);
+    const data = await fs.readFile(segmentPath);
+    // Chop the last record in half as if the process died mid-write
+    await fs.writeFile(segmentPath, data.subarray(0, data.length - 5));
+
+    const reopened = open();
+    expect(await reopened.get('key1')).toBe('value1');
+    expect(await reopened.get('key2')).toBeNull();
+
+    await reopened.set('key3', 'value3');
+    await reopened.close();
+
+    const again = open();
+    expect(await again.get('key1')).toBe('value1');
+    expect(await again.get('key3')).toBe('value3');
+    await again.close();
+  });
+
+  it('should recover a write batch whole or not at all', async () => {
+    const db = open();
+    await db.set('before', 1);
+    await db.batch().set('a', 1).set('b', 2).del('before').write();
+    await db.close();
+
+    const reopened = open();
+    expect(await reopened.mget(['a', 'b', 'before'])).toEqual([1, 2, null]);
+    expect((await reopened.info()).lastSequence).toBe(4);
+    await reopened.batch().set('c', 3).set('d', 4).write();
+    await reopened.close();
+
+    const [segment] = (await fs.readdir(dataDir)).filter(file => file.endsWith('.log')).sort().reverse();
+    const segmentPath = path.join(dataDir, segment!);
+    const data = await fs.readFile(segmentPath);
+    await fs.writeFile(segmentPath, data.subarray(0, data.length - 5));
+
+    const torn = open();
+    expect(await torn.mget(['a', 'c', 'd'])).toEqual([1, null, null]);
+    await torn.close();
+  });
+
+  it('should remove WAL segments covered by a flushed memtable', async () => {
+    const db = new SnapDB({ engine: 'lsm', dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+    for (let i = 0; i < 50; i++) {
+      await db.set(`key:${i}`, 'x'.repeat(32));
+    }
+
+    const segments = (await fs.readdir(dataDir)).filter(file => file.endsWith('.log'));
+    expect(segments.length).toBeLessThanOrEqual(2);
+    await db.close();
+  });
+
+  it('should reopen flushed and compacted SSTables from the manifest', async () => {
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    for (let i = 0; i < 300; i++) {
+      await db.set(`key:${String(i).padStart(4, '0')}`, i);
+    }
+    await settle(db);
+    const before = await db.info();
+    await db.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    const after = await reopened.info();
+
+    expect(after.sstables.map(t => t.id).sort()).toEqual(before.sstables.map(t => t.id).sort());
+    expect(after.totalKeys).toBe(300);
+    expect(await reopened.get('key:0000')).toBe(0);
+    expect(await reopened.get('key:0299')).toBe(299);
+    await reopened.close();
+  });
+
+  it('should compress tables with the type configured for their level', async () => {
+    const config = {
+      engine: 'lsm' as const,
+      dataDir,
+      maxMemtableSizeMB: 0.001,
+      compression: ['none', 'brotli'] as Array<'none' | 'brotli'>,
+      logLevel: 'error' as const
+    };
+    const db = new SnapDB<string, any>(config);
+    for (let i = 0; i < 300; i++) {
+      await db.set(`key:${String(i).padStart(4, '0')}`, { index: i, payload: 'x'.repeat(32) });
+    }
+    await settle(db);
+    const { sstables } = await db.info();
+    await db.close();
+
+    const deeper = sstables.filter(table => table.level > 0);
+    expect(deeper.length).toBeGreaterThan(0);
+    expect(deeper.every(table => table.compression === 'brotli' && table.compressionRatio > 1)).toBe(true);
+    expect(sstables.filter(table => table.level === 0).every(table => table.compression === 'none')).toBe(true);
+
+    const reopened = new SnapDB<string, any>(config);
+    expect(await reopened.get('key:0123')).toEqual({ index: 123, payload: 'x'.repeat(32) });
+    expect(await reopened.keys('key:*')).toHaveLength(300);
+    await reopened.close();
+  });
+
+  it('should garbage-collect files the manifest does not reference', async () => {
+    const db = open();
+    await db.set('key1', 'value1');
+    await db.close();
+
+    await fs.writeFile(path.join(dataDir, '000999.sst'), 'orphan');
+    await fs.writeFile(path.join(dataDir, '001000.sst.tmp'), 'partial');
+
+    const reopened = open();
+    expect(await reopened.get('key1')).toBe('value1');
+
+    const files = await fs.readdir(dataDir);
+    expect(files).not.toContain('000999.sst');
+    expect(files).not.toContain('001000.sst.tmp');
+    expect(files.filter(file => file.startsWith('MANIFEST-'))).toHaveLength(1);
+    await reopened.close();
+  });
+
+  it('should refuse to reopen a database under a different comparator', async () => {
+    const config = { engine: 'lsm' as const, dataDir, comparator: 'numeric' as const, logLevel: 'error' as const };
+    const db = new SnapDB<string, any>(config);
+    await db.set('item:10', 10);
+    await db.set('item:9', 9);
+    await db.close();
+
+    const mismatched = open();
+    await expect(mismatched.get('item:9')).rejects.toThrow(/comparator snapdb.NumericComparator/);
+    await mismatched.close();
+
+    const reopened = new SnapDB<string, any>(config);
+    expect(await reopened.keys('item:*')).toHaveLength(2);
+    await reopened.close();
+  });
+});
+
+describe('SnapDB LSM compaction strategies', () => {
+  const payload = 'x'.repeat(32);
+
+  async function writeMany(db: SnapDB<string, any>, count: number, prefix = 'key'): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await db.set(`${prefix}:${String(i).padStart(4, '0')}`, { index: i, payload });
+    }
+    await settle(db);
+  }
+
+  it('should use leveled compaction by default', async () => {
+    const db = new SnapDB<string, any>({ engine: 'lsm', maxMemtableSizeMB: 0.001, logLevel: 'error' });
+    await writeMany(db, 300);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.compactionStats.every(stats => stats.strategy === 'leveled')).toBe(true);
+    expect(info.sstables.some(table => table.level > 0)).toBe(true);
+    await db.close();
+  });
+
+  it('should merge sorted runs within L0 with universal compaction', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      compaction: { strategy: 'universal' },
+      logLevel: 'error'
+    });
+    await writeMany(db, 300);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.compactionStats.every(stats => stats.strategy === 'universal')).toBe(true);
+    expect(info.sstables.every(table => table.level === 0)).toBe(true);
+    expect(info.sstables.length).toBeLessThan(4);
+    expect(info.totalKeys).toBe(300);
+    expect(await db.get('key:0123')).toEqual({ index: 123, payload });
+    await db.close();
+  });
+
+  it('should drop the oldest tables with FIFO compaction', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      compaction: { strategy: 'fifo', maxTableFilesSizeBytes: 4096 },
+      logLevel: 'error'
+    });
+    await writeMany(db, 300);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.compactionStats.every(stats => stats.outputFiles === 0)).toBe(true);
+    expect(info.sstables.reduce((sum, table) => sum + table.size, 0)).toBeLessThanOrEqual(4096);
+    expect(await db.get('key:0000')).toBeNull();
+    expect(await db.get('key:0299')).toEqual({ index: 299, payload });
+    await db.close();
+  });
+
+  it('should run a custom strategy', async () => {
+    const picks: number[] = [];
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      compaction: {
+        strategy: {
+          name: 'everything-to-l6',
+          pick(levels) {
+            if (levels[0]!.length < 2) return undefined;
+            picks.push(levels[0]!.length);
+            return { inputs: levels.flat().map(table => table.id), outputLevel: 6 };
+          }
+        }
+      },
+      logLevel: 'error'
+    });
+    await writeMany(db, 100);
+
+    const info = await db.info();
+    expect(picks.length).toBeGreaterThan(0);
+    expect(info.compactionStats.every(stats => stats.strategy === 'everything-to-l6')).toBe(true);
+    expect(info.sstables.every(table => table.level === 0 || table.level === 6)).toBe(true);
+    expect(info.totalKeys).toBe(100);
+    await db.close();
+  });
+});
+
+describe('SnapDB LSM background work', () => {
+  const key = (i: number) => `key:${String(i).padStart(4, '0')}`;
+
+  async function writeMany(db: SnapDB<string, any>, count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await db.set(key(i), { index: i, payload: 'x'.repeat(32) });
+    }
+  }
+
+  it('should stop writes while too many memtables wait to be flushed', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      maxImmutableMemtables: 1,
+      logLevel: 'error'
+    });
+    await writeMany(db, 200);
+    await settle(db);
+
+    const info = await db.info();
+    expect(info.background?.writeStops).toBeGreaterThan(0);
+    expect(info.totalKeys).toBe(200);
+    await db.close();
+  });
+
+  it('should slow down and then stop writes as L0 grows', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      compaction: {
+        level0FileNumCompactionTrigger: 2,
+        level0SlowdownWritesTrigger: 2,
+        level0StopWritesTrigger: 3
+      },
+      logLevel: 'error'
+    });
+    await writeMany(db, 300);
+    await settle(db);
+
+    const info = await db.info();
+    const background = info.background!;
+    expect(background.writeSlowdowns + background.writeStops).toBeGreaterThan(0);
+    expect(info.sstables.filter(table => table.level === 0).length).toBeLessThan(3);
+    expect(info.totalKeys).toBe(300);
+    expect(await db.get(key(123))).toEqual({ index: 123, payload: 'x'.repeat(32) });
+    await db.close();
+  });
+
+  it('should compact on the request thread when the worker thread is disabled', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      maxMemtableSizeMB: 0.001,
+      compaction: { useWorkerThread: false },
+      logLevel: 'error'
+    });
+    await writeMany(db, 300);
+    await settle(db);
+
+    const info = await db.info();
+    expect(info.compactionStats.length).toBeGreaterThan(0);
+    expect(info.compactionStats.some(stats => stats.offThread)).toBe(false);
+    expect(info.totalKeys).toBe(300);
+    await db.close();
+  });
+
+  it('should merge tables on the worker thread by default', async () => {
+    const db = new SnapDB<string, any>({ engine: 'lsm', maxMemtableSizeMB: 0.001, logLevel: 'error' });
+    await writeMany(db, 300);
+    await settle(db);
+
+    const merges = (await db.info()).compactionStats.filter(stats => stats.inputFiles > 0 && stats.outputFiles > 0);
+    expect(merges.length).toBeGreaterThan(0);
+    expect(merges.every(stats => stats.offThread)).toBe(true);
+    await db.close();
+  });
+
+  it('should keep compacted tables on disk with the worker thread', async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+    const config = { engine: 'lsm' as const, dataDir, maxMemtableSizeMB: 0.001, logLevel: 'error' as const };
+
+    try {
+      const db = new SnapDB<string, any>(config);
+      await writeMany(db, 300);
+      await settle(db);
+      const info = await db.info();
+      expect(info.sstables.some(table => table.level > 0)).toBe(true);
+      expect(info.compactionStats.some(stats => stats.offThread)).toBe(true);
+      await db.close();
+
+      const reopened = new SnapDB<string, any>(config);
+      expect(await reopened.get(key(0))).toEqual({ index: 0, payload: 'x'.repeat(32) });
+      expect(await reopened.keys('key:*')).toHaveLength(300);
+      await reopened.close();
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SnapDB LSM caches', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  const key = (i: number) => `key:${String(i).padStart(4, '0')}`;
+
+  it('should serve repeated reads from the block cache', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      dataDir,
+      maxMemtableSizeMB: 0.001,
+      compaction: { useWorkerThread: false },
+      logLevel: 'error'
+    });
+    for (let i = 0; i < 100; i++) {
+      await db.set(key(i), { index: i });
+    }
+    await settle(db);
+
+    expect(await db.get(key(1))).toEqual({ index: 1 });
+    const before = (await db.info()).blockCache!;
+    expect(await db.get(key(1))).toEqual({ index: 1 });
+    const after = (await db.info()).blockCache!;
+
+    expect(after.hits).toBeGreaterThan(before.hits);
+    expect(after.blocks).toBeGreaterThan(0);
+    expect(after.usage).toBeLessThanOrEqual(after.capacity);
+    await db.close();
+  });
+
+  it('should keep at most maxOpenFiles table files open', async () => {
+    const db = new SnapDB<string, any>({
+      engine: 'lsm',
+      dataDir,
+      maxMemtableSizeMB: 0.001,
+      maxOpenFiles: 2,
+      compaction: { strategy: 'universal', level0FileNumCompactionTrigger: 100 },
+      logLevel: 'error'
+    });
+    for (let i = 0; i < 200; i++) {
+      await db.set(key(i), { index: i });
+    }
+    await settle(db);
+    expect((await db.info()).sstables.length).toBeGreaterThan(2);
+
+    for (let i = 0; i < 200; i += 7) {
+      expect(await db.get(key(i))).toEqual({ index: i });
+    }
+
+    const { tableCache } = await db.info();
+    expect(tableCache!.capacity).toBe(2);
+    expect(tableCache!.openFiles).toBeLessThanOrEqual(2);
+    expect(tableCache!.misses).toBeGreaterThan(2);
+    await db.close();
+  });
+});
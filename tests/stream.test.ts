@@ -0,0 +1,411 @@
+/**
+ * Stream data type tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  SnapDB,
+  BusyGroupError,
+  ClosedError,
+  KeyNotFoundError,
+  NoGroupError,
+  ValidationError,
+  WrongTypeError
+} from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB streams (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should add entries with generated and explicit IDs', async () => {
+    const before = Date.now();
+    const first = await db.xadd('events', { type: 'click' });
+    const [ms, seq] = first.split('-').map(Number);
+    expect(ms).toBeGreaterThanOrEqual(before);
+    expect(seq).toBe(0);
+
+    // Later entries get greater IDs even within the same millisecond
+    const second = await db.xadd('events', { type: 'view' });
+    expect((await db.xrange('events')).map(([id]) => id)).toEqual([first, second]);
+    expect(await db.type('events')).toBe('stream');
+
+    expect(await db.xadd('log', { n: 1 }, { id: '5-1' })).toBe('5-1');
+    expect(await db.xadd('log', { n: 2 }, { id: '5-*' })).toBe('5-2');
+    expect(await db.xadd('log', { n: 3 }, { id: '7' })).toBe('7-0');
+    await expect(db.xadd('log', { n: 4 }, { id: '6-0' })).rejects.toThrow(ValidationError);
+    await expect(db.xadd('log', { n: 4 }, { id: '7-0' })).rejects.toThrow(ValidationError);
+    await expect(db.xadd('fresh', { n: 1 }, { id: '0-0' })).rejects.toThrow(ValidationError);
+    await expect(db.xadd('log', { n: 4 }, { id: 'soon' })).rejects.toThrow(ValidationError);
+    await expect(db.xadd('log', {})).rejects.toThrow(ValidationError);
+
+    expect(await db.xadd('missing', { n: 1 }, { noMkStream: true })).toBeNull();
+    expect(await db.exists('missing')).toBe(false);
+  });
+
+  it('should range over entries in both directions', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await db.xadd('s', { i }, { id: `${i}-0` });
+    }
+    await db.xadd('s', { i: 6 }, { id: '5-1' });
+
+    expect(await db.xrange('s', '2', '3')).toEqual([['2-0', { i: 2 }], ['3-0', { i: 3 }]]);
+    expect((await db.xrange('s', '(2-0', '5')).map(([id]) => id)).toEqual(['3-0', '4-0', '5-0', '5-1']);
+    expect((await db.xrange('s', '-', '+', 2)).map(([id]) => id)).toEqual(['1-0', '2-0']);
+    expect((await db.xrevrange('s', '+', '-', 2)).map(([id]) => id)).toEqual(['5-1', '5-0']);
+    expect((await db.xrevrange('s', '(5-0', '3')).map(([id]) => id)).toEqual(['4-0', '3-0']);
+    expect(await db.xrange('s', '4', '2')).toEqual([]);
+    expect(await db.xrange('missing')).toEqual([]);
+
+    await expect(db.xrange('s', '-', '+', 0)).rejects.toThrow(ValidationError);
+  });
+
+  it('should trim by length and by ID', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await db.xadd('capped', { i }, { id: `${i}-0`, maxLen: 3 });
+    }
+    expect((await db.xrange('capped')).map(([id]) => id)).toEqual(['3-0', '4-0', '5-0']);
+
+    await db.xadd('capped', { i: 6 }, { id: '6-0', minId: '5' });
+    expect((await db.xrange('capped')).map(([id]) => id)).toEqual(['5-0', '6-0']);
+
+    // A stream outlives its entries, keeping its last ID
+    await db.xadd('capped', { i: 7 }, { id: '7-0', maxLen: 0 });
+    expect(await db.xrange('capped')).toEqual([]);
+    expect(await db.xinfoStream('capped')).toEqual({
+      length: 0,
+      lastGeneratedId: '7-0',
+      entriesAdded: 7,
+      groups: 0,
+      firstEntry: null,
+      lastEntry: null
+    });
+    await expect(db.xadd('capped', { i: 8 }, { id: '7-0' })).rejects.toThrow(ValidationError);
+
+    await expect(db.xadd('capped', { i: 8 }, { maxLen: 1, minId: '1' })).rejects.toThrow(ValidationError);
+    await expect(db.xadd('capped', { i: 8 }, { maxLen: -1 })).rejects.toThrow(ValidationError);
+  });
+
+  it('should read entries after IDs from several streams', async () => {
+    await db.xadd('a', { n: 1 }, { id: '1-0' });
+    await db.xadd('a', { n: 2 }, { id: '2-0' });
+    await db.xadd('b', { n: 3 }, { id: '3-0' });
+
+    expect(await db.xread([['a', '1-0'], ['b', '0'], ['c', '0']])).toEqual([
+      ['a', [['2-0', { n: 2 }]]],
+      ['b', [['3-0', { n: 3 }]]]
+    ]);
+    expect(await db.xread([['a', '0'], ['b', '0']], { count: 1 })).toEqual([
+      ['a', [['1-0', { n: 1 }]]],
+      ['b', [['3-0', { n: 3 }]]]
+    ]);
+    expect(await db.xread([['a', '2-0'], ['b', '$']])).toBeNull();
+
+    await expect(db.xread([])).rejects.toThrow(ValidationError);
+    await expect(db.xread([['a', '>']])).rejects.toThrow(ValidationError);
+  });
+
+  it('should wake a blocked xread when an entry is added', async () => {
+    await db.xadd('feed', { n: 1 }, { id: '1-0' });
+
+    // '$' only counts entries added after the read starts
+    const first = db.xread([['feed', '$']], { timeoutMs: 0 });
+    const second = db.xread([['other', '0'], ['feed', '$']], { timeoutMs: 1000 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await db.xadd('feed', { n: 2 }, { id: '2-0' });
+
+    // Every reader sees the entry, unlike a pop
+    expect(await first).toEqual([['feed', [['2-0', { n: 2 }]]]]);
+    expect(await second).toEqual([['feed', [['2-0', { n: 2 }]]]]);
+
+    expect(await db.xread([['feed', '1-0']], { timeoutMs: 1000 })).toEqual([['feed', [['2-0', { n: 2 }]]]]);
+    expect(await db.xread([['feed', '$']], { timeoutMs: 30 })).toBeNull();
+    await expect(db.xread([['feed', '$']], { timeoutMs: -1 })).rejects.toThrow(ValidationError);
+  });
+
+  it('should deliver entries to the consumers of a group once', async () => {
+    await db.xadd('jobs', { task: 'a' }, { id: '1-0' });
+    await db.xgroupCreate('jobs', 'workers', '0');
+    await db.xadd('jobs', { task: 'b' }, { id: '2-0' });
+    await db.xadd('jobs', { task: 'c' }, { id: '3-0' });
+
+    expect(await db.xreadgroup('workers', 'alice', [['jobs', '>']], { count: 2 })).toEqual([
+      ['jobs', [['1-0', { task: 'a' }], ['2-0', { task: 'b' }]]]
+    ]);
+    expect(await db.xreadgroup('workers', 'bob', [['jobs', '>']])).toEqual([['jobs', [['3-0', { task: 'c' }]]]]);
+    expect(await db.xreadgroup('workers', 'bob', [['jobs', '>']])).toBeNull();
+
+    // Another ID reads the consumer's own pending entries
+    expect(await db.xreadgroup('workers', 'alice', [['jobs', '0']])).toEqual([
+      ['jobs', [['1-0', { task: 'a' }], ['2-0', { task: 'b' }]]]
+    ]);
+    expect(await db.xreadgroup('workers', 'carol', [['jobs', '0']])).toEqual([['jobs', []]]);
+
+    expect(await db.xack('jobs', 'workers', '1-0', '3-0', '9-0')).toBe(2);
+    expect(await db.xack('jobs', 'workers', '1-0')).toBe(0);
+    expect(await db.xreadgroup('workers', 'alice', [['jobs', '0']])).toEqual([['jobs', [['2-0', { task: 'b' }]]]]);
+    expect(await db.xack('jobs', 'nobody', '2-0')).toBe(0);
+
+    // A group created at '$' starts after the last entry
+    await db.xgroupCreate('jobs', 'late');
+    expect(await db.xreadgroup('late', 'dave', [['jobs', '>']])).toBeNull();
+
+    // noAck delivers without adding to the pending list
+    await db.xgroupCreate('jobs', 'fire-and-forget', '0');
+    expect(await db.xreadgroup('fire-and-forget', 'erin', [['jobs', '>']], { noAck: true })).toHaveLength(1);
+    expect((await db.xpending('jobs', 'fire-and-forget')).count).toBe(0);
+  });
+
+  it('should manage consumer groups', async () => {
+    await expect(db.xgroupCreate('nowhere', 'g')).rejects.toThrow(KeyNotFoundError);
+    await db.xgroupCreate('nowhere', 'g', '$', { mkStream: true });
+    expect(await db.xinfoStream('nowhere')).toMatchObject({ length: 0, lastGeneratedId: '0-0', groups: 1 });
+    await expect(db.xgroupCreate('nowhere', 'g')).rejects.toThrow(BusyGroupError);
+
+    await expect(db.xreadgroup('missing', 'c', [['nowhere', '>']])).rejects.toThrow(NoGroupError);
+    await expect(db.xpending('nowhere', 'missing')).rejects.toThrow(NoGroupError);
+    await expect(db.xreadgroup('g', '', [['nowhere', '>']])).rejects.toThrow(ValidationError);
+
+    await db.xadd('nowhere', { n: 1 }, { id: '1-0' });
+    await db.xreadgroup('g', 'c1', [['nowhere', '>']]);
+    expect(await db.xinfoGroups('nowhere')).toEqual([
+      { name: 'g', consumers: 1, pending: 1, lastDeliveredId: '1-0' }
+    ]);
+    const [consumer] = await db.xinfoConsumers('nowhere', 'g');
+    expect(consumer).toMatchObject({ name: 'c1', pending: 1 });
+    expect(consumer!.idleMs).toBeGreaterThanOrEqual(0);
+
+    expect(await db.xinfoStream('absent')).toBeNull();
+    expect(await db.xinfoGroups('absent')).toEqual([]);
+  });
+
+  it('should summarize and list pending entries', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await db.xadd('q', { i }, { id: `${i}-0` });
+    }
+    await db.xgroupCreate('q', 'g', '0');
+    await db.xreadgroup('g', 'alice', [['q', '>']], { count: 3 });
+    await db.xreadgroup('g', 'bob', [['q', '>']]);
+
+    expect(await db.xpending('q', 'g')).toEqual({
+      count: 4,
+      lowestId: '1-0',
+      highestId: '4-0',
+      consumers: [['alice', 3], ['bob', 1]]
+    });
+
+    const listed = await db.xpending('q', 'g', { start: '2', end: '+', count: 10 });
+    expect(listed.map(({ id, consumer, deliveries }) => [id, consumer, deliveries])).toEqual([
+      ['2-0', 'alice', 1],
+      ['3-0', 'alice', 1],
+      ['4-0', 'bob', 1]
+    ]);
+    expect((await db.xpending('q', 'g', { count: 10, consumer: 'bob' })).map(({ id }) => id)).toEqual(['4-0']);
+    expect(await db.xpending('q', 'g', { count: 10, minIdleMs: 60000 })).toEqual([]);
+    expect(await db.xpending('q', 'g', { count: 1 })).toHaveLength(1);
+  });
+
+  it('should claim idle pending entries', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await db.xadd('q', { i }, { id: `${i}-0` });
+    }
+    await db.xgroupCreate('q', 'g', '0');
+    await db.xreadgroup('g', 'alice', [['q', '>']]);
+
+    // Entries delivered just now are not idle long enough
+    expect(await db.xclaim('q', 'g', 'bob', 60000, ['1-0'])).toEqual([]);
+    // Leave a wide margin, so 1-0 still counts as just claimed below on a busy machine
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    expect(await db.xclaim('q', 'g', 'bob', 200, ['1-0', '9-0'])).toEqual([['1-0', { i: 1 }]]);
+    const [claimed] = await db.xpending('q', 'g', { start: '1-0', end: '1-0', count: 1 });
+    expect(claimed).toMatchObject({ consumer: 'bob', deliveries: 2 });
+
+    // Trimmed entries leave the pending list when found
+    await db.xadd('q', { i: 5 }, { id: '5-0', minId: '3' });
+    expect(await db.xautoclaim('q', 'g', 'carol', 200, '0-0', { count: 2 })).toEqual([
+      '4-0',
+      [['3-0', { i: 3 }]],
+      ['2-0']
+    ]);
+    expect(await db.xautoclaim('q', 'g', 'carol', 200, '4-0')).toEqual(['0-0', [['4-0', { i: 4 }]], []]);
+    expect((await db.xpending('q', 'g')).consumers).toEqual([['bob', 1], ['carol', 2]]);
+
+    await expect(db.xclaim('q', 'g', 'bob', -1, ['1-0'])).rejects.toThrow(ValidationError);
+    await expect(db.xclaim('q', 'g', 'bob', 0, [])).rejects.toThrow(ValidationError);
+  });
+
+  it('should wake a blocked xreadgroup when an entry is added', async () => {
+    await db.xgroupCreate('inbox', 'g', '$', { mkStream: true });
+
+    const alice = db.xreadgroup('g', 'alice', [['inbox', '>']], { timeoutMs: 0 });
+    const bob = db.xreadgroup('g', 'bob', [['inbox', '>']], { timeoutMs: 0 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await db.xadd('inbox', { n: 1 }, { id: '1-0' });
+    await db.xadd('inbox', { n: 2 }, { id: '2-0' });
+
+    // Each entry goes to one consumer, the longest waiting first
+    expect(await alice).toEqual([['inbox', [['1-0', { n: 1 }]]]]);
+    expect(await bob).toEqual([['inbox', [['2-0', { n: 2 }]]]]);
+    expect(await db.xreadgroup('g', 'carol', [['inbox', '>']], { timeoutMs: 30 })).toBeNull();
+  });
+
+  it('should cancel a blocked xread on close', async () => {
+    const blocked = db.xread([['never', '$']], { timeoutMs: 0 });
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await db.close();
+    await expect(blocked).rejects.toThrow(ClosedError);
+
+    // Leave afterEach a database to close
+    db = new SnapDB({ engine, logLevel: 'error' });
+  });
+
+  it('should keep what a snapshot saw of a stream it changes', async () => {
+    await db.xadd('stream:1', { n: 1 }, { id: '1-0' });
+    await db.xgroupCreate('stream:1', 'g', '0');
+    const snapshot = await db.getSnapshot();
+    await db.xadd('stream:1', { n: 2 }, { id: '2-0', maxLen: 1 });
+    await db.xreadgroup('g', 'c', [['stream:1', '>']]);
+
+    const entries = [];
+    for await (const entry of snapshot.scan({ prefix: 'stream:' })) {
+      entries.push(entry);
+    }
+    const group = { name: 'g', lastDeliveredId: '0-0', consumers: [], pending: 0, pendingEntries: [] };
+    expect(entries).toEqual([
+      {
+        key: 'stream:1',
+        value: { entries: [['1-0', { n: 1 }]], lastId: '1-0', entriesAdded: 1, groups: [group] },
+        type: 'stream'
+      }
+    ]);
+    expect(await db.xrange('stream:1')).toEqual([['2-0', { n: 2 }]]);
+    expect((await db.xpending('stream:1', 'g')).count).toBe(1);
+    snapshot.release();
+  });
+
+  it('should throw WRONGTYPE between streams and other types', async () => {
+    await db.set('plain', 'value');
+    await db.xadd('stream', { n: 1 });
+
+    await expect(db.xadd('plain', { n: 1 })).rejects.toThrow(WrongTypeError);
+    await expect(db.xrange('plain')).rejects.toThrow(WrongTypeError);
+    await expect(db.xread([['stream', '0'], ['plain', '0']])).rejects.toThrow(WrongTypeError);
+    await expect(db.xread([['plain', '$']], { timeoutMs: 10 })).rejects.toThrow(WrongTypeError);
+    await expect(db.hgetall('stream')).rejects.toThrow(WrongTypeError);
+    await expect(db.get('stream')).rejects.toThrow(WrongTypeError);
+  });
+
+  it('should keep streams and groups across memtable flushes', async () => {
+    await db.xadd('flushed', { n: 1 }, { id: '1-0' });
+    await db.xgroupCreate('flushed', 'g', '0');
+    await db.xreadgroup('g', 'c', [['flushed', '>']]);
+    for (let i = 0; i < 200; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+    while (((await db.info()).background?.immutableMemtables ?? 0) > 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    expect(await db.xadd('flushed', { n: 2 })).not.toBe('1-0');
+    expect(await db.xreadgroup('g', 'c', [['flushed', '>']])).toHaveLength(1);
+    expect(await db.xack('flushed', 'g', '1-0')).toBe(1);
+    expect((await db.xpending('flushed', 'g')).count).toBe(1);
+  });
+
+  it('should run stream commands from scripts', async () => {
+    const result = await db.eval(`([key]) => {
+      redis.call('XADD', key, 'MAXLEN', '~', 2, '1-0', 'n', 1);
+      redis.call('XADD', key, 'MAXLEN', 2, '2-0', 'n', 2);
+      redis.call('XADD', key, 'MAXLEN', 2, '3-0', 'n', 3);
+      redis.call('XGROUP', 'CREATE', key, 'g', '0');
+      return [
+        redis.call('XRANGE', key, '-', '+', 'COUNT', 1),
+        redis.call('XREVRANGE', key, '+', '-'),
+        redis.call('XREAD', 'COUNT', 1, 'STREAMS', key, '2-0'),
+        redis.call('XREADGROUP', 'GROUP', 'g', 'c', 'STREAMS', key, '>'),
+        redis.call('XACK', key, 'g', '2-0'),
+        redis.call('XPENDING', key, 'g').count,
+        redis.call('XINFO', 'STREAM', key).length
+      ];
+    }`, ['script-stream']);
+
+    expect(result).toEqual([
+      [['2-0', { n: 2 }]],
+      [['3-0', { n: 3 }], ['2-0', { n: 2 }]],
+      [['script-stream', [['3-0', { n: 3 }]]]],
+      [['script-stream', [['2-0', { n: 2 }], ['3-0', { n: 3 }]]]],
+      1,
+      1,
+      2
+    ]);
+
+    await expect(db.eval(`([key]) => redis.call('XREAD', 'BLOCK', 0, 'STREAMS', key, '$')`, ['s'])).rejects.toThrow(
+      /BLOCK/
+    );
+  });
+
+  it('should keep entries added while the stream is given a TTL', async () => {
+    await db.xadd('events', { n: 1 }, { id: '1-0' });
+    await Promise.all([db.xadd('events', { n: 2 }, { id: '2-0' }), db.expire('events', 60000)]);
+    expect(await db.xrange('events')).toEqual([['1-0', { n: 1 }], ['2-0', { n: 2 }]]);
+    expect((await db.xinfoStream('events'))?.length).toBe(2);
+  });
+});
+
+describe('SnapDB streams durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should log only the entries and pending entries a write changes', async () => {
+    const walBytes = async () => {
+      const files = (await fs.readdir(dataDir)).filter(file => file.startsWith('wal-'));
+      const sizes = await Promise.all(files.map(async file => (await fs.stat(path.join(dataDir, file))).size));
+      return sizes.reduce((sum, size) => sum + size, 0);
+    };
+    const db = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    for (let i = 1; i <= 500; i++) {
+      await db.xadd('big', { payload: 'x'.repeat(40) }, { id: `${i}-0` });
+    }
+    await db.xgroupCreate('big', 'g', '0');
+    await db.xreadgroup('g', 'c', [['big', '>']], { count: 500 });
+
+    const before = await walBytes();
+    for (let i = 501; i <= 510; i++) {
+      await db.xadd('big', { n: i }, { id: `${i}-0`, maxLen: 500 });
+      await db.xreadgroup('g', 'c', [['big', '>']]);
+      await db.xack('big', 'g', `${i}-0`);
+    }
+    // The entries and pending entries are over 40 KB, so even one rewrite would show
+    expect((await walBytes()) - before).toBeLessThan(20 * 1024);
+    await db.close();
+
+    const reopened = new SnapDB<string, any>({ engine: 'lsm', dataDir, logLevel: 'error' });
+    expect(await reopened.xinfoStream('big')).toMatchObject({ length: 500, entriesAdded: 510 });
+    expect(await reopened.xrange('big', '-', '+', 1)).toEqual([['11-0', { payload: 'x'.repeat(40) }]]);
+    expect(await reopened.xpending('big', 'g')).toEqual({
+      count: 500,
+      lowestId: '1-0',
+      highestId: '500-0',
+      consumers: [['c', 500]]
+    });
+    await reopened.close();
+  });
+});
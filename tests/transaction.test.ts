@@ -0,0 +1,152 @@
+/**
+ * MULTI/EXEC transaction tests for SnapDBJS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SnapDB } from '../src';
+
+describe.each(['simple', 'lsm'] as const)('SnapDB Transactions (%s engine)', (engine) => {
+  let db: SnapDB<string, any>;
+
+  beforeEach(() => {
+    db = new SnapDB({ engine, maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should run queued commands in order and return their results', async () => {
+    await db.set('counter', 10);
+
+    const results = await db
+      .multi()
+      .incr('counter')
+      .set('name', 'snap')
+      .get('name')
+      .del('name')
+      .exists('name')
+      .mget(['counter', 'missing'])
+      .exec();
+
+    expect(results).toEqual([11, undefined, 'snap', true, false, [11, null]]);
+  });
+
+  it('should return a failed command error in place of its result', async () => {
+    const results = await db.multi().set('a', 1).expire('a', -1).get('a').exec();
+
+    expect(results![1]).toBeInstanceOf(Error);
+    expect((results![1] as Error).message).toMatch(/TTL must be positive/);
+    expect(results![2]).toBe(1);
+  });
+
+  it('should abort when a watched key changes before exec', async () => {
+    await db.set('balance', 100);
+
+    const transaction = db.multi();
+    await transaction.watch('balance');
+    const balance = (await db.get('balance')) as number;
+    transaction.set('balance', balance - 30).set('log', 'withdrew 30');
+
+    await db.set('balance', 50);
+
+    expect(await transaction.exec()).toBeNull();
+    expect(await db.get('balance')).toBe(50);
+    expect(await db.get('log')).toBeNull();
+  });
+
+  it('should notice a watched key deleted and written again', async () => {
+    await db.set('key', 'value');
+
+    const transaction = db.multi();
+    await transaction.watch('key', 'absent');
+    await db.del('key');
+    await db.set('key', 'value');
+
+    expect(await transaction.set('key', 'mine').exec()).toBeNull();
+    expect(await db.get('key')).toBe('value');
+  });
+
+  it('should commit when watched keys are untouched, even across flushes', async () => {
+    await db.set('key', 'value');
+
+    const transaction = db.multi();
+    await transaction.watch('key', 'absent');
+    // Enough other writes to push the watched key out to an SSTable
+    for (let i = 0; i < 100; i++) {
+      await db.set(`filler:${i}`, 'x'.repeat(32));
+    }
+
+    expect(await transaction.set('key', 'mine').exec()).toEqual([undefined]);
+    expect(await db.get('key')).toBe('mine');
+  });
+
+  it('should keep other commands from seeing a partial transaction', async () => {
+    const transaction = db.multi();
+    for (let i = 0; i < 20; i++) {
+      transaction.set(`key:${i}`, i);
+    }
+
+    const executed = transaction.exec();
+    const seen = await db.mget(['key:0', 'key:19']);
+    await executed;
+
+    expect(seen).toEqual([0, 19]);
+  });
+
+  it('should keep range scans from seeing a partial transaction', async () => {
+    const transaction = db.multi();
+    for (let i = 0; i < 20; i++) {
+      transaction.set(`key:${i}`, i);
+    }
+
+    const scan = db.scan({ prefix: 'key:' })[Symbol.asyncIterator]();
+    const [first] = await Promise.all([scan.next(), transaction.exec()]);
+    const seen = first.done ? [] : [first.value.key];
+    for (let next = await scan.next(); !next.done; next = await scan.next()) {
+      seen.push(next.value.key);
+    }
+
+    expect([0, 20]).toContain(seen.length);
+  });
+
+  it('should retry optimistic read-modify-write cycles until they commit', async () => {
+    await db.set('counter', 0);
+
+    const increment = async () => {
+      for (;;) {
+        const transaction = db.multi();
+        await transaction.watch('counter');
+        const value = (await db.get('counter')) as number;
+        if (await transaction.set('counter', value + 1).exec()) {
+          return;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: 5 }, increment));
+    expect(await db.get('counter')).toBe(5);
+  });
+
+  it('should pass queued commands through the middleware chain', async () => {
+    const commands: string[] = [];
+    db.use(async (ctx, next) => {
+      commands.push(ctx.command);
+      return next();
+    });
+
+    await db.multi().set('a', 1).incr('a').get('a').exec();
+    expect(commands).toEqual(['SET', 'INCR', 'GET']);
+  });
+
+  it('should refuse to run twice or after discard', async () => {
+    const transaction = db.multi().set('a', 1);
+    await transaction.exec();
+    await expect(transaction.exec()).rejects.toThrow(/already been executed/);
+
+    const discarded = db.multi().set('b', 1);
+    discarded.discard();
+    expect(() => discarded.set('c', 1)).toThrow(/already been executed or discarded/);
+    expect(await db.exists('b')).toBe(false);
+  });
+});
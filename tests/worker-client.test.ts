@@ -0,0 +1,252 @@
+/**
+ * Worker client tests for SnapDBJS. The same commands run against the client
+ * that serves them from a worker thread and the in-process engines, which
+ * must agree.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapDB, ISnapDB, SnapDBConfig, WrongTypeError, VersionConflictError } from '../src';
+import { SnapDB as WorkerSnapDB } from '../src/client/SnapDB';
+
+const clients = {
+  simple: (config: SnapDBConfig) => new SnapDB<string, any>({ ...config, engine: 'simple' }),
+  lsm: (config: SnapDBConfig) => new SnapDB<string, any>({ ...config, engine: 'lsm' }),
+  worker: (config: SnapDBConfig) => new WorkerSnapDB<string, any>(config)
+};
+
+describe.each(['simple', 'lsm', 'worker'] as const)('SnapDB clients (%s)', (client) => {
+  let db: ISnapDB<string, any>;
+
+  beforeEach(() => {
+    db = clients[client]({ maxMemtableSizeMB: 0.001, logLevel: 'error' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should run string, counter and TTL commands', async () => {
+    await db.set('name', 'snap');
+    await db.mset([{ key: 'a', value: 1 }, { key: 'b', value: { nested: [1, 2] } }]);
+
+    expect(await db.get('name')).toBe('snap');
+    expect(await db.mget(['a', 'b', 'missing'])).toEqual([1, { nested: [1, 2] }, null]);
+    expect(await db.exists('a')).toBe(true);
+    expect(await db.incr('counter')).toBe(1);
+    expect(await db.decr('counter')).toBe(0);
+    expect(await db.expire('name', 60_000)).toBe(true);
+    expect(await db.ttl('name')).toBeGreaterThan(0);
+    expect(await db.del('a')).toBe(true);
+    expect((await db.keys()).sort()).toEqual(['b', 'counter', 'name']);
+    expect(await db.type('b')).toBe('string');
+  });
+
+  it('should apply batches and transactions whole', async () => {
+    await db.batch().set('x', 1).set('y', 2).del('x').write();
+    expect(await db.mget(['x', 'y'])).toEqual([null, 2]);
+
+    const results = await db.multi().incr('y').get('y').exec();
+    expect(results).toEqual([3, 3]);
+  });
+
+  it('should write only while the version matches', async () => {
+    await db.set('key', 'first');
+    const { version } = (await db.getWithMeta('key'))!;
+
+    const next = await db.setIfVersion('key', 'second', version);
+    await expect(db.setIfVersion('key', 'third', version)).rejects.toBeInstanceOf(VersionConflictError);
+    expect(await db.delIfVersion('key', next)).toBe(true);
+    expect(await db.get('key')).toBeNull();
+  });
+
+  it('should run and cache scripts', async () => {
+    const sha = await db.scriptLoad("([key]) => redis.call('INCR', key)");
+
+    expect(await db.eval("([key], [value]) => redis.call('SET', key, value)", ['k'], ['v'])).toBeNull();
+    expect(await db.get('k')).toBe('v');
+    expect(await db.evalsha(sha, ['counter'])).toBe(1);
+    expect(await db.scriptExists(sha, 'missing')).toEqual([true, false]);
+    expect((await db.scriptList()).map(info => info.sha)).toContain(sha);
+    await db.scriptFlush();
+    expect(await db.scriptExists(sha)).toEqual([false]);
+  });
+
+  it('should run hash commands', async () => {
+    expect(await db.hset('user', { name: 'ada', age: 36 })).toBe(2);
+    expect(await db.hget('user', 'name')).toBe('ada');
+    expect(await db.hmget('user', ['name', 'missing'])).toEqual(['ada', null]);
+    expect(await db.hincrby('user', 'age', 1)).toBe(37);
+    expect(await db.hincrbyfloat('user', 'score', 1.5)).toBe(1.5);
+    expect(await db.hexists('user', 'age')).toBe(true);
+    expect(await db.hlen('user')).toBe(3);
+    expect((await db.hkeys('user')).sort()).toEqual(['age', 'name', 'score']);
+    expect(await db.hdel('user', 'score')).toBe(1);
+    expect(await db.hgetall('user')).toEqual({ name: 'ada', age: 37 });
+    expect((await db.hvals('user')).sort()).toEqual([37, 'ada'].sort());
+    expect((await db.hscan('user', 0))[1]).toHaveLength(2);
+    expect(await db.type('user')).toBe('hash');
+  });
+
+  it('should keep error classes for wrong types', async () => {
+    await db.set('plain', 'value');
+
+    await expect(db.hget('plain', 'field')).rejects.toBeInstanceOf(WrongTypeError);
+    await expect(db.lpush('plain', 'x')).rejects.toBeInstanceOf(WrongTypeError);
+  });
+
+  it('should run list commands', async () => {
+    expect(await db.rpush('list', 'a', 'b', 'c')).toBe(3);
+    expect(await db.lpush('list', 'z')).toBe(4);
+    expect(await db.lrange('list', 0, -1)).toEqual(['z', 'a', 'b', 'c']);
+    expect(await db.lindex('list', 1)).toBe('a');
+    await db.lset('list', 1, 'A');
+    expect(await db.linsert('list', 'after', 'A', 'a2')).toBe(5);
+    expect(await db.lrem('list', 1, 'a2')).toBe(1);
+    await db.ltrim('list', 0, 2);
+    expect(await db.llen('list')).toBe(3);
+    expect(await db.lpop('list')).toBe('z');
+    expect(await db.rpop('list', 2)).toEqual(['b', 'A']);
+    await db.rpush('source', 'x');
+    expect(await db.lmove('source', 'destination', 'left', 'right')).toBe('x');
+    expect(await db.lrange('destination', 0, -1)).toEqual(['x']);
+  });
+
+  it('should wake blocked pops when values arrive', async () => {
+    const popped = db.blpop(['queue'], 5000);
+    const moved = db.blmove('jobs', 'done', 'left', 'right', 5000);
+    await db.rpush('queue', 'first');
+    await db.rpush('jobs', 'job');
+
+    expect(await popped).toEqual(['queue', 'first']);
+    expect(await moved).toBe('job');
+    expect(await db.brpop(['empty'], 50)).toBeNull();
+  });
+
+  it('should run set commands', async () => {
+    expect(await db.sadd('s1', 'a', 'b', 'c')).toBe(3);
+    await db.sadd('s2', 'b', 'c', 'd');
+
+    expect(await db.sismember('s1', 'a')).toBe(true);
+    expect(await db.smismember('s1', ['a', 'd'])).toEqual([true, false]);
+    expect(await db.scard('s1')).toBe(3);
+    expect((await db.sinter(['s1', 's2'])).sort()).toEqual(['b', 'c']);
+    expect((await db.sunion(['s1', 's2'])).sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(await db.sdiff(['s1', 's2'])).toEqual(['a']);
+    expect(await db.sinterstore('both', ['s1', 's2'])).toBe(2);
+    expect(await db.sunionstore('either', ['s1', 's2'])).toBe(4);
+    expect(await db.sdiffstore('only', ['s1', 's2'])).toBe(1);
+    expect(await db.srem('s1', 'a')).toBe(1);
+    expect((await db.smembers('s1')).sort()).toEqual(['b', 'c']);
+    expect(['b', 'c']).toContain(await db.srandmember('s1'));
+    expect(await db.spop('s1', 2)).toHaveLength(2);
+    expect((await db.sscan('s2', 0))[1].sort()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should run sorted set commands', async () => {
+    expect(await db.zadd('board', { ada: 3, bob: 1, cy: 2 })).toBe(3);
+
+    expect(await db.zscore('board', 'ada')).toBe(3);
+    expect(await db.zincrby('board', 2, 'bob')).toBe(3);
+    expect(await db.zcard('board')).toBe(3);
+    expect(await db.zrank('board', 'cy')).toBe(0);
+    expect(await db.zrevrank('board', 'cy')).toBe(2);
+    expect(await db.zrange('board', 0, -1)).toEqual(['cy', 'ada', 'bob']);
+    expect(await db.zrange('board', 0, 0, { withScores: true })).toEqual([['cy', 2]]);
+    expect(await db.zcount('board', 2, 3)).toBe(3);
+    expect(await db.zrangestore('top', 'board', 0, 1)).toBe(2);
+    expect(await db.zunionstore('sum', ['board', 'top'])).toBe(3);
+    expect(await db.zinterstore('common', ['board', 'top'])).toBe(2);
+    expect(await db.zpopmin('board')).toEqual(['cy', 2]);
+    expect(await db.zpopmax('board', 1)).toEqual([['bob', 3]]);
+    expect(await db.zrem('board', 'ada')).toBe(1);
+    expect((await db.zscan('sum', 0))[1]).toHaveLength(3);
+    expect(await db.bzpopmin(['top'], 1000)).toEqual(['top', 'cy', 2]);
+  });
+
+  it('should run stream and consumer group commands', async () => {
+    await db.xadd('jobs', { task: 'a' }, { id: '1-0' });
+    await db.xadd('jobs', { task: 'b' }, { id: '2-0' });
+
+    expect(await db.xrange('jobs')).toEqual([['1-0', { task: 'a' }], ['2-0', { task: 'b' }]]);
+    expect(await db.xrevrange('jobs', '+', '-', 1)).toEqual([['2-0', { task: 'b' }]]);
+    expect(await db.xread([['jobs', '1-0']])).toEqual([['jobs', [['2-0', { task: 'b' }]]]]);
+
+    await db.xgroupCreate('jobs', 'workers', '0');
+    expect(await db.xreadgroup('workers', 'alice', [['jobs', '>']], { count: 1 })).toEqual([
+      ['jobs', [['1-0', { task: 'a' }]]]
+    ]);
+    expect((await db.xpending('jobs', 'workers')).count).toBe(1);
+    expect(await db.xclaim('jobs', 'workers', 'bob', 0, ['1-0'])).toEqual([['1-0', { task: 'a' }]]);
+    expect((await db.xautoclaim('jobs', 'workers', 'alice', 0, '0-0'))[1]).toHaveLength(1);
+    expect(await db.xack('jobs', 'workers', '1-0')).toBe(1);
+    expect((await db.xinfoStream('jobs'))!.length).toBe(2);
+    expect((await db.xinfoGroups('jobs'))[0]!.name).toBe('workers');
+    expect((await db.xinfoConsumers('jobs', 'workers')).map(consumer => consumer.name).sort()).toEqual([
+      'alice',
+      'bob'
+    ]);
+  });
+
+  it('should scan ranges and cursors', async () => {
+    for (let i = 0; i < 150; i++) {
+      await db.set(`key:${String(i).padStart(3, '0')}`, i);
+    }
+    await db.hset('hash', { field: 1 });
+
+    const entries = [];
+    for await (const entry of db.scan({ prefix: 'key:', gte: 'key:020' })) {
+      entries.push(entry);
+    }
+    expect(entries).toHaveLength(130);
+    expect(entries[0]).toEqual({ key: 'key:020', value: 20 });
+
+    const [, hashes] = await db.scan(0, { count: 1000, type: 'hash' });
+    expect(hashes).toEqual(['hash']);
+  });
+
+  it('should report stats and clear everything on flushall', async () => {
+    await db.set('a', 1);
+
+    expect(await db.info()).toHaveProperty('compactionStats');
+    await db.flushall();
+    expect(await db.keys()).toEqual([]);
+  });
+});
+
+describe('SnapDB worker client durability', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapdb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should keep what was written across a close and reopen', async () => {
+    const config = { dataDir, walSyncPolicy: 'always' as const, logLevel: 'error' as const };
+    const db = new WorkerSnapDB<string, any>(config);
+    await db.set('key', 'value');
+    await db.rpush('list', 'a', 'b');
+    await db.close();
+
+    const reopened = new WorkerSnapDB<string, any>(config);
+    expect(await reopened.get('key')).toBe('value');
+    expect(await reopened.lrange('list', 0, -1)).toEqual(['a', 'b']);
+    await reopened.close();
+  });
+
+  it('should refuse a comparator that cannot cross to the worker', async () => {
+    const db = new WorkerSnapDB<string, any>({
+      comparator: { name: 'custom', compare: (a, b) => a.localeCompare(b) },
+      logLevel: 'error'
+    });
+
+    await expect(db.get('key')).rejects.toThrow('comparator by name');
+    await db.close();
+  });
+});
@@ -18,6 +18,7 @@ export default defineConfig({
       ]
     },
     include: ['tests/**/*.test.ts', 'tests/**/*.spec.ts'],
+    globalSetup: ['tests/global-setup.ts'],
     testTimeout: 10000,
     poolOptions: {
       threads: {